@@ -14,7 +14,7 @@ import {
 import { Analytics } from '@vercel/analytics/react'
 import { SpeedInsights } from '@vercel/speed-insights/react'
 
-import { useState, useCallback, useEffect, useRef } from 'react'
+import { useState, useCallback, useEffect, useMemo, useRef } from 'react'
 import { useSentryPerformance } from './hooks/useSentryPerformance'
 import {
   trackAudioAnalysisPerformance,
@@ -31,11 +31,29 @@ import { MemoryMonitor } from './components/MemoryMonitor'
 import { CacheStats } from './components/CacheStats'
 import { DebugInfo } from './components/DebugInfo'
 import { SentryTest } from './components/SentryTest'
+import { BatchQueueDisplay } from './components/BatchQueueDisplay'
+import { GenreProfileSelector } from './components/GenreProfileSelector'
+import { BPMRangeSelector } from './components/BPMRangeSelector'
+import { PlaybackControls } from './components/PlaybackControls'
+import { ReferenceDrone } from './components/ReferenceDrone'
+import { RegionAnalysis } from './components/RegionAnalysis'
+import { LiveAnalysis } from './components/LiveAnalysis'
 import { useFileUpload } from './hooks/useFileUpload'
 import { useAudioProcessor } from './hooks/useAudioProcessor'
 import { useAudioProcessingRetry } from './hooks/useRetry'
+import { useBatchAnalysis } from './hooks/useBatchAnalysis'
+import { usePlayback } from './hooks/usePlayback'
+import { useReferenceDrone } from './hooks/useReferenceDrone'
+import { useRegionAnalysis } from './hooks/useRegionAnalysis'
+import { useLiveAnalysis } from './hooks/useLiveAnalysis'
 import { getDebugConfig } from './utils/debugMode'
-import type { AppState, AnalysisResult } from './types'
+import { readEmbeddedTags } from './utils/audioTags'
+import { readAudioLayout, shouldAnalyzeInWindows } from './utils/audioWindows'
+import { getPreferredGenreProfile, setPreferredGenreProfile } from './utils/genreProfiles'
+import { applyTempoOverride } from './utils/tapTempo'
+import { getAudioCache } from './utils/audioCache'
+import { getMetronomeClicks } from './utils/metronome'
+import type { AppState, AnalysisResult, GenreProfileId, TempoConstraints } from './types'
 
 
 
@@ -63,6 +81,10 @@ function App() {
   // Additional UI state not in AppState interface
   const [isLoadingFile, setIsLoadingFile] = useState(false)
   const [processingStage, setProcessingStage] = useState<ProcessingStage>('idle')
+  const [isWindowedAnalysis, setIsWindowedAnalysis] = useState(false)
+  const [genreProfile, setGenreProfile] = useState<GenreProfileId>(getPreferredGenreProfile)
+  // Tempo hints are specific to the tracks at hand, so unlike the genre they are not remembered
+  const [tempoConstraints, setTempoConstraints] = useState<TempoConstraints>({})
 
   // Refs for cleanup
   const audioBufferRef = useRef<AudioBuffer | null>(null)
@@ -75,10 +97,43 @@ function App() {
 
   // Hooks
   const { loadAudioFile, createAudioFileObject } = useFileUpload()
-  const { processAudio, isProcessing, error: processingError, resetState } = useAudioProcessor({
-    enableCaching: debugConfig.enableCaching
+  const { processAudio, processLargeFile, isProcessing, progress: processingProgress, error: processingError, resetState } = useAudioProcessor({
+    enableCaching: debugConfig.enableCaching,
+    genreProfile,
+    ...tempoConstraints
   })
 
+  // Batch queue for multi-file and folder uploads
+  const batch = useBatchAnalysis({
+    enableCaching: debugConfig.enableCaching,
+    genreProfile,
+    ...tempoConstraints
+  })
+
+  // Playback of the loaded file, with a metronome on the detected beats
+  const bpmResult = appState.analysisResult?.bpm
+  const metronomeClicks = useMemo(
+    () => bpmResult && appState.audioBuffer ? getMetronomeClicks(bpmResult, appState.audioBuffer.duration) : [],
+    [bpmResult, appState.audioBuffer]
+  )
+  const playback = usePlayback(appState.audioBuffer || undefined, metronomeClicks)
+  // A drone on the detected key, played under the track to check the key by ear
+  const drone = useReferenceDrone(playback.getContext, appState.analysisResult?.key)
+  // A region dragged on the waveform, analyzed on its own and cached apart from the whole file
+  const regionAnalysis = useRegionAnalysis(
+    appState.audioBuffer || undefined,
+    debugConfig.enableCaching ? appState.currentFile?.file : undefined,
+    { enableCaching: debugConfig.enableCaching, genreProfile, ...tempoConstraints }
+  )
+  // Tempo and key of a microphone or line-in, read continuously while listening
+  const live = useLiveAnalysis(tempoConstraints)
+
+  // The profile applies to the next analysis, so it is remembered for later visits
+  const handleGenreProfileChange = useCallback((profile: GenreProfileId) => {
+    setGenreProfile(profile)
+    setPreferredGenreProfile(profile)
+  }, [])
+
   // Retry functionality for audio processing
   const {
     execute: executeAudioProcessing,
@@ -115,7 +170,28 @@ function App() {
     }))
   }, [isProcessing, processingError])
 
+  // Drop expired cache entries while the app is open
+  useEffect(() => getAudioCache().startCleanup(), [])
 
+  // Windowed analysis of long files reports real progress, mapped onto the 35-95% analysis range
+  useEffect(() => {
+    if (!isWindowedAnalysis || !isProcessing) return
+    setAppState(prev => ({ ...prev, progress: 35 + processingProgress * 0.6 }))
+  }, [isWindowedAnalysis, isProcessing, processingProgress])
+
+
+
+  // Show partial results as they become available
+  const handlePartialResult = useCallback((partialResult: Partial<AnalysisResult>) => {
+    console.log('Partial result received:', partialResult)
+    setAppState(prev => ({
+      ...prev,
+      analysisResult: {
+        ...prev.analysisResult,
+        ...partialResult
+      } as AnalysisResult
+    }))
+  }, [])
 
   const handleFileSelect = async (file: File) => {
     console.log('Selected file:', file.name, file.size, file.type)
@@ -137,6 +213,7 @@ function App() {
     // Reset all states using centralized state management
     setIsLoadingFile(true)
     setProcessingStage('loading')
+    setIsWindowedAnalysis(false)
     setAppState({
       currentFile: null,
       audioBuffer: null,
@@ -149,8 +226,11 @@ function App() {
     resetState()
 
     try {
+      // Files over the in-memory limit are never decoded whole; they are analyzed window by window
+      const isWindowed = shouldAnalyzeInWindows(file)
+
       // Load the audio file and create AudioBuffer with enhanced progress tracking
-      const buffer = await loadAudioFile(file, (loadProgress) => {
+      const buffer = isWindowed ? null : await loadAudioFile(file, (loadProgress) => {
         // File loading progress (0-30%)
         const scaledProgress = loadProgress * 0.3
         setAppState(prev => ({
@@ -169,7 +249,10 @@ function App() {
       })
 
       // Create AudioFile object with metadata
-      const audioFile = createAudioFileObject(file, buffer)
+      const baseAudioFile = createAudioFileObject(file, buffer ?? undefined)
+      const audioFile = baseAudioFile && isWindowed
+        ? { ...baseAudioFile, duration: (await readAudioLayout(file)).duration }
+        : baseAudioFile
 
       if (audioFile) {
         // Update centralized state - file loading complete at 30%
@@ -180,6 +263,14 @@ function App() {
           progress: 30 // File loading complete
         }))
 
+        // Read embedded tags in the background so they never hold up analysis
+        readEmbeddedTags(audioFile).then(tags => {
+          if (!tags) return
+          setAppState(prev => prev.currentFile?.file === file
+            ? { ...prev, currentFile: { ...prev.currentFile, tags } }
+            : prev)
+        })
+
         // Simulate waveform generation progress (30-35%)
         // The actual waveform generation happens asynchronously in WaveformDisplay
         for (let i = 30; i <= 35; i += 0.5) {
@@ -210,19 +301,12 @@ function App() {
 
         // Run simulated progress and real analysis in parallel
         try {
+          setIsWindowedAnalysis(isWindowed)
           const [result] = await Promise.all([
-            executeAudioProcessing(buffer, debugConfig.enableCaching ? file : undefined, (partialResult: Partial<AnalysisResult>) => {
-              // Show partial results as they become available
-              console.log('Partial result received:', partialResult)
-              setAppState(prev => ({
-                ...prev,
-                analysisResult: {
-                  ...prev.analysisResult,
-                  ...partialResult
-                } as AnalysisResult
-              }))
-            }),
-            simulateAnalysisProgress()
+            buffer
+              ? executeAudioProcessing(buffer, debugConfig.enableCaching ? file : undefined, handlePartialResult)
+              : processLargeFile(file, handlePartialResult),
+            buffer ? simulateAnalysisProgress() : Promise.resolve()
           ])
 
           // Complete the progress
@@ -299,6 +383,15 @@ function App() {
     }
   }
 
+  const handleFilesSelect = useCallback((files: File[]) => {
+    trackUserInteraction('batch_select', {
+      file_count: files.length,
+      total_size: files.reduce((sum, file) => sum + file.size, 0),
+    })
+
+    batch.addFiles(files)
+  }, [batch])
+
   const handleReset = useCallback(() => {
     // Track user interaction
     trackUserInteraction('reset')
@@ -321,8 +414,12 @@ function App() {
     resetState()
   }, [resetState, cleanupAudioResources])
 
+  // Windowed analysis never holds a decoded buffer, so its retry starts over from the file
+  const canRetryAnalysis = isWindowedAnalysis || canRetryProcessing
+
   const handleRetryAnalysis = useCallback(async () => {
-    if (!canRetryProcessing || !appState.audioBuffer || !appState.currentFile) return
+    if (!appState.currentFile) return
+    if (!isWindowedAnalysis && (!canRetryProcessing || !appState.audioBuffer)) return
 
     // Track retry interaction
     trackUserInteraction('retry', {
@@ -337,7 +434,9 @@ function App() {
     }))
 
     try {
-      const result = await retryAudioProcessing()
+      const result = isWindowedAnalysis
+        ? await processLargeFile(appState.currentFile.file, handlePartialResult)
+        : await retryAudioProcessing()
       setAppState(prev => ({
         ...prev,
         analysisResult: result
@@ -362,7 +461,26 @@ function App() {
       // Report retry error to Sentry
       sentry.captureException(retryError instanceof Error ? retryError : new Error(errorMessage))
     }
-  }, [canRetryProcessing, appState.audioBuffer, appState.currentFile, retryAudioProcessing, sentry])
+  }, [canRetryProcessing, isWindowedAnalysis, appState.audioBuffer, appState.currentFile, retryAudioProcessing, processLargeFile, handlePartialResult, sentry])
+
+  // A manual tempo replaces the detected one, and is kept with the cached result for the next visit
+  const handleTempoOverride = useCallback((bpm: number | null) => {
+    const { analysisResult, currentFile } = appState
+    if (!analysisResult) return
+
+    trackUserInteraction('tempo_override', {
+      detected_bpm: analysisResult.bpm.detected?.bpm ?? analysisResult.bpm.bpm,
+      override_bpm: bpm,
+    })
+
+    const result = applyTempoOverride(analysisResult, bpm)
+    setAppState(prev => ({ ...prev, analysisResult: result }))
+    if (debugConfig.enableCaching && currentFile) {
+      getAudioCache().set(currentFile.file, result, result.region).catch(error => {
+        console.warn('Failed to cache result:', error)
+      })
+    }
+  }, [appState, debugConfig.enableCaching])
 
   // Cleanup on unmount
   useEffect(() => {
@@ -503,14 +621,51 @@ function App() {
                     <SentryTest />
                   </Box>
 
+                  {/* Genre profile for the next analysis */}
+                  <Box w="100%" maxW={contentMaxW}>
+                    <GenreProfileSelector
+                      value={genreProfile}
+                      onChange={handleGenreProfileChange}
+                      isDisabled={isProcessingAny}
+                    />
+                  </Box>
+
+                  {/* BPM range and target tempo for the next analysis */}
+                  <Box w="100%" maxW={contentMaxW}>
+                    <BPMRangeSelector
+                      value={tempoConstraints}
+                      onChange={setTempoConstraints}
+                      isDisabled={isProcessingAny}
+                    />
+                  </Box>
+
                   {/* File Upload Section */}
                   <Box w="100%" maxW={contentMaxW}>
                     <FileUpload
                       onFileSelect={handleFileSelect}
+                      onFilesSelect={handleFilesSelect}
                       isProcessing={isProcessingAny}
                     />
                   </Box>
 
+                  {/* Live input */}
+                  <Box w="100%" maxW={contentMaxW}>
+                    <LiveAnalysis live={live} isDisabled={isProcessingAny} />
+                  </Box>
+
+                  {/* Batch Queue */}
+                  {batch.items.length > 0 && (
+                    <Box w="100%" maxW={contentMaxW}>
+                      <BatchQueueDisplay
+                        items={batch.items}
+                        onCancel={batch.cancelItem}
+                        onRetry={batch.retryItem}
+                        onCancelAll={batch.cancelAll}
+                        onClear={batch.clear}
+                      />
+                    </Box>
+                  )}
+
                   {/* Progress Indicators */}
                   {isProcessingAny && <ProgressIndicator />}
 
@@ -519,7 +674,7 @@ function App() {
                     <Box w="100%" maxW={contentMaxW}>
                       <ErrorDisplay
                         error={appState.error}
-                        onRetry={canRetryProcessing ? handleRetryAnalysis : undefined}
+                        onRetry={canRetryAnalysis ? handleRetryAnalysis : undefined}
                         onDismiss={handleReset}
                       />
                     </Box>
@@ -532,9 +687,35 @@ function App() {
                       isLoading={isLoadingFile}
                       progress={appState.isProcessing ? appState.progress / 100 : undefined}
                       error={appState.error || undefined}
+                      beatGrid={appState.analysisResult?.bpm?.beatGrid}
+                      tempoMap={appState.analysisResult?.bpm?.tempoMap}
+                      emptyMessage={appState.currentFile && !appState.audioBuffer
+                        ? 'Waveforms are not drawn for long files analyzed in windows'
+                        : undefined}
+                      playbackPosition={appState.audioBuffer ? playback.position : undefined}
+                      onSeek={appState.audioBuffer ? playback.seek : undefined}
+                      region={regionAnalysis.region ?? undefined}
+                      onRegionSelect={appState.audioBuffer ? regionAnalysis.selectRegion : undefined}
                     />
                   </Box>
 
+                  {/* Transport controls */}
+                  {appState.audioBuffer && !isLoadingFile && (
+                    <PlaybackControls playback={playback} hasBeats={metronomeClicks.length > 0} />
+                  )}
+                  {appState.currentFile && !isLoadingFile && (
+                    <ReferenceDrone drone={drone} />
+                  )}
+                  {appState.audioBuffer && !isLoadingFile && (
+                    <Box w="100%" maxW={contentMaxW}>
+                      <RegionAnalysis
+                        regionAnalysis={regionAnalysis}
+                        wholeFileResult={appState.analysisResult || undefined}
+                        isDisabled={isProcessingAny}
+                      />
+                    </Box>
+                  )}
+
                   {/* File Information */}
                   <FileInformation />
 
@@ -543,10 +724,12 @@ function App() {
                     <ResultsDisplay
                       analysisResult={appState.analysisResult || undefined}
                       audioBuffer={appState.audioBuffer || undefined}
+                      audioFile={appState.currentFile || undefined}
                       isLoading={appState.isProcessing || isRetryingProcessing}
                       error={appState.error || undefined}
                       onReset={handleReset}
-                      onRetry={canRetryProcessing ? handleRetryAnalysis : undefined}
+                      onRetry={canRetryAnalysis ? handleRetryAnalysis : undefined}
+                      onTempoOverride={processingStage === 'complete' ? handleTempoOverride : undefined}
                     />
                   </Box>
 
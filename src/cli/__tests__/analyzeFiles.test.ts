@@ -0,0 +1,169 @@
+// @vitest-environment node
+import { describe, it, expect, vi, beforeAll, afterAll, beforeEach } from 'vitest'
+import { mkdtemp, mkdir, rm, writeFile } from 'node:fs/promises'
+import { tmpdir } from 'node:os'
+import { join } from 'node:path'
+import type { AnalysisResult } from '../../types'
+
+const { processAudio } = vi.hoisted(() => ({ processAudio: vi.fn() }))
+
+vi.mock('../../utils/audioProcessor', () => ({
+  AudioProcessor: vi.fn().mockImplementation(() => ({ processAudio }))
+}))
+
+import { runAnalyze, EXIT_OK, EXIT_FAILED, EXIT_USAGE } from '../analyzeFiles'
+import { findAudioFiles } from '../files'
+
+const mockResult: AnalysisResult = {
+  key: { keyName: 'A Minor', keySignature: 'Am', confidence: 0.82, mode: 'minor' },
+  bpm: { bpm: 128, confidence: 0.9, detectedBeats: 20 },
+  confidence: { overall: 0.86, key: 0.82, bpm: 0.9 },
+  processingTime: 250
+}
+
+/** 16-bit mono PCM WAV of silence */
+function createWAV(seconds: number, sampleRate = 8000): Buffer {
+  const dataSize = seconds * sampleRate * 2
+  const buffer = Buffer.alloc(44 + dataSize)
+  buffer.write('RIFF', 0)
+  buffer.writeUInt32LE(36 + dataSize, 4)
+  buffer.write('WAVE', 8)
+  buffer.write('fmt ', 12)
+  buffer.writeUInt32LE(16, 16)
+  buffer.writeUInt16LE(1, 20)
+  buffer.writeUInt16LE(1, 22)
+  buffer.writeUInt32LE(sampleRate, 24)
+  buffer.writeUInt32LE(sampleRate * 2, 28)
+  buffer.writeUInt16LE(2, 32)
+  buffer.writeUInt16LE(16, 34)
+  buffer.write('data', 36)
+  buffer.writeUInt32LE(dataSize, 40)
+  return buffer
+}
+
+function captureOutput() {
+  const output = { stdout: '', stderr: '' }
+  return {
+    output,
+    streams: {
+      stdout: (text: string) => { output.stdout += text },
+      stderr: (text: string) => { output.stderr += text }
+    }
+  }
+}
+
+describe('analyze CLI', () => {
+  let folder: string
+
+  beforeAll(async () => {
+    folder = await mkdtemp(join(tmpdir(), 'analyze-cli-'))
+    await mkdir(join(folder, 'sub'))
+    await mkdir(join(folder, 'empty'))
+    await writeFile(join(folder, 'b.wav'), createWAV(2))
+    await writeFile(join(folder, 'a.wav'), createWAV(65))
+    await writeFile(join(folder, 'notes.txt'), 'not audio')
+    await writeFile(join(folder, 'sub', 'c.wav'), createWAV(1))
+  })
+
+  afterAll(async () => {
+    await rm(folder, { recursive: true, force: true })
+  })
+
+  beforeEach(() => {
+    processAudio.mockReset()
+    processAudio.mockResolvedValue(mockResult)
+  })
+
+  describe('findAudioFiles', () => {
+    it('should list supported files in name order, descending only when recursive', async () => {
+      expect(await findAudioFiles([folder], false)).toEqual([join(folder, 'a.wav'), join(folder, 'b.wav')])
+      expect(await findAudioFiles([folder], true))
+        .toEqual([join(folder, 'a.wav'), join(folder, 'b.wav'), join(folder, 'sub', 'c.wav')])
+    })
+
+    it('should keep named files and drop duplicates', async () => {
+      const notes = join(folder, 'notes.txt')
+      expect(await findAudioFiles([join(folder, 'a.wav'), folder, notes], false))
+        .toEqual([join(folder, 'a.wav'), join(folder, 'b.wav'), notes])
+    })
+
+    it('should reject missing paths', async () => {
+      await expect(findAudioFiles([join(folder, 'missing')], false)).rejects.toThrow('No such file or folder')
+    })
+  })
+
+  it('should print a table of results and exit with 0', async () => {
+    const { output, streams } = captureOutput()
+
+    expect(await runAnalyze([folder], streams)).toBe(EXIT_OK)
+
+    const lines = output.stdout.trimEnd().split('\n')
+    expect(lines[0]).toMatch(/^File\s+Key\s+BPM\s+Key Conf\.\s+BPM Conf\.\s+Duration$/)
+    expect(lines).toHaveLength(4)
+    expect(lines[2]).toContain(join(folder, 'a.wav'))
+    expect(lines[2]).toMatch(/A Minor\s+128\s+82%\s+90%\s+1:05$/)
+    expect(output.stderr).toBe('')
+    expect(processAudio).toHaveBeenCalledWith(
+      expect.objectContaining({ duration: 65 }),
+      { timeoutMs: 300000, enableCaching: false, genreProfile: 'hipHop' }
+    )
+  })
+
+  it('should print CSV and JSON in the chosen notation', async () => {
+    const csv = captureOutput()
+    expect(await runAnalyze([folder, '--format', 'csv', '--recursive', '-n', 'camelot'], csv.streams)).toBe(EXIT_OK)
+    const rows = csv.output.stdout.trimEnd().split('\n')
+    expect(rows).toHaveLength(4)
+    expect(rows[1]).toContain(',8A,')
+
+    const json = captureOutput()
+    expect(await runAnalyze([join(folder, 'b.wav'), '-f', 'json'], json.streams)).toBe(EXIT_OK)
+    const parsed = JSON.parse(json.output.stdout)
+    expect(parsed.files).toHaveLength(1)
+    expect(parsed.files[0]).toMatchObject({ fileName: join(folder, 'b.wav'), duration: 2, result: mockResult })
+  })
+
+  it('should keep detector logs off stdout', async () => {
+    processAudio.mockImplementation(async () => {
+      console.log('Detecting key...')
+      return mockResult
+    })
+
+    const quiet = captureOutput()
+    await runAnalyze([join(folder, 'b.wav'), '-f', 'json'], quiet.streams)
+    expect(() => JSON.parse(quiet.output.stdout)).not.toThrow()
+    expect(quiet.output.stderr).toBe('')
+
+    const verbose = captureOutput()
+    await runAnalyze([join(folder, 'b.wav'), '-f', 'json', '--verbose'], verbose.streams)
+    expect(verbose.output.stderr).toBe('Detecting key...\n')
+  })
+
+  it('should report failed files and exit with 1', async () => {
+    processAudio.mockRejectedValueOnce(new Error('Processing timeout after 300000ms'))
+    const { output, streams } = captureOutput()
+
+    expect(await runAnalyze([folder, join(folder, 'notes.txt')], streams)).toBe(EXIT_FAILED)
+
+    expect(output.stdout.trimEnd().split('\n')).toHaveLength(3)
+    expect(output.stderr).toContain(`Failed: ${join(folder, 'a.wav')}: Processing timeout after 300000ms`)
+    expect(output.stderr).toContain(`Failed: ${join(folder, 'notes.txt')}: Unsupported file format: .txt`)
+  })
+
+  it('should exit with 1 when a folder has no audio files', async () => {
+    const { output, streams } = captureOutput()
+
+    expect(await runAnalyze([join(folder, 'empty')], streams)).toBe(EXIT_FAILED)
+    expect(output.stderr).toContain('No audio files found (use --recursive to include subfolders)')
+  })
+
+  it('should exit with 2 on invalid arguments or missing paths', async () => {
+    const { output, streams } = captureOutput()
+
+    expect(await runAnalyze(['--format', 'xml', folder], streams)).toBe(EXIT_USAGE)
+    expect(output.stderr).toContain('Usage: analyze')
+    expect(await runAnalyze([join(folder, 'missing')], streams)).toBe(EXIT_USAGE)
+    expect(output.stdout).toBe('')
+    expect(processAudio).not.toHaveBeenCalled()
+  })
+})
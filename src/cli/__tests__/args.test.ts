@@ -0,0 +1,44 @@
+import { describe, it, expect } from 'vitest'
+import { parseAnalyzeArgs } from '../args'
+
+describe('parseAnalyzeArgs', () => {
+  it('should default to a table of the named paths', () => {
+    expect(parseAnalyzeArgs(['./beats', 'song.wav'])).toEqual({
+      paths: ['./beats', 'song.wav'],
+      format: 'table',
+      recursive: false,
+      notation: 'standard',
+      genreProfile: 'hipHop',
+      tempoConstraints: {},
+      timeoutSeconds: 300,
+      verbose: false,
+      help: false
+    })
+  })
+
+  it('should read long and short options', () => {
+    expect(parseAnalyzeArgs(['./beats', '--format', 'csv', '--recursive', '-n', 'camelot', '-t', '60']))
+      .toMatchObject({ paths: ['./beats'], format: 'csv', recursive: true, notation: 'camelot', timeoutSeconds: 60 })
+    expect(parseAnalyzeArgs(['-f', 'json', '-rv', 'a.flac']))
+      .toMatchObject({ paths: ['a.flac'], format: 'json', recursive: true, verbose: true })
+    expect(parseAnalyzeArgs(['x', '-g', 'drumAndBass']).genreProfile).toBe('drumAndBass')
+    expect(parseAnalyzeArgs(['x', '--min-bpm', '160', '--max-bpm', '180', '--target-bpm', '174']).tempoConstraints)
+      .toEqual({ minBPM: 160, maxBPM: 180, targetBPM: 174 })
+  })
+
+  it('should allow --help without paths', () => {
+    expect(parseAnalyzeArgs(['--help']).help).toBe(true)
+  })
+
+  it('should reject invalid arguments', () => {
+    expect(() => parseAnalyzeArgs([])).toThrow('No files or folders given')
+    expect(() => parseAnalyzeArgs(['x', '--format', 'xml'])).toThrow('Unknown format "xml"')
+    expect(() => parseAnalyzeArgs(['x', '--notation', 'roman'])).toThrow('Unknown notation "roman"')
+    expect(() => parseAnalyzeArgs(['x', '--genre', 'polka'])).toThrow('Unknown genre "polka"')
+    expect(() => parseAnalyzeArgs(['x', '--min-bpm', 'fast'])).toThrow('Invalid --min-bpm "fast"')
+    expect(() => parseAnalyzeArgs(['x', '--min-bpm', '180', '--max-bpm', '160'])).toThrow('minBPM must be lower than maxBPM')
+    expect(() => parseAnalyzeArgs(['x', '--timeout', '0'])).toThrow('Invalid timeout "0"')
+    expect(() => parseAnalyzeArgs(['x', '--timeout', 'soon'])).toThrow('Invalid timeout')
+    expect(() => parseAnalyzeArgs(['x', '--fast'])).toThrow()
+  })
+})
@@ -0,0 +1,13 @@
+#!/usr/bin/env node
+// CLI entry point: analyze <file or folder>... [--format table|json|csv] [--recursive]
+
+import { runAnalyze } from './analyzeFiles'
+
+runAnalyze(process.argv.slice(2), {
+  stdout: text => process.stdout.write(text),
+  stderr: text => process.stderr.write(text),
+  showProgress: process.stderr.isTTY
+}).then(exitCode => {
+  // Nothing is left running once the analysis settles, so the process ends on its own after flushing stdout
+  process.exitCode = exitCode
+})
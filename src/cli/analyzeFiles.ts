@@ -0,0 +1,130 @@
+// Run the browser's detection pipeline over local files and report the results
+
+import { stat } from 'node:fs/promises'
+import { AudioProcessor } from '../utils/audioProcessor'
+import type { ExportRecord } from '../utils/exportResults'
+import { parseAnalyzeArgs, USAGE } from './args'
+import type { AnalyzeOptions } from './args'
+import { loadAudioFile } from './decode'
+import { findAudioFiles } from './files'
+import { formatResults } from './output'
+
+export interface CLIOutput {
+  stdout: (text: string) => void
+  stderr: (text: string) => void
+  showProgress?: boolean // Print a line per file to stderr
+}
+
+export interface FileFailure {
+  path: string
+  error: string
+}
+
+export const EXIT_OK = 0
+export const EXIT_FAILED = 1
+export const EXIT_USAGE = 2
+
+/**
+ * Parse arguments, analyze every file and print the results, returning the exit code
+ */
+export async function runAnalyze(argv: string[], output: CLIOutput): Promise<number> {
+  let options: AnalyzeOptions
+  try {
+    options = parseAnalyzeArgs(argv)
+  } catch (error) {
+    output.stderr(`${getMessage(error)}\n\n${USAGE}\n`)
+    return EXIT_USAGE
+  }
+
+  if (options.help) {
+    output.stdout(`${USAGE}\n`)
+    return EXIT_OK
+  }
+
+  let paths: string[]
+  try {
+    paths = await findAudioFiles(options.paths, options.recursive)
+  } catch (error) {
+    output.stderr(`${getMessage(error)}\n`)
+    return EXIT_USAGE
+  }
+
+  if (paths.length === 0) {
+    output.stderr(`No audio files found${options.recursive ? '' : ' (use --recursive to include subfolders)'}\n`)
+    return EXIT_FAILED
+  }
+
+  const restoreConsole = routeConsole(options.verbose ? output.stderr : null)
+  let records: ExportRecord[]
+  let failures: FileFailure[]
+  try {
+    ({ records, failures } = await analyzeFiles(paths, options, (path, index) => {
+      if (output.showProgress) output.stderr(`[${index + 1}/${paths.length}] ${path}\n`)
+    }))
+  } finally {
+    restoreConsole()
+  }
+
+  if (records.length > 0) {
+    output.stdout(formatResults(records, options.format, options.notation))
+  }
+  for (const failure of failures) {
+    output.stderr(`Failed: ${failure.path}: ${failure.error}\n`)
+  }
+
+  return failures.length > 0 ? EXIT_FAILED : EXIT_OK
+}
+
+/**
+ * Decode and analyze files one at a time, collecting failures instead of stopping at them
+ */
+export async function analyzeFiles(
+  paths: string[],
+  options: Pick<AnalyzeOptions, 'timeoutSeconds' | 'genreProfile' | 'tempoConstraints'>,
+  onFile?: (path: string, index: number) => void
+): Promise<{ records: ExportRecord[]; failures: FileFailure[] }> {
+  const processor = new AudioProcessor()
+  const records: ExportRecord[] = []
+  const failures: FileFailure[] = []
+
+  for (const [index, path] of paths.entries()) {
+    onFile?.(path, index)
+    try {
+      const audioBuffer = await loadAudioFile(path)
+      const result = await processor.processAudio(audioBuffer, {
+        timeoutMs: options.timeoutSeconds * 1000,
+        genreProfile: options.genreProfile,
+        ...options.tempoConstraints,
+        enableCaching: false
+      })
+      const { size } = await stat(path)
+      records.push({ fileName: path, fileSize: size, duration: audioBuffer.duration, result })
+    } catch (error) {
+      failures.push({ path, error: getMessage(error) })
+    }
+  }
+
+  return { records, failures }
+}
+
+/**
+ * Keep detector logging off stdout so JSON and CSV output stay parseable
+ */
+function routeConsole(write: ((text: string) => void) | null): () => void {
+  const methods = ['log', 'info', 'debug', 'warn', 'error'] as const
+  const originals = methods.map(method => console[method])
+
+  for (const method of methods) {
+    console[method] = write
+      ? (...args: unknown[]) => write(args.map(arg => arg instanceof Error ? arg.message : String(arg)).join(' ') + '\n')
+      : () => {}
+  }
+
+  return () => methods.forEach((method, index) => {
+    console[method] = originals[index]
+  })
+}
+
+function getMessage(error: unknown): string {
+  return error instanceof Error ? error.message : String(error)
+}
@@ -0,0 +1,123 @@
+// Command-line options for the analyze CLI
+
+import { parseArgs } from 'node:util'
+import type { GenreProfileId, TempoConstraints } from '../types'
+import type { KeyNotation } from '../utils/keyNotation'
+import { DEFAULT_GENRE_PROFILE, GENRE_PROFILES, isGenreProfileId } from '../utils/genreProfiles'
+import { getTempoConstraints } from '../utils/tempoConstraints'
+
+export type OutputFormat = 'table' | 'json' | 'csv'
+
+export interface AnalyzeOptions {
+  paths: string[]
+  format: OutputFormat
+  recursive: boolean
+  notation: KeyNotation
+  genreProfile: GenreProfileId
+  tempoConstraints: TempoConstraints
+  timeoutSeconds: number
+  verbose: boolean
+  help: boolean
+}
+
+const OUTPUT_FORMATS: readonly OutputFormat[] = ['table', 'json', 'csv']
+const KEY_NOTATIONS: readonly KeyNotation[] = ['standard', 'camelot', 'openKey']
+
+// Long tracks analyzed on the main thread take longer than the browser's 30 seconds
+const DEFAULT_TIMEOUT_SECONDS = 300
+
+export const USAGE = `Usage: analyze <file or folder>... [options]
+
+Detect the key and BPM of local audio files (MP3, WAV, FLAC, M4A).
+
+Options:
+  -f, --format <table|json|csv>   Output format (default: table)
+  -r, --recursive                 Include audio files in subfolders
+  -n, --notation <standard|camelot|openKey>
+                                  Key notation (default: standard)
+  -g, --genre <${Object.keys(GENRE_PROFILES).join('|')}>
+                                  Genre profile for tempo and key correction (default: ${DEFAULT_GENRE_PROFILE})
+  --min-bpm <bpm>, --max-bpm <bpm>
+                                  Only report tempos within this range
+  --target-bpm <bpm>              Prefer the octave of the tempo closest to this one
+  -t, --timeout <seconds>         Time limit per file (default: ${DEFAULT_TIMEOUT_SECONDS})
+  -v, --verbose                   Print detector logs to stderr
+  -h, --help                      Show this help
+
+MP3 and M4A files are decoded with ffmpeg, which must be on the PATH.
+Exits with 1 when any file fails and 2 on invalid arguments.`
+
+/**
+ * Parse the arguments after the script name, throwing on invalid ones
+ */
+export function parseAnalyzeArgs(argv: string[]): AnalyzeOptions {
+  const { values, positionals } = parseArgs({
+    args: argv,
+    allowPositionals: true,
+    options: {
+      format: { type: 'string', short: 'f', default: 'table' },
+      recursive: { type: 'boolean', short: 'r', default: false },
+      notation: { type: 'string', short: 'n', default: 'standard' },
+      genre: { type: 'string', short: 'g', default: DEFAULT_GENRE_PROFILE },
+      'min-bpm': { type: 'string' },
+      'max-bpm': { type: 'string' },
+      'target-bpm': { type: 'string' },
+      timeout: { type: 'string', short: 't', default: String(DEFAULT_TIMEOUT_SECONDS) },
+      verbose: { type: 'boolean', short: 'v', default: false },
+      help: { type: 'boolean', short: 'h', default: false }
+    }
+  })
+
+  const format = values.format as OutputFormat
+  if (!OUTPUT_FORMATS.includes(format)) {
+    throw new Error(`Unknown format "${values.format}". Use ${OUTPUT_FORMATS.join(', ')}`)
+  }
+
+  const notation = values.notation as KeyNotation
+  if (!KEY_NOTATIONS.includes(notation)) {
+    throw new Error(`Unknown notation "${values.notation}". Use ${KEY_NOTATIONS.join(', ')}`)
+  }
+
+  if (!isGenreProfileId(values.genre)) {
+    throw new Error(`Unknown genre "${values.genre}". Use ${Object.keys(GENRE_PROFILES).join(', ')}`)
+  }
+
+  const tempoConstraints = getTempoConstraints({
+    minBPM: parseBPM(values['min-bpm'], '--min-bpm'),
+    maxBPM: parseBPM(values['max-bpm'], '--max-bpm'),
+    targetBPM: parseBPM(values['target-bpm'], '--target-bpm')
+  })
+
+  const timeoutSeconds = Number(values.timeout)
+  if (!(timeoutSeconds > 0)) {
+    throw new Error(`Invalid timeout "${values.timeout}". Give a number of seconds`)
+  }
+
+  if (positionals.length === 0 && !values.help) {
+    throw new Error('No files or folders given')
+  }
+
+  return {
+    paths: positionals,
+    format,
+    recursive: values.recursive,
+    notation,
+    genreProfile: values.genre,
+    tempoConstraints,
+    timeoutSeconds,
+    verbose: values.verbose,
+    help: values.help
+  }
+}
+
+/**
+ * Read an optional tempo option as a number
+ */
+function parseBPM(value: string | undefined, option: string): number | undefined {
+  if (value === undefined) return undefined
+  const bpm = Number(value)
+  if (value.trim() === '' || Number.isNaN(bpm)) {
+    throw new Error(`Invalid ${option} "${value}". Give a tempo in BPM`)
+  }
+  return bpm
+}
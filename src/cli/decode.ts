@@ -0,0 +1,75 @@
+// Decode local audio files for the CLI, where decodeAudioData is not available
+
+import { spawn } from 'node:child_process'
+import { readFile } from 'node:fs/promises'
+import { SUPPORTED_FORMATS } from '../types'
+import { decodeAudio, hasBuiltInDecoder } from '../utils/audioDecoder'
+import { fromWorkerAudioData } from '../workers/audioData'
+import { getFileFormat } from './files'
+
+// ffmpeg output goes straight to the rate AudioProcessor analyzes at
+const FFMPEG_SAMPLE_RATE = 16000
+
+/**
+ * Decode WAV and FLAC with the built-in decoder and other formats with ffmpeg
+ */
+export async function loadAudioFile(path: string): Promise<AudioBuffer> {
+  const format = getFileFormat(path)
+
+  if (!(SUPPORTED_FORMATS as readonly string[]).includes(format)) {
+    throw new Error(`Unsupported file format: .${format || '(none)'}. Supported formats: ${SUPPORTED_FORMATS.join(', ')}`)
+  }
+
+  if (hasBuiltInDecoder(format)) {
+    const data = await readFile(path)
+    return decodeAudio(data.buffer.slice(data.byteOffset, data.byteOffset + data.byteLength) as ArrayBuffer, format)
+  }
+
+  return decodeWithFFmpeg(path, format)
+}
+
+/**
+ * Have ffmpeg decode to mono 32-bit float PCM on stdout
+ */
+export function decodeWithFFmpeg(path: string, format: string): Promise<AudioBuffer> {
+  return new Promise((resolve, reject) => {
+    const ffmpeg = spawn('ffmpeg', [
+      '-v', 'error', '-i', path,
+      '-f', 'f32le', '-ac', '1', '-ar', String(FFMPEG_SAMPLE_RATE), '-'
+    ], { stdio: ['ignore', 'pipe', 'pipe'] })
+
+    const chunks: Buffer[] = []
+    let errorOutput = ''
+    ffmpeg.stdout.on('data', (chunk: Buffer) => chunks.push(chunk))
+    ffmpeg.stderr.on('data', (chunk: Buffer) => { errorOutput += chunk.toString() })
+
+    ffmpeg.on('error', (error: NodeJS.ErrnoException) => {
+      reject(error.code === 'ENOENT'
+        ? new Error(`${format.toUpperCase()} files need ffmpeg on the PATH to be decoded outside the browser`)
+        : error)
+    })
+
+    ffmpeg.on('close', (code) => {
+      if (code !== 0) {
+        reject(new Error(`ffmpeg could not decode the file: ${errorOutput.trim() || `exit code ${code}`}`))
+        return
+      }
+
+      const data = Buffer.concat(chunks)
+      const samples = new Float32Array(Math.floor(data.byteLength / 4))
+      new Uint8Array(samples.buffer).set(data.subarray(0, samples.length * 4))
+
+      if (samples.length === 0) {
+        reject(new Error('File contains no audio'))
+        return
+      }
+
+      resolve(fromWorkerAudioData({
+        sampleRate: FFMPEG_SAMPLE_RATE,
+        length: samples.length,
+        numberOfChannels: 1,
+        channelData: [samples]
+      }))
+    })
+  })
+}
@@ -0,0 +1,58 @@
+// Find the audio files named on the command line
+
+import { readdir, stat } from 'node:fs/promises'
+import { extname, join } from 'node:path'
+import { SUPPORTED_FORMATS } from '../types'
+
+/**
+ * Format of a file from its extension, lowercased and without the dot
+ */
+export function getFileFormat(path: string): string {
+  return extname(path).slice(1).toLowerCase()
+}
+
+function isAudioFile(path: string): boolean {
+  return (SUPPORTED_FORMATS as readonly string[]).includes(getFileFormat(path))
+}
+
+/**
+ * Expand folders into the audio files they contain, in a stable order.
+ * Files named directly are kept whatever their extension, so unsupported ones are reported.
+ */
+export async function findAudioFiles(paths: string[], recursive: boolean): Promise<string[]> {
+  const files: string[] = []
+
+  for (const path of paths) {
+    let info
+    try {
+      info = await stat(path)
+    } catch {
+      throw new Error(`No such file or folder: ${path}`)
+    }
+
+    if (info.isDirectory()) {
+      files.push(...await listFolder(path, recursive))
+    } else {
+      files.push(path)
+    }
+  }
+
+  // The same file can be reached through overlapping arguments
+  return [...new Set(files)]
+}
+
+async function listFolder(folder: string, recursive: boolean): Promise<string[]> {
+  const entries = await readdir(folder, { withFileTypes: true })
+  entries.sort((a, b) => a.name.localeCompare(b.name))
+
+  const files: string[] = []
+  for (const entry of entries) {
+    const path = join(folder, entry.name)
+    if (entry.isDirectory()) {
+      if (recursive) files.push(...await listFolder(path, recursive))
+    } else if (entry.isFile() && isAudioFile(path)) {
+      files.push(path)
+    }
+  }
+  return files
+}
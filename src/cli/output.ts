@@ -0,0 +1,60 @@
+// Print CLI results as an aligned table or through the JSON and CSV exporters
+
+import { exportToCSV, exportToJSON } from '../utils/exportResults'
+import type { ExportRecord } from '../utils/exportResults'
+import { formatKey } from '../utils/keyNotation'
+import type { KeyNotation } from '../utils/keyNotation'
+import type { OutputFormat } from './args'
+
+const TABLE_HEADER = ['File', 'Key', 'BPM', 'Key Conf.', 'BPM Conf.', 'Duration']
+
+/**
+ * Format analyzed files for stdout
+ */
+export function formatResults(records: ExportRecord[], format: OutputFormat, notation: KeyNotation): string {
+  switch (format) {
+    case 'json':
+      return exportToJSON(records, { notation }) + '\n'
+    case 'csv':
+      return exportToCSV(records, { notation })
+    case 'table':
+      return formatTable(records, notation)
+  }
+}
+
+/**
+ * Columns padded to their widest cell, with numbers aligned right
+ */
+export function formatTable(records: ExportRecord[], notation: KeyNotation): string {
+  const rows = records.map(({ fileName, duration, result }) => [
+    fileName,
+    formatKey(result.key, notation),
+    String(result.bpm.bpm),
+    formatPercent(result.key.confidence),
+    formatPercent(result.bpm.confidence),
+    duration !== undefined ? formatDuration(duration) : ''
+  ])
+
+  const widths = TABLE_HEADER.map((title, column) =>
+    Math.max(title.length, ...rows.map(row => row[column].length)))
+
+  const formatRow = (row: string[]) => row
+    .map((cell, column) => column < 2 ? cell.padEnd(widths[column]) : cell.padStart(widths[column]))
+    .join('  ')
+    .trimEnd()
+
+  return [
+    formatRow(TABLE_HEADER),
+    formatRow(widths.map(width => '-'.repeat(width))),
+    ...rows.map(formatRow)
+  ].join('\n') + '\n'
+}
+
+function formatPercent(value: number): string {
+  return `${Math.round(value * 100)}%`
+}
+
+function formatDuration(seconds: number): string {
+  const minutes = Math.floor(seconds / 60)
+  return `${minutes}:${String(Math.floor(seconds % 60)).padStart(2, '0')}`
+}
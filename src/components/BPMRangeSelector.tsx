@@ -0,0 +1,98 @@
+import React, { useState } from 'react'
+import {
+  HStack,
+  Text,
+  Button,
+  Input,
+  Slider,
+} from '@chakra-ui/react'
+import type { TempoConstraints } from '../types'
+import { BPM_RANGE } from '../types'
+import { TEMPO_LIMITS } from '../utils/tempoConstraints'
+
+interface BPMRangeSelectorProps {
+  value: TempoConstraints
+  onChange: (constraints: TempoConstraints) => void
+  isDisabled?: boolean
+}
+
+export const BPMRangeSelector: React.FC<BPMRangeSelectorProps> = ({
+  value,
+  onChange,
+  isDisabled = false
+}) => {
+  const { minBPM, maxBPM, targetBPM } = value
+  const range = [minBPM ?? BPM_RANGE.min, maxBPM ?? BPM_RANGE.max]
+  const isLimited = minBPM !== undefined || maxBPM !== undefined
+
+  // Follow the thumbs while dragging, but only start a new analysis setting when they are let go
+  const [draft, setDraft] = useState<number[] | null>(null)
+  const shownRange = draft ?? range
+  const [targetText, setTargetText] = useState(targetBPM?.toString() ?? '')
+
+  const handleTargetChange = (text: string) => {
+    setTargetText(text)
+    const target = Number(text)
+    const isValid = text.trim() !== '' && target >= TEMPO_LIMITS.min && target <= TEMPO_LIMITS.max
+    onChange({ minBPM, maxBPM, targetBPM: isValid ? target : undefined })
+  }
+
+  return (
+    <HStack gap={3} justify="center" flexWrap="wrap" data-testid="bpm-range-selector">
+      <Text color="gray.600" fontSize="xs">
+        BPM range:
+      </Text>
+      <Slider.Root
+        w="180px"
+        size="sm"
+        min={TEMPO_LIMITS.min}
+        max={TEMPO_LIMITS.max}
+        minStepsBetweenThumbs={1}
+        value={shownRange}
+        onValueChange={details => setDraft(details.value)}
+        onValueChangeEnd={details => {
+          setDraft(null)
+          onChange({ minBPM: details.value[0], maxBPM: details.value[1], targetBPM })
+        }}
+        disabled={isDisabled}
+        aria-label={['Minimum BPM', 'Maximum BPM']}
+      >
+        <Slider.Control>
+          <Slider.Track>
+            <Slider.Range bg={isLimited ? undefined : 'gray.300'} />
+          </Slider.Track>
+          <Slider.Thumbs />
+        </Slider.Control>
+      </Slider.Root>
+      <Text color="gray.600" fontSize="xs" minW="60px" data-testid="bpm-range-value">
+        {isLimited || draft ? `${shownRange[0]}–${shownRange[1]}` : 'Any'}
+      </Text>
+      <Input
+        size="xs"
+        w="90px"
+        type="number"
+        placeholder="Target BPM"
+        aria-label="Target BPM"
+        min={TEMPO_LIMITS.min}
+        max={TEMPO_LIMITS.max}
+        value={targetText}
+        onChange={event => handleTargetChange(event.target.value)}
+        disabled={isDisabled}
+      />
+      {(isLimited || targetBPM !== undefined) && (
+        <Button
+          size="xs"
+          variant="outline"
+          colorScheme="gray"
+          onClick={() => {
+            setTargetText('')
+            onChange({})
+          }}
+          disabled={isDisabled}
+        >
+          Any tempo
+        </Button>
+      )}
+    </HStack>
+  )
+}
@@ -0,0 +1,167 @@
+import React from 'react'
+import {
+  Box,
+  Text,
+  VStack,
+  HStack,
+  Button,
+  Badge,
+} from '@chakra-ui/react'
+import type { BatchItem, BatchItemStatus } from '../utils/batchQueue'
+import { formatFileSize } from '../utils/validation'
+import { ExportMenu } from './ExportMenu'
+
+interface BatchQueueDisplayProps {
+  items: BatchItem[]
+  onCancel: (id: string) => void
+  onRetry: (id: string) => void
+  onCancelAll: () => void
+  onClear: () => void
+}
+
+const STATUS_LABELS: Record<BatchItemStatus, string> = {
+  pending: 'Queued',
+  loading: 'Loading',
+  analyzing: 'Analyzing',
+  complete: 'Done',
+  error: 'Failed',
+  cancelled: 'Cancelled'
+}
+
+const getStatusColor = (status: BatchItemStatus) => {
+  switch (status) {
+    case 'complete': return 'green'
+    case 'error': return 'red'
+    case 'cancelled': return 'gray'
+    case 'pending': return 'gray'
+    default: return 'blue'
+  }
+}
+
+export const BatchQueueDisplay: React.FC<BatchQueueDisplayProps> = ({
+  items,
+  onCancel,
+  onRetry,
+  onCancelAll,
+  onClear,
+}) => {
+  if (items.length === 0) {
+    return null
+  }
+
+  const completed = items.filter(item => item.status === 'complete').length
+  const failed = items.filter(item => item.status === 'error').length
+  const isRunning = items.some(item =>
+    item.status === 'pending' || item.status === 'loading' || item.status === 'analyzing'
+  )
+
+  return (
+    <Box bg="white" border="1px solid" borderColor="gray.200" borderRadius="lg" p={{ base: 3, md: 4 }} w="100%">
+      <VStack gap={3} align="stretch">
+        {/* Queue Summary */}
+        <HStack justify="space-between" flexWrap="wrap" gap={2}>
+          <VStack align="start" gap={0}>
+            <Text fontWeight="bold" color="black">
+              Batch Analysis
+            </Text>
+            <Text fontSize="xs" color="gray.600">
+              {completed} of {items.length} complete{failed > 0 ? ` • ${failed} failed` : ''}
+            </Text>
+          </VStack>
+          <HStack gap={2}>
+            {isRunning && (
+              <Button size="xs" variant="outline" colorScheme="red" onClick={onCancelAll}>
+                Cancel All
+              </Button>
+            )}
+            {!isRunning && (
+              <Button size="xs" variant="outline" onClick={onClear}>
+                Clear
+              </Button>
+            )}
+          </HStack>
+        </HStack>
+
+        {/* Per-file rows */}
+        <VStack gap={2} align="stretch" maxH="400px" overflowY="auto">
+          {items.map(item => {
+            const isActive = item.status === 'loading' || item.status === 'analyzing'
+            const canCancel = isActive || item.status === 'pending'
+            const canRetry = item.status === 'error' || item.status === 'cancelled'
+
+            return (
+              <Box
+                key={item.id}
+                p={2}
+                bg="gray.50"
+                borderRadius="md"
+                border="1px solid"
+                borderColor="gray.200"
+                data-testid="batch-item"
+              >
+                <HStack justify="space-between" align="start" gap={2}>
+                  <VStack align="start" gap={1} flex={1} minW={0}>
+                    <HStack gap={2} w="100%">
+                      <Text fontSize="sm" fontWeight="medium" color="black" truncate>
+                        {item.file.name}
+                      </Text>
+                      <Badge colorScheme={getStatusColor(item.status)} size="sm">
+                        {STATUS_LABELS[item.status]}
+                      </Badge>
+                      {item.fromCache && (
+                        <Badge colorScheme="purple" size="sm">
+                          Cached
+                        </Badge>
+                      )}
+                    </HStack>
+
+                    {item.status === 'complete' && item.result ? (
+                      <Text fontSize="xs" color="gray.700">
+                        {item.result.key.keyName} • {item.result.bpm.bpm} BPM
+                      </Text>
+                    ) : item.status === 'error' ? (
+                      <Text fontSize="xs" color="red.700">
+                        {item.error}
+                      </Text>
+                    ) : (
+                      <Text fontSize="xs" color="gray.500">
+                        {formatFileSize(item.file.size)}
+                      </Text>
+                    )}
+
+                    {isActive && (
+                      <Box w="100%" h="4px" bg="gray.200" borderRadius="sm" overflow="hidden">
+                        <Box
+                          w={`${item.progress}%`}
+                          h="100%"
+                          bg="red.500"
+                          transition="width 0.2s linear"
+                        />
+                      </Box>
+                    )}
+                  </VStack>
+
+                  {canCancel && (
+                    <Button size="xs" variant="ghost" onClick={() => onCancel(item.id)}>
+                      Cancel
+                    </Button>
+                  )}
+                  {canRetry && (
+                    <Button size="xs" variant="ghost" onClick={() => onRetry(item.id)}>
+                      Retry
+                    </Button>
+                  )}
+                </HStack>
+              </Box>
+            )
+          })}
+        </VStack>
+
+        {/* Bulk export once the batch has finished */}
+        {!isRunning && completed > 0 && <ExportMenu />}
+      </VStack>
+    </Box>
+  )
+}
+
+export default BatchQueueDisplay
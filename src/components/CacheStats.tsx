@@ -10,7 +10,7 @@ import {
     SimpleGrid,
     createToaster
 } from '@chakra-ui/react'
-import { audioCache } from '../utils/audioCache'
+import { getAudioCache } from '../utils/audioCache'
 import { MemoryManager } from '../utils/memoryManager'
 
 interface CacheStatsProps {
@@ -20,22 +20,22 @@ interface CacheStatsProps {
 export const CacheStats: React.FC<CacheStatsProps> = ({
     showControls = true
 }) => {
-    const [stats, setStats] = useState(audioCache.getStats())
+    const [stats, setStats] = useState(getAudioCache().getStats())
     const toaster = createToaster({
         placement: 'top'
     })
 
     useEffect(() => {
         const interval = setInterval(() => {
-            setStats(audioCache.getStats())
+            setStats(getAudioCache().getStats())
         }, 2000) // Update every 2 seconds
 
         return () => clearInterval(interval)
     }, [])
 
     const handleClearCache = () => {
-        audioCache.clear()
-        setStats(audioCache.getStats())
+        getAudioCache().clear()
+        setStats(getAudioCache().getStats())
 
         toaster.create({
             title: 'Cache Cleared',
@@ -44,7 +44,7 @@ export const CacheStats: React.FC<CacheStatsProps> = ({
         })
     }
 
-    const hitRate = audioCache.getHitRate()
+    const hitRate = getAudioCache().getHitRate()
     const totalRequests = stats.hits + stats.misses
 
     const getHitRateColor = () => {
@@ -0,0 +1,125 @@
+import React, { useEffect, useState } from 'react'
+import {
+  Box,
+  Text,
+  VStack,
+  HStack,
+  Badge,
+  Image,
+} from '@chakra-ui/react'
+import type { AnalysisResult, EmbeddedTags } from '../types'
+import { compareTags } from '../utils/tagComparison'
+import type { TagComparisonStatus } from '../utils/tagComparison'
+import type { KeyNotation } from '../utils/keyNotation'
+
+interface EmbeddedTagsPanelProps {
+  tags: EmbeddedTags
+  analysisResult?: Partial<AnalysisResult>
+  notation?: KeyNotation
+}
+
+const STATUS_COLORS: Record<TagComparisonStatus, string> = {
+  match: 'green',
+  close: 'yellow',
+  mismatch: 'red'
+}
+
+const FIELD_LABELS = {
+  bpm: 'BPM',
+  key: 'Key'
+}
+
+export const EmbeddedTagsPanel: React.FC<EmbeddedTagsPanelProps> = ({
+  tags,
+  analysisResult,
+  notation = 'standard',
+}) => {
+  const [artworkUrl, setArtworkUrl] = useState<string | null>(null)
+
+  useEffect(() => {
+    if (!tags.artwork) return
+
+    const url = URL.createObjectURL(new Blob([tags.artwork.data], { type: tags.artwork.mimeType }))
+    setArtworkUrl(url)
+    return () => {
+      URL.revokeObjectURL(url)
+      setArtworkUrl(null)
+    }
+  }, [tags.artwork])
+
+  const comparisons = compareTags(tags, analysisResult || {}, notation)
+  const disagreements = comparisons.filter(comparison => comparison.status !== 'match').length
+
+  // Nothing worth showing for files with only artwork or no usable tags
+  if (!tags.title && !tags.artist && tags.bpm === undefined && !tags.key) {
+    return null
+  }
+
+  return (
+    <Box w="100%" data-testid="embedded-tags">
+      <VStack gap={2} align="stretch">
+        <HStack justify="space-between" flexWrap="wrap" gap={2}>
+          <Text color="gray.600" fontSize={{ base: 'xs', md: 'sm' }}>
+            Embedded Tags
+          </Text>
+          {comparisons.length > 0 && (
+            disagreements > 0 ? (
+              <Badge colorScheme="red" size="sm">
+                {disagreements} disagreement{disagreements > 1 ? 's' : ''}
+              </Badge>
+            ) : (
+              <Badge colorScheme="green" size="sm">
+                Tags match
+              </Badge>
+            )
+          )}
+        </HStack>
+
+        {(tags.title || tags.artist) && (
+          <HStack gap={3}>
+            {artworkUrl && (
+              <Image
+                src={artworkUrl}
+                alt="Embedded artwork"
+                boxSize="40px"
+                borderRadius="md"
+                objectFit="cover"
+              />
+            )}
+            <VStack gap={0} align="start" minW={0}>
+              {tags.title && (
+                <Text color="black" fontSize="sm" fontWeight="medium" truncate>
+                  {tags.title}
+                </Text>
+              )}
+              {tags.artist && (
+                <Text color="gray.600" fontSize="xs" truncate>
+                  {tags.artist}
+                </Text>
+              )}
+            </VStack>
+          </HStack>
+        )}
+
+        {comparisons.map(comparison => (
+          <HStack
+            key={comparison.field}
+            justify="space-between"
+            gap={2}
+            flexWrap="wrap"
+            data-testid="tag-comparison"
+          >
+            <Text color="gray.600" fontSize={{ base: 'xs', md: 'sm' }}>
+              {FIELD_LABELS[comparison.field]}: tagged {comparison.embedded}, detected {comparison.detected}
+            </Text>
+            <Badge colorScheme={STATUS_COLORS[comparison.status]} size="sm">
+              {comparison.status === 'match' ? 'Matches' : comparison.note || 'Differs'}
+            </Badge>
+          </HStack>
+        ))}
+      </VStack>
+    </Box>
+  )
+}
+
+export default EmbeddedTagsPanel
@@ -0,0 +1,148 @@
+import React, { useState } from 'react'
+import {
+  Box,
+  Text,
+  VStack,
+  HStack,
+  Button,
+} from '@chakra-ui/react'
+import type { AnalysisResult, AudioFile } from '../types'
+import {
+  createExport,
+  downloadBlob,
+  downloadExport,
+  getCachedExportRecords,
+  EXPORT_FORMAT_LABELS,
+} from '../utils/exportResults'
+import { supportsTags, createTaggedFile } from '../utils/audioTags'
+import type { ExportFormat, ExportRecord } from '../utils/exportResults'
+import type { KeyNotation } from '../utils/keyNotation'
+
+interface ExportMenuProps {
+  analysisResult?: AnalysisResult
+  audioFile?: AudioFile
+  notation?: KeyNotation
+}
+
+const FORMATS = Object.keys(EXPORT_FORMAT_LABELS) as ExportFormat[]
+
+export const ExportMenu: React.FC<ExportMenuProps> = ({
+  analysisResult,
+  audioFile,
+  notation,
+}) => {
+  const [isTagging, setIsTagging] = useState(false)
+  const [tagError, setTagError] = useState<string | null>(null)
+  const cachedRecords = getCachedExportRecords()
+  const canExportCurrent = !!analysisResult && !!audioFile
+  const canTag = canExportCurrent && supportsTags(audioFile.format)
+
+  if (!canExportCurrent && cachedRecords.length === 0) {
+    return null
+  }
+
+  const handleExport = (records: ExportRecord[], format: ExportFormat) => {
+    try {
+      downloadExport(createExport(records, format, { notation }))
+    } catch (error) {
+      console.error('Export failed:', error)
+    }
+  }
+
+  const handleExportCurrent = (format: ExportFormat) => {
+    if (!analysisResult || !audioFile) return
+    handleExport([{
+      fileName: audioFile.name,
+      fileSize: audioFile.size,
+      duration: audioFile.duration,
+      result: analysisResult
+    }], format)
+  }
+
+  const handleDownloadTagged = async () => {
+    if (!analysisResult || !audioFile) return
+    setIsTagging(true)
+    setTagError(null)
+    try {
+      const tagged = await createTaggedFile(audioFile, analysisResult, notation)
+      downloadBlob(tagged.blob, tagged.filename)
+    } catch (error) {
+      console.error('Tag writing failed:', error)
+      setTagError(error instanceof Error ? error.message : 'Could not write tags')
+    } finally {
+      setIsTagging(false)
+    }
+  }
+
+  // Read the cache again on click so files finished since the last render are included
+  const handleExportAll = (format: ExportFormat) => {
+    handleExport(getCachedExportRecords(), format)
+  }
+
+  return (
+    <Box w="100%" data-testid="export-menu">
+      <VStack gap={2} align="stretch">
+        {canExportCurrent && (
+          <HStack justify="space-between" flexWrap="wrap" gap={2}>
+            <Text color="gray.600" fontSize={{ base: 'xs', md: 'sm' }}>
+              Export this file:
+            </Text>
+            <HStack gap={1} flexWrap="wrap">
+              {FORMATS.map(format => (
+                <Button
+                  key={format}
+                  size="xs"
+                  variant="outline"
+                  onClick={() => handleExportCurrent(format)}
+                >
+                  {EXPORT_FORMAT_LABELS[format]}
+                </Button>
+              ))}
+              {canTag && (
+                <Button
+                  size="xs"
+                  variant="outline"
+                  colorScheme="blue"
+                  onClick={handleDownloadTagged}
+                  loading={isTagging}
+                  title="Download a copy of the audio file with key and BPM tags"
+                >
+                  Tagged {audioFile.format.toUpperCase()}
+                </Button>
+              )}
+            </HStack>
+          </HStack>
+        )}
+
+        {tagError && (
+          <Text color="red.500" fontSize="xs">
+            {tagError}
+          </Text>
+        )}
+
+        {cachedRecords.length > 0 && (
+          <HStack justify="space-between" flexWrap="wrap" gap={2}>
+            <Text color="gray.600" fontSize={{ base: 'xs', md: 'sm' }}>
+              Export all analyzed files ({cachedRecords.length}):
+            </Text>
+            <HStack gap={1} flexWrap="wrap">
+              {FORMATS.map(format => (
+                <Button
+                  key={format}
+                  size="xs"
+                  variant="ghost"
+                  onClick={() => handleExportAll(format)}
+                  aria-label={`Export all as ${EXPORT_FORMAT_LABELS[format]}`}
+                >
+                  {EXPORT_FORMAT_LABELS[format]}
+                </Button>
+              ))}
+            </HStack>
+          </HStack>
+        )}
+      </VStack>
+    </Box>
+  )
+}
+
+export default ExportMenu
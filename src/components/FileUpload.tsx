@@ -7,18 +7,21 @@ import {
 } from '@chakra-ui/react'
 import { validateAudioFile, formatFileSize } from '../utils/validation'
 import { checkBrowserCompatibility } from '../utils/errorHandling'
-import { SUPPORTED_FORMATS, MAX_FILE_SIZE } from '../types'
+import { filterAudioFiles } from '../utils/batchQueue'
+import { SUPPORTED_FORMATS, MAX_FILE_SIZE, MAX_STREAMING_FILE_SIZE } from '../types'
 import type { ValidationResult } from '../types'
 import { ErrorDisplay } from './ErrorDisplay'
 
 interface FileUploadProps {
   onFileSelect: (file: File) => void
+  onFilesSelect?: (files: File[]) => void // Enables multi-select and folder upload for batch analysis
   isProcessing: boolean
   acceptedFormats?: string[]
 }
 
 export const FileUpload: React.FC<FileUploadProps> = ({
   onFileSelect,
+  onFilesSelect,
   isProcessing,
   acceptedFormats = SUPPORTED_FORMATS
 }) => {
@@ -52,6 +55,26 @@ export const FileUpload: React.FC<FileUploadProps> = ({
     }
   }, [handleFileValidation, onFileSelect])
 
+  const handleFilesSelect = useCallback((files: File[]) => {
+    if (files.length === 1 || !onFilesSelect) {
+      handleFileSelect(files[0])
+      return
+    }
+
+    // Folder selections contain non-audio files, so filter by extension silently
+    const audioFiles = filterAudioFiles(files, acceptedFormats)
+    const validFiles = audioFiles.filter(file => validateAudioFile(file).isValid)
+    const skipped = audioFiles.length - validFiles.length
+
+    if (validFiles.length === 0) {
+      setError(`No supported audio files found. Supported formats: ${acceptedFormats.join(', ').toUpperCase()}`)
+      return
+    }
+
+    setError(skipped > 0 ? `${skipped} of ${audioFiles.length} files were skipped (empty or over the size limit)` : null)
+    onFilesSelect(validFiles)
+  }, [onFilesSelect, handleFileSelect, acceptedFormats])
+
   const handleDragOver = useCallback((e: React.DragEvent) => {
     e.preventDefault()
     e.stopPropagation()
@@ -75,9 +98,9 @@ export const FileUpload: React.FC<FileUploadProps> = ({
 
     const files = Array.from(e.dataTransfer.files)
     if (files.length > 0) {
-      handleFileSelect(files[0])
+      handleFilesSelect(files)
     }
-  }, [isProcessing, handleFileSelect])
+  }, [isProcessing, handleFilesSelect])
 
   const [inputRef, setInputRef] = useState<HTMLInputElement | null>(null)
 
@@ -85,10 +108,10 @@ export const FileUpload: React.FC<FileUploadProps> = ({
     const files = e.target.files
     if (files && files.length > 0) {
       setInputRef(e.target) // Store reference to reset later
-      handleFileSelect(files[0])
+      handleFilesSelect(Array.from(files))
       // Don't reset the input immediately - this causes NotReadableError
     }
-  }, [handleFileSelect])
+  }, [handleFilesSelect])
 
   // Reset input when processing is complete
   React.useEffect(() => {
@@ -105,6 +128,18 @@ export const FileUpload: React.FC<FileUploadProps> = ({
     }
   }, [isProcessing])
 
+  const handleFolderClick = useCallback(() => {
+    if (!isProcessing) {
+      const input = document.getElementById('folder-input') as HTMLInputElement
+      input?.click()
+    }
+  }, [isProcessing])
+
+  // webkitdirectory is not part of React's input typings, so set it on the element directly
+  const setFolderInput = useCallback((input: HTMLInputElement | null) => {
+    input?.setAttribute('webkitdirectory', '')
+  }, [])
+
   const handleRetry = useCallback(() => {
     setError(null)
     setShowBrowserWarning(false)
@@ -178,8 +213,21 @@ export const FileUpload: React.FC<FileUploadProps> = ({
           onChange={handleInputChange}
           style={{ display: 'none' }}
           disabled={isProcessing}
+          multiple={!!onFilesSelect}
         />
 
+        {onFilesSelect && (
+          <input
+            id="folder-input"
+            ref={setFolderInput}
+            type="file"
+            onChange={handleInputChange}
+            style={{ display: 'none' }}
+            disabled={isProcessing}
+            multiple
+          />
+        )}
+
         <VStack gap={{ base: 2, md: 3 }}>
           <Text
             fontSize={{ base: 'lg', md: 'xl' }}
@@ -222,13 +270,27 @@ export const FileUpload: React.FC<FileUploadProps> = ({
             {isProcessing ? 'Processing...' : 'Choose File'}
           </Button>
 
+          {onFilesSelect && !isProcessing && (
+            <Button
+              variant="ghost"
+              size="sm"
+              color="gray.600"
+              onClick={(e) => {
+                e.stopPropagation()
+                handleFolderClick()
+              }}
+            >
+              Choose Folder
+            </Button>
+          )}
+
           {!isProcessing && (
             <VStack gap={1} textAlign="center">
               <Text fontSize={{ base: 'xs', md: 'sm' }} color="gray.500">
                 Supported formats: {acceptedFormats.map(f => f.toUpperCase()).join(', ')}
               </Text>
               <Text fontSize={{ base: 'xs', md: 'sm' }} color="gray.500">
-                Maximum file size: {formatFileSize(MAX_FILE_SIZE)}
+                Maximum file size: {formatFileSize(MAX_STREAMING_FILE_SIZE)} ({formatFileSize(MAX_FILE_SIZE)} for M4A)
               </Text>
             </VStack>
           )}
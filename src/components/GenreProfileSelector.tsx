@@ -0,0 +1,41 @@
+import React from 'react'
+import {
+  HStack,
+  Text,
+  Button,
+} from '@chakra-ui/react'
+import type { GenreProfileId } from '../types'
+import { GENRE_PROFILES } from '../utils/genreProfiles'
+
+interface GenreProfileSelectorProps {
+  value: GenreProfileId
+  onChange: (profile: GenreProfileId) => void
+  isDisabled?: boolean
+}
+
+export const GenreProfileSelector: React.FC<GenreProfileSelectorProps> = ({
+  value,
+  onChange,
+  isDisabled = false
+}) => {
+  return (
+    <HStack gap={2} justify="center" flexWrap="wrap" data-testid="genre-profile-selector">
+      <Text color="gray.600" fontSize="xs">
+        Genre:
+      </Text>
+      {(Object.keys(GENRE_PROFILES) as GenreProfileId[]).map(option => (
+        <Button
+          key={option}
+          size="xs"
+          variant={value === option ? 'solid' : 'outline'}
+          colorScheme="gray"
+          onClick={() => onChange(option)}
+          disabled={isDisabled}
+          aria-pressed={value === option}
+        >
+          {GENRE_PROFILES[option].label}
+        </Button>
+      ))}
+    </HStack>
+  )
+}
@@ -0,0 +1,112 @@
+import React, { useState } from 'react'
+import {
+  Box,
+  Text,
+  VStack,
+  HStack,
+  Button,
+  Badge,
+  Collapsible,
+} from '@chakra-ui/react'
+import type { KeyResult } from '../types'
+import { generateHarmonicSuggestions } from '../utils/harmonicMixing'
+import type { HarmonicMove } from '../utils/harmonicMixing'
+import { formatKey } from '../utils/keyNotation'
+import type { KeyNotation } from '../utils/keyNotation'
+
+interface HarmonicMixingProps {
+  detectedKey: KeyResult
+  notation?: KeyNotation
+}
+
+const getMoveBadgeColor = (move: HarmonicMove) => {
+  switch (move) {
+    case 'relative': return 'green'
+    case 'camelotUp':
+    case 'camelotDown': return 'blue'
+    default: return 'orange'
+  }
+}
+
+export const HarmonicMixing: React.FC<HarmonicMixingProps> = ({
+  detectedKey,
+  notation = 'standard',
+}) => {
+  const [isExpanded, setIsExpanded] = useState(false)
+  const harmonic = generateHarmonicSuggestions(detectedKey)
+
+  if (!harmonic) {
+    return null
+  }
+
+  // Show the code the user did not pick as secondary detail
+  const secondaryCode = (suggestion: { keyName: string; camelot: string }) =>
+    notation === 'standard' ? suggestion.camelot : formatKey(suggestion, 'standard')
+
+  return (
+    <Box w="100%" mt={4}>
+      {/* Toggle Button */}
+      <Button
+        onClick={() => setIsExpanded(!isExpanded)}
+        variant="ghost"
+        size="sm"
+        color="gray.600"
+        _hover={{ bg: 'gray.50' }}
+        w="100%"
+        justifyContent="space-between"
+      >
+        <HStack>
+          <Text fontSize="sm">🎛️</Text>
+          <Text fontSize="sm">Harmonic Mixing ({harmonic.camelot})</Text>
+        </HStack>
+        <Text fontSize="sm">{isExpanded ? '▲' : '▼'}</Text>
+      </Button>
+
+      {/* Expandable Content */}
+      <Collapsible.Root open={isExpanded}>
+        <Collapsible.Content>
+          <Box mt={3} p={4} bg="gray.50" borderRadius="md" border="1px solid" borderColor="gray.200">
+            <VStack gap={4} align="stretch">
+              <Text fontSize="xs" color="gray.600" fontStyle="italic">
+                Keys that mix cleanly with {formatKey(detectedKey, notation)}:
+              </Text>
+
+              <VStack gap={2} align="stretch">
+                {harmonic.suggestions.map(suggestion => (
+                  <Box
+                    key={suggestion.move}
+                    p={3}
+                    bg="white"
+                    borderRadius="md"
+                    border="1px solid"
+                    borderColor="gray.200"
+                    data-testid="harmonic-suggestion"
+                  >
+                    <VStack align="start" gap={1}>
+                      <HStack>
+                        <Text fontSize="sm" fontWeight="bold" color="black">
+                          {formatKey(suggestion, notation)}
+                        </Text>
+                        <Text fontSize="xs" color="gray.500">
+                          {secondaryCode(suggestion)}
+                        </Text>
+                        <Badge colorScheme={getMoveBadgeColor(suggestion.move)} size="sm">
+                          {suggestion.label}
+                        </Badge>
+                      </HStack>
+                      <Text fontSize="xs" color="gray.600">
+                        {suggestion.description}
+                      </Text>
+                    </VStack>
+                  </Box>
+                ))}
+              </VStack>
+            </VStack>
+          </Box>
+        </Collapsible.Content>
+      </Collapsible.Root>
+    </Box>
+  )
+}
+
+export default HarmonicMixing
@@ -0,0 +1,68 @@
+import React from 'react'
+import {
+  Box,
+  Text,
+  VStack,
+  HStack,
+  Badge,
+} from '@chakra-ui/react'
+import type { KeyResult } from '../types'
+import { getKeyRelation, KEY_RELATION_LABELS } from '../utils/harmonicMixing'
+import { formatKey } from '../utils/keyNotation'
+import type { KeyNotation } from '../utils/keyNotation'
+
+interface KeyAlternativesProps {
+  detectedKey: KeyResult
+  notation?: KeyNotation
+}
+
+// Runner-ups are only worth a look when the detector was unsure
+export const LOW_KEY_CONFIDENCE = 0.7
+const MAX_SHOWN = 4
+
+export const KeyAlternatives: React.FC<KeyAlternativesProps> = ({
+  detectedKey,
+  notation = 'standard',
+}) => {
+  const alternatives = detectedKey.alternatives ?? []
+  if (alternatives.length === 0 || detectedKey.confidence >= LOW_KEY_CONFIDENCE) {
+    return null
+  }
+
+  // Relative and fifth-related keys share most of their notes, so they are the usual mix-ups and come first
+  const candidates = alternatives.map(candidate => ({ ...candidate, relation: getKeyRelation(detectedKey, candidate) }))
+  const shown = [
+    ...candidates.filter(candidate => candidate.relation),
+    ...candidates.filter(candidate => !candidate.relation)
+  ].slice(0, MAX_SHOWN)
+
+  return (
+    <Box w="100%" p={3} bg="gray.50" borderRadius="md" border="1px solid" borderColor="gray.200" data-testid="key-alternatives">
+      <Text fontSize="sm" fontWeight="medium" color="gray.700" mb={1}>
+        Other likely keys
+      </Text>
+      <Text fontSize="xs" color="gray.600" mb={2}>
+        Low key confidence: the track may be in one of these keys instead.
+      </Text>
+      <VStack gap={1} align="stretch">
+        {shown.map(candidate => (
+          <HStack key={candidate.keyName} justify="space-between" p={2} bg="white" borderRadius="md" data-testid="key-alternative">
+            <HStack gap={2}>
+              <Text fontSize="sm" fontWeight="bold" color="black">
+                {formatKey(candidate, notation)}
+              </Text>
+              {candidate.relation && (
+                <Badge size="sm" colorScheme="blue">
+                  {KEY_RELATION_LABELS[candidate.relation]}
+                </Badge>
+              )}
+            </HStack>
+            <Text fontSize="xs" color="gray.600">
+              {Math.round(candidate.score * 100)}% match
+            </Text>
+          </HStack>
+        ))}
+      </VStack>
+    </Box>
+  )
+}
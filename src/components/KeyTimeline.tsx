@@ -0,0 +1,109 @@
+import React from 'react'
+import {
+  Box,
+  Text,
+  VStack,
+  HStack,
+  Badge,
+} from '@chakra-ui/react'
+import type { KeyResult, KeySegment } from '../types'
+import { hasKeyChange } from '../utils/keySegments'
+import { formatKey } from '../utils/keyNotation'
+import type { KeyNotation } from '../utils/keyNotation'
+
+interface KeyTimelineProps {
+  segments: KeySegment[]
+  globalKey: KeyResult
+  notation?: KeyNotation
+}
+
+// Alternating shades so neighboring segments stay distinguishable
+const SEGMENT_COLORS = ['red.200', 'purple.200', 'blue.200', 'teal.200', 'orange.200']
+
+const formatTime = (seconds: number) => {
+  const minutes = Math.floor(seconds / 60)
+  const rest = Math.floor(seconds % 60)
+  return `${minutes}:${rest.toString().padStart(2, '0')}`
+}
+
+export const KeyTimeline: React.FC<KeyTimelineProps> = ({
+  segments,
+  globalKey,
+  notation = 'standard',
+}) => {
+  if (segments.length === 0) {
+    return null
+  }
+
+  const duration = segments[segments.length - 1].end
+  const modulates = hasKeyChange(segments)
+
+  // Give every distinct key its own color
+  const keyColors = new Map<string, string>()
+  segments.forEach(segment => {
+    if (!keyColors.has(segment.keyName)) {
+      keyColors.set(segment.keyName, SEGMENT_COLORS[keyColors.size % SEGMENT_COLORS.length])
+    }
+  })
+
+  return (
+    <Box w="100%" data-testid="key-timeline">
+      <VStack gap={2} align="stretch">
+        <HStack justify="space-between" flexWrap="wrap" gap={2}>
+          <Text color="gray.600" fontSize={{ base: 'xs', md: 'sm' }}>
+            Key Timeline
+          </Text>
+          {modulates ? (
+            <Badge colorScheme="purple" size="sm">
+              {segments.length - 1} key change{segments.length > 2 ? 's' : ''}
+            </Badge>
+          ) : (
+            <Badge colorScheme="gray" size="sm">
+              Stays in {formatKey(globalKey, notation)}
+            </Badge>
+          )}
+        </HStack>
+
+        {/* Proportional bar, one block per segment */}
+        <HStack gap={0} h="24px" w="100%" borderRadius="md" overflow="hidden" border="1px solid" borderColor="gray.200">
+          {segments.map((segment, index) => (
+            <Box
+              key={`${segment.start}-${index}`}
+              h="100%"
+              w={duration > 0 ? `${((segment.end - segment.start) / duration) * 100}%` : '100%'}
+              bg={keyColors.get(segment.keyName)}
+              display="flex"
+              alignItems="center"
+              justifyContent="center"
+              overflow="hidden"
+              title={`${formatTime(segment.start)} – ${formatTime(segment.end)}: ${formatKey(segment, 'standard')}`}
+              data-testid="key-segment"
+            >
+              <Text fontSize="2xs" color="gray.800" fontWeight="medium" whiteSpace="nowrap">
+                {notation === 'standard' ? segment.keySignature : formatKey(segment, notation)}
+              </Text>
+            </Box>
+          ))}
+        </HStack>
+
+        {/* Segment list with times and confidence */}
+        {modulates && (
+          <VStack gap={1} align="stretch">
+            {segments.map((segment, index) => (
+              <HStack key={`${segment.start}-${index}`} justify="space-between" w="100%">
+                <Text color="gray.600" fontSize="xs">
+                  {formatTime(segment.start)} – {formatTime(segment.end)}
+                </Text>
+                <Text color="black" fontSize="xs" fontWeight="medium">
+                  {formatKey(segment, notation)} ({Math.round(segment.confidence * 100)}%)
+                </Text>
+              </HStack>
+            ))}
+          </VStack>
+        )}
+      </VStack>
+    </Box>
+  )
+}
+
+export default KeyTimeline
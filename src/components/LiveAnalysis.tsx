@@ -0,0 +1,90 @@
+import React from 'react'
+import {
+  Box,
+  HStack,
+  VStack,
+  Text,
+  Button,
+} from '@chakra-ui/react'
+import type { UseLiveAnalysisResult } from '../hooks/useLiveAnalysis'
+
+interface LiveAnalysisProps {
+  live: UseLiveAnalysisResult
+  isDisabled?: boolean
+}
+
+const formatConfidence = (confidence: number) => `${Math.round(confidence * 100)}% confidence`
+
+export const LiveAnalysis: React.FC<LiveAnalysisProps> = ({ live, isDisabled = false }) => {
+  const { isListening, reading, error, inputs, deviceId, start, stop } = live
+
+  const readouts = [
+    { label: 'BPM', value: reading?.bpm?.toString(), confidence: reading?.bpmConfidence ?? 0 },
+    { label: 'Key', value: reading?.key?.keyName, confidence: reading?.keyConfidence ?? 0 }
+  ]
+
+  return (
+    <Box w="100%" p={3} bg="gray.50" borderRadius="md" border="1px solid" borderColor="gray.200" data-testid="live-analysis">
+      <HStack gap={3} justify="center" flexWrap="wrap">
+        <Button
+          size="sm"
+          colorScheme={isListening ? 'red' : 'blue'}
+          variant={isListening ? 'solid' : 'outline'}
+          onClick={() => (isListening ? stop() : start(deviceId ?? undefined))}
+          disabled={isDisabled && !isListening}
+        >
+          {isListening ? 'Stop listening' : 'Listen live'}
+        </Button>
+        {inputs.length > 1 && (
+          <HStack gap={1} flexWrap="wrap" justify="center">
+            {inputs.map(input => (
+              <Button
+                key={input.deviceId}
+                size="xs"
+                variant={deviceId === input.deviceId ? 'solid' : 'outline'}
+                colorScheme="gray"
+                onClick={() => start(input.deviceId)}
+                aria-pressed={deviceId === input.deviceId}
+                disabled={isDisabled && !isListening}
+              >
+                {input.label}
+              </Button>
+            ))}
+          </HStack>
+        )}
+      </HStack>
+
+      {error && (
+        <Text fontSize="sm" color="red.600" textAlign="center" mt={2}>
+          {error}
+        </Text>
+      )}
+
+      {!isListening && !error && (
+        <Text fontSize="xs" color="gray.500" textAlign="center" mt={2}>
+          Detect the tempo and key of a microphone or line-in as it plays.
+        </Text>
+      )}
+
+      {isListening && (
+        <HStack gap={8} justify="center" mt={3} data-testid="live-reading">
+          {readouts.map(readout => (
+            <VStack key={readout.label} gap={0}>
+              <Text fontSize="xs" color="gray.600">
+                {readout.label}
+              </Text>
+              <Text fontSize="xl" fontWeight="bold" color={readout.value ? 'black' : 'gray.400'}>
+                {readout.value ?? 'Listening…'}
+              </Text>
+              {readout.value && (
+                <Text fontSize="xs" color="gray.500">
+                  {formatConfidence(readout.confidence)}
+                </Text>
+              )}
+            </VStack>
+          ))}
+        </HStack>
+      )}
+    </Box>
+  )
+}
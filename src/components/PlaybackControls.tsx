@@ -0,0 +1,64 @@
+import React from 'react'
+import {
+  HStack,
+  Text,
+  Button,
+} from '@chakra-ui/react'
+import type { UsePlaybackResult } from '../hooks/usePlayback'
+
+interface PlaybackControlsProps {
+  playback: UsePlaybackResult
+  hasBeats?: boolean // The metronome needs a tempo to click along to
+  isDisabled?: boolean
+}
+
+const formatTime = (seconds: number) => {
+  const minutes = Math.floor(seconds / 60)
+  const rest = Math.floor(seconds % 60)
+  return `${minutes}:${rest.toString().padStart(2, '0')}`
+}
+
+export const PlaybackControls: React.FC<PlaybackControlsProps> = ({
+  playback,
+  hasBeats = false,
+  isDisabled = false
+}) => {
+  const { isPlaying, position, duration, metronome, togglePlayback, seek, setMetronome } = playback
+
+  return (
+    <HStack gap={3} justify="center" flexWrap="wrap" data-testid="playback-controls">
+      <Button
+        size="sm"
+        colorScheme="red"
+        onClick={togglePlayback}
+        disabled={isDisabled}
+        aria-label={isPlaying ? 'Pause' : 'Play'}
+        minW="80px"
+      >
+        {isPlaying ? '⏸ Pause' : '▶ Play'}
+      </Button>
+      <Button
+        size="sm"
+        variant="outline"
+        colorScheme="gray"
+        onClick={() => seek(0)}
+        disabled={isDisabled || position === 0}
+      >
+        ⏮ Start
+      </Button>
+      <Text fontSize="sm" color="gray.600" fontFamily="mono" data-testid="playback-time">
+        {formatTime(position)} / {formatTime(duration)}
+      </Text>
+      <Button
+        size="sm"
+        variant={metronome ? 'solid' : 'outline'}
+        colorScheme="gray"
+        onClick={() => setMetronome(!metronome)}
+        disabled={isDisabled || !hasBeats}
+        aria-pressed={metronome}
+      >
+        Metronome
+      </Button>
+    </HStack>
+  )
+}
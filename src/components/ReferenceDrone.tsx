@@ -0,0 +1,93 @@
+import React from 'react'
+import {
+  HStack,
+  Text,
+  Button,
+  Slider,
+} from '@chakra-ui/react'
+import type { UseReferenceDroneResult } from '../hooks/useReferenceDrone'
+import type { DroneVoicing } from '../utils/referenceDrone'
+import type { KeyResult } from '../types'
+
+interface ReferenceDroneProps {
+  drone: UseReferenceDroneResult
+}
+
+const MODES: Array<{ value: KeyResult['mode']; label: string }> = [
+  { value: 'major', label: 'Major' },
+  { value: 'minor', label: 'Minor' }
+]
+
+const VOICINGS: Array<{ value: DroneVoicing; label: string }> = [
+  { value: 'root', label: 'Root' },
+  { value: 'triad', label: 'Triad' }
+]
+
+export const ReferenceDrone: React.FC<ReferenceDroneProps> = ({ drone }) => {
+  const { isOn, keyName, mode, voicing, volume, toggle, setMode, setVoicing, setVolume } = drone
+
+  if (!keyName) {
+    return null
+  }
+
+  return (
+    <HStack gap={3} justify="center" flexWrap="wrap" data-testid="reference-drone">
+      <Button
+        size="sm"
+        variant={isOn ? 'solid' : 'outline'}
+        colorScheme="gray"
+        onClick={toggle}
+        aria-pressed={isOn}
+      >
+        Reference drone
+      </Button>
+      <Text fontSize="sm" color="gray.600" data-testid="drone-key">
+        {keyName} {voicing === 'triad' ? 'triad' : 'root'}
+      </Text>
+      <HStack gap={1}>
+        {MODES.map(option => (
+          <Button
+            key={option.value}
+            size="xs"
+            variant={mode === option.value ? 'solid' : 'outline'}
+            colorScheme="gray"
+            onClick={() => setMode(option.value)}
+            aria-pressed={mode === option.value}
+          >
+            {option.label}
+          </Button>
+        ))}
+      </HStack>
+      <HStack gap={1}>
+        {VOICINGS.map(option => (
+          <Button
+            key={option.value}
+            size="xs"
+            variant={voicing === option.value ? 'solid' : 'outline'}
+            colorScheme="gray"
+            onClick={() => setVoicing(option.value)}
+            aria-pressed={voicing === option.value}
+          >
+            {option.label}
+          </Button>
+        ))}
+      </HStack>
+      <Slider.Root
+        w="100px"
+        size="sm"
+        min={0}
+        max={100}
+        value={[Math.round(volume * 100)]}
+        onValueChange={details => setVolume(details.value[0] / 100)}
+        aria-label={['Drone volume']}
+      >
+        <Slider.Control>
+          <Slider.Track>
+            <Slider.Range />
+          </Slider.Track>
+          <Slider.Thumbs />
+        </Slider.Control>
+      </Slider.Root>
+    </HStack>
+  )
+}
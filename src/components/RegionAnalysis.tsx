@@ -0,0 +1,94 @@
+import React from 'react'
+import {
+  Box,
+  HStack,
+  Text,
+  Button,
+  Grid,
+} from '@chakra-ui/react'
+import type { UseRegionAnalysisResult } from '../hooks/useRegionAnalysis'
+import type { AnalysisResult } from '../types'
+import { formatRegion } from '../utils/analysisRegion'
+
+interface RegionAnalysisProps {
+  regionAnalysis: UseRegionAnalysisResult
+  wholeFileResult?: AnalysisResult
+  isDisabled?: boolean
+}
+
+export const RegionAnalysis: React.FC<RegionAnalysisProps> = ({
+  regionAnalysis,
+  wholeFileResult,
+  isDisabled = false
+}) => {
+  const { region, result, isAnalyzing, error, selectRegion, analyzeRegion } = regionAnalysis
+
+  if (!region) {
+    return (
+      <Text fontSize="xs" color="gray.500" textAlign="center" data-testid="region-analysis">
+        Drag across the waveform to analyze a region on its own, such as a loop or the track after its intro.
+      </Text>
+    )
+  }
+
+  const columns = [
+    { label: 'Whole file', analysis: wholeFileResult },
+    { label: 'Region', analysis: result ?? undefined }
+  ]
+
+  return (
+    <Box w="100%" p={3} bg="gray.50" borderRadius="md" border="1px solid" borderColor="gray.200" data-testid="region-analysis">
+      <HStack gap={3} justify="center" flexWrap="wrap">
+        <Text fontSize="sm" color="gray.700" fontFamily="mono" data-testid="region-bounds">
+          {formatRegion(region)} ({(region.end - region.start).toFixed(1)}s)
+        </Text>
+        <Button
+          size="sm"
+          colorScheme="blue"
+          onClick={analyzeRegion}
+          loading={isAnalyzing}
+          disabled={isDisabled || isAnalyzing || !!result}
+        >
+          Analyze region
+        </Button>
+        <Button
+          size="sm"
+          variant="outline"
+          colorScheme="gray"
+          onClick={() => selectRegion(null)}
+        >
+          Clear region
+        </Button>
+      </HStack>
+
+      {error && (
+        <Text fontSize="sm" color="red.600" textAlign="center" mt={2}>
+          {error}
+        </Text>
+      )}
+
+      {result && (
+        <Grid templateColumns="auto 1fr 1fr" gap={2} mt={3} fontSize="sm" data-testid="region-comparison">
+          <Box />
+          {columns.map(column => (
+            <Text key={column.label} fontWeight="medium" color="gray.700">
+              {column.label}
+            </Text>
+          ))}
+          <Text color="gray.600">Key</Text>
+          {columns.map(column => (
+            <Text key={column.label} color="black">
+              {column.analysis?.key.keyName ?? '—'}
+            </Text>
+          ))}
+          <Text color="gray.600">BPM</Text>
+          {columns.map(column => (
+            <Text key={column.label} color="black">
+              {column.analysis?.bpm.bpm ?? '—'}
+            </Text>
+          ))}
+        </Grid>
+      )}
+    </Box>
+  )
+}
@@ -1,4 +1,4 @@
-import React from 'react'
+import React, { useState } from 'react'
 import {
   Box,
   Text,
@@ -7,27 +7,55 @@ import {
   Button,
   Spinner,
 } from '@chakra-ui/react'
-import type { AnalysisResult } from '../types'
+import type { AnalysisResult, AudioFile } from '../types'
 import { ErrorDisplay } from './ErrorDisplay'
 import { TempoSuggestions } from './TempoSuggestions'
+import { TapTempoPanel } from './TapTempoPanel'
+import { KeyTimeline } from './KeyTimeline'
+import { HarmonicMixing } from './HarmonicMixing'
+import { KeyAlternatives } from './KeyAlternatives'
+import { ExportMenu } from './ExportMenu'
+import { EmbeddedTagsPanel } from './EmbeddedTagsPanel'
+import { formatKey, getKeyNotations, getPreferredNotation, setPreferredNotation, KEY_NOTATION_LABELS } from '../utils/keyNotation'
+import type { KeyNotation } from '../utils/keyNotation'
+import { formatBPM, getPreferredBPMDecimals, setPreferredBPMDecimals, BPM_DECIMAL_OPTIONS, BPM_DECIMAL_LABELS } from '../utils/preciseTempo'
+import type { BPMDecimals } from '../utils/preciseTempo'
 
 interface ResultsDisplayProps {
   analysisResult?: AnalysisResult
   audioBuffer?: AudioBuffer
+  audioFile?: AudioFile
   isLoading: boolean
   error?: string
   onReset: () => void
   onRetry?: () => void
+  onTempoOverride?: (bpm: number | null) => void
 }
 
 export const ResultsDisplay: React.FC<ResultsDisplayProps> = ({
   analysisResult,
   audioBuffer,
+  audioFile,
   isLoading,
   error,
   onReset,
   onRetry,
+  onTempoOverride,
 }) => {
+  const [notation, setNotation] = useState<KeyNotation>(getPreferredNotation)
+
+  const handleNotationChange = (value: KeyNotation) => {
+    setNotation(value)
+    setPreferredNotation(value)
+  }
+
+  const [bpmDecimals, setBPMDecimals] = useState<BPMDecimals>(getPreferredBPMDecimals)
+
+  const handleBPMDecimalsChange = (value: BPMDecimals) => {
+    setBPMDecimals(value)
+    setPreferredBPMDecimals(value)
+  }
+
   // Don't render anything if there's no audio buffer and not loading
   if (!audioBuffer && !analysisResult && !isLoading && !error) {
     return null
@@ -76,7 +104,8 @@ export const ResultsDisplay: React.FC<ResultsDisplayProps> = ({
   // Show results UI as soon as we have audio buffer or analysis results
   if (!audioBuffer && !analysisResult) return null
 
-  const { key, bpm, confidence, processingTime } = analysisResult || {}
+  const { key, bpm, confidence, processingTime, keySegments } = analysisResult || {}
+  const keyNotations = key ? getKeyNotations(key) : null
 
   return (
     <Box w="100%" maxW="600px" mx="auto" mt={6}>
@@ -88,6 +117,40 @@ export const ResultsDisplay: React.FC<ResultsDisplayProps> = ({
               Analysis Results
             </Text>
 
+            {/* Key notation preference */}
+            <HStack gap={2} justify="center" flexWrap="wrap">
+              <Text color="gray.600" fontSize="xs">
+                Key notation:
+              </Text>
+              {(Object.keys(KEY_NOTATION_LABELS) as KeyNotation[]).map(option => (
+                <Button
+                  key={option}
+                  size="xs"
+                  variant={notation === option ? 'solid' : 'outline'}
+                  colorScheme="gray"
+                  onClick={() => handleNotationChange(option)}
+                  aria-pressed={notation === option}
+                >
+                  {KEY_NOTATION_LABELS[option]}
+                </Button>
+              ))}
+              <Text color="gray.600" fontSize="xs" ml={2}>
+                BPM precision:
+              </Text>
+              {BPM_DECIMAL_OPTIONS.map(option => (
+                <Button
+                  key={option}
+                  size="xs"
+                  variant={bpmDecimals === option ? 'solid' : 'outline'}
+                  colorScheme="gray"
+                  onClick={() => handleBPMDecimalsChange(option)}
+                  aria-pressed={bpmDecimals === option}
+                >
+                  {BPM_DECIMAL_LABELS[option]}
+                </Button>
+              ))}
+            </HStack>
+
             {/* Mobile: Stack vertically, Desktop: Side by side */}
             <Box w="100%">
               {/* Desktop Layout */}
@@ -104,8 +167,13 @@ export const ResultsDisplay: React.FC<ResultsDisplayProps> = ({
                       Musical Key
                     </Text>
                     <Text color="black" fontSize="3xl" fontWeight="bold">
-                      {key.keyName}
+                      {formatKey(key, notation)}
                     </Text>
+                    {notation !== 'standard' && (
+                      <Text color="gray.600" fontSize="sm">
+                        {formatKey(key, 'standard')}
+                      </Text>
+                    )}
                     <Box bg="gray.100" px={3} py={1} borderRadius="md">
                       <Text color="gray.700" fontSize="sm">
                         {Math.round(key.confidence * 100)}% confidence
@@ -135,7 +203,7 @@ export const ResultsDisplay: React.FC<ResultsDisplayProps> = ({
                       Tempo (BPM)
                     </Text>
                     <Text color="black" fontSize="3xl" fontWeight="bold">
-                      {bpm.bpm}
+                      {formatBPM(bpm, bpmDecimals)}
                     </Text>
                     <Box bg="gray.100" px={3} py={1} borderRadius="md">
                       <Text color="gray.700" fontSize="sm">
@@ -171,8 +239,13 @@ export const ResultsDisplay: React.FC<ResultsDisplayProps> = ({
                       Musical Key
                     </Text>
                     <Text color="black" fontSize="2xl" fontWeight="bold">
-                      {key.keyName}
+                      {formatKey(key, notation)}
                     </Text>
+                    {notation !== 'standard' && (
+                      <Text color="gray.600" fontSize="xs">
+                        {formatKey(key, 'standard')}
+                      </Text>
+                    )}
                     <Box bg="gray.100" px={3} py={1} borderRadius="md">
                       <Text color="gray.700" fontSize="sm">
                         {Math.round(key.confidence * 100)}% confidence
@@ -202,7 +275,7 @@ export const ResultsDisplay: React.FC<ResultsDisplayProps> = ({
                       Tempo (BPM)
                     </Text>
                     <Text color="black" fontSize="2xl" fontWeight="bold">
-                      {bpm.bpm}
+                      {formatBPM(bpm, bpmDecimals)}
                     </Text>
                     <Box bg="gray.100" px={3} py={1} borderRadius="md">
                       <Text color="gray.700" fontSize="sm">
@@ -226,14 +299,40 @@ export const ResultsDisplay: React.FC<ResultsDisplayProps> = ({
               </VStack>
             </Box>
 
+            {/* Check the tempo by ear, and override it */}
+            {bpm && (
+              <TapTempoPanel bpm={bpm} genreProfile={analysisResult?.genreProfile} onOverride={onTempoOverride} />
+            )}
+
+            {/* Tags already embedded in the file, checked against the detected values */}
+            {audioFile?.tags && (
+              <EmbeddedTagsPanel tags={audioFile.tags} analysisResult={analysisResult} notation={notation} />
+            )}
+
+            {/* Runner-up keys when the key is uncertain */}
+            {key && (
+              <KeyAlternatives detectedKey={key} notation={notation} />
+            )}
+
+            {/* Harmonic Mixing */}
+            {key && (
+              <HarmonicMixing detectedKey={key} notation={notation} />
+            )}
+
             {/* Tempo Suggestions */}
             {bpm && (
               <TempoSuggestions
                 detectedBPM={bpm.bpm}
                 confidence={bpm.confidence}
+                genreProfile={analysisResult?.genreProfile}
               />
             )}
 
+            {/* Key changes over the length of the track */}
+            {key && keySegments && keySegments.length > 0 && (
+              <KeyTimeline segments={keySegments} globalKey={key} notation={notation} />
+            )}
+
             <Box w="100%" h="1px" bg="gray.200" />
 
             {/* Additional Details */}
@@ -260,6 +359,28 @@ export const ResultsDisplay: React.FC<ResultsDisplayProps> = ({
                 </HStack>
               )}
 
+              {keyNotations && (
+                <HStack justify="space-between" w="100%" flexWrap={{ base: 'wrap', md: 'nowrap' }}>
+                  <Text color="gray.600" fontSize={{ base: 'xs', md: 'sm' }}>
+                    Camelot / Open Key:
+                  </Text>
+                  <Text color="black" fontSize={{ base: 'xs', md: 'sm' }} fontWeight="medium">
+                    {keyNotations.camelot} / {keyNotations.openKey}
+                  </Text>
+                </HStack>
+              )}
+
+              {keyNotations?.enharmonic && (
+                <HStack justify="space-between" w="100%" flexWrap={{ base: 'wrap', md: 'nowrap' }}>
+                  <Text color="gray.600" fontSize={{ base: 'xs', md: 'sm' }}>
+                    Also Written As:
+                  </Text>
+                  <Text color="black" fontSize={{ base: 'xs', md: 'sm' }} fontWeight="medium">
+                    {keyNotations.enharmonic}
+                  </Text>
+                </HStack>
+              )}
+
               {bpm && (
                 <HStack justify="space-between" w="100%" flexWrap={{ base: 'wrap', md: 'nowrap' }}>
                   <Text color="gray.600" fontSize={{ base: 'xs', md: 'sm' }}>
@@ -298,6 +419,15 @@ export const ResultsDisplay: React.FC<ResultsDisplayProps> = ({
               </HStack>
             </VStack>
 
+            {/* Export */}
+            {analysisResult && (
+              <ExportMenu
+                analysisResult={analysisResult}
+                audioFile={audioFile}
+                notation={notation}
+              />
+            )}
+
             <Box w="100%" h="1px" bg="gray.200" />
 
             {/* Reset Button */}
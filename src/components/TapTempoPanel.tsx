@@ -0,0 +1,115 @@
+import React, { useCallback, useEffect, useRef, useState } from 'react'
+import {
+  Box,
+  Text,
+  HStack,
+  Button,
+  Badge,
+} from '@chakra-ui/react'
+import type { BPMResult, GenreProfileId } from '../types'
+import { TapTempo } from '../utils/tapTempo'
+import type { TapTempoReading } from '../utils/tapTempo'
+import { findMatchingSuggestion, generateTempoSuggestions } from '../utils/tempoSuggestions'
+
+interface TapTempoPanelProps {
+  bpm: BPMResult
+  genreProfile?: GenreProfileId
+  onOverride?: (bpm: number | null) => void
+}
+
+// Taps typed into a field are text, not beats
+const isTextInput = (target: EventTarget | null) =>
+  target instanceof HTMLElement && (target.isContentEditable || ['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName))
+
+export const TapTempoPanel: React.FC<TapTempoPanelProps> = ({
+  bpm,
+  genreProfile,
+  onOverride,
+}) => {
+  const tapTempo = useRef(new TapTempo())
+  const [reading, setReading] = useState<TapTempoReading | null>(null)
+
+  const handleTap = useCallback(() => {
+    setReading(tapTempo.current.tap(performance.now()))
+  }, [])
+
+  const handleReset = () => {
+    tapTempo.current.reset()
+    setReading(null)
+  }
+
+  // Tap along on the T key as well as the button
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (event.key.toLowerCase() !== 't' || event.repeat || event.metaKey || event.ctrlKey || event.altKey) return
+      if (isTextInput(event.target)) return
+      handleTap()
+    }
+
+    window.addEventListener('keydown', handleKeyDown)
+    return () => window.removeEventListener('keydown', handleKeyDown)
+  }, [handleTap])
+
+  // Candidates come from the detected tempo, so an override can be undone or changed
+  const detectedBPM = bpm.detected?.bpm ?? bpm.bpm
+  const { suggestions } = generateTempoSuggestions(detectedBPM, bpm.confidence, genreProfile)
+  const match = reading ? findMatchingSuggestion(suggestions, reading.bpm) : null
+  const acceptBPM = reading ? match?.bpm ?? Math.round(reading.bpm) : null
+
+  return (
+    <Box w="100%" p={3} bg="gray.50" borderRadius="md" border="1px solid" borderColor="gray.200" data-testid="tap-tempo">
+      <HStack justify="space-between" flexWrap="wrap" gap={2}>
+        <HStack gap={2}>
+          <Button size="sm" colorScheme="red" onClick={handleTap}>
+            Tap
+          </Button>
+          <Text fontSize="xs" color="gray.600">
+            Tap along with the beat, or press T
+          </Text>
+        </HStack>
+        {reading && (
+          <Button size="xs" variant="ghost" colorScheme="gray" onClick={handleReset}>
+            Reset
+          </Button>
+        )}
+      </HStack>
+
+      {reading && (
+        <HStack mt={3} gap={2} flexWrap="wrap">
+          <Text fontSize="sm" fontWeight="bold" color="black" data-testid="tapped-bpm">
+            {reading.bpm.toFixed(1)} BPM
+          </Text>
+          <Text fontSize="xs" color="gray.500">
+            ({reading.taps} taps)
+          </Text>
+          {match ? (
+            <HStack gap={1}>
+              <Badge size="sm" colorScheme="green">{match.label}</Badge>
+              <Text fontSize="xs" color="gray.600">matches {match.bpm} BPM</Text>
+            </HStack>
+          ) : (
+            <Text fontSize="xs" color="gray.600">No suggested tempo matches</Text>
+          )}
+          {onOverride && acceptBPM !== null && acceptBPM !== bpm.bpm && (
+            <Button size="xs" variant="outline" colorScheme="gray" onClick={() => onOverride(acceptBPM)}>
+              Use {acceptBPM} BPM
+            </Button>
+          )}
+        </HStack>
+      )}
+
+      {bpm.detected && (
+        <HStack mt={3} gap={2} flexWrap="wrap">
+          <Text fontSize="xs" color="gray.600">
+            Manual tempo (detected {bpm.detected.bpm} BPM)
+          </Text>
+          {onOverride && (
+            <Button size="xs" variant="outline" colorScheme="gray" onClick={() => onOverride(null)}>
+              Restore detected
+            </Button>
+          )}
+        </HStack>
+      )}
+    </Box>
+  )
+}
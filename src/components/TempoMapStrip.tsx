@@ -0,0 +1,89 @@
+import React from 'react'
+import {
+  Box,
+  Text,
+  HStack,
+  Badge,
+} from '@chakra-ui/react'
+import type { TempoMap } from '../types'
+
+interface TempoMapStripProps {
+  tempoMap: TempoMap
+  duration: number
+  width?: number
+}
+
+const getSegmentColor = (bpm: number, baseBPM: number, isSteady: boolean) => {
+  if (isSteady) return 'green.200'
+  if (bpm > baseBPM + 0.5) return 'orange.200'
+  if (bpm < baseBPM - 0.5) return 'blue.200'
+  return 'green.200'
+}
+
+export const TempoMapStrip: React.FC<TempoMapStripProps> = ({
+  tempoMap,
+  duration,
+  width
+}) => {
+  if (tempoMap.segments.length === 0 || duration <= 0) {
+    return null
+  }
+
+  // Colour each segment relative to the longest-running tempo
+  const baseSegment = tempoMap.segments.reduce((longest, segment) =>
+    segment.end - segment.start > longest.end - longest.start ? segment : longest
+  )
+
+  return (
+    <Box w={width ? `${width}px` : '100%'} mx="auto" data-testid="tempo-map">
+      <HStack justify="space-between" mb={1} gap={2}>
+        <Text fontSize="xs" color="gray.600">
+          Tempo map
+        </Text>
+        {tempoMap.isSteady ? (
+          <Badge colorScheme="green" size="sm">
+            Steady tempo
+          </Badge>
+        ) : (
+          <Badge colorScheme="orange" size="sm">
+            Tempo varies by {tempoMap.variation} BPM
+          </Badge>
+        )}
+      </HStack>
+
+      <Box position="relative" h="20px" bg="gray.100" borderRadius="sm" overflow="hidden">
+        {tempoMap.segments.map((segment, index) => {
+          const left = Math.max(0, Math.min(100, (segment.start / duration) * 100))
+          const right = Math.max(0, Math.min(100, (segment.end / duration) * 100))
+
+          return (
+            <Box
+              key={`${segment.start}-${index}`}
+              position="absolute"
+              top={0}
+              bottom={0}
+              left={`${left}%`}
+              width={`${Math.max(0, right - left)}%`}
+              bg={getSegmentColor(segment.bpm, baseSegment.bpm, tempoMap.isSteady)}
+              opacity={0.4 + segment.confidence * 0.6}
+              borderRight="1px solid"
+              borderColor="white"
+              display="flex"
+              alignItems="center"
+              justifyContent="center"
+              overflow="hidden"
+              title={`${segment.start.toFixed(1)}s – ${segment.end.toFixed(1)}s: ${segment.bpm} BPM (${Math.round(segment.confidence * 100)}% confidence)`}
+              data-testid="tempo-segment"
+            >
+              <Text fontSize="2xs" color="gray.800" whiteSpace="nowrap">
+                {segment.bpm}
+              </Text>
+            </Box>
+          )
+        })}
+      </Box>
+    </Box>
+  )
+}
+
+export default TempoMapStrip
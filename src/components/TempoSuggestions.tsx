@@ -9,18 +9,21 @@ import {
   Collapsible,
 } from '@chakra-ui/react'
 import { generateTempoSuggestions } from '../utils/tempoSuggestions'
+import type { GenreProfileId } from '../types'
 
 interface TempoSuggestionsProps {
   detectedBPM: number
   confidence: number
+  genreProfile?: GenreProfileId
 }
 
 export const TempoSuggestions: React.FC<TempoSuggestionsProps> = ({
   detectedBPM,
   confidence,
+  genreProfile,
 }) => {
   const [isExpanded, setIsExpanded] = useState(false)
-  const suggestions = generateTempoSuggestions(detectedBPM, confidence)
+  const suggestions = generateTempoSuggestions(detectedBPM, confidence, genreProfile)
   
   // Don't show suggestions if confidence is very high and BPM is in typical range
   const shouldShowSuggestions = confidence < 0.8 || suggestions.suggestions.length > 1
@@ -6,27 +6,48 @@ import {
   Spinner
 } from '@chakra-ui/react'
 import { useWaveform } from '../hooks/useWaveform'
-import type { WaveformData } from '../types'
+import { TempoMapStrip } from './TempoMapStrip'
+import type { WaveformData, BeatGrid, TempoMap, AnalysisRegion } from '../types'
 
 interface WaveformDisplayProps {
   audioBuffer?: AudioBuffer
   isLoading?: boolean
   progress?: number
   error?: string
+  beatGrid?: BeatGrid
+  tempoMap?: TempoMap
+  emptyMessage?: string // Shown in place of the waveform when there is no audio buffer
+  playbackPosition?: number // Seconds into the track, drawn as a playhead
+  onSeek?: (time: number) => void // Called with the time clicked on the waveform
+  region?: AnalysisRegion // Selected region, shaded over the waveform
+  onRegionSelect?: (region: AnalysisRegion) => void // Called with the stretch dragged across the waveform
 }
 
+// Dragging less than this is taken as a click, so it seeks instead of selecting a region
+const MIN_DRAG_PIXELS = 5
+
 export const WaveformDisplay: React.FC<WaveformDisplayProps> = ({
   audioBuffer,
   isLoading = false,
   progress,
-  error
+  error,
+  beatGrid,
+  tempoMap,
+  emptyMessage = 'Upload an audio file to see waveform',
+  playbackPosition,
+  onSeek,
+  region,
+  onRegionSelect
 }) => {
-  const { generateWaveformData, drawWaveform, isGenerating } = useWaveform()
+  const { generateWaveformData, drawWaveform, drawBeatMarkers, isGenerating } = useWaveform()
   const canvasRef = useRef<HTMLCanvasElement>(null)
   const containerRef = useRef<HTMLDivElement>(null)
   const [waveformData, setWaveformData] = useState<WaveformData | null>(null)
   const [canvasSize, setCanvasSize] = useState({ width: 800, height: 200 })
   const [containerHeight, setContainerHeight] = useState(232) // Pre-calculate container height
+  const dragRef = useRef<{ startX: number; startTime: number; isDragging: boolean } | null>(null)
+  const ignoreClickRef = useRef(false) // The click that ends a drag is not a seek
+  const [draftRegion, setDraftRegion] = useState<AnalysisRegion | null>(null)
 
   // Handle responsive canvas sizing with mobile optimization
   useEffect(() => {
@@ -151,17 +172,74 @@ export const WaveformDisplay: React.FC<WaveformDisplayProps> = ({
         // Redraw immediately after size change if we have data
         if (waveformData && !isGenerating) {
           drawWaveform(canvas, waveformData, progress)
+          if (beatGrid) {
+            drawBeatMarkers(canvas, beatGrid, waveformData.duration)
+          }
         }
       }
     }
-  }, [canvasSize, waveformData, isGenerating, drawWaveform, progress])
+  }, [canvasSize, waveformData, isGenerating, drawWaveform, drawBeatMarkers, beatGrid, progress])
 
   // Draw waveform when data or progress changes (but not when canvas size changes)
   useEffect(() => {
     if (canvasRef.current && waveformData && !isGenerating) {
       drawWaveform(canvasRef.current, waveformData, progress)
+      // Beat markers sit on top of the waveform so the grid can be checked by eye
+      if (beatGrid) {
+        drawBeatMarkers(canvasRef.current, beatGrid, waveformData.duration)
+      }
+    }
+  }, [waveformData, progress, drawWaveform, drawBeatMarkers, beatGrid, isGenerating])
+
+  const getTimeAt = (event: React.MouseEvent<HTMLDivElement>): number | null => {
+    if (!waveformData) return null
+    const rect = event.currentTarget.getBoundingClientRect()
+    if (rect.width <= 0) return null
+    const fraction = Math.min(1, Math.max(0, (event.clientX - rect.left) / rect.width))
+    return fraction * waveformData.duration
+  }
+
+  const handleSeek = (event: React.MouseEvent<HTMLDivElement>) => {
+    if (ignoreClickRef.current) {
+      ignoreClickRef.current = false
+      return
+    }
+    const time = getTimeAt(event)
+    if (onSeek && time !== null) onSeek(time)
+  }
+
+  const handleDragStart = (event: React.MouseEvent<HTMLDivElement>) => {
+    const time = getTimeAt(event)
+    if (!onRegionSelect || time === null) return
+    dragRef.current = { startX: event.clientX, startTime: time, isDragging: false }
+  }
+
+  const getDraggedRegion = (event: React.MouseEvent<HTMLDivElement>): AnalysisRegion | null => {
+    const drag = dragRef.current
+    const time = getTimeAt(event)
+    if (!drag || time === null) return null
+    if (!drag.isDragging && Math.abs(event.clientX - drag.startX) < MIN_DRAG_PIXELS) return null
+    drag.isDragging = true
+    return { start: Math.min(drag.startTime, time), end: Math.max(drag.startTime, time) }
+  }
+
+  const handleDragMove = (event: React.MouseEvent<HTMLDivElement>) => {
+    const dragged = getDraggedRegion(event)
+    if (dragged) setDraftRegion(dragged)
+  }
+
+  // Releasing the button, or leaving the waveform mid-drag, selects the region dragged so far
+  const handleDragEnd = (event: React.MouseEvent<HTMLDivElement>) => {
+    const dragged = getDraggedRegion(event)
+    dragRef.current = null
+    setDraftRegion(null)
+    if (dragged && onRegionSelect) {
+      ignoreClickRef.current = event.type === 'mouseup'
+      onRegionSelect(dragged)
     }
-  }, [waveformData, progress, drawWaveform, isGenerating])
+  }
+
+  const shownRegion = draftRegion ?? region
 
   // Always use consistent VStack layout structure to prevent jarring transitions
   return (
@@ -181,6 +259,7 @@ export const WaveformDisplay: React.FC<WaveformDisplayProps> = ({
                 Duration: {Math.round(waveformData.duration)}s |
                 Sample Rate: {waveformData.sampleRate}Hz |
                 Channels: {waveformData.channels}
+                {beatGrid && beatGrid.beats.length > 0 && ` | Beat grid: ${beatGrid.beats.length} beats`}
               </Text>
 
               {/* Mobile: Stacked layout */}
@@ -246,21 +325,59 @@ export const WaveformDisplay: React.FC<WaveformDisplayProps> = ({
             </VStack>
           ) : !audioBuffer || !waveformData ? (
             <Text color="gray.500" fontSize="lg">
-              Upload an audio file to see waveform
+              {emptyMessage}
             </Text>
           ) : (
             <>
-              {/* Actual waveform canvas */}
-              <canvas
-                ref={canvasRef}
-                key="waveform-canvas" // Prevent React from recreating the canvas
-                style={{
-                  width: `${canvasSize.width}px`,
-                  height: `${canvasSize.height}px`,
-                  display: 'block',
-                  background: 'transparent'
-                }}
-              />
+              {/* Actual waveform canvas, with the playhead and region over it; clicking seeks, dragging selects a region */}
+              <Box
+                position="relative"
+                onClick={handleSeek}
+                onMouseDown={handleDragStart}
+                onMouseMove={handleDragMove}
+                onMouseUp={handleDragEnd}
+                onMouseLeave={handleDragEnd}
+                cursor={onSeek ? 'pointer' : undefined}
+                userSelect="none"
+                data-testid="waveform-seek-area"
+              >
+                <canvas
+                  ref={canvasRef}
+                  key="waveform-canvas" // Prevent React from recreating the canvas
+                  style={{
+                    width: `${canvasSize.width}px`,
+                    height: `${canvasSize.height}px`,
+                    display: 'block',
+                    background: 'transparent'
+                  }}
+                />
+                {shownRegion && waveformData.duration > 0 && (
+                  <Box
+                    position="absolute"
+                    top={0}
+                    bottom={0}
+                    left={`${(shownRegion.start / waveformData.duration) * 100}%`}
+                    width={`${((shownRegion.end - shownRegion.start) / waveformData.duration) * 100}%`}
+                    bg="rgba(49, 130, 206, 0.2)"
+                    borderX="1px solid"
+                    borderColor="blue.500"
+                    pointerEvents="none"
+                    data-testid="waveform-region"
+                  />
+                )}
+                {playbackPosition !== undefined && waveformData.duration > 0 && (
+                  <Box
+                    position="absolute"
+                    top={0}
+                    bottom={0}
+                    left={`${Math.min(1, playbackPosition / waveformData.duration) * 100}%`}
+                    width="2px"
+                    bg="gray.800"
+                    pointerEvents="none"
+                    data-testid="playhead"
+                  />
+                )}
+              </Box>
 
               {/* Progress overlay */}
               {progress !== undefined && progress > 0 && (
@@ -318,6 +435,15 @@ export const WaveformDisplay: React.FC<WaveformDisplayProps> = ({
             </>
           )}
         </Box>
+
+        {/* Tempo map strip - one block per section of steady tempo */}
+        {tempoMap && waveformData && !isLoading && !error && (
+          <TempoMapStrip
+            tempoMap={tempoMap}
+            duration={waveformData.duration}
+            width={canvasSize.width}
+          />
+        )}
       </VStack>
     </Box>
   )
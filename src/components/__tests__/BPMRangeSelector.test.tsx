@@ -0,0 +1,49 @@
+import { describe, it, expect, vi } from 'vitest'
+import { render, screen, fireEvent } from '@testing-library/react'
+import { ChakraProvider, defaultSystem } from '@chakra-ui/react'
+import { BPMRangeSelector } from '../BPMRangeSelector'
+
+const renderWithChakra = (component: React.ReactElement) => {
+    return render(
+        <ChakraProvider value={defaultSystem}>
+            {component}
+        </ChakraProvider>
+    )
+}
+
+describe('BPMRangeSelector', () => {
+    it('should show any tempo when no range is set', () => {
+        renderWithChakra(<BPMRangeSelector value={{}} onChange={vi.fn()} />)
+
+        expect(screen.getByTestId('bpm-range-value')).toHaveTextContent('Any')
+        expect(screen.queryByText('Any tempo')).not.toBeInTheDocument()
+    })
+
+    it('should show the chosen range', () => {
+        renderWithChakra(<BPMRangeSelector value={{ minBPM: 160, maxBPM: 180 }} onChange={vi.fn()} />)
+
+        expect(screen.getByTestId('bpm-range-value')).toHaveTextContent('160–180')
+    })
+
+    it('should set a target tempo only when it is within the limits', () => {
+        const onChange = vi.fn()
+        renderWithChakra(<BPMRangeSelector value={{ minBPM: 160, maxBPM: 180 }} onChange={onChange} />)
+
+        const input = screen.getByLabelText('Target BPM')
+        fireEvent.change(input, { target: { value: '174' } })
+        expect(onChange).toHaveBeenLastCalledWith({ minBPM: 160, maxBPM: 180, targetBPM: 174 })
+
+        fireEvent.change(input, { target: { value: '7' } })
+        expect(onChange).toHaveBeenLastCalledWith({ minBPM: 160, maxBPM: 180, targetBPM: undefined })
+    })
+
+    it('should clear the range and target', () => {
+        const onChange = vi.fn()
+        renderWithChakra(<BPMRangeSelector value={{ minBPM: 160, targetBPM: 174 }} onChange={onChange} />)
+
+        fireEvent.click(screen.getByText('Any tempo'))
+
+        expect(onChange).toHaveBeenCalledWith({})
+        expect(screen.getByLabelText('Target BPM')).toHaveValue(null)
+    })
+})
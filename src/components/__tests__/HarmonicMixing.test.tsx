@@ -0,0 +1,51 @@
+import { describe, it, expect } from 'vitest'
+import { render, screen, fireEvent } from '@testing-library/react'
+import { ChakraProvider, defaultSystem } from '@chakra-ui/react'
+import { HarmonicMixing } from '../HarmonicMixing'
+import type { KeyResult } from '../../types'
+
+const renderWithChakra = (component: React.ReactElement) => {
+  return render(
+    <ChakraProvider value={defaultSystem}>
+      {component}
+    </ChakraProvider>
+  )
+}
+
+const aMinor: KeyResult = { keyName: 'A Minor', keySignature: 'Am', confidence: 0.8, mode: 'minor' }
+
+describe('HarmonicMixing', () => {
+  it('should show the Camelot code on the toggle', () => {
+    renderWithChakra(<HarmonicMixing detectedKey={aMinor} />)
+
+    expect(screen.getByText('Harmonic Mixing (8A)')).toBeInTheDocument()
+  })
+
+  it('should list compatible keys when expanded', () => {
+    renderWithChakra(<HarmonicMixing detectedKey={aMinor} />)
+
+    fireEvent.click(screen.getByText('Harmonic Mixing (8A)'))
+
+    expect(screen.getAllByTestId('harmonic-suggestion')).toHaveLength(5)
+    expect(screen.getByText('C Major')).toBeInTheDocument()
+    expect(screen.getByText('Relative major')).toBeInTheDocument()
+    expect(screen.getByText('Camelot +7')).toBeInTheDocument()
+  })
+
+  it('should use the preferred notation for suggested keys', () => {
+    renderWithChakra(<HarmonicMixing detectedKey={aMinor} notation="camelot" />)
+
+    fireEvent.click(screen.getByText('Harmonic Mixing (8A)'))
+
+    expect(screen.getByText('8B')).toBeInTheDocument()
+    expect(screen.getByText('C Major')).toBeInTheDocument() // Standard name as secondary detail
+  })
+
+  it('should not render for keys it cannot parse', () => {
+    const { container } = renderWithChakra(
+      <HarmonicMixing detectedKey={{ ...aMinor, keyName: 'Unknown' }} />
+    )
+
+    expect(container.firstChild).toBeNull()
+  })
+})
@@ -0,0 +1,60 @@
+import { describe, it, expect } from 'vitest'
+import { render, screen } from '@testing-library/react'
+import { ChakraProvider, defaultSystem } from '@chakra-ui/react'
+import { KeyAlternatives } from '../KeyAlternatives'
+import type { KeyResult } from '../../types'
+
+const renderWithChakra = (component: React.ReactElement) => {
+  return render(
+    <ChakraProvider value={defaultSystem}>
+      {component}
+    </ChakraProvider>
+  )
+}
+
+const uncertainAMinor: KeyResult = {
+  keyName: 'A Minor',
+  keySignature: 'Am',
+  confidence: 0.45,
+  mode: 'minor',
+  alternatives: [
+    { keyName: 'F# Major', keySignature: 'F#', mode: 'major', score: 0.44 },
+    { keyName: 'C Major', keySignature: 'C', mode: 'major', score: 0.42 },
+    { keyName: 'B Minor', keySignature: 'Bm', mode: 'minor', score: 0.4 },
+    { keyName: 'E Minor', keySignature: 'Em', mode: 'minor', score: 0.38 },
+    { keyName: 'D Minor', keySignature: 'Dm', mode: 'minor', score: 0.35 }
+  ]
+}
+
+describe('KeyAlternatives', () => {
+  it('should list related keys first when confidence is low', () => {
+    renderWithChakra(<KeyAlternatives detectedKey={uncertainAMinor} />)
+
+    const rows = screen.getAllByTestId('key-alternative')
+    expect(rows).toHaveLength(4)
+    expect(rows[0]).toHaveTextContent('C Major')
+    expect(rows[0]).toHaveTextContent('Relative key')
+    expect(rows[0]).toHaveTextContent('42% match')
+    expect(rows[1]).toHaveTextContent('Fifth up')
+    expect(rows[2]).toHaveTextContent('Fifth down')
+    expect(rows[3]).toHaveTextContent('F# Major')
+    expect(screen.queryByText('B Minor')).not.toBeInTheDocument()
+  })
+
+  it('should use the preferred notation', () => {
+    renderWithChakra(<KeyAlternatives detectedKey={uncertainAMinor} notation="camelot" />)
+
+    expect(screen.getAllByTestId('key-alternative')[0]).toHaveTextContent('8B')
+  })
+
+  it('should not render when the key is confident or has no alternatives', () => {
+    const { container } = renderWithChakra(
+      <>
+        <KeyAlternatives detectedKey={{ ...uncertainAMinor, confidence: 0.9 }} />
+        <KeyAlternatives detectedKey={{ ...uncertainAMinor, alternatives: undefined }} />
+      </>
+    )
+
+    expect(container).toBeEmptyDOMElement()
+  })
+})
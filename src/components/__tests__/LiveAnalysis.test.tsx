@@ -0,0 +1,81 @@
+import { describe, it, expect, vi } from 'vitest'
+import { render, screen, fireEvent } from '@testing-library/react'
+import { ChakraProvider, defaultSystem } from '@chakra-ui/react'
+import { LiveAnalysis } from '../LiveAnalysis'
+import type { UseLiveAnalysisResult } from '../../hooks/useLiveAnalysis'
+
+const renderWithChakra = (component: React.ReactElement) => {
+  return render(
+    <ChakraProvider value={defaultSystem}>
+      {component}
+    </ChakraProvider>
+  )
+}
+
+const makeLive = (overrides: Partial<UseLiveAnalysisResult> = {}): UseLiveAnalysisResult => ({
+  isListening: false,
+  reading: null,
+  error: null,
+  inputs: [],
+  deviceId: null,
+  start: vi.fn(),
+  stop: vi.fn(),
+  ...overrides
+})
+
+describe('LiveAnalysis', () => {
+  it('should start listening on the default input', () => {
+    const live = makeLive()
+    renderWithChakra(<LiveAnalysis live={live} />)
+
+    fireEvent.click(screen.getByText('Listen live'))
+
+    expect(live.start).toHaveBeenCalledWith(undefined)
+    expect(screen.queryByTestId('live-reading')).not.toBeInTheDocument()
+  })
+
+  it('should show the readings with their confidence as they come in', () => {
+    const live = makeLive({
+      isListening: true,
+      reading: {
+        bpm: 124,
+        bpmConfidence: 0.83,
+        key: null,
+        keyConfidence: 0,
+        bufferedSeconds: 4
+      }
+    })
+    renderWithChakra(<LiveAnalysis live={live} />)
+
+    const reading = screen.getByTestId('live-reading')
+    expect(reading).toHaveTextContent('124')
+    expect(reading).toHaveTextContent('83% confidence')
+    expect(reading).toHaveTextContent('Listening…')
+
+    fireEvent.click(screen.getByText('Stop listening'))
+    expect(live.stop).toHaveBeenCalled()
+  })
+
+  it('should switch between inputs', () => {
+    const live = makeLive({
+      isListening: true,
+      deviceId: 'mic',
+      inputs: [
+        { deviceId: 'mic', label: 'Built-in Microphone' },
+        { deviceId: 'line', label: 'Line In' }
+      ]
+    })
+    renderWithChakra(<LiveAnalysis live={live} />)
+
+    expect(screen.getByText('Built-in Microphone').closest('button')).toHaveAttribute('aria-pressed', 'true')
+    fireEvent.click(screen.getByText('Line In'))
+
+    expect(live.start).toHaveBeenCalledWith('line')
+  })
+
+  it('should show why the input could not be opened', () => {
+    renderWithChakra(<LiveAnalysis live={makeLive({ error: 'Microphone access was denied' })} />)
+
+    expect(screen.getByText('Microphone access was denied')).toBeInTheDocument()
+  })
+})
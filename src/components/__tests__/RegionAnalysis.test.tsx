@@ -0,0 +1,77 @@
+import { describe, it, expect, vi } from 'vitest'
+import { render, screen, fireEvent } from '@testing-library/react'
+import { ChakraProvider, defaultSystem } from '@chakra-ui/react'
+import { RegionAnalysis } from '../RegionAnalysis'
+import type { UseRegionAnalysisResult } from '../../hooks/useRegionAnalysis'
+import type { AnalysisResult } from '../../types'
+
+const renderWithChakra = (component: React.ReactElement) => {
+  return render(
+    <ChakraProvider value={defaultSystem}>
+      {component}
+    </ChakraProvider>
+  )
+}
+
+const makeResult = (keyName: string, bpm: number): AnalysisResult => ({
+  key: { keyName, keySignature: keyName[0], confidence: 0.8, mode: 'major' },
+  bpm: { bpm, confidence: 0.9, detectedBeats: 32 },
+  confidence: { overall: 0.85, key: 0.8, bpm: 0.9 },
+  processingTime: 100
+})
+
+const makeRegionAnalysis = (overrides: Partial<UseRegionAnalysisResult> = {}): UseRegionAnalysisResult => ({
+  region: { start: 32, end: 48.5 },
+  result: null,
+  isAnalyzing: false,
+  error: null,
+  selectRegion: vi.fn(),
+  analyzeRegion: vi.fn(),
+  ...overrides
+})
+
+describe('RegionAnalysis', () => {
+  it('should explain how to select a region', () => {
+    renderWithChakra(<RegionAnalysis regionAnalysis={makeRegionAnalysis({ region: null })} />)
+
+    expect(screen.getByText(/Drag across the waveform/)).toBeInTheDocument()
+    expect(screen.queryByText('Analyze region')).not.toBeInTheDocument()
+  })
+
+  it('should analyze and clear the selected region', () => {
+    const regionAnalysis = makeRegionAnalysis()
+    renderWithChakra(<RegionAnalysis regionAnalysis={regionAnalysis} />)
+
+    expect(screen.getByTestId('region-bounds')).toHaveTextContent('0:32.0–0:48.5 (16.5s)')
+
+    fireEvent.click(screen.getByText('Analyze region'))
+    expect(regionAnalysis.analyzeRegion).toHaveBeenCalled()
+
+    fireEvent.click(screen.getByText('Clear region'))
+    expect(regionAnalysis.selectRegion).toHaveBeenCalledWith(null)
+  })
+
+  it('should compare the region with the whole file', () => {
+    renderWithChakra(
+      <RegionAnalysis
+        regionAnalysis={makeRegionAnalysis({ result: makeResult('G Major', 140) })}
+        wholeFileResult={makeResult('C Major', 70)}
+      />
+    )
+
+    const comparison = screen.getByTestId('region-comparison')
+    expect(comparison).toHaveTextContent('Whole file')
+    expect(comparison).toHaveTextContent('C Major')
+    expect(comparison).toHaveTextContent('G Major')
+    expect(comparison).toHaveTextContent('70')
+    expect(comparison).toHaveTextContent('140')
+  })
+
+  it('should show why the region could not be analyzed', () => {
+    renderWithChakra(
+      <RegionAnalysis regionAnalysis={makeRegionAnalysis({ error: 'Region must cover at least 2 seconds of the track' })} />
+    )
+
+    expect(screen.getByText('Region must cover at least 2 seconds of the track')).toBeInTheDocument()
+  })
+})
@@ -219,4 +219,111 @@ describe('ResultsDisplay', () => {
     expect(screen.getByText('0')).toBeInTheDocument() // Detected beats
     expect(screen.getByText('0.0s')).toBeInTheDocument() // Processing time
   })
+
+  it('shows the key timeline when the key changes', () => {
+    const modulatingResult: AnalysisResult = {
+      ...mockAnalysisResult,
+      keySegments: [
+        { keyName: 'C Major', keySignature: 'C', confidence: 0.8, mode: 'major', start: 0, end: 150 },
+        { keyName: 'D Major', keySignature: 'D', confidence: 0.7, mode: 'major', start: 150, end: 195 }
+      ]
+    }
+
+    renderWithChakra(
+      <ResultsDisplay
+        analysisResult={modulatingResult}
+        isLoading={false}
+        onReset={vi.fn()}
+      />
+    )
+
+    expect(screen.getByTestId('key-timeline')).toBeInTheDocument()
+    expect(screen.getAllByTestId('key-segment')).toHaveLength(2)
+    expect(screen.getByText('1 key change')).toBeInTheDocument()
+    expect(screen.getByText('2:30 – 3:15')).toBeInTheDocument()
+    expect(screen.getByText('D Major (70%)')).toBeInTheDocument()
+  })
+
+  it('switches the key display to the preferred notation', () => {
+    localStorage.removeItem('audio-analyzer-key-notation')
+
+    renderWithChakra(
+      <ResultsDisplay
+        analysisResult={mockAnalysisResult}
+        isLoading={false}
+        onReset={vi.fn()}
+      />
+    )
+
+    expect(screen.getByText('8B / 1d')).toBeInTheDocument()
+
+    fireEvent.click(screen.getByRole('button', { name: 'Camelot' }))
+
+    expect(screen.getAllByText('8B')).toHaveLength(2) // Desktop and mobile layouts
+    expect(screen.getAllByText('C Major')).toHaveLength(2) // Standard name shown underneath
+    expect(localStorage.getItem('audio-analyzer-key-notation')).toBe('camelot')
+
+    localStorage.removeItem('audio-analyzer-key-notation')
+  })
+
+  it('shows the precise tempo to the chosen decimals', () => {
+    localStorage.removeItem('audio-analyzer-bpm-decimals')
+
+    renderWithChakra(
+      <ResultsDisplay
+        analysisResult={{ ...mockAnalysisResult, bpm: { ...mockAnalysisResult.bpm, bpm: 94, preciseBpm: 93.52 } }}
+        isLoading={false}
+        onReset={vi.fn()}
+      />
+    )
+
+    expect(screen.getAllByText('94')).toHaveLength(2) // Desktop and mobile layouts
+
+    fireEvent.click(screen.getByRole('button', { name: '0.01' }))
+
+    expect(screen.getAllByText('93.52')).toHaveLength(2)
+    expect(localStorage.getItem('audio-analyzer-bpm-decimals')).toBe('2')
+
+    localStorage.removeItem('audio-analyzer-bpm-decimals')
+  })
+
+  it('offers exports for the analyzed file', () => {
+    renderWithChakra(
+      <ResultsDisplay
+        analysisResult={mockAnalysisResult}
+        isLoading={false}
+        onReset={vi.fn()}
+        audioFile={{ file: new File(['a'], 'song.mp3'), name: 'song.mp3', size: 1, format: 'mp3', duration: 120 }}
+      />
+    )
+
+    expect(screen.getByTestId('export-menu')).toBeInTheDocument()
+    expect(screen.getByRole('button', { name: 'Rekordbox XML' })).toBeInTheDocument()
+    expect(screen.getByRole('button', { name: 'Tagged MP3' })).toBeInTheDocument()
+  })
+
+  it('shows where embedded tags disagree with the detected values', () => {
+    renderWithChakra(
+      <ResultsDisplay
+        analysisResult={mockAnalysisResult}
+        isLoading={false}
+        onReset={vi.fn()}
+        audioFile={{
+          file: new File(['a'], 'song.mp3'),
+          name: 'song.mp3',
+          size: 1,
+          format: 'mp3',
+          duration: 120,
+          tags: { title: 'Night Drive', artist: 'Someone', bpm: 60, key: 'F#' }
+        }}
+      />
+    )
+
+    expect(screen.getByTestId('embedded-tags')).toBeInTheDocument()
+    expect(screen.getByText('Night Drive')).toBeInTheDocument()
+    expect(screen.getAllByTestId('tag-comparison')).toHaveLength(2)
+    expect(screen.getByText('Half tempo')).toBeInTheDocument()
+    expect(screen.getByText('Differs')).toBeInTheDocument()
+    expect(screen.getByText('2 disagreements')).toBeInTheDocument()
+  })
 })
\ No newline at end of file
@@ -0,0 +1,67 @@
+import { describe, it, expect, vi, afterEach } from 'vitest'
+import { render, screen, fireEvent } from '@testing-library/react'
+import { ChakraProvider, defaultSystem } from '@chakra-ui/react'
+import { TapTempoPanel } from '../TapTempoPanel'
+import type { BPMResult } from '../../types'
+
+const renderWithChakra = (component: React.ReactElement) => {
+    return render(
+        <ChakraProvider value={defaultSystem}>
+            {component}
+        </ChakraProvider>
+    )
+}
+
+const bpm: BPMResult = { bpm: 174, confidence: 0.5, detectedBeats: 300 }
+
+// Tap at the given times in milliseconds
+const tapAt = (times: number[], tap: () => void) => {
+    const now = vi.spyOn(performance, 'now')
+    for (const time of times) {
+        now.mockReturnValue(time)
+        tap()
+    }
+}
+
+describe('TapTempoPanel', () => {
+    afterEach(() => {
+        vi.restoreAllMocks()
+    })
+
+    it('should show the tapped tempo and the suggestion it matches', () => {
+        const onOverride = vi.fn()
+        renderWithChakra(<TapTempoPanel bpm={bpm} genreProfile="hipHop" onOverride={onOverride} />)
+
+        tapAt([0, 690, 1380, 2070], () => fireEvent.click(screen.getByText('Tap')))
+
+        expect(screen.getByTestId('tapped-bpm')).toHaveTextContent('87.0 BPM')
+        expect(screen.getByText('Half-time')).toBeInTheDocument()
+
+        fireEvent.click(screen.getByText('Use 87 BPM'))
+        expect(onOverride).toHaveBeenCalledWith(87)
+    })
+
+    it('should count taps on the T key but not in text fields', () => {
+        renderWithChakra(<TapTempoPanel bpm={bpm} />)
+
+        tapAt([0, 400, 800], () => fireEvent.keyDown(window, { key: 't' }))
+        expect(screen.getByText('(3 taps)')).toBeInTheDocument()
+        expect(screen.getByText('No suggested tempo matches')).toBeInTheDocument()
+
+        const input = document.createElement('input')
+        document.body.appendChild(input)
+        tapAt([1200], () => fireEvent.keyDown(input, { key: 't' }))
+        expect(screen.getByText('(3 taps)')).toBeInTheDocument()
+        input.remove()
+    })
+
+    it('should offer to restore the detected tempo after an override', () => {
+        const onOverride = vi.fn()
+        renderWithChakra(<TapTempoPanel bpm={{ ...bpm, bpm: 87, detected: { bpm: 174 } }} onOverride={onOverride} />)
+
+        expect(screen.getByText('Manual tempo (detected 174 BPM)')).toBeInTheDocument()
+
+        fireEvent.click(screen.getByText('Restore detected'))
+        expect(onOverride).toHaveBeenCalledWith(null)
+    })
+})
@@ -47,6 +47,17 @@ describe('TempoSuggestions', () => {
         expect(bpmElements.length).toBeGreaterThan(0)
     })
 
+    it('should show the context of the chosen genre profile', () => {
+        renderWithChakra(
+            <TempoSuggestions detectedBPM={87} confidence={0.6} genreProfile="drumAndBass" />
+        )
+
+        fireEvent.click(screen.getByText('Tempo Analysis & Suggestions'))
+
+        expect(screen.getByText(/Drum & bass is often detected at half its tempo/)).toBeInTheDocument()
+        expect(screen.getByText('174 BPM')).toBeInTheDocument()
+    })
+
     it('should show tips section when expanded', () => {
         renderWithChakra(
             <TempoSuggestions detectedBPM={160} confidence={0.6} />
@@ -1,5 +1,5 @@
 import React from 'react'
-import { render, screen, waitFor } from '@testing-library/react'
+import { render, screen, waitFor, fireEvent } from '@testing-library/react'
 import { ChakraProvider, defaultSystem } from '@chakra-ui/react'
 import { vi, describe, it, expect, beforeEach } from 'vitest'
 import { WaveformDisplay } from '../WaveformDisplay'
@@ -161,6 +161,51 @@ describe('WaveformDisplay', () => {
     })
   })
 
+  it('should show the playhead and seek to the clicked time', async () => {
+    const mockAudioBuffer = createMockAudioBuffer(5)
+    const onSeek = vi.fn()
+
+    renderWithChakra(<WaveformDisplay audioBuffer={mockAudioBuffer} playbackPosition={1.25} onSeek={onSeek} />)
+
+    const playhead = await screen.findByTestId('playhead')
+    expect(playhead).toHaveStyle({ left: '25%' })
+
+    const seekArea = screen.getByTestId('waveform-seek-area')
+    vi.spyOn(seekArea, 'getBoundingClientRect').mockReturnValue({ left: 100, width: 400 } as DOMRect)
+    fireEvent.click(seekArea, { clientX: 400 })
+
+    expect(onSeek).toHaveBeenCalledWith(3.75)
+  })
+
+  it('should select the region dragged across instead of seeking', async () => {
+    const mockAudioBuffer = createMockAudioBuffer(5)
+    const onSeek = vi.fn()
+    const onRegionSelect = vi.fn()
+
+    renderWithChakra(<WaveformDisplay audioBuffer={mockAudioBuffer} onSeek={onSeek} onRegionSelect={onRegionSelect} />)
+
+    const seekArea = await screen.findByTestId('waveform-seek-area')
+    vi.spyOn(seekArea, 'getBoundingClientRect').mockReturnValue({ left: 100, width: 400 } as DOMRect)
+    fireEvent.mouseDown(seekArea, { clientX: 420 })
+    fireEvent.mouseMove(seekArea, { clientX: 300 })
+    expect(screen.getByTestId('waveform-region')).toHaveStyle({ left: '50%', width: '30%' })
+
+    fireEvent.mouseUp(seekArea, { clientX: 200 })
+    fireEvent.click(seekArea, { clientX: 200 })
+
+    expect(onRegionSelect).toHaveBeenCalledWith({ start: 1.25, end: 4 })
+    expect(onSeek).not.toHaveBeenCalled()
+    expect(screen.queryByTestId('waveform-region')).not.toBeInTheDocument()
+  })
+
+  it('should shade the selected region', async () => {
+    const mockAudioBuffer = createMockAudioBuffer(5)
+
+    renderWithChakra(<WaveformDisplay audioBuffer={mockAudioBuffer} region={{ start: 1, end: 2 }} />)
+
+    expect(await screen.findByTestId('waveform-region')).toHaveStyle({ left: '20%', width: '20%' })
+  })
+
   it('should not generate waveform data when loading', () => {
     const mockAudioBuffer = createMockAudioBuffer(5)
 
@@ -208,6 +253,28 @@ describe('WaveformDisplay', () => {
     })
   })
 
+  it('should show a tempo strip and flag unsteady tempo', async () => {
+    const mockAudioBuffer = createMockAudioBuffer(5)
+    const tempoMap = {
+      segments: [
+        { start: 0, end: 2.5, bpm: 90, confidence: 0.9 },
+        { start: 2.5, end: 5, bpm: 96.5, confidence: 0.8 }
+      ],
+      isSteady: false,
+      variation: 6.5
+    }
+
+    renderWithChakra(<WaveformDisplay audioBuffer={mockAudioBuffer} tempoMap={tempoMap} />)
+
+    await waitFor(() => {
+      expect(screen.getByTestId('tempo-map')).toBeInTheDocument()
+    })
+
+    expect(screen.getAllByTestId('tempo-segment')).toHaveLength(2)
+    expect(screen.getByText('96.5')).toBeInTheDocument()
+    expect(screen.getByText('Tempo varies by 6.5 BPM')).toBeInTheDocument()
+  })
+
   it('should clean up resize listener on unmount', () => {
     const removeEventListenerSpy = vi.spyOn(window, 'removeEventListener')
 
@@ -1,9 +1,19 @@
 import { describe, it, expect, vi } from 'vitest'
-import { renderHook } from '@testing-library/react'
+import { renderHook, act } from '@testing-library/react'
 import { useFileUpload } from '../useFileUpload'
 import { TEST_FILES } from '../../utils/test-validation'
+import { createAudioContext } from '../../utils/audioProcessing'
+import { loadLargeFile } from '../../utils/progressiveLoader'
 
 // Mock audio processing utilities with simple implementations
+vi.mock('../../utils/progressiveLoader', () => ({
+    loadLargeFile: vi.fn((file: File) => new Promise<ArrayBuffer>(resolve => {
+        const reader = new FileReader()
+        reader.onload = () => resolve(reader.result as ArrayBuffer)
+        reader.readAsArrayBuffer(file)
+    }))
+}))
+
 vi.mock('../../utils/audioProcessing', () => ({
     checkWebAudioSupport: vi.fn(() => ({ isSupported: true })),
     createAudioContext: vi.fn(() => ({
@@ -91,4 +101,75 @@ describe('useFileUpload', () => {
             expect(audioFile).toBeNull()
         })
     })
+
+    describe('built-in decoder fallback', () => {
+        // One second of 16-bit mono PCM at 8kHz holding a constant half-scale signal
+        const createWAVFile = (name = 'tone.wav') => {
+            const bytes = new Uint8Array(44 + 16000)
+            const view = new DataView(bytes.buffer)
+            bytes.set([...'RIFF'].map(char => char.charCodeAt(0)), 0)
+            view.setUint32(4, bytes.length - 8, true)
+            bytes.set([...'WAVEfmt '].map(char => char.charCodeAt(0)), 8)
+            view.setUint32(16, 16, true)
+            view.setUint16(20, 1, true)
+            view.setUint16(22, 1, true)
+            view.setUint32(24, 8000, true)
+            view.setUint32(28, 16000, true)
+            view.setUint16(32, 2, true)
+            view.setUint16(34, 16, true)
+            bytes.set([...'data'].map(char => char.charCodeAt(0)), 36)
+            view.setUint32(40, 16000, true)
+            for (let i = 0; i < 8000; i++) view.setInt16(44 + i * 2, 16384, true)
+            return new File([bytes], name, { type: 'audio/wav' })
+        }
+
+        // Like the browser, the failed decode detaches the bytes it was given
+        const failNativeDecoding = () => {
+            vi.mocked(createAudioContext).mockReturnValueOnce({
+                decodeAudioData: vi.fn(async (data: ArrayBuffer) => {
+                    structuredClone(data, { transfer: [data] })
+                    throw new Error('EncodingError: Unable to decode audio data')
+                }),
+                close: vi.fn()
+            } as unknown as AudioContext)
+        }
+
+        it('should hand the loaded bytes to the native decoder without copying them', async () => {
+            const decodeAudioData = vi.fn().mockResolvedValue({ duration: 1, sampleRate: 8000, numberOfChannels: 1, length: 8000 })
+            vi.mocked(createAudioContext).mockReturnValueOnce({ decodeAudioData, close: vi.fn() } as unknown as AudioContext)
+            vi.mocked(loadLargeFile).mockClear()
+            const { result } = renderHook(() => useFileUpload())
+
+            await act(async () => {
+                await result.current.loadAudioFile(createWAVFile())
+            })
+
+            expect(decodeAudioData.mock.calls[0][0]).toBe(await vi.mocked(loadLargeFile).mock.results[0].value)
+        })
+
+        it('should decode WAV files itself when native decoding fails', async () => {
+            failNativeDecoding()
+            const warn = vi.spyOn(console, 'warn').mockImplementation(() => {})
+            const { result } = renderHook(() => useFileUpload())
+
+            let buffer: AudioBuffer | undefined
+            await act(async () => {
+                buffer = await result.current.loadAudioFile(createWAVFile())
+            })
+
+            expect(buffer).toMatchObject({ sampleRate: 8000, numberOfChannels: 1, length: 8000, duration: 1 })
+            expect(buffer!.getChannelData(0)[100]).toBe(0.5)
+            warn.mockRestore()
+        })
+
+        it('should report the native error for formats without a built-in decoder', async () => {
+            failNativeDecoding()
+            const { result } = renderHook(() => useFileUpload())
+            const mp3 = new File([createWAVFile()], 'tone.mp3', { type: 'audio/mpeg' })
+
+            await act(async () => {
+                await expect(result.current.loadAudioFile(mp3)).rejects.toThrow('Unable to decode audio file')
+            })
+        })
+    })
 })
\ No newline at end of file
@@ -0,0 +1,214 @@
+import { renderHook, act } from '@testing-library/react'
+import { vi, describe, it, expect, beforeEach, afterEach } from 'vitest'
+import { useLiveAnalysis } from '../useLiveAnalysis'
+import { LiveAnalyzer } from '../../utils/liveAnalysis'
+import type { LiveReading, LiveWindow } from '../../utils/liveAnalysis'
+import { readLiveWindowInWorker } from '../../utils/workerPool'
+
+vi.mock('../../utils/workerPool', () => ({
+  workersAvailable: () => true,
+  readLiveWindowInWorker: vi.fn()
+}))
+
+// Web Audio stand-in whose clock the tests move by hand
+class FakeAudioContext {
+  static latest: FakeAudioContext
+  currentTime = 5
+  sampleRate = 48000
+  state = 'running'
+  analyser = { fftSize: 2048, getFloatTimeDomainData: vi.fn() }
+  source = { connect: vi.fn() }
+  close = vi.fn(async () => { this.state = 'closed' })
+
+  constructor() {
+    FakeAudioContext.latest = this
+  }
+
+  createAnalyser() {
+    return this.analyser
+  }
+
+  createMediaStreamSource() {
+    return this.source
+  }
+}
+
+const reading: LiveReading = {
+  bpm: 128,
+  bpmConfidence: 0.5,
+  key: { keyName: 'A Minor', keySignature: 'Am', confidence: 0.8, mode: 'minor' },
+  keyConfidence: 0.4,
+  bufferedSeconds: 2
+}
+
+const liveWindow: LiveWindow = {
+  tempo: { bpm: 128.2, confidence: 0.9 },
+  chroma: { values: new Array(12).fill(1 / 12), confidence: 1 },
+  bufferedSeconds: 2
+}
+
+describe('useLiveAnalysis', () => {
+  const originalAudioContext = window.AudioContext
+  const track = { stop: vi.fn() }
+  const getUserMedia = vi.fn()
+
+  beforeEach(() => {
+    vi.useFakeTimers()
+    vi.clearAllMocks()
+    window.AudioContext = FakeAudioContext as unknown as typeof AudioContext
+    getUserMedia.mockResolvedValue({ getTracks: () => [track] })
+    vi.stubGlobal('navigator', {
+      mediaDevices: {
+        getUserMedia,
+        enumerateDevices: vi.fn().mockResolvedValue([
+          { kind: 'audioinput', deviceId: 'mic', label: 'Built-in Microphone' },
+          { kind: 'audiooutput', deviceId: 'speakers', label: 'Speakers' },
+          { kind: 'audioinput', deviceId: 'line', label: '' }
+        ])
+      }
+    })
+    vi.mocked(readLiveWindowInWorker).mockResolvedValue(liveWindow)
+    vi.spyOn(LiveAnalyzer.prototype, 'update').mockReturnValue(reading)
+  })
+
+  afterEach(() => {
+    vi.useRealTimers()
+    vi.restoreAllMocks()
+    vi.unstubAllGlobals()
+    window.AudioContext = originalAudioContext
+  })
+
+  it('should open the chosen input without voice processing and list the inputs', async () => {
+    const { result } = renderHook(() => useLiveAnalysis())
+
+    await act(() => result.current.start('line'))
+
+    expect(getUserMedia).toHaveBeenCalledWith({
+      audio: {
+        deviceId: { exact: 'line' },
+        echoCancellation: false,
+        noiseSuppression: false,
+        autoGainControl: false
+      }
+    })
+    expect(result.current.isListening).toBe(true)
+    expect(result.current.deviceId).toBe('line')
+    expect(result.current.inputs).toEqual([
+      { deviceId: 'mic', label: 'Built-in Microphone' },
+      { deviceId: 'line', label: 'Input 2' }
+    ])
+  })
+
+  it('should push the audio that arrived since the last capture and read it in the worker', async () => {
+    const push = vi.spyOn(LiveAnalyzer.prototype, 'push')
+    const { result } = renderHook(() => useLiveAnalysis())
+    await act(() => result.current.start())
+
+    const context = FakeAudioContext.latest
+    context.currentTime += 0.01
+    act(() => { vi.advanceTimersByTime(250) })
+    expect(push.mock.calls[0][0]).toHaveLength(480)
+
+    // A stalled timer only recovers what is still in the analyser's window
+    context.currentTime += 1
+    act(() => { vi.advanceTimersByTime(250) })
+    expect(push.mock.calls[1][0]).toHaveLength(context.analyser.fftSize)
+
+    await act(async () => { vi.advanceTimersByTime(1500) })
+    const [snapshot] = vi.mocked(readLiveWindowInWorker).mock.calls[0]
+    expect(snapshot.samples.length).toBeGreaterThan(0)
+    expect(LiveAnalyzer.prototype.update).toHaveBeenCalledWith(liveWindow)
+    expect(result.current.reading).toEqual(reading)
+  })
+
+  it('should wait for a slow reading before starting the next', async () => {
+    let finish: (value: LiveWindow) => void = () => {}
+    vi.mocked(readLiveWindowInWorker).mockReturnValueOnce(new Promise(resolve => { finish = resolve }))
+    const { result } = renderHook(() => useLiveAnalysis())
+    await act(() => result.current.start())
+
+    await act(async () => { vi.advanceTimersByTime(6000) })
+    expect(readLiveWindowInWorker).toHaveBeenCalledTimes(1)
+
+    await act(async () => finish(liveWindow))
+    await act(async () => { vi.advanceTimersByTime(2000) })
+    expect(readLiveWindowInWorker).toHaveBeenCalledTimes(2)
+  })
+
+  it('should stop a reading still running in the worker', async () => {
+    vi.mocked(readLiveWindowInWorker).mockReturnValueOnce(new Promise(() => {}))
+    const { result } = renderHook(() => useLiveAnalysis())
+    await act(() => result.current.start())
+    await act(async () => { vi.advanceTimersByTime(2000) })
+
+    act(() => result.current.stop())
+
+    const [, options] = vi.mocked(readLiveWindowInWorker).mock.calls[0]
+    expect(options?.signal?.aborted).toBe(true)
+  })
+
+  it('should release the input when stopped', async () => {
+    const { result } = renderHook(() => useLiveAnalysis())
+    await act(() => result.current.start())
+
+    act(() => result.current.stop())
+
+    expect(result.current.isListening).toBe(false)
+    expect(track.stop).toHaveBeenCalled()
+    expect(FakeAudioContext.latest.close).toHaveBeenCalled()
+  })
+
+  it('should close an input that opens after the component unmounts', async () => {
+    let grant: (stream: unknown) => void = () => {}
+    getUserMedia.mockReturnValue(new Promise(resolve => { grant = resolve }))
+    const contexts = vi.spyOn(FakeAudioContext.prototype, 'createAnalyser')
+    const { result, unmount } = renderHook(() => useLiveAnalysis())
+
+    let starting: Promise<void> = Promise.resolve()
+    act(() => { starting = result.current.start() })
+    unmount()
+    await act(async () => {
+      grant({ getTracks: () => [track] })
+      await starting
+    })
+
+    expect(track.stop).toHaveBeenCalled()
+    expect(contexts).not.toHaveBeenCalled()
+    await act(async () => { vi.advanceTimersByTime(5000) })
+    expect(readLiveWindowInWorker).not.toHaveBeenCalled()
+  })
+
+  it('should keep only the input of the latest start', async () => {
+    const grants: Array<(stream: unknown) => void> = []
+    getUserMedia.mockImplementation(() => new Promise(resolve => grants.push(resolve)))
+    const mic = { stop: vi.fn() }
+    const line = { stop: vi.fn() }
+    const { result } = renderHook(() => useLiveAnalysis())
+
+    let first: Promise<void> = Promise.resolve()
+    let second: Promise<void> = Promise.resolve()
+    act(() => { first = result.current.start('mic') })
+    act(() => { second = result.current.start('line') })
+    await act(async () => {
+      grants[1]({ getTracks: () => [line] })
+      await second
+      grants[0]({ getTracks: () => [mic] })
+      await first
+    })
+
+    expect(mic.stop).toHaveBeenCalled()
+    expect(line.stop).not.toHaveBeenCalled()
+    expect(result.current.isListening).toBe(true)
+    expect(result.current.deviceId).toBe('line')
+  })
+
+  it('should explain a denied microphone', async () => {
+    getUserMedia.mockRejectedValue(new DOMException('Permission denied', 'NotAllowedError'))
+    const { result } = renderHook(() => useLiveAnalysis())
+
+    await act(() => result.current.start())
+
+    expect(result.current.isListening).toBe(false)
+    expect(result.current.error).toBe('Microphone access was denied')
+  })
+})
@@ -0,0 +1,116 @@
+import { renderHook, act } from '@testing-library/react'
+import { vi, describe, it, expect, beforeEach, afterEach } from 'vitest'
+import { usePlayback } from '../usePlayback'
+import type { MetronomeClick } from '../../utils/metronome'
+
+// Web Audio stand-in whose clock the tests move by hand
+class FakeAudioContext {
+  static latest: FakeAudioContext
+  currentTime = 10
+  state = 'running'
+  destination = {}
+  sources: Array<{ start: ReturnType<typeof vi.fn>; stop: ReturnType<typeof vi.fn>; onended: (() => void) | null }> = []
+  clickTimes: number[] = []
+
+  constructor() {
+    FakeAudioContext.latest = this
+  }
+
+  createBufferSource() {
+    const source = { buffer: null, connect: vi.fn(), disconnect: vi.fn(), start: vi.fn(), stop: vi.fn(), onended: null }
+    this.sources.push(source)
+    return source
+  }
+
+  createOscillator() {
+    return {
+      frequency: { value: 0 },
+      connect: vi.fn(),
+      start: (when: number) => this.clickTimes.push(when),
+      stop: vi.fn(),
+      onended: null
+    }
+  }
+
+  createGain() {
+    return { gain: { setValueAtTime: vi.fn(), exponentialRampToValueAtTime: vi.fn() }, connect: vi.fn() }
+  }
+
+  async resume() {}
+  async close() {}
+}
+
+const audioBuffer = { duration: 30 } as AudioBuffer
+const clicks: MetronomeClick[] = [
+  { time: 0.2, accent: true },
+  { time: 0.7, accent: false },
+  { time: 1.2, accent: false }
+]
+
+describe('usePlayback', () => {
+  const originalAudioContext = window.AudioContext
+
+  beforeEach(() => {
+    window.AudioContext = FakeAudioContext as unknown as typeof AudioContext
+    vi.stubGlobal('requestAnimationFrame', vi.fn(() => 1))
+    vi.stubGlobal('cancelAnimationFrame', vi.fn())
+  })
+
+  afterEach(() => {
+    window.AudioContext = originalAudioContext
+    vi.unstubAllGlobals()
+  })
+
+  it('should play, pause and resume where it left off', async () => {
+    const { result } = renderHook(() => usePlayback(audioBuffer))
+
+    await act(() => result.current.play())
+    const context = FakeAudioContext.latest
+    expect(context.sources[0].start).toHaveBeenCalledWith(0, 0)
+    expect(result.current.isPlaying).toBe(true)
+
+    context.currentTime += 2.5
+    act(() => result.current.pause())
+    expect(result.current.isPlaying).toBe(false)
+    expect(result.current.position).toBe(2.5)
+    expect(context.sources[0].stop).toHaveBeenCalled()
+
+    await act(() => result.current.play())
+    expect(context.sources[1].start).toHaveBeenCalledWith(0, 2.5)
+  })
+
+  it('should seek within the track', async () => {
+    const { result } = renderHook(() => usePlayback(audioBuffer))
+
+    act(() => result.current.seek(45))
+    expect(result.current.position).toBe(30)
+
+    await act(() => result.current.play())
+    await act(async () => result.current.seek(12))
+    expect(FakeAudioContext.latest.sources[1].start).toHaveBeenCalledWith(0, 12)
+    expect(result.current.position).toBe(12)
+  })
+
+  it('should click on the beats ahead of the playhead when the metronome is on', async () => {
+    const { result } = renderHook(() => usePlayback(audioBuffer, clicks))
+
+    act(() => result.current.setMetronome(true))
+    act(() => result.current.seek(0.65))
+    await act(() => result.current.play())
+
+    // The track's 0.65s plays at context time 10, so the 0.7s beat clicks at 10.05
+    const [clickTime] = FakeAudioContext.latest.clickTimes
+    expect(FakeAudioContext.latest.clickTimes).toHaveLength(1)
+    expect(clickTime).toBeCloseTo(10.05, 6)
+  })
+
+  it('should stop at the end of the track', async () => {
+    const { result } = renderHook(() => usePlayback(audioBuffer))
+
+    await act(() => result.current.play())
+    act(() => FakeAudioContext.latest.sources[0].onended?.())
+
+    expect(result.current.isPlaying).toBe(false)
+    expect(result.current.position).toBe(0)
+  })
+})
@@ -0,0 +1,74 @@
+import { renderHook, act, waitFor } from '@testing-library/react'
+import { vi, describe, it, expect, beforeEach } from 'vitest'
+import { useReferenceDrone } from '../useReferenceDrone'
+import { startDrone } from '../../utils/referenceDrone'
+import type { KeyResult } from '../../types'
+
+vi.mock('../../utils/referenceDrone', async importOriginal => ({
+  ...await importOriginal<typeof import('../../utils/referenceDrone')>(),
+  startDrone: vi.fn()
+}))
+
+const aMinor: KeyResult = { keyName: 'A Minor', keySignature: 'Am', confidence: 0.7, mode: 'minor' }
+const context = {} as BaseAudioContext
+const getContext = () => Promise.resolve(context)
+
+describe('useReferenceDrone', () => {
+  const voice = { setVolume: vi.fn(), stop: vi.fn() }
+
+  beforeEach(() => {
+    vi.clearAllMocks()
+    vi.mocked(startDrone).mockReturnValue(voice)
+  })
+
+  it('should start in the detected mode and play the tonic triad', async () => {
+    const { result } = renderHook(() => useReferenceDrone(getContext, aMinor))
+    expect(result.current.mode).toBe('minor')
+    expect(result.current.keyName).toBe('A Minor')
+
+    act(() => result.current.toggle())
+
+    await waitFor(() => expect(startDrone).toHaveBeenCalledTimes(1))
+    expect(vi.mocked(startDrone).mock.calls[0][1]).toHaveLength(3)
+    expect(vi.mocked(startDrone).mock.calls[0][2]).toBe(0.3)
+  })
+
+  it('should switch to the relative key and stop when turned off', async () => {
+    const { result } = renderHook(() => useReferenceDrone(getContext, aMinor))
+    act(() => result.current.toggle())
+    await waitFor(() => expect(startDrone).toHaveBeenCalledTimes(1))
+
+    act(() => result.current.setMode('major'))
+    expect(result.current.keyName).toBe('C Major')
+    await waitFor(() => expect(startDrone).toHaveBeenCalledTimes(2))
+    expect(voice.stop).toHaveBeenCalledTimes(1)
+
+    act(() => result.current.toggle())
+    expect(voice.stop).toHaveBeenCalledTimes(2)
+  })
+
+  it('should change the volume without restarting', async () => {
+    const { result } = renderHook(() => useReferenceDrone(getContext, aMinor))
+    act(() => result.current.toggle())
+    await waitFor(() => expect(startDrone).toHaveBeenCalledTimes(1))
+
+    act(() => result.current.setVolume(0.8))
+
+    expect(voice.setVolume).toHaveBeenCalledWith(0.8)
+    expect(startDrone).toHaveBeenCalledTimes(1)
+  })
+
+  it('should fall silent for a newly detected key', async () => {
+    const { result, rerender } = renderHook(({ key }) => useReferenceDrone(getContext, key), {
+      initialProps: { key: aMinor }
+    })
+    act(() => result.current.toggle())
+    await waitFor(() => expect(startDrone).toHaveBeenCalledTimes(1))
+
+    rerender({ key: { ...aMinor, keyName: 'D Major', mode: 'major' } })
+
+    expect(result.current.isOn).toBe(false)
+    expect(result.current.mode).toBe('major')
+    expect(voice.stop).toHaveBeenCalledTimes(1)
+  })
+})
@@ -0,0 +1,73 @@
+import { renderHook, act } from '@testing-library/react'
+import { vi, describe, it, expect, beforeEach } from 'vitest'
+import { useRegionAnalysis } from '../useRegionAnalysis'
+import type { AnalysisResult } from '../../types'
+
+const mockProcessAudio = vi.fn()
+
+vi.mock('../../utils/audioProcessor', () => ({
+  AudioProcessor: vi.fn().mockImplementation(() => ({
+    processAudio: mockProcessAudio,
+    cancelProcessing: vi.fn()
+  }))
+}))
+
+const loopResult = {
+  key: { keyName: 'A Minor', keySignature: 'Am', confidence: 0.8, mode: 'minor' },
+  bpm: { bpm: 90, confidence: 0.9, detectedBeats: 24 },
+  confidence: { overall: 0.85, key: 0.8, bpm: 0.9 },
+  processingTime: 100,
+  region: { start: 4, end: 20 }
+} as AnalysisResult
+
+const audioBuffer = { duration: 60 } as AudioBuffer
+const file = new File(['audio'], 'song.mp3')
+
+describe('useRegionAnalysis', () => {
+  beforeEach(() => {
+    vi.clearAllMocks()
+    mockProcessAudio.mockResolvedValue(loopResult)
+  })
+
+  it('should analyze the selected region with the analysis settings', async () => {
+    const { result } = renderHook(() => useRegionAnalysis(audioBuffer, file, { genreProfile: 'trap', minBPM: 80 }))
+
+    act(() => result.current.selectRegion({ start: 4, end: 20 }))
+    await act(() => result.current.analyzeRegion())
+
+    expect(mockProcessAudio).toHaveBeenCalledWith(audioBuffer, expect.objectContaining({
+      region: { start: 4, end: 20 },
+      file,
+      genreProfile: 'trap',
+      minBPM: 80
+    }))
+    expect(result.current.result).toBe(loopResult)
+    expect(result.current.isAnalyzing).toBe(false)
+  })
+
+  it('should drop the result when another region is selected', async () => {
+    const { result } = renderHook(() => useRegionAnalysis(audioBuffer, file))
+
+    act(() => result.current.selectRegion({ start: 4, end: 20 }))
+    await act(() => result.current.analyzeRegion())
+    act(() => result.current.selectRegion({ start: 30, end: 40 }))
+
+    expect(result.current.region).toEqual({ start: 30, end: 40 })
+    expect(result.current.result).toBeNull()
+  })
+
+  it('should report analysis errors and clear the region for a new track', async () => {
+    mockProcessAudio.mockRejectedValue(new Error('Region must cover at least 2 seconds of the track'))
+    const { result, rerender } = renderHook(({ buffer }) => useRegionAnalysis(buffer, file), {
+      initialProps: { buffer: audioBuffer }
+    })
+
+    act(() => result.current.selectRegion({ start: 4, end: 5 }))
+    await act(() => result.current.analyzeRegion())
+    expect(result.current.error).toBe('Region must cover at least 2 seconds of the track')
+
+    rerender({ buffer: { duration: 30 } as AudioBuffer })
+    expect(result.current.region).toBeNull()
+    expect(result.current.error).toBeNull()
+  })
+})
@@ -43,6 +43,8 @@ const createMockCanvas = () => {
         closePath: vi.fn(),
         fill: vi.fn(),
         roundRect: vi.fn(),
+        save: vi.fn(),
+        restore: vi.fn(),
         createLinearGradient: vi.fn(() => ({
             addColorStop: vi.fn()
         })),
@@ -198,6 +200,38 @@ describe('useWaveform', () => {
         })
     })
 
+    describe('drawBeatMarkers', () => {
+        it('should draw a marker for every beat with downbeats spanning full height', () => {
+            const { result } = renderHook(() => useWaveform())
+            const { canvas, mockContext } = createMockCanvas()
+
+            const beatGrid = {
+                beats: [0.5, 1, 1.5, 2, 2.5, 3, 3.5, 4],
+                downbeat: 1,
+                offset: 0.5
+            }
+
+            result.current.drawBeatMarkers(canvas, beatGrid, 5)
+
+            expect(mockContext.stroke).toHaveBeenCalledTimes(8)
+            // Downbeats at 1s and 3s (every 4th beat from the downbeat) span the full canvas height
+            expect(mockContext.moveTo).toHaveBeenCalledWith(160.5, 0)
+            expect(mockContext.lineTo).toHaveBeenCalledWith(160.5, 200)
+            expect(mockContext.moveTo).toHaveBeenCalledWith(480.5, 0)
+            // Regular beats are shorter
+            expect(mockContext.moveTo).toHaveBeenCalledWith(80.5, 30)
+        })
+
+        it('should not draw anything for an empty grid', () => {
+            const { result } = renderHook(() => useWaveform())
+            const { canvas, mockContext } = createMockCanvas()
+
+            result.current.drawBeatMarkers(canvas, { beats: [], downbeat: 0, offset: 0 }, 5)
+
+            expect(mockContext.stroke).not.toHaveBeenCalled()
+        })
+    })
+
     describe('canvasRef', () => {
         it('should provide a canvas ref', () => {
             const { result } = renderHook(() => useWaveform())
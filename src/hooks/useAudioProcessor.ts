@@ -2,11 +2,12 @@
 
 import { useState, useCallback, useRef, useEffect } from 'react'
 import { flushSync } from 'react-dom'
-import type { AnalysisResult } from '../types'
+import type { AnalysisResult, GenreProfileId, TempoConstraints } from '../types'
 import { AudioProcessor } from '../utils/audioProcessor'
 
 export interface UseAudioProcessorResult {
   processAudio: (audioBuffer: AudioBuffer, file?: File, onPartialResult?: (partialResult: Partial<AnalysisResult>) => void) => Promise<AnalysisResult>
+  processLargeFile: (file: File, onPartialResult?: (partialResult: Partial<AnalysisResult>) => void) => Promise<AnalysisResult>
   isProcessing: boolean
   progress: number
   error: string | null
@@ -14,13 +15,14 @@ export interface UseAudioProcessorResult {
   resetState: () => void
 }
 
-export interface UseAudioProcessorOptions {
+export interface UseAudioProcessorOptions extends TempoConstraints {
   timeoutMs?: number
   enableCaching?: boolean
+  genreProfile?: GenreProfileId
 }
 
 export function useAudioProcessor(options: UseAudioProcessorOptions = {}): UseAudioProcessorResult {
-  const { timeoutMs = 30000, enableCaching = true } = options
+  const { timeoutMs = 30000, enableCaching = true, genreProfile, minBPM, maxBPM, targetBPM } = options
 
   const [isProcessing, setIsProcessing] = useState(false)
   const [progress, setProgress] = useState(0)
@@ -62,7 +64,11 @@ export function useAudioProcessor(options: UseAudioProcessorOptions = {}): UseAu
     resetState()
   }, [resetState])
 
-  const processAudio = useCallback(async (audioBuffer: AudioBuffer, file?: File, onPartialResult?: (partialResult: Partial<AnalysisResult>) => void): Promise<AnalysisResult> => {
+  // Progress, timeout and error handling shared by in-memory and windowed analysis
+  const runProcessing = useCallback(async (
+    startProcessing: (processor: AudioProcessor, onProgress: (progress: number) => void) => Promise<AnalysisResult>,
+    withTimeout: boolean
+  ): Promise<AnalysisResult> => {
     if (!processorRef.current) {
       throw new Error('Audio processor not initialized')
     }
@@ -92,24 +98,17 @@ export function useAudioProcessor(options: UseAudioProcessorOptions = {}): UseAu
         }
       }
 
-      // Set up timeout handling
-      const timeoutPromise = new Promise<never>((_, reject) => {
-        timeoutRef.current = setTimeout(() => {
-          reject(new Error('Audio processing timed out after 30 seconds'))
-        }, timeoutMs) as unknown as number
-      })
-
       // Process audio with progress tracking and caching
-      const processingPromise = processorRef.current.processAudio(audioBuffer, {
-        timeoutMs,
-        onProgress,
-        onPartialResult,
-        file,
-        enableCaching
-      })
+      const processingPromise = startProcessing(processorRef.current, onProgress)
 
       // Race between processing and timeout
-      const result = await Promise.race([processingPromise, timeoutPromise])
+      const result = withTimeout
+        ? await Promise.race([processingPromise, new Promise<never>((_, reject) => {
+          timeoutRef.current = setTimeout(() => {
+            reject(new Error('Audio processing timed out after 30 seconds'))
+          }, timeoutMs) as unknown as number
+        })])
+        : await processingPromise
 
       // Clear timeout on success
       if (timeoutRef.current) {
@@ -160,7 +159,34 @@ export function useAudioProcessor(options: UseAudioProcessorOptions = {}): UseAu
 
       throw new Error(errorMessage)
     }
-  }, [timeoutMs, enableCaching, resetState])
+  }, [timeoutMs, resetState])
+
+  const processAudio = useCallback((audioBuffer: AudioBuffer, file?: File, onPartialResult?: (partialResult: Partial<AnalysisResult>) => void): Promise<AnalysisResult> => {
+    return runProcessing((processor, onProgress) => processor.processAudio(audioBuffer, {
+      timeoutMs,
+      onProgress,
+      onPartialResult,
+      file,
+      enableCaching,
+      genreProfile,
+      minBPM,
+      maxBPM,
+      targetBPM
+    }), true)
+  }, [runProcessing, timeoutMs, enableCaching, genreProfile, minBPM, maxBPM, targetBPM])
+
+  // Files too large to decode at once are analyzed in windows, which takes longer than the timeout allows
+  const processLargeFile = useCallback((file: File, onPartialResult?: (partialResult: Partial<AnalysisResult>) => void): Promise<AnalysisResult> => {
+    return runProcessing((processor, onProgress) => processor.processLargeFile(file, {
+      onProgress,
+      onPartialResult,
+      enableCaching,
+      genreProfile,
+      minBPM,
+      maxBPM,
+      targetBPM
+    }), false)
+  }, [runProcessing, enableCaching, genreProfile, minBPM, maxBPM, targetBPM])
 
   // Debug: Log progress changes
   useEffect(() => {
@@ -169,6 +195,7 @@ export function useAudioProcessor(options: UseAudioProcessorOptions = {}): UseAu
 
   return {
     processAudio,
+    processLargeFile,
     isProcessing,
     progress,
     error,
@@ -0,0 +1,150 @@
+// React hook that drives the batch analysis queue for multiple files
+
+import { useState, useCallback, useRef, useEffect } from 'react'
+import { BatchQueue } from '../utils/batchQueue'
+import type { BatchItem, BatchJob } from '../utils/batchQueue'
+import { AudioProcessor } from '../utils/audioProcessor'
+import { getAudioCache } from '../utils/audioCache'
+import { shouldAnalyzeInWindows } from '../utils/audioWindows'
+import { DEFAULT_GENRE_PROFILE, matchesGenreProfile } from '../utils/genreProfiles'
+import { getTempoConstraints, matchesTempoConstraints } from '../utils/tempoConstraints'
+import type { GenreProfileId, TempoConstraints } from '../types'
+import { useFileUpload } from './useFileUpload'
+
+export interface UseBatchAnalysisOptions extends TempoConstraints {
+  concurrency?: number
+  enableCaching?: boolean
+  timeoutMs?: number
+  genreProfile?: GenreProfileId
+}
+
+export interface UseBatchAnalysisResult {
+  items: BatchItem[]
+  addFiles: (files: File[]) => void
+  cancelItem: (id: string) => void
+  retryItem: (id: string) => void
+  cancelAll: () => void
+  clear: () => void
+  isRunning: boolean
+}
+
+export function useBatchAnalysis(options: UseBatchAnalysisOptions = {}): UseBatchAnalysisResult {
+  const { concurrency = 2, enableCaching = true, timeoutMs = 30000, genreProfile, minBPM, maxBPM, targetBPM } = options
+  const { loadAudioFile } = useFileUpload()
+
+  const [items, setItems] = useState<BatchItem[]>([])
+  const queueRef = useRef<BatchQueue | null>(null)
+
+  // Keep the latest loader in a ref so the queue job never goes stale
+  const loadAudioFileRef = useRef(loadAudioFile)
+  loadAudioFileRef.current = loadAudioFile
+
+  useEffect(() => {
+    const tempoConstraints = getTempoConstraints({ minBPM, maxBPM, targetBPM })
+
+    const job: BatchJob = async (file, { signal, onProgress, onStatusChange }) => {
+      // Skip decoding entirely when this file has already been analyzed with the same settings
+      if (enableCaching) {
+        try {
+          const cachedResult = await getAudioCache().get(file)
+          if (cachedResult && matchesGenreProfile(cachedResult, genreProfile ?? DEFAULT_GENRE_PROFILE) &&
+            matchesTempoConstraints(cachedResult, tempoConstraints)) {
+            onProgress(100)
+            return { result: cachedResult, fromCache: true }
+          }
+        } catch (error) {
+          console.warn('Cache lookup failed:', error)
+        }
+      }
+
+      // Long files are decoded window by window as part of the analysis itself
+      if (shouldAnalyzeInWindows(file)) {
+        onStatusChange('analyzing')
+        const processor = new AudioProcessor()
+        const abort = () => processor.cancelProcessing()
+        signal.addEventListener('abort', abort)
+
+        try {
+          const result = await processor.processLargeFile(file, { enableCaching, genreProfile, ...tempoConstraints, onProgress })
+          return { result }
+        } finally {
+          signal.removeEventListener('abort', abort)
+        }
+      }
+
+      // File loading is 0-30% of item progress, analysis is 30-100%
+      const buffer = await loadAudioFileRef.current(file, (loadProgress) => {
+        onProgress(loadProgress * 0.3)
+      })
+
+      if (signal.aborted) {
+        throw new Error('Audio processing was cancelled')
+      }
+
+      onStatusChange('analyzing')
+      const processor = new AudioProcessor()
+      const abort = () => processor.cancelProcessing()
+      signal.addEventListener('abort', abort)
+
+      try {
+        const result = await processor.processAudio(buffer, {
+          timeoutMs,
+          file,
+          enableCaching,
+          genreProfile,
+          ...tempoConstraints,
+          onProgress: (analysisProgress) => onProgress(30 + analysisProgress * 0.7)
+        })
+        return { result }
+      } finally {
+        signal.removeEventListener('abort', abort)
+      }
+    }
+
+    const queue = new BatchQueue(job, { concurrency })
+    queueRef.current = queue
+    queue.addListener(setItems)
+
+    return () => {
+      queue.removeListener(setItems)
+      queue.cancelAll()
+      queueRef.current = null
+    }
+  }, [concurrency, enableCaching, timeoutMs, genreProfile, minBPM, maxBPM, targetBPM])
+
+  const addFiles = useCallback((files: File[]) => {
+    queueRef.current?.add(files)
+  }, [])
+
+  const cancelItem = useCallback((id: string) => {
+    queueRef.current?.cancel(id)
+  }, [])
+
+  const retryItem = useCallback((id: string) => {
+    queueRef.current?.retry(id)
+  }, [])
+
+  const cancelAll = useCallback(() => {
+    queueRef.current?.cancelAll()
+  }, [])
+
+  const clear = useCallback(() => {
+    queueRef.current?.clear()
+  }, [])
+
+  const isRunning = items.some(item =>
+    item.status === 'pending' || item.status === 'loading' || item.status === 'analyzing'
+  )
+
+  return {
+    items,
+    addFiles,
+    cancelItem,
+    retryItem,
+    cancelAll,
+    clear,
+    isRunning
+  }
+}
+
+export default useBatchAnalysis
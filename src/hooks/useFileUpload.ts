@@ -11,6 +11,7 @@ import { SUPPORTED_FORMATS } from '../types'
 import type { AudioFile, ValidationResult } from '../types'
 import { loadLargeFile } from '../utils/progressiveLoader'
 import { memoryManager } from '../utils/memoryManager'
+import { decodeAudio, hasBuiltInDecoder } from '../utils/audioDecoder'
 
 interface UseFileUploadReturn {
   validateFile: (file: File) => ValidationResult
@@ -152,10 +153,24 @@ export const useFileUpload = (): UseFileUploadReturn => {
           }
         }, 100)
 
-        audioBuffer = await audioContext.decodeAudioData(arrayBuffer)
-        
-        // Clear decode progress interval
-        clearInterval(decodeProgressInterval)
+        const format = createAudioFile(file)?.format ?? ''
+        try {
+          audioBuffer = await audioContext.decodeAudioData(arrayBuffer)
+        } catch (nativeError) {
+          if (!hasBuiltInDecoder(format)) throw nativeError
+
+          console.warn('Native decoding failed, using the built-in decoder:', nativeError)
+          try {
+            // decodeAudioData detaches its input, so the file is read again rather than copied up front
+            audioBuffer = decodeAudio(await loadLargeFile(file), format)
+          } catch (builtInError) {
+            console.warn('Built-in decoding failed:', builtInError)
+            throw nativeError
+          }
+        } finally {
+          // Clear decode progress interval
+          clearInterval(decodeProgressInterval)
+        }
         
         console.log('Audio decoded successfully, duration:', audioBuffer.duration)
         updateProgress(30) // Decoding complete
@@ -0,0 +1,203 @@
+// React hook that listens to a microphone or line-in and keeps a running tempo and key reading
+
+import { useState, useCallback, useRef, useEffect } from 'react'
+import type { KeyProfileId, TempoConstraints } from '../types'
+import { createAudioContext, closeAudioContext } from '../utils/audioProcessing'
+import { LiveAnalyzer, readLiveWindow } from '../utils/liveAnalysis'
+import type { LiveReading, LiveSnapshot, LiveWindow } from '../utils/liveAnalysis'
+import { readLiveWindowInWorker, workersAvailable } from '../utils/workerPool'
+
+export interface UseLiveAnalysisOptions extends TempoConstraints {
+  bufferSeconds?: number
+  keyProfile?: KeyProfileId
+}
+
+export interface LiveInput {
+  deviceId: string
+  label: string
+}
+
+export interface UseLiveAnalysisResult {
+  isListening: boolean
+  reading: LiveReading | null
+  error: string | null
+  inputs: LiveInput[] // Audio inputs to choose from, named once the user has allowed access
+  deviceId: string | null // Input being listened to, null for the default
+  start: (deviceId?: string) => Promise<void>
+  stop: () => void
+}
+
+// New samples are collected this often, well within the analyser's window of the most recent audio
+const CAPTURE_INTERVAL_MS = 250
+// Readings are taken this often, each a pass over the whole rolling buffer in the live worker
+const READING_INTERVAL_MS = 2000
+// Largest analyser window, about 0.7 seconds at 44.1 kHz
+const ANALYSER_FFT_SIZE = 32768
+
+/**
+ * Read a snapshot in the live worker, or on this thread where workers are unavailable
+ */
+function readSnapshot(snapshot: LiveSnapshot, signal: AbortSignal): Promise<LiveWindow> {
+  return workersAvailable()
+    ? readLiveWindowInWorker(snapshot, { signal })
+    : Promise.resolve(readLiveWindow(snapshot))
+}
+
+/**
+ * Friendly message for a failed getUserMedia call
+ */
+function getInputError(error: unknown): string {
+  if (error instanceof DOMException) {
+    if (error.name === 'NotAllowedError') return 'Microphone access was denied'
+    if (error.name === 'NotFoundError') return 'No audio input was found'
+  }
+  return error instanceof Error ? error.message : 'Could not open the audio input'
+}
+
+export function useLiveAnalysis(options: UseLiveAnalysisOptions = {}): UseLiveAnalysisResult {
+  const { bufferSeconds, keyProfile, minBPM, maxBPM, targetBPM } = options
+
+  const [isListening, setIsListening] = useState(false)
+  const [reading, setReading] = useState<LiveReading | null>(null)
+  const [error, setError] = useState<string | null>(null)
+  const [inputs, setInputs] = useState<LiveInput[]>([])
+  const [deviceId, setDeviceId] = useState<string | null>(null)
+
+  const streamRef = useRef<MediaStream | null>(null)
+  const contextRef = useRef<AudioContext | null>(null)
+  const captureRef = useRef<number | null>(null)
+  const readingRef = useRef<number | null>(null)
+  const abortRef = useRef<AbortController | null>(null) // Stops a reading still running in the worker
+  // Bumped by every start and stop, so an input that opens after a later call is closed again
+  const requestRef = useRef(0)
+
+  const stop = useCallback(() => {
+    requestRef.current++
+    if (captureRef.current !== null) {
+      clearInterval(captureRef.current)
+      captureRef.current = null
+    }
+    if (readingRef.current !== null) {
+      clearInterval(readingRef.current)
+      readingRef.current = null
+    }
+    abortRef.current?.abort()
+    abortRef.current = null
+
+    streamRef.current?.getTracks().forEach(track => track.stop())
+    streamRef.current = null
+    if (contextRef.current) {
+      closeAudioContext(contextRef.current)
+      contextRef.current = null
+    }
+    setIsListening(false)
+  }, [])
+
+  const listInputs = useCallback(async () => {
+    const devices = await navigator.mediaDevices.enumerateDevices()
+    setInputs(devices
+      .filter(device => device.kind === 'audioinput')
+      .map((device, index) => ({ deviceId: device.deviceId, label: device.label || `Input ${index + 1}` })))
+  }, [])
+
+  const start = useCallback(async (nextDeviceId?: string) => {
+    stop()
+    const request = ++requestRef.current
+    setError(null)
+    setReading(null)
+
+    if (!navigator.mediaDevices?.getUserMedia) {
+      setError('Audio input is not supported in this browser')
+      return
+    }
+
+    try {
+      // Processing meant for speech would flatten the beats and smear the pitch
+      const stream = await navigator.mediaDevices.getUserMedia({
+        audio: {
+          deviceId: nextDeviceId ? { exact: nextDeviceId } : undefined,
+          echoCancellation: false,
+          noiseSuppression: false,
+          autoGainControl: false
+        }
+      })
+      if (request !== requestRef.current) {
+        stream.getTracks().forEach(track => track.stop())
+        return
+      }
+      streamRef.current = stream
+
+      const context = createAudioContext()
+      contextRef.current = context
+      const analyser = context.createAnalyser()
+      analyser.fftSize = ANALYSER_FFT_SIZE
+      context.createMediaStreamSource(stream).connect(analyser)
+
+      const analyzer = new LiveAnalyzer({
+        sampleRate: context.sampleRate,
+        bufferSeconds,
+        keyProfile,
+        minBPM,
+        maxBPM,
+        targetBPM
+      })
+      const latest = new Float32Array(analyser.fftSize)
+      let capturedUntil = context.currentTime
+
+      // The analyser only holds its latest window, so the audio that arrived since the last capture is taken from its end
+      captureRef.current = window.setInterval(() => {
+        const now = context.currentTime
+        const newSamples = Math.min(latest.length, Math.round((now - capturedUntil) * context.sampleRate))
+        capturedUntil = now
+        if (newSamples <= 0) return
+
+        analyser.getFloatTimeDomainData(latest)
+        analyzer.push(latest.slice(latest.length - newSamples))
+      }, CAPTURE_INTERVAL_MS)
+
+      // A reading that runs past the interval is not doubled up on, and one that finishes after stop is dropped
+      const abortController = new AbortController()
+      abortRef.current = abortController
+      let isReading = false
+      readingRef.current = window.setInterval(() => {
+        if (isReading) return
+        isReading = true
+        readSnapshot(analyzer.snapshot(), abortController.signal)
+          .then(liveWindow => {
+            if (request === requestRef.current) {
+              setReading(analyzer.update(liveWindow))
+            }
+          })
+          .catch(readingError => {
+            if (!abortController.signal.aborted) {
+              console.warn('Live reading failed:', readingError)
+            }
+          })
+          .finally(() => {
+            isReading = false
+          })
+      }, READING_INTERVAL_MS)
+
+      setDeviceId(nextDeviceId ?? null)
+      setIsListening(true)
+      await listInputs()
+    } catch (inputError) {
+      if (request !== requestRef.current) return
+      stop()
+      setError(getInputError(inputError))
+    }
+  }, [stop, listInputs, bufferSeconds, keyProfile, minBPM, maxBPM, targetBPM])
+
+  // Release the input with the component
+  useEffect(() => stop, [stop])
+
+  return {
+    isListening,
+    reading,
+    error,
+    inputs,
+    deviceId,
+    start,
+    stop
+  }
+}
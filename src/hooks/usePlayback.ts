@@ -0,0 +1,194 @@
+// React hook that plays an audio buffer with seeking, and an optional metronome on the beat ticks
+
+import { useState, useCallback, useRef, useEffect } from 'react'
+import { createAudioContext, closeAudioContext } from '../utils/audioProcessing'
+import { getClicksInWindow, scheduleClick } from '../utils/metronome'
+import type { MetronomeClick } from '../utils/metronome'
+
+export interface UsePlaybackResult {
+  isPlaying: boolean
+  position: number // Seconds into the track
+  duration: number
+  metronome: boolean
+  play: () => Promise<void>
+  pause: () => void
+  togglePlayback: () => void
+  seek: (time: number) => void
+  setMetronome: (enabled: boolean) => void
+  getContext: () => Promise<AudioContext> // The playback context, for sounds played under the track
+}
+
+// Clicks are scheduled this far ahead of the playhead, topped up on every scheduler tick
+const LOOKAHEAD_SECONDS = 0.1
+const SCHEDULER_INTERVAL_MS = 25
+
+export function usePlayback(audioBuffer?: AudioBuffer, clicks: MetronomeClick[] = []): UsePlaybackResult {
+  const [isPlaying, setIsPlaying] = useState(false)
+  const [position, setPosition] = useState(0)
+  const [metronome, setMetronome] = useState(false)
+  const duration = audioBuffer?.duration ?? 0
+
+  const contextRef = useRef<AudioContext | null>(null)
+  const sourceRef = useRef<AudioBufferSourceNode | null>(null)
+  const clickNodesRef = useRef<OscillatorNode[]>([])
+  const startedAtRef = useRef(0) // Context time at which the start of the track would have played
+  const offsetRef = useRef(0) // Position to resume from while paused
+  const scheduledUntilRef = useRef(0)
+  const frameRef = useRef<number | null>(null)
+  const schedulerRef = useRef<number | null>(null)
+
+  // The scheduler reads the latest clicks and switch without restarting playback
+  const clicksRef = useRef(clicks)
+  const metronomeRef = useRef(metronome)
+  useEffect(() => {
+    clicksRef.current = clicks
+    metronomeRef.current = metronome
+  }, [clicks, metronome])
+
+  const stopSource = useCallback(() => {
+    if (sourceRef.current) {
+      sourceRef.current.onended = null
+      sourceRef.current.stop()
+      sourceRef.current.disconnect()
+      sourceRef.current = null
+    }
+
+    clickNodesRef.current.forEach(node => node.stop())
+    clickNodesRef.current = []
+
+    if (frameRef.current !== null) {
+      cancelAnimationFrame(frameRef.current)
+      frameRef.current = null
+    }
+    if (schedulerRef.current !== null) {
+      clearInterval(schedulerRef.current)
+      schedulerRef.current = null
+    }
+  }, [])
+
+  /**
+   * Schedule the clicks due before the lookahead runs out
+   */
+  const scheduleClicks = useCallback(() => {
+    const context = contextRef.current
+    if (!context) return
+
+    const now = context.currentTime - startedAtRef.current
+    const start = Math.max(scheduledUntilRef.current, now)
+    const end = now + LOOKAHEAD_SECONDS
+
+    // The window moves on with the metronome off too, so switching it on does not replay missed clicks
+    if (metronomeRef.current) {
+      for (const click of getClicksInWindow(clicksRef.current, start, end)) {
+        const node = scheduleClick(context, startedAtRef.current + click.time, click.accent)
+        node.onended = () => {
+          clickNodesRef.current = clickNodesRef.current.filter(scheduled => scheduled !== node)
+        }
+        clickNodesRef.current.push(node)
+      }
+    }
+    scheduledUntilRef.current = Math.max(start, end)
+  }, [])
+
+  // Browsers only allow audio to start from a user gesture, so the context is created on first use
+  const getContext = useCallback(async () => {
+    const context = contextRef.current ?? (contextRef.current = createAudioContext())
+    if (context.state === 'suspended') {
+      await context.resume()
+    }
+    return context
+  }, [])
+
+  const startFrom = useCallback(async (offset: number) => {
+    if (!audioBuffer) return
+
+    const context = await getContext()
+    stopSource()
+    const source = context.createBufferSource()
+    source.buffer = audioBuffer
+    source.connect(context.destination)
+    source.onended = () => {
+      // Reached the end of the track
+      stopSource()
+      offsetRef.current = 0
+      setPosition(0)
+      setIsPlaying(false)
+    }
+    source.start(0, offset)
+    sourceRef.current = source
+    startedAtRef.current = context.currentTime - offset
+
+    scheduledUntilRef.current = offset
+    scheduleClicks()
+    schedulerRef.current = window.setInterval(scheduleClicks, SCHEDULER_INTERVAL_MS)
+
+    const updatePosition = () => {
+      setPosition(Math.min(audioBuffer.duration, context.currentTime - startedAtRef.current))
+      frameRef.current = requestAnimationFrame(updatePosition)
+    }
+    updatePosition()
+    setIsPlaying(true)
+  }, [audioBuffer, getContext, stopSource, scheduleClicks])
+
+  const play = useCallback(() => startFrom(offsetRef.current), [startFrom])
+
+  const pause = useCallback(() => {
+    const context = contextRef.current
+    if (!sourceRef.current || !context) return
+
+    offsetRef.current = Math.min(duration, context.currentTime - startedAtRef.current)
+    stopSource()
+    setPosition(offsetRef.current)
+    setIsPlaying(false)
+  }, [duration, stopSource])
+
+  const togglePlayback = useCallback(() => {
+    if (isPlaying) {
+      pause()
+    } else {
+      play()
+    }
+  }, [isPlaying, pause, play])
+
+  const seek = useCallback((time: number) => {
+    const clamped = Math.min(Math.max(0, time), duration)
+    offsetRef.current = clamped
+    setPosition(clamped)
+    if (sourceRef.current) {
+      startFrom(clamped)
+    }
+  }, [duration, startFrom])
+
+  // A new track starts stopped, from the beginning
+  useEffect(() => {
+    return () => {
+      stopSource()
+      offsetRef.current = 0
+      setPosition(0)
+      setIsPlaying(false)
+    }
+  }, [audioBuffer, stopSource])
+
+  // Release the audio context with the component
+  useEffect(() => {
+    return () => {
+      if (contextRef.current) {
+        closeAudioContext(contextRef.current)
+        contextRef.current = null
+      }
+    }
+  }, [])
+
+  return {
+    isPlaying,
+    position,
+    duration,
+    metronome,
+    play,
+    pause,
+    togglePlayback,
+    seek,
+    setMetronome,
+    getContext
+  }
+}
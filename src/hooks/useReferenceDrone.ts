@@ -0,0 +1,91 @@
+// React hook that sustains a tonic note or triad of the detected key on the playback context
+
+import { useState, useCallback, useRef, useEffect, useMemo } from 'react'
+import type { KeyResult } from '../types'
+import { getDroneFrequencies, getDroneKey, getDroneKeyName, startDrone } from '../utils/referenceDrone'
+import type { DroneVoice, DroneVoicing } from '../utils/referenceDrone'
+
+export interface UseReferenceDroneResult {
+  isOn: boolean
+  keyName: string | null // Key the drone plays, which is the relative key when the other mode is chosen
+  mode: KeyResult['mode']
+  voicing: DroneVoicing
+  volume: number // 0-1
+  toggle: () => void
+  setMode: (mode: KeyResult['mode']) => void
+  setVoicing: (voicing: DroneVoicing) => void
+  setVolume: (volume: number) => void
+}
+
+export function useReferenceDrone(
+  getContext: () => Promise<BaseAudioContext>,
+  key?: Pick<KeyResult, 'keyName' | 'mode'>
+): UseReferenceDroneResult {
+  const [voicing, setVoicing] = useState<DroneVoicing>('triad')
+  const [volume, setVolume] = useState(0.3)
+  // The drone and the chosen mode belong to the key they were set for, so a newly detected key starts silent in its own mode
+  const [onFor, setOnFor] = useState<string | null>(null)
+  const [modeChoice, setModeChoice] = useState<{ keyName: string; mode: KeyResult['mode'] } | null>(null)
+  const detectedKeyName = key?.keyName
+  const isOn = onFor !== null && onFor === detectedKeyName
+  const mode = modeChoice && modeChoice.keyName === detectedKeyName ? modeChoice.mode : key?.mode ?? 'major'
+
+  // Partial results replace the key object without changing the key, so the drone follows the name
+  const droneKey = useMemo(
+    () => detectedKeyName ? getDroneKey({ keyName: detectedKeyName }, mode) : null,
+    [detectedKeyName, mode]
+  )
+  const frequencies = useMemo(() => droneKey ? getDroneFrequencies(droneKey, voicing) : [], [droneKey, voicing])
+
+  const voiceRef = useRef<DroneVoice | null>(null)
+  const volumeRef = useRef(volume)
+
+  // Restart the drone whenever the notes change
+  useEffect(() => {
+    if (!isOn || frequencies.length === 0) return
+
+    let isCancelled = false
+    getContext().then(context => {
+      if (!isCancelled) {
+        voiceRef.current = startDrone(context, frequencies, volumeRef.current)
+      }
+    }).catch(error => {
+      console.warn('Could not start the reference drone:', error)
+      setOnFor(null)
+    })
+
+    return () => {
+      isCancelled = true
+      voiceRef.current?.stop()
+      voiceRef.current = null
+    }
+  }, [isOn, frequencies, getContext])
+
+  // Volume changes fade the running drone rather than restarting it
+  useEffect(() => {
+    volumeRef.current = volume
+    voiceRef.current?.setVolume(volume)
+  }, [volume])
+
+  const toggle = useCallback(() => {
+    setOnFor(isOn ? null : detectedKeyName ?? null)
+  }, [isOn, detectedKeyName])
+
+  const setMode = useCallback((value: KeyResult['mode']) => {
+    if (detectedKeyName) {
+      setModeChoice({ keyName: detectedKeyName, mode: value })
+    }
+  }, [detectedKeyName])
+
+  return {
+    isOn,
+    keyName: droneKey ? getDroneKeyName(droneKey) : null,
+    mode,
+    voicing,
+    volume,
+    toggle,
+    setMode,
+    setVoicing,
+    setVolume
+  }
+}
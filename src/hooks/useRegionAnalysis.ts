@@ -0,0 +1,100 @@
+// React hook that analyzes a selected region of the loaded track, alongside the whole-file analysis
+
+import { useState, useCallback, useRef, useEffect } from 'react'
+import type { AnalysisRegion, AnalysisResult, GenreProfileId, TempoConstraints } from '../types'
+import { AudioProcessor } from '../utils/audioProcessor'
+
+export interface UseRegionAnalysisOptions extends TempoConstraints {
+  timeoutMs?: number
+  enableCaching?: boolean
+  genreProfile?: GenreProfileId
+}
+
+export interface UseRegionAnalysisResult {
+  region: AnalysisRegion | null
+  result: AnalysisResult | null // Analysis of the current region
+  isAnalyzing: boolean
+  error: string | null
+  selectRegion: (region: AnalysisRegion | null) => void
+  analyzeRegion: () => Promise<void>
+}
+
+export function useRegionAnalysis(
+  audioBuffer?: AudioBuffer,
+  file?: File,
+  options: UseRegionAnalysisOptions = {}
+): UseRegionAnalysisResult {
+  const { timeoutMs, enableCaching = true, genreProfile, minBPM, maxBPM, targetBPM } = options
+
+  const [region, setRegion] = useState<AnalysisRegion | null>(null)
+  const [result, setResult] = useState<AnalysisResult | null>(null)
+  const [isAnalyzing, setIsAnalyzing] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const processorRef = useRef<AudioProcessor | null>(null)
+  // Bumped whenever the region or track changes, so an analysis that finishes late is dropped
+  const requestRef = useRef(0)
+
+  useEffect(() => {
+    processorRef.current = new AudioProcessor()
+    return () => {
+      processorRef.current?.cancelProcessing()
+    }
+  }, [])
+
+  const selectRegion = useCallback((next: AnalysisRegion | null) => {
+    requestRef.current++
+    processorRef.current?.cancelProcessing()
+    setRegion(next)
+    setResult(null)
+    setError(null)
+    setIsAnalyzing(false)
+  }, [])
+
+  // A new track starts without a region
+  useEffect(() => {
+    return () => selectRegion(null)
+  }, [audioBuffer, selectRegion])
+
+  const analyzeRegion = useCallback(async () => {
+    const processor = processorRef.current
+    if (!audioBuffer || !region || !processor) return
+
+    const request = ++requestRef.current
+    setIsAnalyzing(true)
+    setError(null)
+
+    try {
+      const analysis = await processor.processAudio(audioBuffer, {
+        region,
+        file,
+        enableCaching,
+        timeoutMs,
+        genreProfile,
+        minBPM,
+        maxBPM,
+        targetBPM
+      })
+      if (request === requestRef.current) {
+        setResult(analysis)
+      }
+    } catch (analysisError) {
+      if (request === requestRef.current) {
+        setError(analysisError instanceof Error ? analysisError.message : 'Region analysis failed')
+      }
+    } finally {
+      if (request === requestRef.current) {
+        setIsAnalyzing(false)
+      }
+    }
+  }, [audioBuffer, region, file, enableCaching, timeoutMs, genreProfile, minBPM, maxBPM, targetBPM])
+
+  return {
+    region,
+    result,
+    isAnalyzing,
+    error,
+    selectRegion,
+    analyzeRegion
+  }
+}
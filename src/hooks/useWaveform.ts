@@ -1,9 +1,11 @@
 import { useCallback, useRef, useState } from 'react'
-import type { WaveformData } from '../types'
+import type { WaveformData, BeatGrid } from '../types'
+import { isDownbeat } from '../utils/beatGrid'
 
 interface UseWaveformReturn {
   generateWaveformData: (audioBuffer: AudioBuffer, onProgress?: (progress: number) => void) => WaveformData
   drawWaveform: (canvas: HTMLCanvasElement, data: WaveformData, progress?: number) => void
+  drawBeatMarkers: (canvas: HTMLCanvasElement, beatGrid: BeatGrid, duration: number) => void
   canvasRef: React.RefObject<HTMLCanvasElement | null>
   isGenerating: boolean
 }
@@ -363,9 +365,39 @@ export const useWaveform = (): UseWaveformReturn => {
     }
   }, [])
 
+  const drawBeatMarkers = useCallback((
+    canvas: HTMLCanvasElement,
+    beatGrid: BeatGrid,
+    duration: number
+  ) => {
+    const ctx = canvas.getContext('2d')
+    if (!ctx || duration <= 0 || beatGrid.beats.length === 0) return
+
+    const { width, height } = canvas
+    // Skip regular beats when they would be packed too densely to read
+    const pixelsPerBeat = width / beatGrid.beats.length
+    const showAllBeats = pixelsPerBeat >= 4
+
+    ctx.save()
+    beatGrid.beats.forEach((beat, index) => {
+      const downbeat = isDownbeat(beatGrid, index)
+      if (!downbeat && !showAllBeats) return
+
+      const x = Math.round((beat / duration) * width) + 0.5
+      ctx.strokeStyle = downbeat ? 'rgba(0, 0, 0, 0.55)' : 'rgba(0, 0, 0, 0.18)'
+      ctx.lineWidth = downbeat ? 1.5 : 1
+      ctx.beginPath()
+      ctx.moveTo(x, downbeat ? 0 : height * 0.15)
+      ctx.lineTo(x, downbeat ? height : height * 0.85)
+      ctx.stroke()
+    })
+    ctx.restore()
+  }, [])
+
   return {
     generateWaveformData,
     drawWaveform,
+    drawBeatMarkers,
     canvasRef,
     isGenerating
   }
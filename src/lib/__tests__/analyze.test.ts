@@ -0,0 +1,183 @@
+// @vitest-environment node
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+import { existsSync, readFileSync } from 'node:fs'
+import { dirname, resolve } from 'node:path'
+import { fileURLToPath } from 'node:url'
+import type { AnalysisResult } from '../../types'
+
+const { processAudio, processLargeFile, cancelProcessing } = vi.hoisted(() => ({
+  processAudio: vi.fn(),
+  processLargeFile: vi.fn(),
+  cancelProcessing: vi.fn()
+}))
+
+vi.mock('../../utils/audioProcessor', () => ({
+  AudioProcessor: vi.fn().mockImplementation(() => ({ processAudio, processLargeFile, cancelProcessing }))
+}))
+
+import { analyze, toAudioBuffer, detectFormat } from '../analyze'
+
+const mockResult: AnalysisResult = {
+  key: { keyName: 'D Major', keySignature: 'D', confidence: 0.8, mode: 'major' },
+  bpm: { bpm: 124, confidence: 0.85, detectedBeats: 40 },
+  confidence: { overall: 0.82, key: 0.8, bpm: 0.85 },
+  processingTime: 120
+}
+
+/** 16-bit stereo PCM WAV whose left channel ramps up and right channel is silent */
+function createWAV(frames: number, sampleRate = 8000): ArrayBuffer {
+  const view = new DataView(new ArrayBuffer(44 + frames * 4))
+  const ascii = (offset: number, text: string) =>
+    [...text].forEach((char, index) => view.setUint8(offset + index, char.charCodeAt(0)))
+  ascii(0, 'RIFF')
+  view.setUint32(4, 36 + frames * 4, true)
+  ascii(8, 'WAVE')
+  ascii(12, 'fmt ')
+  view.setUint32(16, 16, true)
+  view.setUint16(20, 1, true)
+  view.setUint16(22, 2, true)
+  view.setUint32(24, sampleRate, true)
+  view.setUint32(28, sampleRate * 4, true)
+  view.setUint16(32, 4, true)
+  view.setUint16(34, 16, true)
+  ascii(36, 'data')
+  view.setUint32(40, frames * 4, true)
+  for (let frame = 0; frame < frames; frame++) {
+    view.setInt16(44 + frame * 4, Math.round((frame / frames) * 16384), true)
+  }
+  return view.buffer
+}
+
+describe('analyze', () => {
+  beforeEach(() => {
+    vi.clearAllMocks()
+    processAudio.mockResolvedValue(mockResult)
+    processLargeFile.mockResolvedValue(mockResult)
+  })
+
+  describe('toAudioBuffer', () => {
+    it('should wrap raw samples at the given sample rate', async () => {
+      const samples = new Float32Array(22050)
+      const buffer = await toAudioBuffer(samples, { sampleRate: 44100 })
+
+      expect(buffer).toMatchObject({ sampleRate: 44100, length: 22050, numberOfChannels: 1, duration: 0.5 })
+      expect(buffer.getChannelData(0)).toBe(samples)
+      await expect(toAudioBuffer(samples)).rejects.toThrow('A sampleRate is required')
+    })
+
+    it('should wrap AudioBuffer-like objects', async () => {
+      const channels = [new Float32Array(16000), new Float32Array(16000)]
+      const buffer = await toAudioBuffer({
+        sampleRate: 16000,
+        length: 16000,
+        numberOfChannels: 2,
+        getChannelData: (channel: number) => channels[channel]
+      })
+
+      expect(buffer).toMatchObject({ numberOfChannels: 2, duration: 1 })
+      expect(buffer.getChannelData(1)).toBe(channels[1])
+    })
+
+    it('should decode WAV from an ArrayBuffer, a Blob or a File without the Web Audio API', async () => {
+      const wav = createWAV(8000)
+
+      for (const input of [wav, new Blob([wav]), new File([wav], 'loop.wav')]) {
+        const buffer = await toAudioBuffer(input)
+        expect(buffer).toMatchObject({ sampleRate: 8000, length: 8000, numberOfChannels: 2 })
+        expect(buffer.getChannelData(0)[4000]).toBeCloseTo(0.25, 3)
+      }
+    })
+
+    it('should explain that compressed formats need the Web Audio API', async () => {
+      const mp3 = new Uint8Array([0x49, 0x44, 0x33, 4, 0, 0, 0, 0, 0, 0]).buffer
+
+      await expect(toAudioBuffer(mp3)).rejects.toThrow('Decoding MP3 needs the Web Audio API')
+      await expect(toAudioBuffer({} as never)).rejects.toThrow('Unsupported input')
+    })
+  })
+
+  it('should detect formats from their magic bytes', () => {
+    const bytes = (...values: (number | string)[]) => new Uint8Array(values.flatMap(value =>
+      typeof value === 'string' ? [...value].map(char => char.charCodeAt(0)) : [value])).buffer
+
+    expect(detectFormat(createWAV(1))).toBe('wav')
+    expect(detectFormat(bytes('fLaC', 0, 0, 0, 34))).toBe('flac')
+    expect(detectFormat(bytes(0, 0, 0, 32, 'ftypM4A '))).toBe('m4a')
+    expect(detectFormat(bytes('ID3', 4, 0))).toBe('mp3')
+    expect(detectFormat(bytes(0xff, 0xfb, 0x90, 0x64))).toBe('mp3')
+    expect(detectFormat(bytes('OggS'))).toBe('')
+    expect(detectFormat(new ArrayBuffer(0))).toBe('')
+  })
+
+  it('should run the decoded audio through the AudioProcessor without caching by default', async () => {
+    const onProgress = vi.fn()
+    const result = await analyze(new Float32Array(16000), { sampleRate: 16000, timeoutMs: 5000, onProgress })
+
+    expect(result).toBe(mockResult)
+    expect(processAudio).toHaveBeenCalledWith(
+      expect.objectContaining({ sampleRate: 16000, length: 16000 }),
+      { timeoutMs: 5000, onProgress, file: undefined, enableCaching: false }
+    )
+  })
+
+  it('should pass Files through for caching when it is enabled', async () => {
+    const file = new File([createWAV(800)], 'loop.wav')
+    await analyze(file, { enableCaching: true })
+
+    expect(processAudio).toHaveBeenCalledWith(expect.anything(), expect.objectContaining({ file, enableCaching: true }))
+  })
+
+  it('should analyze large MP3, WAV and FLAC files in windows', async () => {
+    const file = new File([new Uint8Array(8)], 'set.flac')
+    Object.defineProperty(file, 'size', { value: 60 * 1024 * 1024 })
+
+    await analyze(file)
+
+    expect(processLargeFile).toHaveBeenCalledWith(file, { enableCaching: false })
+    expect(processAudio).not.toHaveBeenCalled()
+  })
+
+  it('should cancel processing when the signal aborts', async () => {
+    const controller = new AbortController()
+    processAudio.mockImplementation(() => new Promise((_, reject) => {
+      cancelProcessing.mockImplementation(() => reject(new Error('Audio processing was cancelled')))
+    }))
+
+    const analysis = analyze(new Float32Array(100), { sampleRate: 8000, signal: controller.signal })
+    await vi.waitFor(() => expect(processAudio).toHaveBeenCalled())
+    controller.abort()
+
+    await expect(analysis).rejects.toThrow('Audio processing was cancelled')
+    await expect(analyze(new Float32Array(100), { sampleRate: 8000, signal: controller.signal }))
+      .rejects.toThrow()
+    expect(processAudio).toHaveBeenCalledTimes(1)
+  })
+})
+
+describe('library entry point', () => {
+  const srcDir = resolve(dirname(fileURLToPath(import.meta.url)), '../..')
+
+  /** Every bare package imported by a source file and the relative modules it imports */
+  function collectPackages(file: string, seen = new Set<string>(), packages = new Set<string>()): Set<string> {
+    if (seen.has(file)) return packages
+    seen.add(file)
+
+    const source = readFileSync(file, 'utf8')
+    for (const [, specifier] of source.matchAll(/^(?:import|export)\s[^'"]*?from\s+'([^']+)'/gm)) {
+      if (specifier.startsWith('.')) {
+        const target = resolve(dirname(file), specifier)
+        collectPackages(existsSync(`${target}.ts`) ? `${target}.ts` : resolve(target, 'index.ts'), seen, packages)
+      } else {
+        packages.add(specifier)
+      }
+    }
+    return packages
+  }
+
+  it('should not pull in React, Chakra, Sentry or Vercel analytics', () => {
+    const packages = [...collectPackages(resolve(srcDir, 'lib/index.ts'))]
+
+    expect(packages).toContain('essentia.js')
+    expect(packages.filter(name => /react|chakra|emotion|sentry|vercel/.test(name))).toEqual([])
+  })
+})
@@ -0,0 +1,45 @@
+// @vitest-environment node
+import { describe, it, expect } from 'vitest'
+import { execFile } from 'node:child_process'
+import { mkdtempSync, rmSync, writeFileSync } from 'node:fs'
+import { tmpdir } from 'node:os'
+import { dirname, join, resolve } from 'node:path'
+import { fileURLToPath } from 'node:url'
+
+const rootDir = resolve(dirname(fileURLToPath(import.meta.url)), '../../..')
+
+// Imports the library and analyzes two seconds of a pulsing tone, then leaves the process to end on its own
+const script = `
+import { analyze } from ${JSON.stringify(resolve(rootDir, 'src/lib/index.ts'))}
+
+const sampleRate = 16000
+const samples = new Float32Array(sampleRate * 2).map((_, i) =>
+  Math.sin(2 * Math.PI * 440 * i / sampleRate) * (i % 8000 < 800 ? 1 : 0.2))
+const result = await analyze(samples, { sampleRate })
+process.stdout.write(JSON.stringify({ key: result.key.keyName, bpm: result.bpm.bpm }))
+`
+
+describe('library in Node', () => {
+  it('should let the process exit once analyze() resolves', async () => {
+    const dir = mkdtempSync(join(tmpdir(), 'analyze-exit-'))
+    const file = join(dir, 'analyze-once.ts')
+    writeFileSync(file, script)
+
+    try {
+      const { code, stdout } = await new Promise<{ code: number | null; stdout: string }>(resolvePromise => {
+        const child = execFile(
+          process.execPath,
+          [resolve(rootDir, 'node_modules/vite-node/vite-node.mjs'), file],
+          { cwd: rootDir, timeout: 45000 },
+          (_error, out) => resolvePromise({ code: child.exitCode, stdout: out })
+        )
+      })
+
+      // A timer left running keeps the process alive until the timeout kills it, leaving no exit code
+      expect(code).toBe(0)
+      expect(JSON.parse(stdout.slice(stdout.indexOf('{')))).toMatchObject({ key: expect.any(String), bpm: expect.any(Number) })
+    } finally {
+      rmSync(dir, { recursive: true, force: true })
+    }
+  }, 60000)
+})
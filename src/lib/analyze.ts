@@ -0,0 +1,163 @@
+// Framework-free analysis of files, encoded bytes or decoded samples
+
+import type { AnalysisResult } from '../types'
+import { AudioProcessor } from '../utils/audioProcessor'
+import type { AudioProcessorOptions } from '../utils/audioProcessor'
+import { decodeAudio, hasBuiltInDecoder } from '../utils/audioDecoder'
+import { shouldAnalyzeInWindows } from '../utils/audioWindows'
+import { getFileExtension } from '../utils/validation'
+import { fromWorkerAudioData } from '../workers/audioData'
+
+/**
+ * The parts of the AudioBuffer interface the detectors read
+ */
+export interface AudioBufferLike {
+  sampleRate: number
+  length: number
+  numberOfChannels: number
+  getChannelData(channel: number): Float32Array
+}
+
+/**
+ * A File or Blob and an ArrayBuffer hold encoded audio; a Float32Array holds mono samples
+ */
+export type AnalyzeInput = Blob | ArrayBuffer | Float32Array | AudioBufferLike
+
+export interface AnalyzeOptions extends Pick<AudioProcessorOptions,
+  'timeoutMs' | 'onProgress' | 'onPartialResult' | 'genreProfile' | 'minBPM' | 'maxBPM' | 'targetBPM' | 'region'> {
+  sampleRate?: number // Required for Float32Array input
+  format?: string // Format of encoded input, detected from its first bytes when omitted
+  enableCaching?: boolean // Cache results of File input in IndexedDB (default: false)
+  signal?: AbortSignal
+}
+
+// Rate encoded input is decoded at; the detectors downsample from here
+const DECODE_SAMPLE_RATE = 44100
+
+/**
+ * Detect the key and BPM of audio, using the same pipeline and fallbacks as the app
+ */
+export async function analyze(input: AnalyzeInput, options: AnalyzeOptions = {}): Promise<AnalysisResult> {
+  const { timeoutMs, onProgress, onPartialResult, genreProfile, minBPM, maxBPM, targetBPM, region, signal, enableCaching = false } = options
+  const processorOptions: AudioProcessorOptions = {
+    timeoutMs, onProgress, onPartialResult, genreProfile, minBPM, maxBPM, targetBPM, enableCaching
+  }
+  signal?.throwIfAborted()
+
+  const processor = new AudioProcessor()
+  const cancel = () => processor.cancelProcessing()
+  signal?.addEventListener('abort', cancel)
+
+  try {
+    if (typeof File !== 'undefined' && input instanceof File && shouldAnalyzeInWindows(input)) {
+      // Windowed analysis never holds the whole track, so there is no buffer to cut a region from
+      if (region) {
+        throw new Error('Regions cannot be analyzed in files too large to decode at once')
+      }
+      return await processor.processLargeFile(input, processorOptions)
+    }
+
+    const audioBuffer = await toAudioBuffer(input, options)
+    signal?.throwIfAborted()
+
+    return await processor.processAudio(audioBuffer, {
+      ...processorOptions,
+      region,
+      file: typeof File !== 'undefined' && input instanceof File ? input : undefined
+    })
+  } finally {
+    signal?.removeEventListener('abort', cancel)
+  }
+}
+
+/**
+ * Decode or wrap any supported input as an AudioBuffer
+ */
+export async function toAudioBuffer(
+  input: AnalyzeInput,
+  options: Pick<AnalyzeOptions, 'sampleRate' | 'format'> = {}
+): Promise<AudioBuffer> {
+  if (input instanceof Float32Array) {
+    if (!options.sampleRate || options.sampleRate <= 0) {
+      throw new Error('A sampleRate is required to analyze raw samples')
+    }
+    return fromWorkerAudioData({
+      sampleRate: options.sampleRate,
+      length: input.length,
+      numberOfChannels: 1,
+      channelData: [input]
+    })
+  }
+
+  if (input instanceof ArrayBuffer) {
+    return decodeEncodedAudio(input, options.format)
+  }
+
+  if (typeof Blob !== 'undefined' && input instanceof Blob) {
+    const format = options.format ?? (input instanceof File ? getFileExtension(input.name) : undefined)
+    return decodeEncodedAudio(await input.arrayBuffer(), format)
+  }
+
+  if (isAudioBufferLike(input)) {
+    if (typeof AudioBuffer !== 'undefined' && input instanceof AudioBuffer) {
+      return input
+    }
+    const channelData: Float32Array[] = []
+    for (let channel = 0; channel < input.numberOfChannels; channel++) {
+      channelData.push(input.getChannelData(channel))
+    }
+    return fromWorkerAudioData({
+      sampleRate: input.sampleRate,
+      length: input.length,
+      numberOfChannels: input.numberOfChannels,
+      channelData
+    })
+  }
+
+  throw new Error('Unsupported input. Pass a File, Blob, ArrayBuffer, Float32Array or AudioBuffer')
+}
+
+/**
+ * Decode with the Web Audio API where there is one, falling back to the built-in WAV and FLAC decoders
+ */
+async function decodeEncodedAudio(data: ArrayBuffer, declaredFormat?: string): Promise<AudioBuffer> {
+  const format = declaredFormat?.toLowerCase() || detectFormat(data)
+  const builtIn = hasBuiltInDecoder(format)
+
+  if (typeof OfflineAudioContext === 'undefined') {
+    if (builtIn) return decodeAudio(data, format)
+    throw new Error(`Decoding ${format ? format.toUpperCase() : 'this audio'} needs the Web Audio API. Pass decoded samples instead`)
+  }
+
+  const context = new OfflineAudioContext(1, 1, DECODE_SAMPLE_RATE)
+  try {
+    // decodeAudioData detaches its input, so keep the bytes for the built-in decoder
+    return await context.decodeAudioData(builtIn ? data.slice(0) : data)
+  } catch (nativeError) {
+    if (!builtIn) throw nativeError
+    return decodeAudio(data, format)
+  }
+}
+
+/**
+ * Format of encoded audio from its magic bytes, or '' when unrecognized
+ */
+export function detectFormat(data: ArrayBuffer): string {
+  const bytes = new Uint8Array(data, 0, Math.min(data.byteLength, 12))
+  const ascii = (start: number, end: number) => String.fromCharCode(...bytes.subarray(start, end))
+
+  if (ascii(0, 4) === 'RIFF' && ascii(8, 12) === 'WAVE') return 'wav'
+  if (ascii(0, 4) === 'fLaC') return 'flac'
+  if (ascii(4, 8) === 'ftyp') return 'm4a'
+  // An ID3v2 tag or an MPEG audio frame sync
+  if (ascii(0, 3) === 'ID3' || (bytes[0] === 0xff && (bytes[1] & 0xe0) === 0xe0)) return 'mp3'
+  return ''
+}
+
+function isAudioBufferLike(input: unknown): input is AudioBufferLike {
+  const candidate = input as Partial<AudioBufferLike> | null
+  return typeof candidate === 'object' && candidate !== null &&
+    typeof candidate.getChannelData === 'function' &&
+    typeof candidate.sampleRate === 'number' &&
+    typeof candidate.numberOfChannels === 'number'
+}
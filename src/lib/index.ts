@@ -0,0 +1,41 @@
+// Public entry point of the analysis engine, free of React, Chakra, Sentry and Vercel analytics
+
+export { analyze, toAudioBuffer, detectFormat } from './analyze'
+export type { AnalyzeInput, AnalyzeOptions, AudioBufferLike } from './analyze'
+
+export type {
+  AnalysisResult,
+  KeyResult,
+  KeySegment,
+  BPMResult,
+  BeatGrid,
+  TempoMap,
+  TempoSegment,
+  ConfidenceScores,
+  GenreProfileId,
+  KeyProfileId,
+  TempoConstraints,
+  AnalysisRegion
+} from '../types'
+export { SUPPORTED_FORMATS, BPM_RANGE } from '../types'
+export type { SupportedFormat } from '../types'
+
+// The pipeline and the detectors it wraps, for callers that need finer control
+export { AudioProcessor } from '../utils/audioProcessor'
+export type { AudioProcessorOptions } from '../utils/audioProcessor'
+export { KeyDetector } from '../utils/keyDetection'
+export type { KeyDetectionOptions, KeySegmentDetectionOptions, KeyProfileComparisonOptions } from '../utils/keyDetection'
+export { BPMDetector } from '../utils/bpmDetection'
+export type { BPMDetectionOptions } from '../utils/bpmDetection'
+export { detectKeyFallback, detectKeySegmentsFallback } from '../utils/fallbackKeyDetection'
+export { detectBPMFallback } from '../utils/fallbackBpmDetection'
+export { decodeAudio, hasBuiltInDecoder } from '../utils/audioDecoder'
+
+export { GENRE_PROFILES, DEFAULT_GENRE_PROFILE, getGenreProfile } from '../utils/genreProfiles'
+export type { GenreProfile } from '../utils/genreProfiles'
+export { TEMPO_LIMITS } from '../utils/tempoConstraints'
+export { KEY_PROFILES, KEY_PROFILE_IDS, compareKeyProfileResults } from '../utils/keyProfiles'
+export type { KeyProfile, KeyProfileComparison, KeyProfileResult } from '../utils/keyProfiles'
+
+export { formatKey, getKeyNotations, parseKey } from '../utils/keyNotation'
+export type { KeyNotation, KeyNotations, ParsedKey } from '../utils/keyNotation'
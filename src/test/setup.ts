@@ -63,6 +63,18 @@ if (typeof window !== 'undefined') {
     writable: true,
     value: MockAudioContext
   })
+
+  // Chakra's slider measures its thumbs with ResizeObserver, which jsdom lacks
+  if (!('ResizeObserver' in window)) {
+    Object.defineProperty(window, 'ResizeObserver', {
+      writable: true,
+      value: class MockResizeObserver {
+        observe() {}
+        unobserve() {}
+        disconnect() {}
+      }
+    })
+  }
 }
 
 // Mock essentia.js to prevent initialization issues in tests
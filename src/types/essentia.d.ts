@@ -7,19 +7,30 @@ declare module 'essentia.js' {
     EssentiaJS?: any
   }
 
+  // Float vector living in the WebAssembly heap
+  export interface VectorFloat {
+    size(): number
+    get(index: number): number
+  }
+
+  export interface BeatTrackerResult {
+    ticks: VectorFloat // Beat positions in seconds
+    confidence?: number // Only reported by BeatTrackerMultiFeature
+  }
+
   export class Essentia {
     constructor(wasmModule: EssentiaWASM)
     
     // Core methods
     shutdown(): void
     delete(): void
-    arrayToVector(array: Float32Array | number[]): any
-    vectorToArray(vector: any): Float32Array
+    arrayToVector(array: Float32Array | number[]): VectorFloat
+    vectorToArray(vector: VectorFloat): Float32Array
     audioBufferToMonoSignal(audioBuffer: AudioBuffer): Float32Array
     
     // Beat tracking algorithms
-    BeatTrackerMultiFeature(signal: any, maxBPM?: number, minBPM?: number): any
-    BeatTrackerDegara(signal: any, maxBPM?: number, minBPM?: number): any
+    BeatTrackerMultiFeature(signal: VectorFloat, maxBPM?: number, minBPM?: number): BeatTrackerResult
+    BeatTrackerDegara(signal: VectorFloat, maxBPM?: number, minBPM?: number): BeatTrackerResult
     
     // Key detection algorithms
     KeyExtractor(signal: any): any
@@ -6,6 +6,20 @@ export interface AudioFile {
   size: number
   format: string
   duration: number
+  tags?: EmbeddedTags // Metadata already embedded in the file, read after loading
+}
+
+export interface EmbeddedArtwork {
+  mimeType: string // e.g. "image/jpeg"
+  data: Uint8Array
+}
+
+export interface EmbeddedTags {
+  title?: string
+  artist?: string
+  bpm?: number
+  key?: string // As written in the file, e.g. "Am", "8A" or "1m"
+  artwork?: EmbeddedArtwork
 }
 
 export interface KeyResult {
@@ -13,12 +27,40 @@ export interface KeyResult {
   keySignature: string   // e.g., "C", "Am"
   confidence: number     // 0-1 confidence score (displayed as percentage)
   mode: 'major' | 'minor'
+  alternatives?: KeyCandidate[] // Runner-up keys, best first
+}
+
+export interface KeyCandidate extends Pick<KeyResult, 'keyName' | 'keySignature' | 'mode'> {
+  score: number // 0-1 correlation of the key profile with the track's pitch content
+}
+
+export interface BeatGrid {
+  beats: number[]   // Beat timestamps in seconds
+  downbeat: number  // Estimated time of the first downbeat (beat 1 of a bar) in seconds
+  offset: number    // Grid offset: time of the first beat in seconds
+}
+
+export interface TempoSegment {
+  start: number      // Segment start in seconds
+  end: number        // Segment end in seconds
+  bpm: number        // Tempo within the segment, one decimal place
+  confidence: number // 0-1 consistency of beat intervals within the segment
+}
+
+export interface TempoMap {
+  segments: TempoSegment[]
+  isSteady: boolean  // False when segment tempos differ by more than the merge tolerance
+  variation: number  // Difference between the fastest and slowest segment in BPM
 }
 
 export interface BPMResult {
   bpm: number           // Rounded to nearest integer
+  preciseBpm?: number   // Tempo refined by regression over the beats, two decimal places
   confidence: number    // 0-1 confidence score (displayed as percentage)
   detectedBeats: number // Number of beats detected
+  beatGrid?: BeatGrid   // Per-beat timestamps when the detector could track beats
+  tempoMap?: TempoMap   // Tempo per section of the track, derived from beat intervals
+  detected?: Pick<BPMResult, 'bpm' | 'preciseBpm'> // The detector's tempo, kept when bpm is a manual override
 }
 
 export interface ConfidenceScores {
@@ -27,11 +69,38 @@ export interface ConfidenceScores {
   bpm: number
 }
 
+export interface KeySegment extends KeyResult {
+  start: number // Segment start in seconds
+  end: number   // Segment end in seconds
+}
+
+export type GenreProfileId = 'hipHop' | 'houseTechno' | 'drumAndBass' | 'trap' | 'pop' | 'none'
+
+// Major/minor pitch-class profiles the key is matched against
+export type KeyProfileId = 'krumhansl' | 'temperley' | 'edma' | 'shaath' | 'bgate'
+
+// Tempo hints for one analysis, for when the range of a track is already known
+export interface TempoConstraints {
+  minBPM?: number
+  maxBPM?: number
+  targetBPM?: number // Prefer the octave of the detected tempo closest to this
+}
+
+// Stretch of a track analyzed on its own, in seconds from the start of the track
+export interface AnalysisRegion {
+  start: number
+  end: number
+}
+
 export interface AnalysisResult {
   key: KeyResult
   bpm: BPMResult
   confidence: ConfidenceScores
   processingTime: number
+  keySegments?: KeySegment[] // Key over time, one entry per section that stays in the same key
+  genreProfile?: GenreProfileId // Profile the tempo and key were corrected for
+  tempoConstraints?: TempoConstraints // Tempo hints the BPM was detected with
+  region?: AnalysisRegion // Set when only this stretch was analyzed; beat and segment times are then relative to its start
 }
 
 export interface WaveformData {
@@ -62,8 +131,16 @@ export type SupportedFormat = typeof SUPPORTED_FORMATS[number]
 
 // File size limits
 export const MAX_FILE_SIZE = 50 * 1024 * 1024 // 50MB in bytes
+// Larger files in these formats are decoded and analyzed in windows instead of all at once
+export const STREAMABLE_FORMATS = ['mp3', 'wav', 'flac'] as const
+export const MAX_STREAMING_FILE_SIZE = 2 * 1024 * 1024 * 1024 // 2GB in bytes
 export const MAX_PROCESSING_TIME = 30 * 1000 // 30 seconds in milliseconds
 
+// Detector versions stored with cached results
+// Bump the matching entry whenever key or BPM detection output changes so stale results are recomputed
+export const ANALYSIS_VERSIONS = { key: 2, bpm: 2 } as const
+export type AnalysisVersions = Record<keyof typeof ANALYSIS_VERSIONS, number>
+
 // BPM and confidence ranges
 export const BPM_RANGE = { min: 60, max: 200 } as const
 export const CONFIDENCE_RANGE = { min: 0, max: 1 } as const
\ No newline at end of file
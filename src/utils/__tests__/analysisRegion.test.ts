@@ -0,0 +1,34 @@
+import { describe, it, expect } from 'vitest'
+import { getAnalysisRegion, sliceAudioBuffer, formatRegion } from '../analysisRegion'
+import { fromWorkerAudioData } from '../../workers/audioData'
+
+describe('analysisRegion', () => {
+  it('should clamp a region to the track and round it', () => {
+    expect(getAnalysisRegion({ start: 12.3456, end: 20.0049 }, 60)).toEqual({ start: 12.35, end: 20 })
+    expect(getAnalysisRegion({ start: -1, end: 90 }, 60)).toEqual({ start: 0, end: 60 })
+  })
+
+  it('should reject regions too short to analyze', () => {
+    expect(() => getAnalysisRegion({ start: 10, end: 11 }, 60)).toThrow('Region must cover at least 2 seconds of the track')
+    expect(() => getAnalysisRegion({ start: 59, end: 70 }, 60)).toThrow('at least 2 seconds')
+    expect(() => getAnalysisRegion({ start: NaN, end: 30 }, 60)).toThrow('at least 2 seconds')
+  })
+
+  it('should slice every channel of the region', () => {
+    const left = Float32Array.from({ length: 100 }, (_, i) => i)
+    const right = Float32Array.from({ length: 100 }, (_, i) => -i)
+    const track = fromWorkerAudioData({ sampleRate: 10, length: 100, numberOfChannels: 2, channelData: [left, right] })
+
+    const region = sliceAudioBuffer(track, { start: 2, end: 4.55 })
+
+    expect(region.length).toBe(26)
+    expect(region.duration).toBeCloseTo(2.6)
+    expect(region.numberOfChannels).toBe(2)
+    expect(region.getChannelData(0)[0]).toBe(20)
+    expect(region.getChannelData(1)[25]).toBe(-45)
+  })
+
+  it('should format regions as minutes and seconds', () => {
+    expect(formatRegion({ start: 5.25, end: 72 })).toBe('0:05.3–1:12.0')
+  })
+})
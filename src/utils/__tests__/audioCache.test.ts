@@ -0,0 +1,178 @@
+import { describe, it, expect, beforeAll, afterAll, vi } from 'vitest'
+import { AudioCache } from '../audioCache'
+import { MemoryCacheBackend } from '../cacheStorage'
+import { ANALYSIS_VERSIONS } from '../../types'
+import type { AnalysisResult } from '../../types'
+
+const mockResult: AnalysisResult = {
+  key: { keyName: 'A Minor', keySignature: 'Am', confidence: 0.8, mode: 'minor' },
+  bpm: { bpm: 128, confidence: 0.9, detectedBeats: 200 },
+  confidence: { overall: 0.85, key: 0.8, bpm: 0.9 },
+  processingTime: 1000
+}
+
+const VERSIONS = { key: 1, bpm: 1 }
+
+const makeFile = (content: string, name = 'song.mp3') => new File([content], name, { lastModified: 1000 })
+
+describe('AudioCache', () => {
+  // jsdom's Blob has no arrayBuffer(), so read through FileReader for these tests
+  const originalArrayBuffer = Blob.prototype.arrayBuffer
+
+  beforeAll(() => {
+    Blob.prototype.arrayBuffer = function (this: Blob) {
+      return new Promise<ArrayBuffer>((resolve, reject) => {
+        const reader = new FileReader()
+        reader.onload = () => resolve(reader.result as ArrayBuffer)
+        reader.onerror = () => reject(reader.error)
+        reader.readAsArrayBuffer(this)
+      })
+    }
+  })
+
+  afterAll(() => {
+    Blob.prototype.arrayBuffer = originalArrayBuffer
+  })
+
+  it('should persist results under a SHA-256 content digest', async () => {
+    const backend = new MemoryCacheBackend()
+    const cache = new AudioCache({ backend, versions: VERSIONS })
+    const file = makeFile('audio data')
+
+    await cache.set(file, mockResult)
+
+    expect(await cache.get(file)).toEqual(mockResult)
+    const [entry] = await backend.getAll()
+    expect(entry.key).toMatch(/^[0-9a-f]{64}$/)
+    expect(entry).toMatchObject({ fileName: 'song.mp3', versions: VERSIONS })
+  })
+
+  it('should find results again after a reload, even if the file was renamed', async () => {
+    const backend = new MemoryCacheBackend()
+    await new AudioCache({ backend, versions: VERSIONS }).set(makeFile('audio data'), mockResult)
+
+    const reloaded = new AudioCache({ backend, versions: VERSIONS })
+    await reloaded.whenReady()
+
+    expect(await reloaded.get(makeFile('audio data', 'renamed.mp3'))).toEqual(mockResult)
+    expect(await reloaded.get(makeFile('other audio'))).toBeNull()
+    expect(reloaded.getEntries()).toHaveLength(1)
+    expect(reloaded.getHitRate()).toBe(0.5)
+  })
+
+  it('should cache each region of a file apart from the whole file', async () => {
+    const cache = new AudioCache({ backend: new MemoryCacheBackend(), versions: VERSIONS })
+    const file = makeFile('audio data')
+    const loop = { start: 32, end: 48 }
+    const loopResult = { ...mockResult, region: loop }
+
+    await cache.set(file, mockResult)
+    await cache.set(file, loopResult, loop)
+
+    expect(await cache.get(file)).toEqual(mockResult)
+    expect(await cache.get(file, { start: 32, end: 48 })).toEqual(loopResult)
+    expect(await cache.has(file, { start: 32, end: 40 })).toBe(false)
+    expect(cache.getEntries()).toHaveLength(2)
+  })
+
+  it('should drop results from an older detector version', async () => {
+    const backend = new MemoryCacheBackend()
+    await new AudioCache({ backend, versions: VERSIONS }).set(makeFile('audio data'), mockResult)
+
+    const upgraded = new AudioCache({ backend, versions: { key: 1, bpm: 2 } })
+    await upgraded.whenReady()
+
+    expect(await upgraded.get(makeFile('audio data'))).toBeNull()
+    expect(await backend.getAll()).toHaveLength(0)
+  })
+
+  it('should recompute BPM results saved before genre folding and fractional tempo', async () => {
+    const backend = new MemoryCacheBackend()
+    await new AudioCache({ backend, versions: { ...ANALYSIS_VERSIONS, bpm: 1 } }).set(makeFile('audio data'), mockResult)
+
+    const current = new AudioCache({ backend })
+    await current.whenReady()
+
+    expect(ANALYSIS_VERSIONS.bpm).toBeGreaterThan(1)
+    expect(await current.get(makeFile('audio data'))).toBeNull()
+  })
+
+  it('should recompute key results saved before key alternatives and profiles', async () => {
+    const backend = new MemoryCacheBackend()
+    await new AudioCache({ backend, versions: { ...ANALYSIS_VERSIONS, key: 1 } }).set(makeFile('audio data'), mockResult)
+
+    const current = new AudioCache({ backend })
+    await current.whenReady()
+
+    expect(ANALYSIS_VERSIONS.key).toBeGreaterThan(1)
+    expect(await current.get(makeFile('audio data'))).toBeNull()
+  })
+
+  it('should drop expired results', async () => {
+    const backend = new MemoryCacheBackend()
+    const file = makeFile('audio data')
+    await new AudioCache({ backend, versions: VERSIONS }).set(file, mockResult)
+    const [entry] = await backend.getAll()
+    await backend.put({ ...entry, timestamp: Date.now() - 2 * 60 * 60 * 1000 })
+
+    const cache = new AudioCache({ backend, versions: VERSIONS, maxAgeHours: 1 })
+
+    expect(await cache.has(file)).toBe(false)
+    expect(cache.getStats().totalEntries).toBe(0)
+  })
+
+  it('should remove expired entries periodically until stopped', () => {
+    vi.useFakeTimers()
+    const cache = new AudioCache({ backend: new MemoryCacheBackend(), versions: VERSIONS })
+    const cleanup = vi.spyOn(cache, 'cleanup')
+
+    const stop = cache.startCleanup(1000)
+    vi.advanceTimersByTime(2000)
+    stop()
+    vi.advanceTimersByTime(2000)
+
+    expect(cleanup).toHaveBeenCalledTimes(2)
+    vi.useRealTimers()
+  })
+
+  it('should evict the oldest entry when full', async () => {
+    const backend = new MemoryCacheBackend()
+    const cache = new AudioCache({ backend, versions: VERSIONS, maxEntries: 2 })
+    const files = [makeFile('one'), makeFile('two'), makeFile('three')]
+
+    for (const file of files) {
+      await cache.set(file, mockResult)
+      await new Promise(resolve => setTimeout(resolve, 2)) // Distinct timestamps
+    }
+
+    expect(await cache.has(files[0])).toBe(false)
+    expect(await cache.has(files[2])).toBe(true)
+    expect(await backend.getAll()).toHaveLength(2)
+  })
+
+  it('should keep working in memory when the backend fails', async () => {
+    const backend = new MemoryCacheBackend()
+    vi.spyOn(backend, 'getAll').mockRejectedValue(new Error('blocked'))
+    vi.spyOn(backend, 'put').mockRejectedValue(new Error('quota exceeded'))
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => {})
+    const cache = new AudioCache({ backend, versions: VERSIONS })
+    const file = makeFile('audio data')
+
+    await cache.set(file, mockResult)
+
+    expect(await cache.get(file)).toEqual(mockResult)
+    expect(warn).toHaveBeenCalledWith('Failed to cache analysis result:', expect.any(Error))
+    warn.mockRestore()
+  })
+
+  it('should clear persisted entries', async () => {
+    const backend = new MemoryCacheBackend()
+    const cache = new AudioCache({ backend, versions: VERSIONS })
+    await cache.set(makeFile('audio data'), mockResult)
+
+    await cache.clear()
+
+    expect(cache.getEntries()).toHaveLength(0)
+    expect(await backend.getAll()).toHaveLength(0)
+  })
+})
@@ -0,0 +1,294 @@
+import { describe, it, expect } from 'vitest'
+import { decodeAudio, decodeFLAC, decodeWAV, hasBuiltInDecoder } from '../audioDecoder'
+
+const ascii = (text: string) => Array.from(text, char => char.charCodeAt(0))
+
+const uint16LE = (value: number) => [value & 0xff, (value >> 8) & 0xff]
+const uint32LE = (value: number) => [value & 0xff, (value >> 8) & 0xff, (value >> 16) & 0xff, value >>> 24]
+
+interface WAVOptions {
+  formatTag?: number
+  channels?: number
+  sampleRate?: number
+  bitsPerSample?: number
+  extensibleFormat?: number // Writes WAVE_FORMAT_EXTENSIBLE with this SubFormat code
+}
+
+// Interleaved frames of raw sample bytes, wrapped in RIFF with an odd-sized chunk before the audio
+const makeWAV = (sampleBytes: number[], options: WAVOptions = {}) => {
+  const { formatTag = 1, channels = 1, sampleRate = 8000, bitsPerSample = 16, extensibleFormat } = options
+  const blockAlign = channels * bitsPerSample / 8
+  const common = [
+    ...uint16LE(extensibleFormat === undefined ? formatTag : 0xfffe), ...uint16LE(channels),
+    ...uint32LE(sampleRate), ...uint32LE(sampleRate * blockAlign), ...uint16LE(blockAlign), ...uint16LE(bitsPerSample)
+  ]
+  const fmt = extensibleFormat === undefined
+    ? common
+    : [...common, ...uint16LE(22), ...uint16LE(24), ...uint32LE(0), ...uint16LE(extensibleFormat), ...new Array(14).fill(0)]
+  const body = [
+    ...ascii('WAVE'),
+    ...ascii('fmt '), ...uint32LE(fmt.length), ...fmt,
+    ...ascii('junk'), ...uint32LE(3), 1, 2, 3, 0,
+    ...ascii('data'), ...uint32LE(sampleBytes.length), ...sampleBytes
+  ]
+  return new Uint8Array([...ascii('RIFF'), ...uint32LE(body.length), ...body])
+}
+
+const floatBytes = (values: number[], bytes: 4 | 8) => {
+  const data = new DataView(new ArrayBuffer(values.length * bytes))
+  values.forEach((value, i) => bytes === 4 ? data.setFloat32(i * 4, value, true) : data.setFloat64(i * 8, value, true))
+  return Array.from(new Uint8Array(data.buffer))
+}
+
+describe('decodeWAV', () => {
+  it('should decode 16-bit PCM and split the channels', () => {
+    const buffer = decodeWAV(makeWAV([
+      ...uint16LE(16384), ...uint16LE(-16384 & 0xffff),
+      ...uint16LE(-32768 & 0xffff), ...uint16LE(0)
+    ], { channels: 2, sampleRate: 44100 }))
+
+    expect(buffer).toMatchObject({ sampleRate: 44100, numberOfChannels: 2, length: 2 })
+    expect(buffer.duration).toBeCloseTo(2 / 44100)
+    expect(Array.from(buffer.getChannelData(0))).toEqual([0.5, -1])
+    expect(Array.from(buffer.getChannelData(1))).toEqual([-0.5, 0])
+  })
+
+  it('should decode 8-bit unsigned, 24-bit and 32-bit integer PCM', () => {
+    expect(Array.from(decodeWAV(makeWAV([0, 128, 192], { bitsPerSample: 8 })).getChannelData(0))).toEqual([-1, 0, 0.5])
+    expect(Array.from(decodeWAV(makeWAV([0, 0, 0x40, 0, 0, 0xc0], { bitsPerSample: 24 })).getChannelData(0))).toEqual([0.5, -0.5])
+    expect(Array.from(decodeWAV(makeWAV([...uint32LE(0x40000000), ...uint32LE(0xc0000000)], { bitsPerSample: 32 })).getChannelData(0)))
+      .toEqual([0.5, -0.5])
+  })
+
+  it('should decode 32 and 64-bit float', () => {
+    expect(Array.from(decodeWAV(makeWAV(floatBytes([0.25, -0.75], 4), { formatTag: 3, bitsPerSample: 32 })).getChannelData(0)))
+      .toEqual([0.25, -0.75])
+    expect(Array.from(decodeWAV(makeWAV(floatBytes([0.25, -0.75], 8), { formatTag: 3, bitsPerSample: 64 })).getChannelData(0)))
+      .toEqual([0.25, -0.75])
+  })
+
+  it('should read the format of WAVE_FORMAT_EXTENSIBLE files from the SubFormat', () => {
+    expect(Array.from(decodeWAV(makeWAV(floatBytes([0.125], 4), { extensibleFormat: 3, bitsPerSample: 32 })).getChannelData(0)))
+      .toEqual([0.125])
+    expect(Array.from(decodeWAV(makeWAV([0, 0, 0x40], { extensibleFormat: 1, bitsPerSample: 24 })).getChannelData(0)))
+      .toEqual([0.5])
+  })
+
+  it('should reject compressed WAV and files without audio', () => {
+    expect(() => decodeWAV(makeWAV([0, 0], { formatTag: 2 }))).toThrow('Unsupported WAV encoding')
+    expect(() => decodeWAV(new Uint8Array([...ascii('RIFF'), 0, 0, 0, 0, ...ascii('WAVE')]))).toThrow('no format chunk')
+    expect(() => decodeWAV(new Uint8Array(12))).toThrow('Not a valid WAV file')
+  })
+})
+
+/**
+ * Writes big-endian bit fields, used to build FLAC frames by hand
+ */
+class BitWriter {
+  private bits: number[] = []
+
+  write(value: number, count: number) {
+    const unsigned = value < 0 ? value + 2 ** count : value
+    for (let i = count - 1; i >= 0; i--) {
+      this.bits.push(Math.floor(unsigned / 2 ** i) % 2)
+    }
+  }
+
+  writeUnary(count: number) {
+    for (let i = 0; i < count; i++) this.bits.push(0)
+    this.bits.push(1)
+  }
+
+  writeRice(value: number, parameter: number) {
+    const folded = value >= 0 ? value * 2 : -value * 2 - 1
+    this.writeUnary(Math.floor(folded / 2 ** parameter))
+    this.write(folded % 2 ** parameter, parameter)
+  }
+
+  align() {
+    while (this.bits.length % 8) this.bits.push(0)
+  }
+
+  toBytes(): number[] {
+    this.align()
+    const bytes: number[] = []
+    for (let i = 0; i < this.bits.length; i += 8) {
+      bytes.push(this.bits.slice(i, i + 8).reduce((byte, bit) => byte * 2 + bit, 0))
+    }
+    return bytes
+  }
+}
+
+type Subframe = (writer: BitWriter, bitsPerSample: number) => void
+
+const constantSubframe = (value: number): Subframe => (writer, bitsPerSample) => {
+  writer.write(0, 8)
+  writer.write(value, bitsPerSample)
+}
+
+const verbatimSubframe = (samples: number[], wastedBits = 0): Subframe => (writer, bitsPerSample) => {
+  writer.write(0, 1)
+  writer.write(1, 6)
+  writer.write(wastedBits > 0 ? 1 : 0, 1)
+  if (wastedBits > 0) writer.writeUnary(wastedBits - 1)
+  samples.forEach(sample => writer.write(sample / 2 ** wastedBits, bitsPerSample - wastedBits))
+}
+
+// Rice parameter per partition, or null for an escaped partition of 16-bit residuals
+const writeResidual = (writer: BitWriter, residual: number[], order: number, parameters: Array<number | null>) => {
+  const partitionOrder = Math.log2(parameters.length)
+  const partitionSize = (residual.length + order) / parameters.length
+  writer.write(0, 2)
+  writer.write(partitionOrder, 4)
+
+  let index = 0
+  parameters.forEach((parameter, partition) => {
+    const count = partitionSize - (partition === 0 ? order : 0)
+    writer.write(parameter ?? 15, 4)
+    if (parameter === null) writer.write(16, 5)
+    for (let i = 0; i < count; i++, index++) {
+      if (parameter === null) writer.write(residual[index], 16)
+      else writer.writeRice(residual[index], parameter)
+    }
+  })
+}
+
+const fixedSubframe = (samples: number[], parameters: Array<number | null>): Subframe => (writer, bitsPerSample) => {
+  // Second order: s[i] = 2 s[i-1] - s[i-2] + residual
+  writer.write(0, 1)
+  writer.write(8 + 2, 6)
+  writer.write(0, 1)
+  samples.slice(0, 2).forEach(sample => writer.write(sample, bitsPerSample))
+  const residual = samples.slice(2).map((sample, i) => sample - (2 * samples[i + 1] - samples[i]))
+  writeResidual(writer, residual, 2, parameters)
+}
+
+const lpcSubframe = (samples: number[], coefficients: number[], shift: number, parameters: Array<number | null>): Subframe =>
+  (writer, bitsPerSample) => {
+    const order = coefficients.length
+    writer.write(0, 1)
+    writer.write(32 + order - 1, 6)
+    writer.write(0, 1)
+    samples.slice(0, order).forEach(sample => writer.write(sample, bitsPerSample))
+    writer.write(12 - 1, 4)
+    writer.write(shift, 5)
+    coefficients.forEach(coefficient => writer.write(coefficient, 12))
+    const residual = samples.slice(order).map((sample, i) => {
+      const prediction = coefficients.reduce((sum, coefficient, j) => sum + coefficient * samples[i + order - 1 - j], 0)
+      return sample - Math.floor(prediction / 2 ** shift)
+    })
+    writeResidual(writer, residual, order, parameters)
+  }
+
+// Frame with a 16-bit coded block size, taking the sample rate from STREAMINFO
+const makeFrame = (frameNumber: number, blockSize: number, channelAssignment: number, sampleSizeCode: number,
+  bitsPerSample: number, subframes: Subframe[]) => {
+  const writer = new BitWriter()
+  writer.write(0x3ffe, 14)
+  writer.write(0, 2)
+  writer.write(7, 4)
+  writer.write(0, 4)
+  writer.write(channelAssignment, 4)
+  writer.write(sampleSizeCode, 3)
+  writer.write(0, 1)
+  writer.write(frameNumber, 8)
+  writer.write(blockSize - 1, 16)
+  writer.write(0, 8) // CRC-8, not checked by the decoder
+  subframes.forEach((subframe, channel) => {
+    const isSide = (channelAssignment === 8 && channel === 1) || (channelAssignment === 9 && channel === 0) ||
+      (channelAssignment === 10 && channel === 1)
+    subframe(writer, bitsPerSample + (isSide ? 1 : 0))
+  })
+  writer.align()
+  writer.write(0, 16) // CRC-16
+  return writer.toBytes()
+}
+
+const makeFLAC = (frames: number[][], options: { channels?: number; bitsPerSample?: number; totalSamples?: number } = {}) => {
+  const { channels = 1, bitsPerSample = 16, totalSamples = 0 } = options
+  const streamInfo = new BitWriter()
+  streamInfo.write(4096, 16)
+  streamInfo.write(4096, 16)
+  streamInfo.write(0, 24)
+  streamInfo.write(0, 24)
+  streamInfo.write(44100, 20)
+  streamInfo.write(channels - 1, 3)
+  streamInfo.write(bitsPerSample - 1, 5)
+  streamInfo.write(totalSamples, 36)
+  streamInfo.write(0, 128)
+  const padding = [0x81, 0, 0, 4, 0, 0, 0, 0]
+  return new Uint8Array([...ascii('fLaC'), 0x00, 0, 0, 34, ...streamInfo.toBytes(), ...padding, ...frames.flat()])
+}
+
+const ramp = (length: number, scale: number) => Array.from({ length }, (_, i) => Math.round(Math.sin(i / 5) * scale))
+const toInts = (data: Float32Array, bitsPerSample = 16) => Array.from(data, value => Math.round(value * 2 ** (bitsPerSample - 1)))
+
+describe('decodeFLAC', () => {
+  it('should decode fixed predictor subframes with Rice-coded residuals', () => {
+    const samples = ramp(64, 12000)
+    const buffer = decodeFLAC(makeFLAC([makeFrame(0, 64, 0, 4, 16, [fixedSubframe(samples, [3, 5, 0, 8])])], { totalSamples: 64 }))
+
+    expect(buffer).toMatchObject({ sampleRate: 44100, numberOfChannels: 1, length: 64 })
+    expect(toInts(buffer.getChannelData(0))).toEqual(samples)
+  })
+
+  it('should decode LPC subframes, including escaped residual partitions', () => {
+    const samples = ramp(32, 20000)
+    const subframe = lpcSubframe(samples, [1800, -900], 10, [7, null])
+    const buffer = decodeFLAC(makeFLAC([makeFrame(0, 32, 0, 0, 16, [subframe])]))
+
+    expect(toInts(buffer.getChannelData(0))).toEqual(samples)
+  })
+
+  it('should undo left/side, side/right and mid/side stereo across frames of unknown total length', () => {
+    const left = [100, -200, 300, 7]
+    const right = [-50, 25, 300, -8]
+    const side = left.map((value, i) => value - right[i])
+    const mid = left.map((value, i) => Math.floor((value + right[i]) / 2))
+
+    const buffer = decodeFLAC(makeFLAC([
+      makeFrame(0, 4, 8, 4, 16, [verbatimSubframe(left), verbatimSubframe(side)]),
+      makeFrame(1, 4, 9, 4, 16, [verbatimSubframe(side), verbatimSubframe(right)]),
+      makeFrame(2, 4, 10, 4, 16, [verbatimSubframe(mid), verbatimSubframe(side)]),
+      makeFrame(3, 4, 1, 4, 16, [constantSubframe(-1000), constantSubframe(1000)])
+    ], { channels: 2 }))
+
+    expect(buffer.length).toBe(16)
+    expect(toInts(buffer.getChannelData(0))).toEqual([...left, ...left, ...left, -1000, -1000, -1000, -1000])
+    expect(toInts(buffer.getChannelData(1))).toEqual([...right, ...right, ...right, 1000, 1000, 1000, 1000])
+  })
+
+  it('should restore wasted bits and scale 24-bit samples', () => {
+    const samples = [4194304, -4194304, 256, -1024]
+    const buffer = decodeFLAC(makeFLAC([makeFrame(0, 4, 0, 6, 24, [verbatimSubframe(samples, 8)])], { bitsPerSample: 24 }))
+
+    expect(Array.from(buffer.getChannelData(0))).toEqual(samples.map(sample => sample / 2 ** 23))
+  })
+
+  it('should stop at trailing tags and keep the frames before a truncated one', () => {
+    const frame = makeFrame(0, 4, 0, 4, 16, [verbatimSubframe([1, 2, 3, 4])])
+    const tagged = makeFLAC([frame, ascii('TAG')])
+    const truncated = makeFLAC([frame, frame.slice(0, 8)])
+
+    expect(decodeFLAC(tagged).length).toBe(4)
+    expect(decodeFLAC(truncated).length).toBe(4)
+  })
+
+  it('should reject streams without STREAMINFO or audio frames', () => {
+    expect(() => decodeFLAC(new Uint8Array(ascii('RIFF....')))).toThrow('Not a valid FLAC file')
+    expect(() => decodeFLAC(new Uint8Array([...ascii('fLaC'), 0x81, 0, 0, 0]))).toThrow('no STREAMINFO')
+    expect(() => decodeFLAC(makeFLAC([]))).toThrow('no audio frames')
+  })
+})
+
+describe('decodeAudio', () => {
+  it('should only decode WAV and FLAC', () => {
+    const wav = makeWAV([...uint16LE(16384)])
+
+    expect(hasBuiltInDecoder('wav')).toBe(true)
+    expect(hasBuiltInDecoder('flac')).toBe(true)
+    expect(hasBuiltInDecoder('mp3')).toBe(false)
+    expect(decodeAudio(wav.buffer, 'wav').getChannelData(0)[0]).toBe(0.5)
+    expect(() => decodeAudio(wav.buffer, 'mp3')).toThrow('No built-in decoder for MP3 files')
+  })
+})
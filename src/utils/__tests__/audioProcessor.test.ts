@@ -2,6 +2,9 @@
 
 import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest'
 import { AudioProcessor } from '../audioProcessor'
+import { getAudioCache } from '../audioCache'
+import { applyTempoOverride } from '../tapTempo'
+import type { AnalysisResult } from '../../types'
 
 // Create mock instances
 const mockKeyDetector = {
@@ -45,7 +48,21 @@ vi.mock('../fallbackKeyDetection', () => ({
     keySignature: 'C',
     confidence: 0.8,
     mode: 'major'
-  })
+  }),
+  extractWindowChroma: vi.fn().mockReturnValue({ values: new Array(12).fill(0), confidence: 0 }),
+  detectKeyFromChroma: vi.fn()
+}))
+
+// Decoding needs OfflineAudioContext, so each window decodes to 12 seconds of 16kHz audio
+vi.mock('../audioWindows', async (importOriginal) => ({
+  ...await importOriginal<typeof import('../audioWindows')>(),
+  decodeAudioWindow: vi.fn().mockImplementation(async () => ({
+    duration: 12,
+    sampleRate: 16000,
+    numberOfChannels: 1,
+    length: 12 * 16000,
+    getChannelData: () => new Float32Array(12 * 16000)
+  }))
 }))
 
 // Mock AudioBuffer
@@ -61,6 +78,7 @@ const createMockAudioBuffer = (duration: number = 10): AudioBuffer => {
   // Mock AudioBuffer constructor for normalization
   globalThis.AudioBuffer = vi.fn().mockImplementation((options) => ({
     ...options,
+    duration: options.length / options.sampleRate,
     getChannelData: vi.fn().mockReturnValue(new Float32Array(options.length))
   })) as any
 
@@ -137,6 +155,42 @@ describe('AudioProcessor', () => {
       expect(progressCallback).toHaveBeenCalledWith(100) // Complete
     })
 
+    it('should analyze only the selected region', async () => {
+      const result = await processor.processAudio(mockAudioBuffer, {
+        region: { start: 2, end: 6.123 }
+      })
+
+      expect(result.region).toEqual({ start: 2, end: 6.12 })
+      const analyzedBuffer = mockKeyDetector.detectKey.mock.calls[0][0] as AudioBuffer
+      expect(analyzedBuffer.duration).toBeCloseTo(4.12, 1)
+    })
+
+    it('should keep a manual tempo when the file is analyzed under another genre profile', async () => {
+      const file = new File([new Uint8Array(4)], 'song.wav')
+      const cached: AnalysisResult = applyTempoOverride({
+        key: { keyName: 'C Major', keySignature: 'C', confidence: 0.85, mode: 'major' },
+        bpm: { bpm: 120, confidence: 0.9, detectedBeats: 48 },
+        confidence: { key: 0.85, bpm: 0.9, overall: 0.875 },
+        processingTime: 100,
+        genreProfile: 'hipHop'
+      }, 90)
+      vi.spyOn(getAudioCache(), 'get').mockResolvedValueOnce(cached)
+      const set = vi.spyOn(getAudioCache(), 'set').mockResolvedValueOnce()
+
+      const result = await processor.processAudio(mockAudioBuffer, { file, genreProfile: 'houseTechno' })
+
+      expect(mockBPMDetector.detectBPM).toHaveBeenCalled()
+      expect(result.genreProfile).toBe('houseTechno')
+      expect(result.bpm).toMatchObject({ bpm: 90, detected: { bpm: 120 } })
+      expect(set).toHaveBeenCalledWith(file, result, undefined)
+    })
+
+    it('should reject regions too short to analyze', async () => {
+      await expect(
+        processor.processAudio(mockAudioBuffer, { region: { start: 9.5, end: 12 } })
+      ).rejects.toThrow('Region must cover at least 2 seconds of the track')
+    })
+
     it('should handle processing timeout', async () => {
       const shortTimeoutMs = 100
 
@@ -153,6 +207,18 @@ describe('AudioProcessor', () => {
       ).rejects.toThrow('Audio processing timed out after 30 seconds')
     })
 
+    it('should disarm the timeout once the analysis finishes', async () => {
+      const setTimeoutSpy = vi.spyOn(globalThis, 'setTimeout')
+      const clearTimeoutSpy = vi.spyOn(globalThis, 'clearTimeout')
+
+      await processor.processAudio(mockAudioBuffer, { timeoutMs: 12345 })
+
+      const timeoutCall = setTimeoutSpy.mock.calls.findIndex(([, delay]) => delay === 12345)
+      expect(clearTimeoutSpy).toHaveBeenCalledWith(setTimeoutSpy.mock.results[timeoutCall].value)
+      setTimeoutSpy.mockRestore()
+      clearTimeoutSpy.mockRestore()
+    })
+
     it('should handle cancellation', async () => {
       const processingPromise = processor.processAudio(mockAudioBuffer)
 
@@ -179,6 +245,92 @@ describe('AudioProcessor', () => {
         processor.processAudio(mockAudioBuffer)
       ).rejects.toThrow('BPM detection failed')
     })
+
+    it('should fall back to the main thread when a worker cannot start', async () => {
+      const originalWorker = globalThis.Worker
+      globalThis.Worker = vi.fn(() => {
+        throw new Error('Workers are disabled')
+      }) as unknown as typeof Worker
+      const warn = vi.spyOn(console, 'warn').mockImplementation(() => {})
+
+      try {
+        const result = await processor.processAudio(mockAudioBuffer)
+
+        expect(globalThis.Worker).toHaveBeenCalled()
+        expect(mockKeyDetector.detectKey).toHaveBeenCalled()
+        expect(result.bpm.bpm).toBe(120)
+        expect(warn).toHaveBeenCalledWith('Analysis worker failed, falling back to the main thread:', expect.any(Error))
+      } finally {
+        globalThis.Worker = originalWorker
+        warn.mockRestore()
+      }
+    })
+  })
+
+  describe('processLargeFile', () => {
+    const originalArrayBuffer = Blob.prototype.arrayBuffer
+
+    // 16-bit mono PCM WAV with the given number of audio bytes
+    const createWAVFile = (audioBytes: number) => {
+      const bytes = new Uint8Array(44 + audioBytes)
+      const view = new DataView(bytes.buffer)
+      bytes.set([...'RIFF'].map(char => char.charCodeAt(0)), 0)
+      view.setUint32(4, bytes.length - 8, true)
+      bytes.set([...'WAVEfmt '].map(char => char.charCodeAt(0)), 8)
+      view.setUint32(16, 16, true)
+      view.setUint16(20, 1, true)
+      view.setUint16(22, 1, true)
+      view.setUint32(24, 16000, true)
+      view.setUint32(28, 32000, true)
+      view.setUint16(32, 2, true)
+      view.setUint16(34, 16, true)
+      bytes.set([...'data'].map(char => char.charCodeAt(0)), 36)
+      view.setUint32(40, audioBytes, true)
+      return new File([bytes], 'mix.wav', { type: 'audio/wav' })
+    }
+
+    beforeEach(() => {
+      Blob.prototype.arrayBuffer = function (this: Blob) {
+        return new Promise<ArrayBuffer>((resolve, reject) => {
+          const reader = new FileReader()
+          reader.onload = () => resolve(reader.result as ArrayBuffer)
+          reader.onerror = () => reject(reader.error)
+          reader.readAsArrayBuffer(this)
+        })
+      }
+    })
+
+    afterEach(() => {
+      Blob.prototype.arrayBuffer = originalArrayBuffer
+    })
+
+    it('should analyze each window and combine them into one result', async () => {
+      const onPartialResult = vi.fn()
+      // 100 seconds of audio at 32KB per second make two windows of up to a minute
+      const file = createWAVFile(100 * 32000)
+
+      const result = await processor.processLargeFile(file, {
+        enableCaching: false,
+        onProgress: progressCallback,
+        onPartialResult
+      })
+
+      expect(mockBPMDetector.detectBPM).toHaveBeenCalledTimes(2)
+      expect(onPartialResult).toHaveBeenCalledTimes(2)
+      expect(result.bpm.bpm).toBe(120)
+      expect(result.keySegments).toEqual([expect.objectContaining({ start: 0, end: 24 })])
+      expect(progressCallback).toHaveBeenLastCalledWith(100)
+    })
+
+    it('should report cancellation rather than a chunk failure', async () => {
+      const file = createWAVFile(120 * 32000)
+      mockBPMDetector.detectBPM.mockImplementationOnce(async () => {
+        processor.cancelProcessing()
+        throw new Error('Audio processing was cancelled')
+      })
+
+      await expect(processor.processLargeFile(file, { enableCaching: false })).rejects.toThrow('Audio processing was cancelled')
+    })
   })
 
   describe('getAudioFeatures', () => {
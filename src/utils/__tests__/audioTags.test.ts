@@ -0,0 +1,426 @@
+import { describe, it, expect, vi } from 'vitest'
+import {
+  writeID3Tags,
+  writeFLACTags,
+  writeMP4Tags,
+  writeWAVTags,
+  readID3Tags,
+  readFLACTags,
+  readMP4Tags,
+  readWAVTags,
+  readEmbeddedTags,
+  getTagValues,
+  createTaggedFile
+} from '../audioTags'
+import type { AnalysisResult, AudioFile } from '../../types'
+import { MAX_FILE_SIZE } from '../../types'
+
+const AUDIO = new Uint8Array([0xff, 0xfb, 0x90, 0x64, 1, 2, 3, 4, 5, 6, 7])
+
+const ascii = (text: string) => Array.from(text, char => char.charCodeAt(0))
+const u32be = (n: number) => [(n >>> 24) & 0xff, (n >>> 16) & 0xff, (n >>> 8) & 0xff, n & 0xff]
+const u32le = (n: number) => u32be(n).reverse()
+const u24be = (n: number) => [(n >> 16) & 0xff, (n >> 8) & 0xff, n & 0xff]
+const synchsafe = (n: number) => [(n >> 21) & 0x7f, (n >> 14) & 0x7f, (n >> 7) & 0x7f, n & 0x7f]
+const text = (bytes: Uint8Array) => String.fromCharCode(...bytes)
+
+const id3Frame = (id: string, value: string, version: number) => {
+  const payload = [0, ...ascii(value)]
+  return [...ascii(id), ...(version === 4 ? synchsafe(payload.length) : u32be(payload.length)), 0, 0, ...payload]
+}
+
+const id3Tag = (version: number, frames: number[][], padding = 0) => {
+  const body = [...frames.flat(), ...new Array(padding).fill(0)]
+  return [...ascii('ID3'), version, 0, 0, ...synchsafe(body.length), ...body]
+}
+
+/** Read text frames from an ID3v2 tag at the start of the data */
+const readID3Frames = (data: Uint8Array) => {
+  const version = data[3]
+  const size = (data[6] << 21) | (data[7] << 14) | (data[8] << 7) | data[9]
+  const frames: Record<string, string> = {}
+  let offset = 10
+  while (offset < 10 + size && data[offset] !== 0) {
+    const id = text(data.subarray(offset, offset + 4))
+    const frameSize = version === 4
+      ? (data[offset + 4] << 21) | (data[offset + 5] << 14) | (data[offset + 6] << 7) | data[offset + 7]
+      : (data[offset + 4] << 24) | (data[offset + 5] << 16) | (data[offset + 6] << 8) | data[offset + 7]
+    frames[id] = text(data.subarray(offset + 11, offset + 10 + frameSize))
+    offset += 10 + frameSize
+  }
+  return { version, size: 10 + size, frames }
+}
+
+const box = (type: string, ...children: number[][]) => {
+  const content = children.flat()
+  return [...u32be(content.length + 8), ...ascii(type), ...content]
+}
+
+/** Find a box by path, returning its content */
+const findBox = (data: Uint8Array, path: string[], start = 0, end = data.length): Uint8Array | null => {
+  let offset = start
+  while (offset + 8 <= end) {
+    const size = ((data[offset] << 24) | (data[offset + 1] << 16) | (data[offset + 2] << 8) | data[offset + 3]) >>> 0
+    if (text(data.subarray(offset + 4, offset + 8)) === path[0]) {
+      if (path.length === 1) return data.subarray(offset + 8, offset + size)
+      const skip = path[0] === 'meta' ? 4 : 0
+      return findBox(data, path.slice(1), offset + 8 + skip, offset + size)
+    }
+    offset += size
+  }
+  return null
+}
+
+const vorbisComment = (vendor: string, comments: string[]) => [
+  ...u32le(vendor.length), ...ascii(vendor),
+  ...u32le(comments.length),
+  ...comments.flatMap(comment => [...u32le(comment.length), ...ascii(comment)])
+]
+
+/** Read FLAC metadata block types and Vorbis comments */
+const readFLAC = (data: Uint8Array) => {
+  const types: number[] = []
+  let comments: string[] = []
+  let vendor = ''
+  let offset = 4
+  let isLast = false
+  while (!isLast) {
+    isLast = (data[offset] & 0x80) !== 0
+    const type = data[offset] & 0x7f
+    const length = (data[offset + 1] << 16) | (data[offset + 2] << 8) | data[offset + 3]
+    types.push(type)
+    if (type === 4) {
+      const body = data.subarray(offset + 4, offset + 4 + length)
+      const view = new DataView(body.buffer, body.byteOffset)
+      const vendorLength = view.getUint32(0, true)
+      vendor = text(body.subarray(4, 4 + vendorLength))
+      let position = 8 + vendorLength
+      comments = []
+      for (let i = 0; i < view.getUint32(4 + vendorLength, true); i++) {
+        const commentLength = view.getUint32(position, true)
+        comments.push(text(body.subarray(position + 4, position + 4 + commentLength)))
+        position += 4 + commentLength
+      }
+    }
+    offset += 4 + length
+  }
+  return { types, comments, vendor, audioStart: offset }
+}
+
+const mockResult: AnalysisResult = {
+  key: { keyName: 'A Minor', keySignature: 'Am', confidence: 0.8, mode: 'minor' },
+  bpm: { bpm: 127.6, confidence: 0.9, detectedBeats: 200 },
+  confidence: { overall: 0.85, key: 0.8, bpm: 0.9 },
+  processingTime: 1000
+}
+
+describe('audioTags', () => {
+  describe('ID3v2', () => {
+    it('should prepend a tag to an untagged MP3 and keep the audio intact', () => {
+      const output = writeID3Tags(AUDIO, { key: 'Am', bpm: 127.6 })
+      const tag = readID3Frames(output)
+
+      expect(tag.version).toBe(3)
+      expect(tag.frames).toEqual({ TKEY: 'Am', TBPM: '128' })
+      expect(output.subarray(tag.size)).toEqual(AUDIO)
+    })
+
+    it('should replace existing key and BPM frames and keep the rest', () => {
+      const input = new Uint8Array([
+        ...id3Tag(4, [id3Frame('TIT2', 'Night Drive', 4), id3Frame('TKEY', 'C', 4), id3Frame('TBPM', '90', 4)], 32),
+        ...AUDIO
+      ])
+
+      const output = writeID3Tags(input, { key: '8A', bpm: 92 })
+      const tag = readID3Frames(output)
+
+      expect(tag.version).toBe(4)
+      expect(tag.frames).toEqual({ TIT2: 'Night Drive', TKEY: '8A', TBPM: '92' })
+      expect(output.subarray(tag.size)).toEqual(AUDIO)
+    })
+
+    it('should read text frames in any encoding and the front cover', () => {
+      const utf16Title = [1, 0xff, 0xfe, ...Array.from('Café', char => [char.charCodeAt(0), 0]).flat()]
+      const apic = (pictureType: number, data: number[]) => [0, ...ascii('image/png'), 0, pictureType, 0, ...data]
+      const frame = (id: string, content: number[]) => [...ascii(id), ...u32be(content.length), 0, 0, ...content]
+      const input = new Uint8Array([
+        ...id3Tag(3, [
+          frame('TIT2', utf16Title),
+          frame('TPE1', [3, ...Array.from(new TextEncoder().encode('Sigur Rós'))]),
+          id3Frame('TBPM', '128', 3),
+          id3Frame('TKEY', '8A', 3),
+          frame('APIC', apic(0, [1, 1])),
+          frame('APIC', apic(3, [9, 8, 7]))
+        ]),
+        ...AUDIO
+      ])
+
+      const tags = readID3Tags(input)
+
+      expect(tags).toMatchObject({ title: 'Café', artist: 'Sigur Rós', bpm: 128, key: '8A' })
+      expect(tags.artwork?.mimeType).toBe('image/png')
+      expect(Array.from(tags.artwork!.data)).toEqual([9, 8, 7])
+    })
+
+    it('should read back what it writes', () => {
+      expect(readID3Tags(writeID3Tags(AUDIO, { key: 'F#m', bpm: 174 }))).toEqual({ key: 'F#m', bpm: 174 })
+      expect(readID3Tags(AUDIO)).toEqual({})
+    })
+
+    it('should reject ID3v2.2 tags rather than drop them', () => {
+      const input = new Uint8Array([...ascii('ID3'), 2, 0, 0, 0, 0, 0, 0, ...AUDIO])
+
+      expect(() => writeID3Tags(input, { bpm: 120 })).toThrow('ID3v2.2 tags are not supported')
+    })
+  })
+
+  describe('FLAC', () => {
+    const streamInfo = new Array(34).fill(7)
+
+    it('should add a Vorbis comment block right after STREAMINFO', () => {
+      const input = new Uint8Array([...ascii('fLaC'), 0x80, ...u24be(34), ...streamInfo, ...AUDIO])
+
+      const output = writeFLACTags(input, { key: 'Am', bpm: 128 })
+      const flac = readFLAC(output)
+
+      expect(flac.types).toEqual([0, 4])
+      expect(flac.comments).toEqual(['INITIALKEY=Am', 'BPM=128'])
+      expect(output.subarray(flac.audioStart)).toEqual(AUDIO)
+    })
+
+    it('should replace existing comments and keep the vendor, other comments and padding', () => {
+      const comment = vorbisComment('reference libFLAC 1.4.3', ['TITLE=Night Drive', 'BPM=100', 'initialkey=C'])
+      const input = new Uint8Array([
+        ...ascii('fLaC'),
+        0x00, ...u24be(34), ...streamInfo,
+        0x04, ...u24be(comment.length), ...comment,
+        0x81, ...u24be(16), ...new Array(16).fill(0),
+        ...AUDIO
+      ])
+
+      const output = writeFLACTags(input, { key: '1m', bpm: 92 })
+      const flac = readFLAC(output)
+
+      expect(flac.types).toEqual([0, 4, 1])
+      expect(flac.vendor).toBe('reference libFLAC 1.4.3')
+      expect(flac.comments).toEqual(['TITLE=Night Drive', 'INITIALKEY=1m', 'BPM=92'])
+      expect(output.subarray(flac.audioStart)).toEqual(AUDIO)
+    })
+
+    it('should read Vorbis comments and the picture block', () => {
+      const comment = vorbisComment('libFLAC', ['title=Night Drive', 'ARTIST=Someone', 'KEY=C', 'INITIALKEY=Am', 'BPM=92.5'])
+      const picture = [
+        ...u32be(3), ...u32be(10), ...ascii('image/jpeg'), ...u32be(0),
+        ...u32be(1), ...u32be(1), ...u32be(24), ...u32be(0),
+        ...u32be(2), 0xff, 0xd8
+      ]
+      const input = new Uint8Array([
+        ...ascii('fLaC'),
+        0x00, ...u24be(34), ...streamInfo,
+        0x04, ...u24be(comment.length), ...comment,
+        0x86, ...u24be(picture.length), ...picture,
+        ...AUDIO
+      ])
+
+      const tags = readFLACTags(input)
+
+      expect(tags).toMatchObject({ title: 'Night Drive', artist: 'Someone', key: 'Am', bpm: 92.5 })
+      expect(tags.artwork).toEqual({ mimeType: 'image/jpeg', data: new Uint8Array([0xff, 0xd8]) })
+    })
+
+    it('should reject files without the FLAC marker', () => {
+      expect(() => writeFLACTags(AUDIO, { bpm: 120 })).toThrow('Not a valid FLAC file')
+    })
+  })
+
+  describe('MP4', () => {
+    const ftyp = box('ftyp', ascii('M4A '), u32be(0))
+
+    const buildM4A = (udta: number[] = []) => {
+      // Chunk offset placeholder is patched once the mdat position is known
+      const stbl = (offset: number) => box('trak', box('mdia', box('minf', box('stbl', box('stco', u32be(0), u32be(1), u32be(offset))))))
+      const moovSize = box('moov', stbl(0), udta).length
+      const mdatStart = ftyp.length + moovSize
+      return new Uint8Array([...ftyp, ...box('moov', stbl(mdatStart + 8), udta), ...box('mdat', Array.from(AUDIO))])
+    }
+
+    const readChunkOffset = (data: Uint8Array) => {
+      const stco = findBox(data, ['moov', 'trak', 'mdia', 'minf', 'stbl', 'stco'])!
+      return new DataView(stco.buffer, stco.byteOffset).getUint32(8)
+    }
+
+    it('should add tmpo and initialkey atoms and keep chunk offsets pointing at the audio', () => {
+      const input = buildM4A()
+
+      const output = writeMP4Tags(input, { key: 'Am', bpm: 128 })
+      const ilst = findBox(output, ['moov', 'udta', 'meta', 'ilst'])!
+      const tmpo = findBox(ilst, ['tmpo', 'data'])!
+      const key = findBox(ilst, ['----', 'data'])!
+      const chunkOffset = readChunkOffset(output)
+
+      expect(tmpo[8] * 256 + tmpo[9]).toBe(128)
+      expect(text(findBox(ilst, ['----', 'name'])!.subarray(4))).toBe('initialkey')
+      expect(text(key.subarray(8))).toBe('Am')
+      expect(output.subarray(chunkOffset, chunkOffset + AUDIO.length)).toEqual(AUDIO)
+      expect(readChunkOffset(input)).toBeLessThan(chunkOffset)
+    })
+
+    it('should replace existing tempo and key items and keep the rest', () => {
+      const dataBox = (type: number, value: number[]) => box('data', u32be(type), u32be(0), value)
+      const ilst = box(
+        'ilst',
+        box('©nam', dataBox(1, ascii('Night Drive'))),
+        box('tmpo', dataBox(21, [0, 90])),
+        box('----', box('mean', u32be(0), ascii('com.apple.iTunes')), box('name', u32be(0), ascii('initialkey')), dataBox(1, ascii('C')))
+      )
+      const hdlr = box('hdlr', u32be(0), u32be(0), ascii('mdirappl'), new Array(9).fill(0))
+      const input = buildM4A(box('udta', box('meta', u32be(0), hdlr, ilst)))
+
+      const output = writeMP4Tags(input, { key: '8A', bpm: 92 })
+      const newIlst = findBox(output, ['moov', 'udta', 'meta', 'ilst'])!
+      const chunkOffset = readChunkOffset(output)
+
+      expect(text(findBox(newIlst, ['©nam', 'data'])!.subarray(8))).toBe('Night Drive')
+      expect(findBox(newIlst, ['tmpo', 'data'])![9]).toBe(92)
+      expect(text(findBox(newIlst, ['----', 'data'])!.subarray(8))).toBe('8A')
+      expect(text(newIlst).match(/initialkey/g)).toHaveLength(1)
+      expect(output.subarray(chunkOffset, chunkOffset + AUDIO.length)).toEqual(AUDIO)
+    })
+  })
+
+  describe('MP4 reading', () => {
+    it('should read back what it writes along with title, artist and cover', () => {
+      const dataBox = (type: number, value: number[]) => box('data', u32be(type), u32be(0), value)
+      const ilst = box(
+        'ilst',
+        box('©nam', dataBox(1, ascii('Night Drive'))),
+        box('©ART', dataBox(1, ascii('Someone'))),
+        box('covr', dataBox(14, [0x89, 0x50]))
+      )
+      const hdlr = box('hdlr', u32be(0), u32be(0), ascii('mdirappl'), new Array(9).fill(0))
+      const input = new Uint8Array([
+        ...box('ftyp', ascii('M4A '), u32be(0)),
+        ...box('moov', box('udta', box('meta', u32be(0), hdlr, ilst))),
+        ...box('mdat', Array.from(AUDIO))
+      ])
+
+      const tags = readMP4Tags(writeMP4Tags(input, { key: '1m', bpm: 128 }))
+
+      expect(tags).toMatchObject({ title: 'Night Drive', artist: 'Someone', key: '1m', bpm: 128 })
+      expect(tags.artwork).toEqual({ mimeType: 'image/png', data: new Uint8Array([0x89, 0x50]) })
+    })
+
+    it('should return nothing for files without metadata', () => {
+      const input = new Uint8Array([...box('ftyp', ascii('M4A '), u32be(0)), ...box('moov'), ...box('mdat')])
+
+      expect(readMP4Tags(input)).toEqual({})
+    })
+  })
+
+  describe('WAV', () => {
+    it('should append an id3 chunk and keep the sample data intact', () => {
+      const fmt = [...ascii('fmt '), ...u32le(4), 1, 0, 1, 0]
+      const data = [...ascii('data'), ...u32le(AUDIO.length), ...AUDIO, 0] // Odd size is padded
+      const body = [...ascii('WAVE'), ...fmt, ...data]
+      const input = new Uint8Array([...ascii('RIFF'), ...u32le(body.length), ...body])
+
+      const output = writeWAVTags(input, { key: 'Am', bpm: 128 })
+      const view = new DataView(output.buffer)
+      const id3Start = 12 + fmt.length + data.length
+
+      expect(view.getUint32(4, true)).toBe(output.length - 8)
+      expect(output.subarray(12, id3Start)).toEqual(input.subarray(12))
+      expect(text(output.subarray(id3Start, id3Start + 4))).toBe('id3 ')
+      expect(readID3Frames(output.subarray(id3Start + 8)).frames).toEqual({ TKEY: 'Am', TBPM: '128' })
+      expect(readWAVTags(output)).toEqual({ key: 'Am', bpm: 128 })
+    })
+
+    it('should put the id3 chunk at the real end of a data chunk that claims more than the file holds', () => {
+      const fmt = [...ascii('fmt '), ...u32le(4), 1, 0, 1, 0]
+      // Streamed WAVs can be cut short, here to an odd length with no pad byte
+      const data = [...ascii('data'), ...u32le(1000), ...AUDIO]
+      const body = [...ascii('WAVE'), ...fmt, ...data]
+      const input = new Uint8Array([...ascii('RIFF'), ...u32le(body.length), ...body])
+
+      const output = writeWAVTags(input, { key: 'Am', bpm: 128 })
+      const view = new DataView(output.buffer)
+      const dataStart = 12 + fmt.length
+      const id3Start = dataStart + 8 + AUDIO.length + 1
+
+      expect(view.getUint32(dataStart + 4, true)).toBe(AUDIO.length)
+      expect(output.subarray(dataStart + 8, dataStart + 8 + AUDIO.length)).toEqual(AUDIO)
+      expect(output[id3Start - 1]).toBe(0)
+      expect(text(output.subarray(id3Start, id3Start + 4))).toBe('id3 ')
+      expect(view.getUint32(4, true)).toBe(output.length - 8)
+      expect(readWAVTags(output)).toEqual({ key: 'Am', bpm: 128 })
+      expect(readWAVTags(writeWAVTags(output, { key: 'C', bpm: 90 }))).toEqual({ key: 'C', bpm: 90 })
+    })
+  })
+
+  it('should format the key in the chosen notation', () => {
+    expect(getTagValues(mockResult, 'standard')).toEqual({ key: 'Am', bpm: 127.6 })
+    expect(getTagValues(mockResult, 'camelot').key).toBe('8A')
+  })
+
+  it('should produce a tagged copy of an uploaded file', async () => {
+    const file = new File([AUDIO], 'song.mp3', { type: 'audio/mpeg' })
+    Object.defineProperty(file, 'arrayBuffer', { value: async () => AUDIO.slice().buffer })
+    const audioFile: AudioFile = { file, name: 'song.mp3', size: AUDIO.length, format: 'mp3', duration: 1 }
+
+    const tagged = await createTaggedFile(audioFile, mockResult, 'openKey')
+
+    expect(tagged.filename).toBe('song.mp3')
+    expect(tagged.blob.type).toBe('audio/mpeg')
+    expect(tagged.blob.size).toBeGreaterThan(AUDIO.length)
+  })
+
+  it('should read embedded tags from an uploaded file', async () => {
+    const tagged = writeID3Tags(AUDIO, { key: 'Am', bpm: 120 })
+    const file = new File([tagged], 'song.mp3')
+    Object.defineProperty(file, 'arrayBuffer', { value: async () => tagged.slice().buffer })
+    const audioFile: AudioFile = { file, name: 'song.mp3', size: tagged.length, format: 'mp3', duration: 1 }
+
+    expect(await readEmbeddedTags(audioFile)).toEqual({ key: 'Am', bpm: 120 })
+  })
+
+  it('should find the id3 chunk after the samples of a WAV too large to read whole', async () => {
+    const fmt = [...ascii('fmt '), ...u32le(4), 1, 0, 1, 0]
+    const dataSize = MAX_FILE_SIZE + 1
+    const head = new Uint8Array([...ascii('RIFF'), ...u32le(0), ...ascii('WAVE'), ...fmt, ...ascii('data'), ...u32le(dataSize)])
+    const tag = writeID3Tags(new Uint8Array(), { key: 'Am', bpm: 120 })
+    const tail = new Uint8Array([0, ...ascii('id3 '), ...u32le(tag.length), ...tag]) // Pad byte after the odd-sized samples
+    const tailStart = head.length + dataSize
+    const size = tailStart + tail.length
+
+    // Only the requested bytes are materialized; the samples read as silence
+    const slices: number[] = []
+    const slice = (start = 0, end = size) => {
+      slices.push(end - start)
+      const bytes = new Uint8Array(end - start)
+      bytes.set(head.subarray(start, end))
+      if (end > tailStart) bytes.set(tail.subarray(Math.max(0, start - tailStart), end - tailStart), Math.max(0, tailStart - start))
+      return { arrayBuffer: async () => bytes.buffer }
+    }
+    const file = { size, slice } as unknown as File
+    const audioFile: AudioFile = { file, name: 'set.wav', size, format: 'wav', duration: 3600 }
+
+    expect(await readEmbeddedTags(audioFile)).toEqual({ key: 'Am', bpm: 120 })
+    expect(Math.max(...slices)).toBeLessThan(1024)
+  })
+
+  it('should treat unreadable tags as missing', async () => {
+    const file = new File([AUDIO], 'song.flac')
+    Object.defineProperty(file, 'arrayBuffer', { value: async () => AUDIO.slice().buffer })
+    const audioFile: AudioFile = { file, name: 'song.flac', size: AUDIO.length, format: 'flac', duration: 1 }
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => {})
+
+    expect(await readEmbeddedTags(audioFile)).toBeUndefined()
+    warn.mockRestore()
+  })
+
+  it('should refuse formats it cannot tag', async () => {
+    const audioFile: AudioFile = { file: new File([], 'song.ogg'), name: 'song.ogg', size: 0, format: 'ogg', duration: 1 }
+
+    await expect(createTaggedFile(audioFile, mockResult)).rejects.toThrow('Tag writing is not supported for .ogg files')
+  })
+})
@@ -0,0 +1,252 @@
+import { describe, it, expect, beforeAll, afterAll } from 'vitest'
+import {
+  AudioWindowSplitter,
+  decodeAudioWindow,
+  getWindowByteSize,
+  readAudioLayout,
+  shouldAnalyzeInWindows
+} from '../audioWindows'
+import { MAX_FILE_SIZE } from '../../types'
+
+const ascii = (text: string) => Array.from(text, char => char.charCodeAt(0))
+
+const concat = (...parts: Array<ArrayLike<number>>): Uint8Array => {
+  const bytes = new Uint8Array(parts.reduce((sum, part) => sum + part.length, 0))
+  let offset = 0
+  for (const part of parts) {
+    bytes.set(part, offset)
+    offset += part.length
+  }
+  return bytes
+}
+
+const uint32LE = (value: number) => [value & 0xff, (value >> 8) & 0xff, (value >> 16) & 0xff, value >>> 24]
+const uint32BE = (value: number) => [value >>> 24, (value >> 16) & 0xff, (value >> 8) & 0xff, value & 0xff]
+
+const makeFile = (bytes: Uint8Array, name: string) => new File([bytes as BlobPart], name)
+
+// Feed the file to the splitter in fixed-size chunks and collect the windows
+const split = (bytes: Uint8Array, splitter: AudioWindowSplitter, chunkSize: number): Uint8Array[] => {
+  const windows: Uint8Array[] = []
+  for (let start = 0; start < bytes.length; start += chunkSize) {
+    const chunk = bytes.slice(start, start + chunkSize).buffer
+    const window = splitter.push(chunk, start, start + chunkSize >= bytes.length)
+    if (window) windows.push(window)
+  }
+  return windows
+}
+
+// 16-bit stereo PCM at 44.1kHz, with a LIST chunk before the audio
+const makeWAV = (audioBytes: number) => {
+  const fmt = [
+    ...ascii('fmt '), ...uint32LE(16),
+    1, 0, 2, 0, ...uint32LE(44100), ...uint32LE(44100 * 4), 4, 0, 16, 0
+  ]
+  const list = [...ascii('LIST'), ...uint32LE(4), ...ascii('INFO')]
+  const audio = Array.from({ length: audioBytes }, (_, i) => i % 251)
+  const body = [...ascii('WAVE'), ...fmt, ...list, ...ascii('data'), ...uint32LE(audioBytes), ...audio]
+  return concat(ascii('RIFF'), uint32LE(body.length), body)
+}
+
+// MPEG-1 Layer III, 128kbps at 44.1kHz without padding
+const MP3_FRAME_LENGTH = 417
+const makeMP3Frame = (fill: number, xingFrames?: number) => {
+  const frame = new Uint8Array(MP3_FRAME_LENGTH).fill(fill)
+  frame.set([0xff, 0xfb, 0x90, 0x00])
+  if (xingFrames !== undefined) {
+    frame.set([...ascii('Xing'), ...uint32BE(1), ...uint32BE(xingFrames)], 4 + 32)
+  }
+  return frame
+}
+
+const crc8 = (bytes: number[]) => {
+  let crc = 0
+  for (const byte of bytes) {
+    crc ^= byte
+    for (let bit = 0; bit < 8; bit++) {
+      crc = crc & 0x80 ? ((crc << 1) ^ 0x07) & 0xff : (crc << 1) & 0xff
+    }
+  }
+  return crc
+}
+
+// Fixed block size stereo 16-bit frame at 44.1kHz, followed by payload bytes
+const makeFLACFrame = (frameNumber: number, payloadLength: number) => {
+  const header = [0xff, 0xf8, 0xc9, 0x18, frameNumber]
+  return concat(header, [crc8(header)], new Array(payloadLength).fill(0x11))
+}
+
+const makeFLAC = (frames: Uint8Array[], totalSamples: number) => {
+  const streamInfo = new Array(34).fill(0)
+  streamInfo.splice(10, 8,
+    0x0a, 0xc4, 0x42, 0xf0 | Math.floor(totalSamples / 2 ** 32), ...uint32BE(totalSamples % 2 ** 32))
+  for (let i = 18; i < 34; i++) streamInfo[i] = 0xaa // MD5
+  const padding = [0x81, 0, 0, 8, ...new Array(8).fill(0)]
+  return concat(ascii('fLaC'), [0x00, 0, 0, 34], streamInfo, padding, ...frames)
+}
+
+describe('audioWindows', () => {
+  const originalArrayBuffer = Blob.prototype.arrayBuffer
+
+  beforeAll(() => {
+    Blob.prototype.arrayBuffer = function (this: Blob) {
+      return new Promise<ArrayBuffer>((resolve, reject) => {
+        const reader = new FileReader()
+        reader.onload = () => resolve(reader.result as ArrayBuffer)
+        reader.onerror = () => reject(reader.error)
+        reader.readAsArrayBuffer(this)
+      })
+    }
+  })
+
+  afterAll(() => {
+    Blob.prototype.arrayBuffer = originalArrayBuffer
+  })
+
+  describe('shouldAnalyzeInWindows', () => {
+    const withSize = (name: string, size: number) => {
+      const file = new File(['x'], name)
+      Object.defineProperty(file, 'size', { value: size })
+      return file
+    }
+
+    it('should only window streamable formats over the in-memory limit', () => {
+      expect(shouldAnalyzeInWindows(withSize('mix.mp3', MAX_FILE_SIZE + 1))).toBe(true)
+      expect(shouldAnalyzeInWindows(withSize('mix.FLAC', MAX_FILE_SIZE + 1))).toBe(true)
+      expect(shouldAnalyzeInWindows(withSize('mix.wav', MAX_FILE_SIZE))).toBe(false)
+      expect(shouldAnalyzeInWindows(withSize('mix.m4a', MAX_FILE_SIZE + 1))).toBe(false)
+    })
+  })
+
+  describe('WAV', () => {
+    it('should find the data chunk after other chunks', async () => {
+      const bytes = makeWAV(44100 * 4)
+      const layout = await readAudioLayout(makeFile(bytes, 'track.wav'))
+
+      expect(layout.audioStart).toBe(56)
+      expect(layout.audioEnd).toBe(bytes.length)
+      expect(layout.bytesPerSecond).toBe(44100 * 4)
+      expect(layout.duration).toBeCloseTo(1)
+      expect(layout.blockAlign).toBe(4)
+    })
+
+    it('should cut windows on whole sample frames and wrap each in a RIFF header', async () => {
+      const bytes = makeWAV(1000)
+      const layout = await readAudioLayout(makeFile(bytes, 'track.wav'))
+      const windows = split(bytes, new AudioWindowSplitter(layout), 301)
+
+      const audio = windows.map(window => {
+        const view = new DataView(window.buffer, window.byteOffset)
+        expect(String.fromCharCode(...window.subarray(0, 4))).toBe('RIFF')
+        expect(view.getUint32(4, true)).toBe(window.length - 8)
+        expect(String.fromCharCode(...window.subarray(36, 40))).toBe('data')
+        expect(view.getUint32(40, true)).toBe(window.length - 44)
+        return window.subarray(44)
+      })
+
+      audio.slice(0, -1).forEach(part => expect(part.length % 4).toBe(0))
+      expect(concat(...audio)).toEqual(bytes.subarray(layout.audioStart))
+    })
+
+    it('should decode windows with the built-in decoder where there is no OfflineAudioContext', async () => {
+      const bytes = makeWAV(1000)
+      const layout = await readAudioLayout(makeFile(bytes, 'track.wav'))
+      const [window] = split(bytes, new AudioWindowSplitter(layout), 301)
+
+      const buffer = await decodeAudioWindow(window)
+
+      expect(buffer).toMatchObject({ sampleRate: 44100, numberOfChannels: 2, length: (window.length - 44) / 4 })
+    })
+
+    it('should reject files that are not RIFF WAVE', async () => {
+      await expect(readAudioLayout(makeFile(new Uint8Array(16), 'track.wav'))).rejects.toThrow('Not a valid WAV file')
+    })
+  })
+
+  describe('MP3', () => {
+    it('should skip ID3 tags and read the duration from a Xing header', async () => {
+      const id3 = [...ascii('ID3'), 4, 0, 0, 0, 0, 0, 20, ...new Array(20).fill(0)]
+      const id3v1 = [...ascii('TAG'), ...new Array(125).fill(0x20)]
+      const bytes = concat(id3, makeMP3Frame(0, 100), makeMP3Frame(0), id3v1)
+      const layout = await readAudioLayout(makeFile(bytes, 'track.mp3'))
+
+      expect(layout.audioStart).toBe(30)
+      expect(layout.audioEnd).toBe(bytes.length - 128)
+      expect(layout.duration).toBeCloseTo(100 * 1152 / 44100)
+    })
+
+    it('should estimate the duration from the bitrate without a Xing header', async () => {
+      const bytes = concat(...Array.from({ length: 10 }, () => makeMP3Frame(0)))
+      const layout = await readAudioLayout(makeFile(bytes, 'track.mp3'))
+
+      expect(layout.audioStart).toBe(0)
+      expect(layout.duration).toBeCloseTo(bytes.length * 8 / 128000)
+    })
+
+    it('should end windows on frame boundaries and carry the partial frame over', async () => {
+      const frames = Array.from({ length: 5 }, (_, i) => makeMP3Frame(i + 1))
+      const bytes = concat(...frames)
+      const layout = await readAudioLayout(makeFile(bytes, 'track.mp3'))
+      const windows = split(bytes, new AudioWindowSplitter(layout), MP3_FRAME_LENGTH * 2 + 100)
+
+      expect(windows[0]).toEqual(concat(frames[0], frames[1]))
+      expect(windows[1]).toEqual(concat(frames[2], frames[3]))
+      expect(windows[2]).toEqual(frames[4])
+    })
+
+    it('should fail when no frames are found', async () => {
+      await expect(readAudioLayout(makeFile(new Uint8Array(2048), 'track.mp3'))).rejects.toThrow('No MPEG audio frames')
+    })
+  })
+
+  describe('FLAC', () => {
+    it('should read STREAMINFO and clear the sample count and MD5 in the window header', async () => {
+      const bytes = makeFLAC([makeFLACFrame(0, 100)], 441000)
+      const layout = await readAudioLayout(makeFile(bytes, 'track.flac'))
+
+      expect(layout.audioStart).toBe(4 + 38 + 12)
+      expect(layout.duration).toBeCloseTo(10)
+      expect(String.fromCharCode(...layout.header.subarray(0, 4))).toBe('fLaC')
+      expect(layout.header[4]).toBe(0x80) // Only block, marked last
+      expect(layout.header[8 + 13] & 0x0f).toBe(0)
+      expect(Array.from(layout.header.subarray(8 + 14))).toEqual(new Array(20).fill(0))
+    })
+
+    it('should cut windows before the last frame header', async () => {
+      const frames = Array.from({ length: 4 }, (_, i) => makeFLACFrame(i, 200))
+      const bytes = makeFLAC(frames, 4 * 4096)
+      const layout = await readAudioLayout(makeFile(bytes, 'track.flac'))
+      const splitter = new AudioWindowSplitter(layout)
+
+      const firstEnd = layout.audioStart + frames[0].length + frames[1].length + 50 // Into the third frame
+      const first = splitter.push(bytes.slice(0, firstEnd).buffer, 0, false)
+      const second = splitter.push(bytes.slice(firstEnd).buffer, firstEnd, true)
+
+      expect(first).toEqual(concat(layout.header, frames[0], frames[1]))
+      expect(second).toEqual(concat(layout.header, frames[2], frames[3]))
+    })
+
+    it('should not cut at sync-like bytes whose header checksum does not match', async () => {
+      const frame = makeFLACFrame(0, 200)
+      frame.set([0xff, 0xf8, 0xc9, 0x18, 0x01, 0x00], 100)
+      const bytes = makeFLAC([frame, makeFLACFrame(1, 200)], 2 * 4096)
+      const layout = await readAudioLayout(makeFile(bytes, 'track.flac'))
+
+      const window = new AudioWindowSplitter(layout).push(bytes.slice(0, layout.audioStart + 150).buffer, 0, false)
+
+      expect(window).toBeNull()
+    })
+  })
+
+  it('should size windows by the average byte rate within limits', () => {
+    const layout = { bytesPerSecond: 16000 } as Parameters<typeof getWindowByteSize>[0]
+
+    expect(getWindowByteSize(layout, 60)).toBe(960000)
+    expect(getWindowByteSize(layout, 1)).toBe(256 * 1024)
+    expect(getWindowByteSize({ ...layout, bytesPerSecond: 10_000_000 })).toBe(32 * 1024 * 1024)
+  })
+
+  it('should reject formats that cannot be analyzed in windows', async () => {
+    await expect(readAudioLayout(makeFile(new Uint8Array(16), 'track.m4a'))).rejects.toThrow('not supported for M4A')
+  })
+})
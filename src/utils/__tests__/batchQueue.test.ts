@@ -0,0 +1,153 @@
+import { describe, it, expect, vi } from 'vitest'
+import { BatchQueue, filterAudioFiles } from '../batchQueue'
+import type { BatchJob, BatchItem } from '../batchQueue'
+import type { AnalysisResult } from '../../types'
+
+const mockResult: AnalysisResult = {
+  key: { keyName: 'A Minor', keySignature: 'Am', confidence: 0.8, mode: 'minor' },
+  bpm: { bpm: 90, confidence: 0.9, detectedBeats: 120 },
+  confidence: { overall: 0.85, key: 0.8, bpm: 0.9 },
+  processingTime: 100
+}
+
+const createFile = (name: string) => new File(['audio'], name, { type: 'audio/mpeg' })
+
+// Deferred job lets each test decide when a file finishes
+function createDeferredJob() {
+  const pending = new Map<string, { resolve: () => void; reject: (error: Error) => void }>()
+  const job = vi.fn<BatchJob>((file, { signal }) => new Promise((resolve, reject) => {
+    pending.set(file.name, {
+      resolve: () => resolve({ result: mockResult }),
+      reject
+    })
+    signal.addEventListener('abort', () => reject(new Error('Audio processing was cancelled')))
+  }))
+  return { job, pending }
+}
+
+const flush = () => new Promise(resolve => setTimeout(resolve, 0))
+
+describe('BatchQueue', () => {
+  it('should limit the number of files processed at once', async () => {
+    const { job, pending } = createDeferredJob()
+    const queue = new BatchQueue(job, { concurrency: 2 })
+
+    queue.add([createFile('a.mp3'), createFile('b.mp3'), createFile('c.mp3')])
+    await flush()
+
+    expect(job).toHaveBeenCalledTimes(2)
+    expect(queue.getSummary()).toMatchObject({ active: 2, pending: 1 })
+
+    pending.get('a.mp3')!.resolve()
+    await flush()
+
+    expect(job).toHaveBeenCalledTimes(3)
+    expect(queue.getItems()[0].status).toBe('complete')
+    expect(queue.getItems()[0].result).toEqual(mockResult)
+  })
+
+  it('should record failures per file without stopping the queue', async () => {
+    const { job, pending } = createDeferredJob()
+    const queue = new BatchQueue(job, { concurrency: 1 })
+
+    queue.add([createFile('bad.wav'), createFile('good.wav')])
+    await flush()
+
+    pending.get('bad.wav')!.reject(new Error('Unable to decode audio file'))
+    await flush()
+    pending.get('good.wav')!.resolve()
+    await flush()
+
+    const [bad, good] = queue.getItems()
+    expect(bad.status).toBe('error')
+    expect(bad.error).toBe('Unable to decode audio file')
+    expect(good.status).toBe('complete')
+  })
+
+  it('should cancel running and pending items', async () => {
+    const { job } = createDeferredJob()
+    const queue = new BatchQueue(job, { concurrency: 1 })
+
+    const [first, second] = queue.add([createFile('a.mp3'), createFile('b.mp3')])
+    await flush()
+
+    queue.cancel(second.id)
+    queue.cancel(first.id)
+    await flush()
+
+    expect(queue.getItems().map(i => i.status)).toEqual(['cancelled', 'cancelled'])
+    expect(job).toHaveBeenCalledTimes(1)
+  })
+
+  it('should keep the slot of a cancelled item until its job settles', async () => {
+    // Decoding ignores the abort, so the cancelled job runs on until it finishes by itself
+    let finish: () => void = () => {}
+    const job = vi.fn<BatchJob>(file => new Promise(resolve => {
+      if (file.name === 'a.mp3') finish = () => resolve({ result: mockResult })
+    }))
+    const queue = new BatchQueue(job, { concurrency: 1 })
+
+    const [first] = queue.add([createFile('a.mp3'), createFile('b.mp3')])
+    await flush()
+    queue.cancel(first.id)
+    await flush()
+
+    expect(job).toHaveBeenCalledTimes(1)
+    expect(queue.getItems().map(i => i.status)).toEqual(['cancelled', 'pending'])
+
+    finish()
+    await flush()
+
+    expect(job).toHaveBeenCalledTimes(2)
+    expect(queue.getItems().map(i => i.status)).toEqual(['cancelled', 'loading'])
+  })
+
+  it('should retry a failed item', async () => {
+    const { job, pending } = createDeferredJob()
+    const queue = new BatchQueue(job)
+
+    const [item] = queue.add([createFile('a.mp3')])
+    await flush()
+    pending.get('a.mp3')!.reject(new Error('timed out'))
+    await flush()
+    expect(queue.getItems()[0].status).toBe('error')
+
+    queue.retry(item.id)
+    await flush()
+    expect(queue.getItems()[0].status).toBe('loading')
+
+    pending.get('a.mp3')!.resolve()
+    await flush()
+    expect(queue.getItems()[0]).toMatchObject({ status: 'complete', error: null })
+  })
+
+  it('should report progress, status changes and cache hits to listeners', async () => {
+    const job: BatchJob = async (_file, { onProgress, onStatusChange }) => {
+      onProgress(30)
+      onStatusChange('analyzing')
+      onProgress(150)
+      return { result: mockResult, fromCache: true }
+    }
+    const queue = new BatchQueue(job)
+    const snapshots: BatchItem[][] = []
+    queue.addListener(items => snapshots.push(items))
+
+    queue.add([createFile('a.mp3')])
+    await flush()
+
+    const statuses = snapshots.map(items => items[0].status)
+    expect(statuses).toContain('analyzing')
+    expect(snapshots.some(items => items[0].progress === 30)).toBe(true)
+    expect(snapshots.every(items => items[0].progress <= 100)).toBe(true)
+    expect(queue.getItems()[0].fromCache).toBe(true)
+  })
+})
+
+describe('filterAudioFiles', () => {
+  it('should keep only supported audio extensions', () => {
+    const files = [createFile('beat.MP3'), createFile('cover.jpg'), createFile('stem.wav'), createFile('README')]
+    const result = filterAudioFiles(files, ['mp3', 'wav'])
+
+    expect(result.map(f => f.name)).toEqual(['beat.MP3', 'stem.wav'])
+  })
+})
@@ -0,0 +1,87 @@
+import { describe, it, expect } from 'vitest'
+import {
+  buildBeatGrid,
+  generateBeatGrid,
+  estimateGridOffset,
+  estimateDownbeat,
+  isDownbeat
+} from '../beatGrid'
+
+// Signal with a strong low click on every 4th beat (the downbeat) and weak clicks elsewhere
+function createBarSignal(bpm: number, firstDownbeatIndex: number, sampleRate: number, duration: number): Float32Array {
+  const signal = new Float32Array(sampleRate * duration)
+  const interval = 60 / bpm
+  for (let beat = 0; beat * interval < duration; beat++) {
+    const start = Math.floor(beat * interval * sampleRate)
+    const amplitude = (beat - firstDownbeatIndex) % 4 === 0 ? 1 : 0.2
+    for (let i = start; i < Math.min(signal.length, start + sampleRate * 0.04); i++) {
+      signal[i] = amplitude
+    }
+  }
+  return signal
+}
+
+describe('beatGrid', () => {
+  describe('generateBeatGrid', () => {
+    it('should space beats evenly from the offset', () => {
+      expect(generateBeatGrid(120, 0.25, 2)).toEqual([0.25, 0.75, 1.25, 1.75])
+    })
+
+    it('should move a late offset back to the first beat in the track', () => {
+      expect(generateBeatGrid(60, 2.5, 4)).toEqual([0.5, 1.5, 2.5, 3.5])
+    })
+
+    it('should return an empty grid for invalid input', () => {
+      expect(generateBeatGrid(0, 0, 10)).toEqual([])
+      expect(generateBeatGrid(120, 0, 0)).toEqual([])
+    })
+  })
+
+  describe('estimateGridOffset', () => {
+    it('should find the phase of onsets that follow the tempo', () => {
+      const onsets = [0.1, 0.6, 1.1, 1.6, 2.1, 2.6]
+      expect(estimateGridOffset(onsets, 120)).toBeCloseTo(0.1, 2)
+    })
+
+    it('should tolerate off-grid onsets', () => {
+      const onsets = [0.2, 0.7, 0.95, 1.2, 1.7, 2.2, 2.33]
+      expect(estimateGridOffset(onsets, 120)).toBeCloseTo(0.2, 1)
+    })
+  })
+
+  describe('estimateDownbeat', () => {
+    it('should pick the beat position with the most low-end energy', () => {
+      const sampleRate = 8000
+      const signal = createBarSignal(120, 1, sampleRate, 8)
+      const beats = generateBeatGrid(120, 0, 8)
+
+      expect(estimateDownbeat(beats, signal, sampleRate)).toBe(0.5)
+    })
+
+    it('should fall back to the first beat when there is less than a bar', () => {
+      expect(estimateDownbeat([0.3, 0.8], new Float32Array(100), 100)).toBe(0.3)
+    })
+  })
+
+  describe('buildBeatGrid', () => {
+    it('should sort ticks and use the first tick as the grid offset', () => {
+      const grid = buildBeatGrid(new Float32Array([1.0, 0.5, 1.5]))
+
+      expect(grid.beats).toEqual([0.5, 1.0, 1.5])
+      expect(grid.offset).toBe(0.5)
+      expect(grid.downbeat).toBe(0.5)
+    })
+
+    it('should handle no ticks', () => {
+      expect(buildBeatGrid([])).toEqual({ beats: [], downbeat: 0, offset: 0 })
+    })
+  })
+
+  describe('isDownbeat', () => {
+    it('should mark every fourth beat from the downbeat', () => {
+      const grid = { beats: [0, 0.5, 1, 1.5, 2, 2.5], downbeat: 0.5, offset: 0 }
+
+      expect(grid.beats.map((_, i) => isDownbeat(grid, i))).toEqual([false, true, false, false, false, true])
+    })
+  })
+})
@@ -3,6 +3,9 @@
 import { describe, it, expect, beforeEach, vi } from 'vitest'
 import { BPMDetector, createBPMDetector, detectBPM } from '../bpmDetection'
 import { BPM_RANGE } from '../../types'
+import { detectBPMFallback } from '../fallbackBpmDetection'
+import { essentiaManager } from '../essentiaManager'
+import type { Essentia } from 'essentia.js'
 
 // Mock the fallback BPM detection to prevent timeouts in test environment
 vi.mock('../fallbackBpmDetection', () => ({
@@ -214,6 +217,72 @@ describe('BPMDetector', () => {
     })
   })
 
+  describe('tempo constraints', () => {
+    it('should keep the tempo within the given range', async () => {
+      const audioBuffer = createTestAudioBuffer(44100, 8, 440, 80)
+
+      const result = await detector.detectBPM(audioBuffer, { minBPM: 150, maxBPM: 180 })
+
+      expect(result.bpm).toBeGreaterThanOrEqual(150)
+      expect(result.bpm).toBeLessThanOrEqual(180)
+      expect(detectBPMFallback).toHaveBeenLastCalledWith(audioBuffer, undefined, { minBPM: 150, maxBPM: 180, targetBPM: undefined })
+    })
+
+    it('should prefer the octave closest to the target tempo', async () => {
+      const audioBuffer = createTestAudioBuffer(44100, 8, 440, 80)
+
+      const slow = await detector.detectBPM(audioBuffer, { genreProfile: 'none', targetBPM: 80 })
+      const fast = await detector.detectBPM(audioBuffer, { genreProfile: 'none', targetBPM: 160 })
+
+      expect(fast.bpm).toBe(slow.bpm * 2)
+    })
+
+    it('should reject an empty range', async () => {
+      const audioBuffer = createTestAudioBuffer(44100, 1, 440, 120)
+
+      await expect(detector.detectBPM(audioBuffer, { minBPM: 180, maxBPM: 160 }))
+        .rejects.toThrow('minBPM must be lower than maxBPM')
+      await expect(detector.detectBPM(audioBuffer, { targetBPM: 500 }))
+        .rejects.toThrow('targetBPM must be between 30 and 300 BPM')
+    })
+  })
+
+  describe('with essentia', () => {
+    // Stands in for essentia.js with beats tracked every half second, 120 BPM
+    const mockEssentia = (percival: () => { bpm: number }) => {
+      const ticks = Float32Array.from({ length: 16 }, (_, i) => i * 0.5)
+      const essentia = {
+        audioBufferToMonoSignal: (audioBuffer: AudioBuffer) => audioBuffer.getChannelData(0),
+        arrayToVector: (signal: Float32Array) => signal,
+        vectorToArray: (vector: Float32Array) => vector,
+        PercivalBpmEstimator: vi.fn(percival),
+        BeatTrackerMultiFeature: vi.fn(() => ({ ticks, confidence: 3 }))
+      }
+      vi.mocked(essentiaManager.getEssentia).mockResolvedValueOnce(essentia as unknown as Essentia)
+      return essentia
+    }
+
+    it('should build the beat grid from a single beat tracking pass', async () => {
+      const essentia = mockEssentia(() => ({ bpm: 120 }))
+
+      const result = await detector.detectBPM(createTestAudioBuffer(16000, 8, 440, 120))
+
+      expect(essentia.BeatTrackerMultiFeature).toHaveBeenCalledTimes(1)
+      expect(result.bpm).toBe(120)
+      expect(result.beatGrid?.beats).toHaveLength(16)
+    })
+
+    it('should reuse the tracked beats when PercivalBpmEstimator fails', async () => {
+      const essentia = mockEssentia(() => { throw new Error('PercivalBpmEstimator failed') })
+
+      const result = await detector.detectBPM(createTestAudioBuffer(16000, 8, 440, 120))
+
+      expect(essentia.BeatTrackerMultiFeature).toHaveBeenCalledTimes(1)
+      expect(result.bpm).toBe(120)
+      expect(result.detectedBeats).toBe(16)
+    })
+  })
+
   describe('setBPMRange', () => {
     it('should allow setting custom BPM range', () => {
       detector.setBPMRange(80, 160)
@@ -0,0 +1,126 @@
+import { describe, it, expect, vi } from 'vitest'
+import {
+  exportToJSON,
+  exportToCSV,
+  exportToRekordboxXML,
+  createExport,
+  getCachedExportRecords,
+  downloadExport
+} from '../exportResults'
+import type { ExportRecord } from '../exportResults'
+import { AudioCache, getAudioCache } from '../audioCache'
+import { MemoryCacheBackend } from '../cacheStorage'
+import type { AnalysisResult } from '../../types'
+
+const mockResult: AnalysisResult = {
+  key: { keyName: 'A Minor', keySignature: 'Am', confidence: 0.82, mode: 'minor' },
+  bpm: {
+    bpm: 92,
+    confidence: 0.9,
+    detectedBeats: 150,
+    beatGrid: { beats: [0.1, 0.75, 1.4], downbeat: 0.75, offset: 0.1 },
+    tempoMap: { segments: [{ start: 0, end: 120, bpm: 92, confidence: 0.9 }], isSteady: true, variation: 0 }
+  },
+  confidence: { overall: 0.86, key: 0.82, bpm: 0.9 },
+  processingTime: 1234.5,
+  keySegments: [
+    { keyName: 'A Minor', keySignature: 'Am', confidence: 0.8, mode: 'minor', start: 0, end: 90 },
+    { keyName: 'B Minor', keySignature: 'Bm', confidence: 0.7, mode: 'minor', start: 90, end: 121.4 }
+  ]
+}
+
+const record: ExportRecord = { fileName: 'Night Drive.mp3', fileSize: 4096, result: mockResult }
+
+describe('exportResults', () => {
+  it('should export JSON that keeps the AnalysisResult intact', () => {
+    const parsed = JSON.parse(exportToJSON([record], { notation: 'camelot' }))
+
+    expect(parsed.keyNotation).toBe('camelot')
+    expect(parsed.files).toHaveLength(1)
+    expect(parsed.files[0]).toMatchObject({ fileName: 'Night Drive.mp3', key: '8A', duration: 121.4 })
+    expect(parsed.files[0].result).toEqual(mockResult)
+  })
+
+  it('should export one CSV row per file with the chosen notation', () => {
+    const csv = exportToCSV([record, { ...record, fileName: 'Beat, "Final".wav' }], { notation: 'openKey' })
+    const lines = csv.trim().split('\r\n')
+
+    expect(lines).toHaveLength(3)
+    expect(lines[0]).toContain('Key (Open Key)')
+    expect(lines[1]).toBe('Night Drive.mp3,1m,A Minor,8A,1m,0.82,92,0.90,0.86,1,yes,121.4,1235')
+    expect(lines[2].startsWith('"Beat, ""Final"".wav",')).toBe(true)
+  })
+
+  it('should export a Rekordbox collection with Tonality and AverageBpm', () => {
+    const xml = exportToRekordboxXML([record, { ...record, fileName: 'Rock & Roll.flac' }], { notation: 'standard' })
+    const doc = new DOMParser().parseFromString(xml, 'application/xml')
+    const tracks = doc.querySelectorAll('COLLECTION > TRACK')
+
+    expect(doc.querySelector('parsererror')).toBeNull()
+    expect(doc.querySelector('COLLECTION')?.getAttribute('Entries')).toBe('2')
+    expect(tracks[0].getAttribute('Name')).toBe('Night Drive')
+    expect(tracks[0].getAttribute('Tonality')).toBe('Am')
+    expect(tracks[0].getAttribute('AverageBpm')).toBe('92.00')
+    expect(tracks[0].getAttribute('Kind')).toBe('MP3 File')
+    expect(tracks[0].querySelector('TEMPO')?.getAttribute('Inizio')).toBe('0.750')
+    expect(tracks[1].getAttribute('Name')).toBe('Rock & Roll')
+  })
+
+  it('should use Camelot codes in Tonality when that notation is chosen', () => {
+    const xml = exportToRekordboxXML([record], { notation: 'camelot' })
+
+    expect(xml).toContain('Tonality="8A"')
+  })
+
+  it('should name single-file and bulk exports differently', () => {
+    expect(createExport([record], 'csv').filename).toBe('Night Drive.csv')
+    expect(createExport([record, record], 'rekordbox')).toMatchObject({
+      filename: 'audio-analysis-rekordbox.xml',
+      mimeType: 'application/xml'
+    })
+  })
+
+  it('should collect every cached result for bulk export', () => {
+    const getEntries = vi.spyOn(getAudioCache(), 'getEntries').mockReturnValue([
+      { fileName: 'first.mp3', fileSize: 1, lastModified: 0, timestamp: 1, result: mockResult },
+      { fileName: 'second.wav', fileSize: 2, lastModified: 0, timestamp: 2, result: mockResult }
+    ])
+
+    const records = getCachedExportRecords()
+
+    expect(records.map(r => r.fileName)).toEqual(['first.mp3', 'second.wav'])
+    expect(records[1]).toMatchObject({ fileSize: 2, result: mockResult })
+    getEntries.mockRestore()
+  })
+
+  it('should leave region results out of the bulk export', async () => {
+    const cache = new AudioCache({ backend: new MemoryCacheBackend() })
+    const file = new File(['audio data'], 'Night Drive.mp3', { lastModified: 1000 })
+    Object.defineProperty(file, 'arrayBuffer', { value: async () => new TextEncoder().encode('audio data').buffer })
+    const loop = { start: 32, end: 48 }
+    await cache.set(file, mockResult)
+    await cache.set(file, { ...mockResult, bpm: { ...mockResult.bpm, bpm: 94 }, region: loop }, loop)
+    const getEntries = vi.spyOn(getAudioCache(), 'getEntries').mockImplementation(() => cache.getEntries())
+
+    const records = getCachedExportRecords()
+
+    expect(cache.getEntries()).toHaveLength(2)
+    expect(records).toHaveLength(1)
+    expect(records[0]).toMatchObject({ fileName: 'Night Drive.mp3', result: mockResult })
+    getEntries.mockRestore()
+  })
+
+  it('should download an export through a temporary link', () => {
+    const createObjectURL = vi.fn().mockReturnValue('blob:export')
+    const revokeObjectURL = vi.fn()
+    Object.assign(URL, { createObjectURL, revokeObjectURL })
+    const click = vi.spyOn(HTMLAnchorElement.prototype, 'click').mockImplementation(() => {})
+
+    downloadExport(createExport([record], 'json'))
+
+    expect(createObjectURL).toHaveBeenCalledWith(expect.any(Blob))
+    expect(click).toHaveBeenCalled()
+    expect(revokeObjectURL).toHaveBeenCalledWith('blob:export')
+    click.mockRestore()
+  })
+})
@@ -1,6 +1,6 @@
 import { describe, it, expect, vi, beforeEach } from 'vitest'
 import { validateAudioFile, createAudioFile, getFileExtension } from '../validation'
-import { SUPPORTED_FORMATS, MAX_FILE_SIZE } from '../../types'
+import { SUPPORTED_FORMATS, MAX_FILE_SIZE, MAX_STREAMING_FILE_SIZE, STREAMABLE_FORMATS } from '../../types'
 
 // Helper to create File objects with specific properties
 const createTestFile = (
@@ -130,13 +130,27 @@ describe('File Format Edge Cases', () => {
       expect(result.isValid).toBe(true)
     })
 
-    it('should reject file one byte over limit', () => {
-      const file = createTestFile('song.mp3', MAX_FILE_SIZE + 1)
+    it('should reject M4A files one byte over limit', () => {
+      const file = createTestFile('song.m4a', MAX_FILE_SIZE + 1)
       const result = validateAudioFile(file)
       expect(result.isValid).toBe(false)
       expect(result.error).toContain('exceeds maximum limit')
     })
 
+    it('should accept streamable files over the limit for windowed analysis', () => {
+      for (const format of STREAMABLE_FORMATS) {
+        const file = createTestFile(`mix.${format}`, MAX_FILE_SIZE + 1)
+        expect(validateAudioFile(file).isValid).toBe(true)
+      }
+    })
+
+    it('should reject streamable files over the windowed analysis limit', () => {
+      const file = createTestFile('mix.mp3', MAX_STREAMING_FILE_SIZE + 1)
+      const result = validateAudioFile(file)
+      expect(result.isValid).toBe(false)
+      expect(result.error).toContain(`${MAX_STREAMING_FILE_SIZE / 1024 / 1024}MB`)
+    })
+
     it('should handle very small files', () => {
       const file = createTestFile('song.mp3', 1) // 1 byte
       const result = validateAudioFile(file)
@@ -350,7 +364,7 @@ describe('File Format Edge Cases', () => {
     })
 
     it('should provide consistent error messages for oversized files', () => {
-      const oversizedFile = createTestFile('large.mp3', MAX_FILE_SIZE + 1000)
+      const oversizedFile = createTestFile('large.m4a', MAX_FILE_SIZE + 1000)
       const result = validateAudioFile(oversizedFile)
 
       expect(result.isValid).toBe(false)
@@ -0,0 +1,93 @@
+import { describe, it, expect, beforeEach } from 'vitest'
+import {
+  GENRE_PROFILES,
+  GENRE_PROFILE_STORAGE_KEY,
+  getGenreProfile,
+  isGenreProfileId,
+  correctTempo,
+  snapTempo,
+  getKeyPriorBoost,
+  matchesGenreProfile,
+  getPreferredGenreProfile,
+  setPreferredGenreProfile
+} from '../genreProfiles'
+
+describe('genreProfiles', () => {
+  it('should look up profiles by id', () => {
+    expect(getGenreProfile('trap').label).toBe('Trap')
+    expect(getGenreProfile().id).toBe('hipHop')
+    expect(isGenreProfileId('houseTechno')).toBe(true)
+    expect(isGenreProfileId('polka')).toBe(false)
+    expect(isGenreProfileId('toString')).toBe(false)
+  })
+
+  describe('correctTempo', () => {
+    it('should fold octave errors into the profile range', () => {
+      expect(correctTempo(87, GENRE_PROFILES.drumAndBass)).toBe(174)
+      expect(correctTempo(64, GENRE_PROFILES.houseTechno)).toBe(128)
+      expect(correctTempo(256, GENRE_PROFILES.houseTechno)).toBe(128)
+      expect(correctTempo(190, GENRE_PROFILES.hipHop)).toBe(95)
+      expect(correctTempo(90, GENRE_PROFILES.hipHop)).toBe(90)
+    })
+
+    it('should fold at the edges of the hip-hop range', () => {
+      expect(correctTempo(80, GENRE_PROFILES.hipHop)).toBe(80)
+      expect(correctTempo(79, GENRE_PROFILES.hipHop)).toBe(158)
+      expect(correctTempo(65, GENRE_PROFILES.hipHop)).toBe(130)
+      expect(correctTempo(180, GENRE_PROFILES.hipHop)).toBe(180)
+      expect(correctTempo(182, GENRE_PROFILES.hipHop)).toBe(91)
+
+      // A slower range from the user keeps 65 BPM, which then snaps like any common tempo
+      const slowHipHop = { ...GENRE_PROFILES.hipHop, tempoRange: { min: 60, max: 120 } }
+      expect(snapTempo(correctTempo(66, slowHipHop), slowHipHop)).toBe(65)
+    })
+
+    it('should fold triplet detections only where the profile allows it', () => {
+      expect(correctTempo(195, GENRE_PROFILES.trap)).toBe(130)
+      expect(correctTempo(195, GENRE_PROFILES.pop)).toBe(97.5)
+    })
+
+    it('should leave tempos alone without a profile', () => {
+      expect(correctTempo(87, GENRE_PROFILES.none)).toBe(87)
+      expect(correctTempo(256, GENRE_PROFILES.none)).toBe(256)
+    })
+  })
+
+  it('should snap to nearby common tempos', () => {
+    expect(snapTempo(173, GENRE_PROFILES.drumAndBass)).toBe(172)
+    expect(snapTempo(127.4, GENRE_PROFILES.houseTechno)).toBe(128)
+    expect(snapTempo(151, GENRE_PROFILES.houseTechno)).toBe(151)
+    expect(snapTempo(128, GENRE_PROFILES.none)).toBe(128)
+  })
+
+  it('should boost keys that match the profile key prior', () => {
+    expect(getKeyPriorBoost({ keySignature: 'Am', mode: 'minor' }, GENRE_PROFILES.houseTechno)).toBe(1.1)
+    expect(getKeyPriorBoost({ keySignature: 'A', mode: 'major' }, GENRE_PROFILES.houseTechno)).toBe(1)
+    expect(getKeyPriorBoost({ keySignature: 'Bb', mode: 'major' }, GENRE_PROFILES.pop)).toBe(1.1)
+    expect(getKeyPriorBoost({ keySignature: 'Dbm', mode: 'minor' }, GENRE_PROFILES.trap)).toBe(1.1)
+    expect(getKeyPriorBoost({ keySignature: 'Ebm', mode: 'minor' }, GENRE_PROFILES.hipHop)).toBe(1.2)
+    expect(getKeyPriorBoost({ keySignature: 'Am', mode: 'minor' }, GENRE_PROFILES.none)).toBe(1)
+  })
+
+  it('should treat results without a profile as analyzed with the default', () => {
+    expect(matchesGenreProfile({}, 'hipHop')).toBe(true)
+    expect(matchesGenreProfile({}, 'pop')).toBe(false)
+    expect(matchesGenreProfile({ genreProfile: 'pop' }, 'pop')).toBe(true)
+  })
+
+  describe('preferred genre profile', () => {
+    beforeEach(() => {
+      localStorage.removeItem(GENRE_PROFILE_STORAGE_KEY)
+    })
+
+    it('should default to hip-hop and persist the chosen profile', () => {
+      expect(getPreferredGenreProfile()).toBe('hipHop')
+
+      setPreferredGenreProfile('drumAndBass')
+      expect(getPreferredGenreProfile()).toBe('drumAndBass')
+
+      localStorage.setItem(GENRE_PROFILE_STORAGE_KEY, 'nonsense')
+      expect(getPreferredGenreProfile()).toBe('hipHop')
+    })
+  })
+})
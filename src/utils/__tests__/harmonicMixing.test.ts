@@ -0,0 +1,60 @@
+import { describe, it, expect } from 'vitest'
+import { generateHarmonicSuggestions, getKeyRelation } from '../harmonicMixing'
+
+describe('generateHarmonicSuggestions', () => {
+  it('should suggest the standard harmonic moves for a minor key', () => {
+    const result = generateHarmonicSuggestions({ keyName: 'A Minor' })!
+
+    expect(result.camelot).toBe('8A')
+    expect(result.suggestions.map(s => [s.move, s.keyName, s.camelot])).toEqual([
+      ['relative', 'C Major', '8B'],
+      ['camelotUp', 'E Minor', '9A'],
+      ['camelotDown', 'D Minor', '7A'],
+      ['energyBoost', 'B Minor', '10A'],
+      ['semitoneLift', 'Bb Minor', '3A']
+    ])
+  })
+
+  it('should wrap around the wheel for a major key', () => {
+    const result = generateHarmonicSuggestions({ keyName: 'E Major' })!
+    const byMove = Object.fromEntries(result.suggestions.map(s => [s.move, s]))
+
+    expect(result.camelot).toBe('12B')
+    expect(byMove.relative).toMatchObject({ keyName: 'C# Minor', keySignature: 'C#m', mode: 'minor', camelot: '12A' })
+    expect(byMove.camelotUp.camelot).toBe('1B')
+    expect(byMove.camelotDown.camelot).toBe('11B')
+    expect(byMove.energyBoost.keyName).toBe('F# Major')
+    expect(byMove.semitoneLift.camelot).toBe('7B')
+  })
+
+  it('should accept enharmonic spellings from the detector', () => {
+    const sharp = generateHarmonicSuggestions({ keyName: 'A# Major' })!
+    const flat = generateHarmonicSuggestions({ keyName: 'Bb Major' })!
+
+    expect(sharp).toEqual(flat)
+    expect(sharp.suggestions[0].openKey).toBe('11m')
+  })
+
+  it('should return null for keys it cannot parse', () => {
+    expect(generateHarmonicSuggestions({ keyName: 'Unknown' })).toBeNull()
+  })
+})
+
+describe('getKeyRelation', () => {
+  it('should name the keys closely related to a key', () => {
+    const aMinor = { keyName: 'A Minor' }
+
+    expect(getKeyRelation(aMinor, { keyName: 'C Major' })).toBe('relative')
+    expect(getKeyRelation({ keyName: 'C Major' }, aMinor)).toBe('relative')
+    expect(getKeyRelation(aMinor, { keyName: 'A Major' })).toBe('parallel')
+    expect(getKeyRelation(aMinor, { keyName: 'E Minor' })).toBe('fifthUp')
+    expect(getKeyRelation(aMinor, { keyName: 'D Minor' })).toBe('fifthDown')
+    expect(getKeyRelation({ keyName: 'Bb Major' }, { keyName: 'F Major' })).toBe('fifthUp')
+  })
+
+  it('should return null for unrelated or unparseable keys', () => {
+    expect(getKeyRelation({ keyName: 'C Major' }, { keyName: 'F# Major' })).toBeNull()
+    expect(getKeyRelation({ keyName: 'C Major' }, { keyName: 'E Minor' })).toBeNull()
+    expect(getKeyRelation({ keyName: 'Unknown' }, { keyName: 'C Major' })).toBeNull()
+  })
+})
@@ -1,5 +1,9 @@
-import { describe, it, expect, beforeEach } from 'vitest'
+import { describe, it, expect, beforeEach, vi } from 'vitest'
 import { KeyDetector } from '../keyDetection'
+import { essentiaManager } from '../essentiaManager'
+import { detectKeyFromChroma } from '../fallbackKeyDetection'
+import { isSameKey } from '../keyNotation'
+import type { Essentia } from 'essentia.js'
 
 // Set longer timeout for audio processing tests
 const AUDIO_TEST_TIMEOUT = 10000
@@ -84,6 +88,54 @@ describe('KeyDetector', () => {
       expect(['major', 'minor']).toContain(result.mode)
     }, AUDIO_TEST_TIMEOUT)
 
+    it('should rank the runner-up keys by score', async () => {
+      const sampleRate = 8000
+      const length = sampleRate * 2
+      const audioData = new Float32Array(length)
+      const cMajorTriad = [261.63, 329.63, 392.0]
+
+      for (let i = 0; i < length; i++) {
+        const t = i / sampleRate
+        audioData[i] = 0.5 * Math.sin(2 * Math.PI * cMajorTriad[Math.floor(t * 4) % 3] * t)
+      }
+
+      const audioBuffer = new MockAudioBuffer(sampleRate, length, 1, [audioData])
+      const result = await keyDetector.detectKey(audioBuffer)
+      const alternatives = result.alternatives ?? []
+
+      expect(alternatives).toHaveLength(5)
+      expect(alternatives.map(candidate => candidate.keyName)).not.toContain(result.keyName)
+      expect(alternatives[0].score).toBeLessThanOrEqual(result.confidence)
+      for (let i = 1; i < alternatives.length; i++) {
+        expect(alternatives[i].score).toBeLessThanOrEqual(alternatives[i - 1].score)
+      }
+    }, AUDIO_TEST_TIMEOUT)
+
+    it('should compare the keys found with each profile', async () => {
+      const sampleRate = 8000
+      const length = sampleRate * 2
+      const audioData = new Float32Array(length)
+      const cMajorTriad = [261.63, 329.63, 392.0]
+
+      for (let i = 0; i < length; i++) {
+        const t = i / sampleRate
+        audioData[i] = 0.5 * Math.sin(2 * Math.PI * cMajorTriad[Math.floor(t * 4) % 3] * t)
+      }
+
+      const audioBuffer = new MockAudioBuffer(sampleRate, length, 1, [audioData])
+      const progress: number[] = []
+      const comparison = await keyDetector.compareKeyProfiles(audioBuffer, {
+        keyProfiles: ['temperley', 'bgate'],
+        onProgress: value => progress.push(value)
+      })
+
+      expect(comparison.results.map(result => result.keyProfile)).toEqual(['temperley', 'bgate'])
+      expect(comparison.consensus?.keyName).toBe(comparison.results[0].key.keyName)
+      expect(comparison.agreement).toBeGreaterThanOrEqual(0.5)
+      expect(progress[progress.length - 1]).toBe(100)
+      expect(progress.every(value => value <= 100)).toBe(true)
+    }, AUDIO_TEST_TIMEOUT)
+
     it('should handle detection errors gracefully', async () => {
       // Test with invalid audio buffer (essentia.js should handle gracefully)
       const audioBuffer = new MockAudioBuffer(44100, 0, 1, [new Float32Array(0)])
@@ -117,6 +169,51 @@ describe('KeyDetector', () => {
     }, AUDIO_TEST_TIMEOUT)
   })
 
+  describe('detectKeySegments', () => {
+    // Repeating scale melody, one note every 250ms
+    const writeMelody = (data: Float32Array, sampleRate: number, start: number, end: number, notes: number[]) => {
+      for (let i = Math.floor(start * sampleRate); i < Math.floor(end * sampleRate); i++) {
+        const t = i / sampleRate
+        const frequency = notes[Math.floor(t * 4) % notes.length]
+        data[i] = 0.5 * Math.sin(2 * Math.PI * frequency * t)
+      }
+    }
+
+    it('should return no segments for clips too short to modulate', async () => {
+      const audioBuffer = new MockAudioBuffer(16000, 16000 * 10)
+
+      const segments = await keyDetector.detectKeySegments(audioBuffer)
+
+      expect(segments).toEqual([])
+    })
+
+    it('should find a key change and cover the whole track', async () => {
+      const sampleRate = 8000
+      const duration = 60
+      const audioData = new Float32Array(sampleRate * duration)
+      const cMajorScale = [261.63, 293.66, 329.63, 349.23, 392.0, 440.0, 493.88]
+      const fSharpMajorScale = [369.99, 415.3, 466.16, 493.88, 554.37, 622.25, 698.46]
+      writeMelody(audioData, sampleRate, 0, 30, cMajorScale)
+      writeMelody(audioData, sampleRate, 30, 60, fSharpMajorScale)
+
+      const audioBuffer = new MockAudioBuffer(sampleRate, audioData.length, 1, [audioData])
+      const progress: number[] = []
+      const segments = await keyDetector.detectKeySegments(audioBuffer, {
+        onProgress: (value) => progress.push(value)
+      })
+
+      // The second half moves to a different scale, so the timeline should change key
+      expect(segments.length).toBeGreaterThan(1)
+      expect(segments[0].start).toBe(0)
+      expect(segments[segments.length - 1].end).toBe(duration)
+      for (let i = 1; i < segments.length; i++) {
+        expect(segments[i].start).toBe(segments[i - 1].end)
+        expect(segments[i].keyName).not.toBe(segments[i - 1].keyName)
+      }
+      expect(progress[progress.length - 1]).toBe(100)
+    }, AUDIO_TEST_TIMEOUT)
+  })
+
   describe('key signature formatting', () => {
     it('should format major key signatures correctly', async () => {
       // Test with a simple audio buffer
@@ -145,6 +242,96 @@ describe('KeyDetector', () => {
     }, AUDIO_TEST_TIMEOUT)
   })
 
+  describe('with essentia', () => {
+    // Stands in for essentia.js, reporting only its best key the way KeyExtractor does
+    const mockEssentia = (key: string, scale: string, strength: number) => {
+      const essentia = {
+        audioBufferToMonoSignal: (audioBuffer: AudioBuffer) => audioBuffer.getChannelData(0),
+        arrayToVector: (signal: Float32Array) => signal,
+        KeyExtractor: vi.fn(() => ({ key, scale, strength }))
+      }
+      vi.mocked(essentiaManager.getEssentia).mockResolvedValueOnce(essentia as unknown as Essentia)
+      return essentia
+    }
+
+    it('should only list runner-ups that score below the essentia key', async () => {
+      const sampleRate = 8000
+      const length = sampleRate * 2
+      const audioData = new Float32Array(length)
+      const cMajorTriad = [261.63, 329.63, 392.0]
+
+      for (let i = 0; i < length; i++) {
+        const t = i / sampleRate
+        audioData[i] = 0.5 * Math.sin(2 * Math.PI * cMajorTriad[Math.floor(t * 4) % 3] * t)
+      }
+
+      const essentia = mockEssentia('A', 'minor', 0.5)
+      const result = await keyDetector.detectKey(new MockAudioBuffer(sampleRate, length, 1, [audioData]))
+
+      expect(essentia.KeyExtractor).toHaveBeenCalledTimes(1)
+      expect(result.keyName).toBe('A Minor')
+      expect(result.alternatives?.map(candidate => candidate.keyName)).not.toContain('A Minor')
+      for (const candidate of result.alternatives ?? []) {
+        expect(candidate.score).toBeLessThanOrEqual(result.confidence)
+      }
+    }, AUDIO_TEST_TIMEOUT)
+
+    it('should rank runner-ups around a flat-named essentia key', async () => {
+      const sampleRate = 8000
+      const length = sampleRate * 2
+      const audioData = new Float32Array(length)
+      const bbMinorTriad = [233.08, 277.18, 349.23]
+
+      for (let i = 0; i < length; i++) {
+        const t = i / sampleRate
+        audioData[i] = 0.5 * Math.sin(2 * Math.PI * bbMinorTriad[Math.floor(t * 4) % 3] * t)
+      }
+
+      mockEssentia('Bb', 'minor', 0.98)
+      const result = await keyDetector.detectKey(new MockAudioBuffer(sampleRate, length, 1, [audioData]))
+      const alternatives = result.alternatives ?? []
+
+      expect(result.keyName).toBe('Bb Minor')
+      expect(alternatives.length).toBeGreaterThan(0)
+      expect(alternatives.some(candidate => isSameKey(candidate.keyName, 'Bb Minor'))).toBe(false)
+      // The relative major shares every note of the key
+      expect(isSameKey(alternatives[0].keyName, 'Db Major')).toBe(true)
+      for (const candidate of alternatives) {
+        expect(candidate.score).toBeLessThan(result.confidence)
+      }
+    }, AUDIO_TEST_TIMEOUT)
+
+    it('should rank runner-ups from a sampled pass rather than a second whole-track pass', async () => {
+      // Each pitch point of silent audio reads one sample, so counting reads counts the points
+      const length = 16000 * 30
+      let reads = 0
+      const silence = new Proxy(new Float32Array(length), {
+        get: (target, property) => {
+          if (typeof property === 'string' && /^\d+$/.test(property)) reads++
+          return Reflect.get(target, property)
+        }
+      })
+
+      mockEssentia('C', 'major', 0.8)
+      await keyDetector.detectKey(new MockAudioBuffer(16000, length, 1, [silence]))
+
+      expect(reads).toBeGreaterThan(0)
+      expect(reads).toBeLessThanOrEqual(200)
+    }, AUDIO_TEST_TIMEOUT)
+  })
+
+  describe('detectKeyFromChroma', () => {
+    it('should name the key whose tonic the chroma centres on', () => {
+      const chroma = (pitchClasses: number[]) => ({
+        values: Array.from({ length: 12 }, (_, pitchClass) => (pitchClasses.includes(pitchClass) ? 1 : 0)),
+        confidence: 1
+      })
+
+      expect(isSameKey(detectKeyFromChroma(chroma([10, 1, 5])).keyName, 'Bb Minor')).toBe(true)
+      expect(isSameKey(detectKeyFromChroma(chroma([2, 6, 9])).keyName, 'D Major')).toBe(true)
+    })
+  })
+
   describe('edge cases', () => {
     it('should handle very short audio buffers', async () => {
       const audioBuffer = new MockAudioBuffer(44100, 1024, 1, [new Float32Array(1024)])
@@ -0,0 +1,110 @@
+import { describe, it, expect, beforeEach } from 'vitest'
+import {
+  parseKey,
+  parseCamelot,
+  parseOpenKey,
+  toNotations,
+  getKeyNotations,
+  formatKey,
+  formatKeyCode,
+  isSameKey,
+  getPreferredNotation,
+  setPreferredNotation,
+  NOTATION_STORAGE_KEY
+} from '../keyNotation'
+
+// Reference Camelot wheel: [major, minor] for codes 1..12
+const CAMELOT_WHEEL: Array<[string, string]> = [
+  ['B', 'G#m'], ['F#', 'Ebm'], ['Db', 'Bbm'], ['Ab', 'Fm'], ['Eb', 'Cm'], ['Bb', 'Gm'],
+  ['F', 'Dm'], ['C', 'Am'], ['G', 'Em'], ['D', 'Bm'], ['A', 'F#m'], ['E', 'C#m']
+]
+
+describe('keyNotation', () => {
+  it('should map every key to its Camelot and Open Key code', () => {
+    CAMELOT_WHEEL.forEach(([major, minor], index) => {
+      const number = index + 1
+      const openKeyNumber = ((number - 8 + 12) % 12) + 1
+
+      expect(getKeyNotations({ keyName: major })).toMatchObject({
+        short: major,
+        camelot: `${number}B`,
+        openKey: `${openKeyNumber}d`
+      })
+      expect(getKeyNotations({ keyName: minor })).toMatchObject({
+        short: minor,
+        camelot: `${number}A`,
+        openKey: `${openKeyNumber}m`
+      })
+    })
+  })
+
+  it('should treat enharmonic spellings as the same key', () => {
+    expect(getKeyNotations({ keyName: 'C# Major' })).toEqual(getKeyNotations({ keyName: 'Db Major' }))
+    expect(getKeyNotations({ keyName: 'D# Minor' })?.camelot).toBe('2A')
+    expect(getKeyNotations({ keyName: 'A# Major' })?.standard).toBe('Bb Major')
+    expect(getKeyNotations({ keyName: 'Gb Major' })?.standard).toBe('F# Major')
+    expect(isSameKey('C#m', 'Db Minor')).toBe(true)
+    expect(isSameKey('C', 'Cm')).toBe(false)
+  })
+
+  it('should list the other spelling of black-key tonics', () => {
+    expect(getKeyNotations({ keyName: 'Db Major' })?.enharmonic).toBe('C# Major')
+    expect(getKeyNotations({ keyName: 'F# Minor' })?.enharmonic).toBe('Gb Minor')
+    expect(getKeyNotations({ keyName: 'A Minor' })?.enharmonic).toBeUndefined()
+  })
+
+  it('should parse detector names, signatures and unicode accidentals', () => {
+    expect(parseKey('C Major')).toEqual({ pitchClass: 0, mode: 'major' })
+    expect(parseKey('Am')).toEqual({ pitchClass: 9, mode: 'minor' })
+    expect(parseKey('Bb minor')).toEqual({ pitchClass: 10, mode: 'minor' })
+    expect(parseKey('F♯')).toEqual({ pitchClass: 6, mode: 'major' })
+    expect(parseKey('Cb Major')).toEqual({ pitchClass: 11, mode: 'major' })
+    expect(parseKey('H Major')).toBeNull()
+    expect(parseKey('C Dorian')).toBeNull()
+  })
+
+  it('should round-trip Camelot and Open Key codes', () => {
+    for (let pitchClass = 0; pitchClass < 12; pitchClass++) {
+      for (const mode of ['major', 'minor'] as const) {
+        const notations = toNotations({ pitchClass, mode })
+        expect(parseCamelot(notations.camelot)).toEqual({ pitchClass, mode })
+        expect(parseOpenKey(notations.openKey)).toEqual({ pitchClass, mode })
+      }
+    }
+    expect(parseCamelot('13A')).toBeNull()
+    expect(parseOpenKey('4x')).toBeNull()
+  })
+
+  it('should format a key in the chosen notation', () => {
+    const key = { keyName: 'A Minor' }
+
+    expect(formatKey(key, 'standard')).toBe('A Minor')
+    expect(formatKey(key, 'camelot')).toBe('8A')
+    expect(formatKey(key, 'openKey')).toBe('1m')
+    expect(formatKey({ keyName: 'Unknown' }, 'camelot')).toBe('Unknown')
+  })
+
+  it('should format compact key codes for tags', () => {
+    const key = { keyName: 'C# Minor', keySignature: 'C#m' }
+
+    expect(formatKeyCode(key, 'standard')).toBe('C#m')
+    expect(formatKeyCode(key, 'camelot')).toBe('12A')
+    expect(formatKeyCode({ keyName: 'Unknown', keySignature: '?' }, 'standard')).toBe('?')
+  })
+
+  describe('preferred notation', () => {
+    beforeEach(() => {
+      localStorage.removeItem(NOTATION_STORAGE_KEY)
+    })
+
+    it('should default to standard and persist the chosen notation', () => {
+      expect(getPreferredNotation()).toBe('standard')
+
+      setPreferredNotation('camelot')
+      expect(getPreferredNotation()).toBe('camelot')
+
+      localStorage.setItem(NOTATION_STORAGE_KEY, 'nonsense')
+      expect(getPreferredNotation()).toBe('standard')
+    })
+  })
+})
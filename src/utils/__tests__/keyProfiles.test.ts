@@ -0,0 +1,43 @@
+import { describe, it, expect } from 'vitest'
+import { KEY_PROFILES, KEY_PROFILE_IDS, compareKeyProfileResults } from '../keyProfiles'
+import type { KeyResult } from '../../types'
+
+const C_MAJOR: KeyResult = { keyName: 'C Major', keySignature: 'C', confidence: 0.6, mode: 'major' }
+const A_MINOR: KeyResult = { keyName: 'A Minor', keySignature: 'Am', confidence: 0.9, mode: 'minor' }
+
+describe('keyProfiles', () => {
+  it('should weigh every semitone of both modes, tonic first', () => {
+    expect(KEY_PROFILE_IDS).toEqual(['krumhansl', 'temperley', 'edma', 'shaath', 'bgate'])
+    for (const profile of Object.values(KEY_PROFILES)) {
+      expect(profile.major).toHaveLength(12)
+      expect(profile.minor).toHaveLength(12)
+      expect(Math.max(...profile.major)).toBe(profile.major[0])
+    }
+  })
+
+  it('should report the key most profiles chose and their share', () => {
+    const comparison = compareKeyProfileResults([
+      { keyProfile: 'krumhansl', key: C_MAJOR },
+      { keyProfile: 'temperley', key: { ...C_MAJOR, confidence: 0.8 } },
+      { keyProfile: 'edma', key: A_MINOR }
+    ])
+
+    expect(comparison.consensus).toEqual({ keyName: 'C Major', keySignature: 'C', mode: 'major', confidence: 0.7 })
+    expect(comparison.agreement).toBeCloseTo(2 / 3)
+    expect(comparison.results).toHaveLength(3)
+  })
+
+  it('should break ties by total confidence', () => {
+    const comparison = compareKeyProfileResults([
+      { keyProfile: 'krumhansl', key: C_MAJOR },
+      { keyProfile: 'edma', key: A_MINOR }
+    ])
+
+    expect(comparison.consensus?.keyName).toBe('A Minor')
+    expect(comparison.agreement).toBe(0.5)
+  })
+
+  it('should have no consensus without results', () => {
+    expect(compareKeyProfileResults([])).toEqual({ results: [], consensus: null, agreement: 0 })
+  })
+})
@@ -0,0 +1,66 @@
+import { describe, it, expect } from 'vitest'
+import { getAnalysisWindows, mergeKeyWindows, hasKeyChange, getKeyAt } from '../keySegments'
+import type { KeyResult } from '../../types'
+
+const C_MAJOR: KeyResult = { keyName: 'C Major', keySignature: 'C', confidence: 0.8, mode: 'major' }
+const D_MAJOR: KeyResult = { keyName: 'D Major', keySignature: 'D', confidence: 0.6, mode: 'major' }
+const A_MINOR: KeyResult = { keyName: 'A Minor', keySignature: 'Am', confidence: 0.4, mode: 'minor' }
+
+// Windows of 20s every 10s with the given keys
+const windowsWithKeys = (keys: KeyResult[]) =>
+  keys.map((key, i) => ({ start: i * 10, end: i * 10 + 20, key }))
+
+describe('getAnalysisWindows', () => {
+  it('should create overlapping windows that cover the whole track', () => {
+    const windows = getAnalysisWindows(65)
+
+    expect(windows[0]).toEqual({ start: 0, end: 20 })
+    expect(windows[1]).toEqual({ start: 10, end: 30 })
+    expect(windows[windows.length - 1]).toEqual({ start: 45, end: 65 })
+  })
+
+  it('should return no windows when the track is too short for a key change', () => {
+    expect(getAnalysisWindows(25)).toEqual([])
+    expect(getAnalysisWindows(10, { windowSeconds: 4, hopSeconds: 2 })).toHaveLength(4)
+  })
+})
+
+describe('mergeKeyWindows', () => {
+  it('should merge neighboring windows in the same key', () => {
+    const segments = mergeKeyWindows(windowsWithKeys([C_MAJOR, C_MAJOR, C_MAJOR, D_MAJOR, D_MAJOR]), 60)
+
+    expect(segments).toHaveLength(2)
+    expect(segments[0]).toMatchObject({ keyName: 'C Major', start: 0, end: 35 })
+    expect(segments[1]).toMatchObject({ keyName: 'D Major', start: 35, end: 60 })
+    expect(segments[1].confidence).toBeCloseTo(0.6)
+  })
+
+  it('should absorb a single window that disagrees with both neighbors', () => {
+    const segments = mergeKeyWindows(windowsWithKeys([C_MAJOR, C_MAJOR, A_MINOR, C_MAJOR, C_MAJOR]), 60)
+
+    expect(segments).toHaveLength(1)
+    expect(segments[0]).toMatchObject({ keyName: 'C Major', keySignature: 'C', mode: 'major', start: 0, end: 60 })
+  })
+
+  it('should leave the runner-up keys off the segments', () => {
+    const alternatives = [{ keyName: 'A Minor', keySignature: 'Am', mode: 'minor' as const, score: 0.5 }]
+    const segments = mergeKeyWindows(windowsWithKeys([{ ...C_MAJOR, alternatives }, C_MAJOR]), 30)
+
+    expect(segments).toEqual([{ keyName: 'C Major', keySignature: 'C', mode: 'major', confidence: 0.8, start: 0, end: 30 }])
+  })
+
+  it('should return an empty timeline for no windows', () => {
+    expect(mergeKeyWindows([], 60)).toEqual([])
+  })
+})
+
+describe('key timeline helpers', () => {
+  it('should report key changes and look up the key at a time', () => {
+    const segments = mergeKeyWindows(windowsWithKeys([C_MAJOR, C_MAJOR, D_MAJOR, D_MAJOR]), 50)
+
+    expect(hasKeyChange(segments)).toBe(true)
+    expect(hasKeyChange([segments[0]])).toBe(false)
+    expect(getKeyAt(segments, 5)?.keyName).toBe('C Major')
+    expect(getKeyAt(segments, 45)?.keyName).toBe('D Major')
+  })
+})
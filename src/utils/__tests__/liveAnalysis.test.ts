@@ -0,0 +1,73 @@
+import { describe, it, expect } from 'vitest'
+import { LiveAnalyzer } from '../liveAnalysis'
+import type { LiveReading } from '../liveAnalysis'
+
+const SAMPLE_RATE = 44100
+
+// A beat of clicks with a note of a C major arpeggio held on each beat
+function* syntheticStream(bpm: number, seconds: number, chunkSeconds = 0.25) {
+  const notes = [261.63, 329.63, 392.0, 523.25]
+  const beat = 60 / bpm
+  const chunkLength = Math.round(chunkSeconds * SAMPLE_RATE)
+  for (let start = 0; start < seconds * SAMPLE_RATE; start += chunkLength) {
+    const chunk = new Float32Array(chunkLength)
+    for (let i = 0; i < chunkLength; i++) {
+      const t = (start + i) / SAMPLE_RATE
+      const beatIndex = Math.floor(t / beat)
+      const sinceBeat = t - beatIndex * beat
+      const click = sinceBeat < 0.03 ? Math.sin(2 * Math.PI * 1500 * t) * Math.exp(-sinceBeat * 150) : 0
+      chunk[i] = 0.3 * Math.sin(2 * Math.PI * notes[beatIndex % notes.length] * t) + 0.6 * click
+    }
+    yield chunk
+  }
+}
+
+// Push the stream into the analyzer, taking a reading every second
+function feed(analyzer: LiveAnalyzer, stream: Iterable<Float32Array>, chunksPerReading = 4) {
+  const readings: LiveReading[] = []
+  let chunks = 0
+  for (const chunk of stream) {
+    analyzer.push(chunk)
+    if (++chunks % chunksPerReading === 0) {
+      readings.push(analyzer.analyze())
+    }
+  }
+  return readings
+}
+
+describe('LiveAnalyzer', () => {
+  it('should read the tempo and key of a stream as it arrives', () => {
+    const analyzer = new LiveAnalyzer({ sampleRate: SAMPLE_RATE, bufferSeconds: 5 })
+    const readings = feed(analyzer, syntheticStream(120, 8))
+    const last = readings[readings.length - 1]
+
+    expect(readings[0].bpm).toBeNull()
+    expect(readings[0].bpmConfidence).toBe(0)
+    expect(last.bpm).toBe(120)
+    expect(last.key?.keyName).toBe('C Major')
+    expect(last.bufferedSeconds).toBeCloseTo(5, 1)
+  }, 60000)
+
+  it('should grow more confident as readings agree', () => {
+    const analyzer = new LiveAnalyzer({ sampleRate: SAMPLE_RATE, bufferSeconds: 4 })
+    const readings = feed(analyzer, syntheticStream(120, 8)).filter(reading => reading.bpm !== null)
+
+    expect(readings.length).toBeGreaterThan(2)
+    expect(readings[readings.length - 1].bpmConfidence).toBeGreaterThan(readings[0].bpmConfidence)
+    expect(readings[readings.length - 1].keyConfidence).toBeGreaterThan(readings[0].keyConfidence)
+  }, 60000)
+
+  it('should forget the stream on reset', () => {
+    const analyzer = new LiveAnalyzer({ sampleRate: SAMPLE_RATE, bufferSeconds: 4 })
+    feed(analyzer, syntheticStream(120, 2))
+    analyzer.reset()
+
+    expect(analyzer.analyze()).toEqual({
+      bpm: null,
+      bpmConfidence: 0,
+      key: null,
+      keyConfidence: 0,
+      bufferedSeconds: 0
+    })
+  })
+})
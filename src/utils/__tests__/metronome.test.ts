@@ -0,0 +1,59 @@
+import { describe, it, expect, vi } from 'vitest'
+import { getMetronomeClicks, getClicksInWindow, scheduleClick } from '../metronome'
+import type { BPMResult } from '../../types'
+
+const gridResult: BPMResult = {
+  bpm: 120,
+  confidence: 0.9,
+  detectedBeats: 6,
+  beatGrid: { beats: [0.2, 0.7, 1.21, 1.7, 2.2, 2.71], offset: 0.2, downbeat: 0.7 }
+}
+
+describe('metronome', () => {
+  it('should click on the detected beat ticks, accenting downbeats', () => {
+    const clicks = getMetronomeClicks(gridResult, 3)
+
+    expect(clicks.map(click => click.time)).toEqual([0.2, 0.7, 1.21, 1.7, 2.2, 2.71])
+    expect(clicks.map(click => click.accent)).toEqual([false, true, false, false, false, true])
+  })
+
+  it('should click at a manual tempo from the detected downbeat', () => {
+    const clicks = getMetronomeClicks({ ...gridResult, bpm: 60, detected: { bpm: 120 } }, 4)
+
+    expect(clicks.map(click => click.time)).toEqual([0.7, 1.7, 2.7, 3.7])
+    expect(clicks[0].accent).toBe(true)
+    expect(clicks.filter(click => click.accent)).toHaveLength(1)
+  })
+
+  it('should click from the start without a beat grid', () => {
+    const clicks = getMetronomeClicks({ bpm: 120, confidence: 0.9, detectedBeats: 0 }, 2.1)
+
+    expect(clicks.map(click => click.time)).toEqual([0, 0.5, 1, 1.5, 2])
+    expect(clicks.map(click => click.accent)).toEqual([true, false, false, false, true])
+    expect(getMetronomeClicks({ bpm: 0, confidence: 0, detectedBeats: 0 }, 2)).toEqual([])
+  })
+
+  it('should find the clicks within a window', () => {
+    const clicks = getMetronomeClicks(gridResult, 3)
+
+    expect(getClicksInWindow(clicks, 0.7, 1.7).map(click => click.time)).toEqual([0.7, 1.21])
+    expect(getClicksInWindow(clicks, 2.8, 3)).toEqual([])
+  })
+
+  it('should schedule a short click on the context', () => {
+    const oscillator = { frequency: { value: 0 }, connect: vi.fn(), start: vi.fn(), stop: vi.fn() }
+    const gain = { gain: { setValueAtTime: vi.fn(), exponentialRampToValueAtTime: vi.fn() }, connect: vi.fn() }
+    const context = {
+      destination: {},
+      createOscillator: () => oscillator,
+      createGain: () => gain
+    } as unknown as BaseAudioContext
+
+    scheduleClick(context, 2, true)
+
+    expect(oscillator.frequency.value).toBe(1500)
+    expect(oscillator.start).toHaveBeenCalledWith(2)
+    expect(oscillator.stop).toHaveBeenCalledWith(2.03)
+    expect(gain.connect).toHaveBeenCalledWith(context.destination)
+  })
+})
@@ -0,0 +1,79 @@
+import { describe, it, expect, beforeEach } from 'vitest'
+import {
+  refineTempo,
+  withPreciseTempo,
+  formatBPM,
+  getPreferredBPMDecimals,
+  setPreferredBPMDecimals,
+  BPM_DECIMALS_STORAGE_KEY
+} from '../preciseTempo'
+
+// Beat times at a tempo, with a deterministic jitter of up to ±jitter seconds
+function ticks(bpm: number, count: number, jitter = 0, start = 0.25): number[] {
+  return Array.from({ length: count }, (_, i) => start + i * 60 / bpm + jitter * Math.sin(i * 2.3))
+}
+
+describe('preciseTempo', () => {
+  describe('refineTempo', () => {
+    it('should recover a fractional tempo from jittered beats', () => {
+      expect(refineTempo(ticks(93.5, 64, 0.01), 94)).toBeCloseTo(93.5, 1)
+      expect(refineTempo(ticks(127.84, 128), 128)).toBe(127.84)
+    })
+
+    it('should skip onsets between the beats', () => {
+      const beats = ticks(93.5, 48)
+      const offBeats = beats.slice(0, -1).map(time => time + 30 / 93.5 + 0.07)
+      const onsets = [...beats, ...offBeats].sort((a, b) => a - b)
+
+      expect(refineTempo(onsets, 93)).toBeCloseTo(93.5, 2)
+    })
+
+    it('should number ticks at half the reported tempo as every other beat', () => {
+      expect(refineTempo(ticks(87.25, 32), 175)).toBeCloseTo(174.5, 2)
+    })
+
+    it('should fit across gaps in the beats', () => {
+      const beats = ticks(140.2, 96).filter((_, i) => i < 30 || i > 50)
+
+      expect(refineTempo(beats, 140)).toBeCloseTo(140.2, 2)
+    })
+
+    it('should give up without enough beats or when the beats follow another tempo', () => {
+      expect(refineTempo(ticks(120, 5), 120)).toBeUndefined()
+      expect(refineTempo(ticks(110, 64), 120)).toBeUndefined()
+      expect(refineTempo(ticks(120, 64), 0)).toBeUndefined()
+    })
+  })
+
+  it('should add the precise tempo and round the tempo to match', () => {
+    const beats = ticks(93.5, 64)
+    const result = withPreciseTempo({ bpm: 93, confidence: 0.8, detectedBeats: 64, beatGrid: { beats, downbeat: beats[0], offset: beats[0] } })
+
+    expect(result.preciseBpm).toBe(93.5)
+    expect(result.bpm).toBe(94)
+    expect(withPreciseTempo({ bpm: 120, confidence: 0.8, detectedBeats: 0 })).not.toHaveProperty('preciseBpm')
+  })
+
+  it('should format the tempo to the chosen decimals', () => {
+    expect(formatBPM({ bpm: 94, preciseBpm: 93.5 }, 0)).toBe('94')
+    expect(formatBPM({ bpm: 94, preciseBpm: 93.5 }, 1)).toBe('93.5')
+    expect(formatBPM({ bpm: 94, preciseBpm: 93.5 }, 2)).toBe('93.50')
+    expect(formatBPM({ bpm: 120 }, 2)).toBe('120.00')
+  })
+
+  describe('preferences', () => {
+    beforeEach(() => {
+      localStorage.removeItem(BPM_DECIMALS_STORAGE_KEY)
+    })
+
+    it('should default to whole BPM and persist the chosen decimals', () => {
+      expect(getPreferredBPMDecimals()).toBe(0)
+
+      setPreferredBPMDecimals(2)
+      expect(getPreferredBPMDecimals()).toBe(2)
+
+      localStorage.setItem(BPM_DECIMALS_STORAGE_KEY, '7')
+      expect(getPreferredBPMDecimals()).toBe(0)
+    })
+  })
+})
@@ -0,0 +1,60 @@
+import { describe, it, expect, vi } from 'vitest'
+import { getDroneKey, getDroneKeyName, getDroneFrequencies, startDrone } from '../referenceDrone'
+
+// Records the oscillators and gain a drone sets up
+const createFakeContext = () => {
+  const oscillators: Array<{ frequency: { value: number }; start: ReturnType<typeof vi.fn>; stop: ReturnType<typeof vi.fn> }> = []
+  const gain = {
+    gain: { setValueAtTime: vi.fn(), linearRampToValueAtTime: vi.fn(), setTargetAtTime: vi.fn() },
+    connect: vi.fn()
+  }
+  const context = {
+    currentTime: 5,
+    destination: {},
+    createGain: () => gain,
+    createOscillator: () => {
+      const oscillator = { type: 'sine', frequency: { value: 0 }, connect: vi.fn(), start: vi.fn(), stop: vi.fn() }
+      oscillators.push(oscillator)
+      return oscillator
+    }
+  } as unknown as BaseAudioContext
+
+  return { context, oscillators, gain }
+}
+
+describe('referenceDrone', () => {
+  it('should drone the detected key, or its relative in the other mode', () => {
+    const aMinor = { keyName: 'A Minor' }
+
+    expect(getDroneKey(aMinor, 'minor')).toEqual({ pitchClass: 9, mode: 'minor' })
+    expect(getDroneKeyName(getDroneKey(aMinor, 'major')!)).toBe('C Major')
+    expect(getDroneKeyName(getDroneKey({ keyName: 'Eb Major' }, 'minor')!)).toBe('C Minor')
+    expect(getDroneKey({ keyName: 'Unknown' }, 'major')).toBeNull()
+  })
+
+  it('should give the tonic or the tonic triad in the third octave', () => {
+    const aMinor = getDroneKey({ keyName: 'A Minor' }, 'minor')!
+    const cMajor = getDroneKey({ keyName: 'C Major' }, 'major')!
+
+    expect(getDroneFrequencies(aMinor, 'root')).toEqual([220])
+    const [a, c, e] = getDroneFrequencies(aMinor, 'triad')
+    expect([a, c, e].map(frequency => Math.round(frequency * 100) / 100)).toEqual([220, 261.63, 329.63])
+    expect(getDroneFrequencies(cMajor, 'triad').map(frequency => Math.round(frequency * 100) / 100))
+      .toEqual([130.81, 164.81, 196])
+  })
+
+  it('should fade a note per frequency in and out, sharing the volume between them', () => {
+    const { context, oscillators, gain } = createFakeContext()
+
+    const voice = startDrone(context, [220, 261.63, 329.63], 0.6)
+    expect(oscillators.map(oscillator => oscillator.frequency.value)).toEqual([220, 261.63, 329.63])
+    expect(gain.gain.linearRampToValueAtTime).toHaveBeenCalledWith(expect.closeTo(0.2, 6), 5.2)
+
+    voice.setVolume(0.3)
+    expect(gain.gain.setTargetAtTime).toHaveBeenLastCalledWith(expect.closeTo(0.1, 6), 5, 0.05)
+
+    voice.stop()
+    expect(gain.gain.setTargetAtTime).toHaveBeenLastCalledWith(0, 5, expect.any(Number))
+    oscillators.forEach(oscillator => expect(oscillator.stop).toHaveBeenCalledWith(5.1))
+  })
+})
@@ -0,0 +1,49 @@
+import { describe, it, expect } from 'vitest'
+import { compareTags } from '../tagComparison'
+import type { BPMResult, KeyResult } from '../../types'
+
+const aMinor: KeyResult = { keyName: 'A Minor', keySignature: 'Am', confidence: 0.8, mode: 'minor' }
+const bpm = (value: number): BPMResult => ({ bpm: value, confidence: 0.9, detectedBeats: 100 })
+
+describe('compareTags', () => {
+  it('should treat rounded BPM tags as a match', () => {
+    const [comparison] = compareTags({ bpm: 128 }, { bpm: bpm(127.6) })
+
+    expect(comparison).toMatchObject({ field: 'bpm', embedded: '128', detected: '127.6', status: 'match' })
+  })
+
+  it('should flag half and double tempo tags as close', () => {
+    expect(compareTags({ bpm: 64 }, { bpm: bpm(128) })[0]).toMatchObject({ status: 'close', note: 'Half tempo' })
+    expect(compareTags({ bpm: 174 }, { bpm: bpm(87) })[0]).toMatchObject({ status: 'close', note: 'Double tempo' })
+  })
+
+  it('should report how far off a wrong BPM tag is', () => {
+    expect(compareTags({ bpm: 120 }, { bpm: bpm(128) })[0]).toMatchObject({ status: 'mismatch', note: 'Off by 8 BPM' })
+  })
+
+  it('should match key tags written in any notation', () => {
+    for (const key of ['Am', 'A minor', '8A', '1m']) {
+      expect(compareTags({ key }, { key: aMinor })[0].status).toBe('match')
+    }
+  })
+
+  it('should show the detected key in the chosen notation', () => {
+    expect(compareTags({ key: 'Am' }, { key: aMinor }, 'camelot')[0].detected).toBe('8A')
+  })
+
+  it('should flag relative and fifth-apart keys as close', () => {
+    expect(compareTags({ key: 'C' }, { key: aMinor })[0]).toMatchObject({ status: 'close', note: 'Relative major' })
+    expect(compareTags({ key: '9A' }, { key: aMinor })[0]).toMatchObject({ status: 'close', note: 'A fifth apart' })
+  })
+
+  it('should flag unrelated and unreadable keys as mismatches', () => {
+    expect(compareTags({ key: 'F#' }, { key: aMinor })[0].status).toBe('mismatch')
+    expect(compareTags({ key: 'o' }, { key: aMinor })[0]).toMatchObject({ status: 'mismatch', note: 'Unrecognized key' })
+  })
+
+  it('should skip values that have not been detected yet', () => {
+    const comparisons = compareTags({ bpm: 128, key: 'Am' }, { key: aMinor })
+
+    expect(comparisons.map(c => c.field)).toEqual(['key'])
+  })
+})
@@ -0,0 +1,71 @@
+import { describe, it, expect } from 'vitest'
+import { TapTempo, applyTempoOverride } from '../tapTempo'
+import type { AnalysisResult } from '../../types'
+
+// Tap times in milliseconds for a run of evenly spaced taps
+function tapAll(tapTempo: TapTempo, times: number[]) {
+  return times.map(time => tapTempo.tap(time)).pop()
+}
+
+const result: AnalysisResult = {
+  key: { keyName: 'A Minor', keySignature: 'Am', confidence: 0.8, mode: 'minor' },
+  bpm: { bpm: 174, preciseBpm: 174.21, confidence: 0.6, detectedBeats: 300 },
+  confidence: { overall: 0.7, key: 0.8, bpm: 0.6 },
+  processingTime: 100
+}
+
+describe('TapTempo', () => {
+  it('should average the intervals between taps', () => {
+    const tapTempo = new TapTempo()
+
+    expect(tapTempo.tap(1000)).toBeNull()
+    expect(tapAll(tapTempo, [1500, 2010, 2500, 3000])).toEqual({ bpm: 120, taps: 5 })
+  })
+
+  it('should ignore missed and doubled taps', () => {
+    const tapTempo = new TapTempo()
+    // A missed tap at 2000 and an extra tap at 3250
+    const reading = tapAll(tapTempo, [0, 500, 1000, 1500, 2500, 3000, 3250, 3500, 4000])
+
+    expect(reading).toEqual({ bpm: 120, taps: 9 })
+  })
+
+  it('should start over after a pause', () => {
+    const tapTempo = new TapTempo({ resetAfterMs: 2000 })
+    tapAll(tapTempo, [0, 500, 1000])
+
+    expect(tapTempo.tap(5000)).toBeNull()
+    expect(tapTempo.tap(5400)).toEqual({ bpm: 150, taps: 2 })
+  })
+
+  it('should follow the most recent taps', () => {
+    const tapTempo = new TapTempo({ maxTaps: 4 })
+    tapAll(tapTempo, [0, 600, 1200, 1800])
+
+    expect(tapAll(tapTempo, [2300, 2800, 3300])).toEqual({ bpm: 120, taps: 7 })
+  })
+
+  it('should forget taps on reset', () => {
+    const tapTempo = new TapTempo()
+    tapAll(tapTempo, [0, 500])
+    tapTempo.reset()
+
+    expect(tapTempo.tap(700)).toBeNull()
+  })
+})
+
+describe('applyTempoOverride', () => {
+  it('should replace the tempo and keep the detected one', () => {
+    const overridden = applyTempoOverride(result, 87)
+
+    expect(overridden.bpm).toMatchObject({ bpm: 87, preciseBpm: undefined, detected: { bpm: 174, preciseBpm: 174.21 } })
+    expect(overridden.bpm.confidence).toBe(0.6)
+    expect(applyTempoOverride(overridden, 86).bpm.detected).toEqual({ bpm: 174, preciseBpm: 174.21 })
+  })
+
+  it('should restore the detected tempo', () => {
+    const restored = applyTempoOverride(applyTempoOverride(result, 87), null)
+
+    expect(restored.bpm).toEqual(result.bpm)
+  })
+})
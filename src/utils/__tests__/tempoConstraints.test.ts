@@ -0,0 +1,65 @@
+import { describe, it, expect } from 'vitest'
+import {
+  getTempoConstraints,
+  resolveTempoRange,
+  constrainProfile,
+  preferTargetTempo,
+  getTargetPrior,
+  matchesTempoConstraints
+} from '../tempoConstraints'
+import { GENRE_PROFILES } from '../genreProfiles'
+
+describe('tempoConstraints', () => {
+  describe('getTempoConstraints', () => {
+    it('should keep only the constraints that are set', () => {
+      expect(getTempoConstraints({})).toEqual({})
+      expect(getTempoConstraints({ minBPM: 160, maxBPM: undefined, targetBPM: 174 }))
+        .toEqual({ minBPM: 160, targetBPM: 174 })
+    })
+
+    it('should reject unusable ranges', () => {
+      expect(() => getTempoConstraints({ minBPM: 180, maxBPM: 160 })).toThrow('minBPM must be lower than maxBPM')
+      expect(() => getTempoConstraints({ maxBPM: 400 })).toThrow('maxBPM must be between 30 and 300 BPM')
+      expect(() => getTempoConstraints({ targetBPM: NaN })).toThrow('targetBPM must be between')
+    })
+  })
+
+  it('should fill in missing bounds from the default range', () => {
+    expect(resolveTempoRange({})).toEqual({ min: 60, max: 200 })
+    expect(resolveTempoRange({ minBPM: 160 })).toEqual({ min: 160, max: 200 })
+    expect(resolveTempoRange({ maxBPM: 50 })).toEqual({ min: 50, max: 50 })
+    expect(resolveTempoRange({ minBPM: 220 }, { min: 60, max: 200 })).toEqual({ min: 220, max: 220 })
+  })
+
+  it('should replace the genre range with the user range', () => {
+    const constrained = constrainProfile(GENRE_PROFILES.hipHop, { minBPM: 160, maxBPM: 180 })
+
+    expect(constrained.tempoRange).toEqual({ min: 160, max: 180 })
+    expect(constrained.keyPrior).toBe(GENRE_PROFILES.hipHop.keyPrior)
+    expect(constrainProfile(GENRE_PROFILES.none, { targetBPM: 90 })).toBe(GENRE_PROFILES.none)
+  })
+
+  it('should pick the octave closest to the target within the range', () => {
+    const range = { min: 60, max: 200 }
+
+    expect(preferTargetTempo(87, range, 170)).toBe(174)
+    expect(preferTargetTempo(174, range, 90)).toBe(87)
+    expect(preferTargetTempo(120, range, 120)).toBe(120)
+    expect(preferTargetTempo(87, { min: 60, max: 150 }, 170)).toBe(87)
+    expect(preferTargetTempo(87, range)).toBe(87)
+  })
+
+  it('should weight tempos by their distance from the target', () => {
+    expect(getTargetPrior(174, 174)).toBe(2)
+    expect(getTargetPrior(87, 174)).toBeLessThan(getTargetPrior(150, 174))
+    expect(getTargetPrior(87, 174)).toBeGreaterThan(1)
+    expect(getTargetPrior(87)).toBe(1)
+  })
+
+  it('should match results detected with the same constraints', () => {
+    expect(matchesTempoConstraints({}, {})).toBe(true)
+    expect(matchesTempoConstraints({ tempoConstraints: { minBPM: 160 } }, { minBPM: 160 })).toBe(true)
+    expect(matchesTempoConstraints({}, { targetBPM: 174 })).toBe(false)
+    expect(matchesTempoConstraints({ tempoConstraints: { minBPM: 160 } }, {})).toBe(false)
+  })
+})
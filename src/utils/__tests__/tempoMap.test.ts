@@ -0,0 +1,68 @@
+import { describe, it, expect } from 'vitest'
+import { buildTempoMap, getTempoAt } from '../tempoMap'
+
+// Evenly spaced beats at a tempo, starting from a given time
+const beatsAt = (bpm: number, count: number, start = 0) =>
+  Array.from({ length: count }, (_, i) => start + i * (60 / bpm))
+
+describe('buildTempoMap', () => {
+  it('should return a single steady segment for constant tempo', () => {
+    const tempoMap = buildTempoMap(beatsAt(120, 64))!
+
+    expect(tempoMap.segments).toHaveLength(1)
+    expect(tempoMap.segments[0]).toMatchObject({ start: 0, bpm: 120 })
+    expect(tempoMap.segments[0].end).toBeCloseTo(31.5, 2)
+    expect(tempoMap.segments[0].confidence).toBeCloseTo(1, 2)
+    expect(tempoMap.isSteady).toBe(true)
+    expect(tempoMap.variation).toBe(0)
+  })
+
+  it('should split the map where the tempo changes', () => {
+    const first = beatsAt(90, 48)
+    const second = beatsAt(128, 64, first[first.length - 1] + 60 / 128)
+    const tempoMap = buildTempoMap([...first, ...second])!
+
+    expect(tempoMap.segments.map(s => Math.round(s.bpm))).toEqual([90, 128])
+    expect(tempoMap.isSteady).toBe(false)
+    expect(tempoMap.variation).toBeCloseTo(38, 0)
+    expect(tempoMap.segments[1].start).toBeGreaterThan(tempoMap.segments[0].start)
+  })
+
+  it('should tolerate small jitter between beats', () => {
+    const beats = beatsAt(100, 64).map((t, i) => t + (i % 2 === 0 ? 0.005 : -0.005))
+    const tempoMap = buildTempoMap(beats)!
+
+    expect(tempoMap.isSteady).toBe(true)
+    expect(tempoMap.segments[0].bpm).toBeCloseTo(100, 0)
+    expect(tempoMap.segments[0].confidence).toBeGreaterThan(0.5)
+    expect(tempoMap.segments[0].confidence).toBeLessThan(1)
+  })
+
+  it('should flag a gradual tempo drift as unsteady', () => {
+    const beats = [0]
+    for (let i = 1; i < 128; i++) {
+      const bpm = 110 + (i / 128) * 20 // 110 -> 130 BPM
+      beats.push(beats[i - 1] + 60 / bpm)
+    }
+    const tempoMap = buildTempoMap(beats)!
+
+    expect(tempoMap.segments.length).toBeGreaterThan(1)
+    expect(tempoMap.isSteady).toBe(false)
+  })
+
+  it('should return undefined when there are too few beats', () => {
+    expect(buildTempoMap([0, 0.5, 1])).toBeUndefined()
+  })
+})
+
+describe('getTempoAt', () => {
+  it('should find the segment covering a time', () => {
+    const first = beatsAt(90, 48)
+    const second = beatsAt(128, 64, first[first.length - 1] + 60 / 128)
+    const tempoMap = buildTempoMap([...first, ...second])!
+
+    expect(Math.round(getTempoAt(tempoMap, 5)!.bpm)).toBe(90)
+    expect(Math.round(getTempoAt(tempoMap, 40)!.bpm)).toBe(128)
+    expect(getTempoAt(tempoMap, 1000)).toBeUndefined()
+  })
+})
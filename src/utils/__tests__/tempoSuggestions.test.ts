@@ -3,7 +3,8 @@ import {
   generateTempoSuggestions, 
   getSimpleSuggestionMessage, 
   isTypicalHipHopBPM,
-  getBPMEducationalTip
+  getBPMEducationalTip,
+  findMatchingSuggestion
 } from '../tempoSuggestions'
 
 describe('tempoSuggestions', () => {
@@ -93,6 +94,40 @@ describe('tempoSuggestions', () => {
     })
   })
 
+  describe('genre profiles', () => {
+    it('should suggest double-time drum & bass tempos', () => {
+      const result = generateTempoSuggestions(87, 0.6, 'drumAndBass')
+
+      expect(result.suggestions.find(s => s.label === 'Double-time')?.bpm).toBe(174)
+      expect(result.suggestions.find(s => s.label === 'Half-time')).toBeUndefined()
+      expect(result.genreContext).toContain('Drum & bass')
+      expect(getSimpleSuggestionMessage(87, 0.6, 'drumAndBass')).toContain('174 BPM (double-time)')
+    })
+
+    it('should not suggest triplet tempos for straight four-on-the-floor genres', () => {
+      const result = generateTempoSuggestions(192, 0.5, 'houseTechno')
+
+      expect(result.suggestions.find(s => s.label === 'Triplet-based')).toBeUndefined()
+    })
+
+    it('should only offer the detected tempo without a profile', () => {
+      const result = generateTempoSuggestions(160, 0.5, 'none')
+
+      expect(result.suggestions.map(s => s.label)).toEqual(['Detected'])
+      expect(getSimpleSuggestionMessage(160, 0.5, 'none')).toBeNull()
+    })
+  })
+
+  describe('findMatchingSuggestion', () => {
+    it('should match the suggestion closest to a tapped tempo', () => {
+      const { suggestions } = generateTempoSuggestions(174, 0.5, 'hipHop')
+
+      expect(findMatchingSuggestion(suggestions, 86.4)?.label).toBe('Half-time')
+      expect(findMatchingSuggestion(suggestions, 176)?.label).toBe('Detected')
+      expect(findMatchingSuggestion(suggestions, 140)).toBeNull()
+    })
+  })
+
   describe('getSimpleSuggestionMessage', () => {
     it('should return null for high confidence', () => {
       const result = getSimpleSuggestionMessage(120, 0.9)
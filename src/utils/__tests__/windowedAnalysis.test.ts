@@ -0,0 +1,114 @@
+import { describe, it, expect } from 'vitest'
+import { WindowedAnalysis } from '../windowedAnalysis'
+import { buildBeatGrid } from '../beatGrid'
+import type { BPMResult } from '../../types'
+
+const SAMPLE_RATE = 8000
+
+// Melody of quarter-second sine notes, repeated to fill the window
+const makeMelody = (frequencies: number[], seconds: number) => {
+  const signal = new Float32Array(Math.round(seconds * SAMPLE_RATE))
+  const noteLength = SAMPLE_RATE / 4
+  for (let i = 0; i < signal.length; i++) {
+    const frequency = frequencies[Math.floor(i / noteLength) % frequencies.length]
+    signal[i] = 0.5 * Math.sin(2 * Math.PI * frequency * i / SAMPLE_RATE)
+  }
+  return signal
+}
+
+const C_MAJOR_MELODY = [261.63, 329.63, 392.0, 523.25, 392.0, 329.63, 293.66, 349.23, 440.0, 493.88]
+const F_SHARP_MAJOR_MELODY = C_MAJOR_MELODY.map(frequency => frequency * 2 ** (6 / 12))
+
+// Beats every interval seconds from offset up to and including the end of the window
+const makeBPM = (bpm: number, seconds: number, offset = 0): BPMResult => {
+  const ticks: number[] = []
+  for (let time = offset; time <= seconds + 1e-9; time += 60 / bpm) {
+    ticks.push(time)
+  }
+  return { bpm, confidence: 0.8, detectedBeats: ticks.length, beatGrid: buildBeatGrid(ticks) }
+}
+
+describe('WindowedAnalysis', () => {
+  it('should join beat ticks across windows without doubling the boundary beat', () => {
+    const analysis = new WindowedAnalysis()
+    analysis.addWindow(new Float32Array(10 * SAMPLE_RATE), SAMPLE_RATE, makeBPM(120, 10))
+    analysis.addWindow(new Float32Array(10 * SAMPLE_RATE), SAMPLE_RATE, makeBPM(120, 10))
+
+    const bpm = analysis.getBPM()!
+
+    expect(analysis.getDuration()).toBe(20)
+    expect(bpm.bpm).toBe(120)
+    expect(bpm.detectedBeats).toBe(41)
+    expect(bpm.beatGrid?.beats[20]).toBeCloseTo(10)
+    expect(bpm.beatGrid?.beats[21]).toBeCloseTo(10.5)
+  })
+
+  it('should take the tempo from beat intervals rather than window estimates', () => {
+    const analysis = new WindowedAnalysis()
+    analysis.addWindow(new Float32Array(10 * SAMPLE_RATE), SAMPLE_RATE, { ...makeBPM(128, 10), bpm: 64 })
+    analysis.addWindow(new Float32Array(10 * SAMPLE_RATE), SAMPLE_RATE, makeBPM(128, 10, 0.2))
+
+    expect(analysis.getBPM()?.bpm).toBe(128)
+  })
+
+  it('should fall back to the duration-weighted median window tempo without beat ticks', () => {
+    const analysis = new WindowedAnalysis()
+    const withoutTicks = (bpm: number): BPMResult => ({ bpm, confidence: 0.5, detectedBeats: 0 })
+    analysis.addWindow(new Float32Array(30 * SAMPLE_RATE), SAMPLE_RATE, withoutTicks(100))
+    analysis.addWindow(new Float32Array(5 * SAMPLE_RATE), SAMPLE_RATE, withoutTicks(140))
+    analysis.addWindow(new Float32Array(5 * SAMPLE_RATE), SAMPLE_RATE, withoutTicks(141))
+
+    expect(analysis.getBPM()).toMatchObject({ bpm: 100, confidence: 0.5 })
+  })
+
+  it('should fold the combined tempo into the given range and towards the target', () => {
+    const ranged = new WindowedAnalysis('none', { minBPM: 160, maxBPM: 185 })
+    ranged.addWindow(new Float32Array(10 * SAMPLE_RATE), SAMPLE_RATE, makeBPM(87, 10))
+    expect(ranged.getBPM()?.bpm).toBe(174)
+
+    const targeted = new WindowedAnalysis('none', { targetBPM: 90 })
+    targeted.addWindow(new Float32Array(10 * SAMPLE_RATE), SAMPLE_RATE, makeBPM(174, 10))
+    expect(targeted.getBPM()?.bpm).toBe(87)
+  })
+
+  it('should fail to produce a result when no window had a tempo', () => {
+    const analysis = new WindowedAnalysis()
+    analysis.addWindow(makeMelody(C_MAJOR_MELODY, 5), SAMPLE_RATE)
+
+    expect(analysis.getBPM()).toBeUndefined()
+    expect(() => analysis.getResult()).toThrow('no tempo was found')
+  })
+
+  it('should detect the key from chroma summed over all windows', () => {
+    const analysis = new WindowedAnalysis()
+    analysis.addWindow(makeMelody(C_MAJOR_MELODY, 5), SAMPLE_RATE, makeBPM(120, 5))
+    analysis.addWindow(new Float32Array(5 * SAMPLE_RATE), SAMPLE_RATE, makeBPM(120, 5))
+    analysis.addWindow(makeMelody(C_MAJOR_MELODY, 5), SAMPLE_RATE, makeBPM(120, 5))
+
+    const result = analysis.getResult()
+
+    expect(result.key.keyName).toBe('C Major')
+    expect(result.key.confidence).toBeGreaterThan(0)
+    expect(result.confidence.overall).toBeCloseTo((result.key.confidence + result.bpm.confidence) / 2)
+  })
+
+  it('should report no key confidence for silence', () => {
+    const analysis = new WindowedAnalysis()
+    analysis.addWindow(new Float32Array(5 * SAMPLE_RATE), SAMPLE_RATE)
+
+    expect(analysis.getKey().confidence).toBe(0)
+  })
+
+  it('should follow key changes between windows', () => {
+    const analysis = new WindowedAnalysis()
+    analysis.addWindow(makeMelody(C_MAJOR_MELODY, 40), SAMPLE_RATE)
+    analysis.addWindow(makeMelody(F_SHARP_MAJOR_MELODY, 40), SAMPLE_RATE)
+
+    const segments = analysis.getKeySegments()
+
+    expect(segments).toHaveLength(2)
+    expect(segments[0]).toMatchObject({ keyName: 'C Major', start: 0 })
+    expect(segments[1]).toMatchObject({ keyName: 'F# Major', end: 80 })
+    expect(segments[1].start).toBeCloseTo(40, 0)
+  })
+})
@@ -0,0 +1,195 @@
+import { describe, it, expect, vi, afterEach } from 'vitest'
+import { WorkerPool, detectBPMInWorker, readLiveWindowInWorker } from '../workerPool'
+
+interface TestRequest {
+  type: 'RUN'
+  id?: number
+}
+
+interface TestReply {
+  type: 'DONE' | 'FAILED' | 'PROGRESS'
+  id?: number
+  progress?: number
+  error?: string
+}
+
+class FakeWorker extends EventTarget {
+  postMessage = vi.fn()
+  terminate = vi.fn()
+
+  get lastId(): number {
+    return this.postMessage.mock.lastCall?.[0].id
+  }
+
+  reply(data: Record<string, unknown>) {
+    this.dispatchEvent(new MessageEvent('message', { data: { id: this.lastId, ...data } }))
+  }
+}
+
+const createPool = (size = 1) => {
+  const workers: FakeWorker[] = []
+  const pool = new WorkerPool<TestRequest, TestReply>(
+    () => {
+      const worker = new FakeWorker()
+      workers.push(worker)
+      return worker as unknown as Worker
+    },
+    { progressType: 'PROGRESS', errorType: 'FAILED', size }
+  )
+  return { pool, workers }
+}
+
+// Let the pool hand out a worker before replying
+const tick = () => new Promise(resolve => setTimeout(resolve, 0))
+
+describe('WorkerPool', () => {
+  it('should forward progress and resolve with the final reply', async () => {
+    const { pool, workers } = createPool()
+    const onProgress = vi.fn()
+
+    const job = pool.run({ type: 'RUN' }, { onProgress })
+    await tick()
+    workers[0].reply({ type: 'PROGRESS', progress: 40 })
+    workers[0].reply({ type: 'DONE' })
+
+    await expect(job).resolves.toMatchObject({ type: 'DONE' })
+    expect(onProgress).toHaveBeenCalledWith(40)
+  })
+
+  it('should transfer buffers to the worker', async () => {
+    const { pool, workers } = createPool()
+    const buffer = new ArrayBuffer(8)
+
+    const job = pool.run({ type: 'RUN' }, { transfer: [buffer] })
+    await tick()
+    workers[0].reply({ type: 'DONE' })
+    await job
+
+    expect(workers[0].postMessage).toHaveBeenCalledWith({ type: 'RUN', id: expect.any(Number) }, [buffer])
+  })
+
+  it('should reject with the error a worker reports and reuse the worker', async () => {
+    const { pool, workers } = createPool()
+
+    const failing = pool.run({ type: 'RUN' })
+    await tick()
+    workers[0].reply({ type: 'FAILED', error: 'No audio' })
+    await expect(failing).rejects.toThrow('No audio')
+
+    const next = pool.run({ type: 'RUN' })
+    await tick()
+    workers[0].reply({ type: 'DONE' })
+    await expect(next).resolves.toMatchObject({ type: 'DONE' })
+    expect(workers).toHaveLength(1)
+  })
+
+  it('should queue jobs until a worker is free', async () => {
+    const { pool, workers } = createPool(1)
+
+    const first = pool.run({ type: 'RUN' })
+    const second = pool.run({ type: 'RUN' })
+    await tick()
+    expect(workers[0].postMessage).toHaveBeenCalledTimes(1)
+
+    workers[0].reply({ type: 'DONE' })
+    await first
+    await tick()
+    expect(workers[0].postMessage).toHaveBeenCalledTimes(2)
+
+    workers[0].reply({ type: 'DONE' })
+    await expect(second).resolves.toMatchObject({ type: 'DONE' })
+  })
+
+  it('should terminate the worker when a job is cancelled and start a fresh one for the next job', async () => {
+    const { pool, workers } = createPool()
+    const controller = new AbortController()
+
+    const job = pool.run({ type: 'RUN' }, { signal: controller.signal })
+    await tick()
+    controller.abort()
+
+    await expect(job).rejects.toThrow('cancelled')
+    expect(workers[0].terminate).toHaveBeenCalled()
+
+    const next = pool.run({ type: 'RUN' })
+    await tick()
+    workers[1].reply({ type: 'DONE' })
+    await expect(next).resolves.toMatchObject({ type: 'DONE' })
+  })
+
+  it('should reject when the worker itself crashes', async () => {
+    const { pool, workers } = createPool()
+
+    const job = pool.run({ type: 'RUN' })
+    await tick()
+    workers[0].dispatchEvent(new Event('error', { cancelable: true }))
+
+    await expect(job).rejects.toThrow('Analysis worker failed')
+    expect(workers[0].terminate).toHaveBeenCalled()
+  })
+
+  it('should ignore replies meant for other jobs', async () => {
+    const { pool, workers } = createPool()
+
+    const job = pool.run({ type: 'RUN' })
+    await tick()
+    workers[0].dispatchEvent(new MessageEvent('message', { data: { id: -1, type: 'DONE' } }))
+    workers[0].reply({ type: 'FAILED', error: 'Own reply' })
+
+    await expect(job).rejects.toThrow('Own reply')
+  })
+})
+
+describe('detectBPMInWorker', () => {
+  const originalWorker = globalThis.Worker
+
+  afterEach(() => {
+    globalThis.Worker = originalWorker
+  })
+
+  it('should send a copy of the channel data so the caller keeps its buffer', async () => {
+    const worker = new FakeWorker()
+    globalThis.Worker = vi.fn(() => worker) as unknown as typeof Worker
+    const channel = new Float32Array([0.1, 0.2, 0.3])
+    const audioBuffer = {
+      sampleRate: 16000,
+      length: channel.length,
+      numberOfChannels: 1,
+      getChannelData: () => channel
+    } as unknown as AudioBuffer
+
+    const detection = detectBPMInWorker(audioBuffer)
+    await tick()
+    worker.reply({ type: 'BPM_RESULT', result: { bpm: 120, confidence: 0.9, detectedBeats: 40 } })
+
+    await expect(detection).resolves.toMatchObject({ bpm: 120 })
+    const [message, transfer] = worker.postMessage.mock.lastCall!
+    expect(message).toMatchObject({ type: 'DETECT_BPM', audioBufferData: { sampleRate: 16000, numberOfChannels: 1 } })
+    expect(transfer[0]).toBe(message.audioBufferData.channelData[0].buffer)
+    expect(transfer[0]).not.toBe(channel.buffer)
+  })
+})
+
+describe('readLiveWindowInWorker', () => {
+  const originalWorker = globalThis.Worker
+
+  afterEach(() => {
+    globalThis.Worker = originalWorker
+  })
+
+  it('should hand the snapshot samples over to the live worker', async () => {
+    const worker = new FakeWorker()
+    globalThis.Worker = vi.fn(() => worker) as unknown as typeof Worker
+    const samples = new Float32Array([0.1, 0.2, 0.3])
+    const liveWindow = { tempo: null, chroma: { values: new Array(12).fill(0), confidence: 0 }, bufferedSeconds: 1 }
+
+    const reading = readLiveWindowInWorker({ samples, sampleRate: 11025, tempoConstraints: { minBPM: 160 } })
+    await tick()
+    worker.reply({ type: 'LIVE_RESULT', result: liveWindow })
+
+    await expect(reading).resolves.toEqual(liveWindow)
+    const [message, transfer] = worker.postMessage.mock.lastCall!
+    expect(message).toMatchObject({ type: 'READ_LIVE_WINDOW', snapshot: { sampleRate: 11025, tempoConstraints: { minBPM: 160 } } })
+    expect(transfer).toEqual([samples.buffer])
+  })
+})
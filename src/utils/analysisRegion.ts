@@ -0,0 +1,54 @@
+// Analysis regions: a stretch of a track analyzed on its own, such as a loop to sample or the track after a long intro
+
+import type { AnalysisRegion } from '../types'
+import { fromWorkerAudioData } from '../workers/audioData'
+
+// Shorter regions hold too few beats for a tempo or too few notes for a key
+export const MIN_REGION_SECONDS = 2
+
+/**
+ * Clamp a region to the track and round it to hundredths of a second, checking it is long enough to analyze
+ */
+export function getAnalysisRegion(region: AnalysisRegion, duration: number): AnalysisRegion {
+  const start = Math.round(Math.max(0, region.start) * 100) / 100
+  const end = Math.round(Math.min(duration, region.end) * 100) / 100
+
+  if (!Number.isFinite(start) || !Number.isFinite(end) || end - start < MIN_REGION_SECONDS) {
+    throw new Error(`Region must cover at least ${MIN_REGION_SECONDS} seconds of the track`)
+  }
+
+  return { start, end }
+}
+
+/**
+ * The samples of a region as an audio buffer, sharing memory with the track
+ */
+export function sliceAudioBuffer(audioBuffer: AudioBuffer, region: AnalysisRegion): AudioBuffer {
+  const from = Math.floor(region.start * audioBuffer.sampleRate)
+  const to = Math.min(audioBuffer.length, Math.ceil(region.end * audioBuffer.sampleRate))
+
+  const channelData: Float32Array[] = []
+  for (let channel = 0; channel < audioBuffer.numberOfChannels; channel++) {
+    channelData.push(audioBuffer.getChannelData(channel).subarray(from, to))
+  }
+
+  return fromWorkerAudioData({
+    sampleRate: audioBuffer.sampleRate,
+    length: to - from,
+    numberOfChannels: audioBuffer.numberOfChannels,
+    channelData
+  })
+}
+
+/**
+ * Region as "m:ss.s–m:ss.s"
+ */
+export function formatRegion(region: AnalysisRegion): string {
+  return `${formatRegionTime(region.start)}–${formatRegionTime(region.end)}`
+}
+
+function formatRegionTime(seconds: number): string {
+  const minutes = Math.floor(seconds / 60)
+  const rest = (seconds - minutes * 60).toFixed(1)
+  return `${minutes}:${rest.padStart(4, '0')}`
+}
@@ -1,13 +1,17 @@
 // Audio analysis caching system for performance optimization
+// Results are keyed by a SHA-256 content digest and persisted through a pluggable storage backend
 
-import type { AnalysisResult } from '../types'
+import type { AnalysisRegion, AnalysisResult, AnalysisVersions } from '../types'
+import { ANALYSIS_VERSIONS } from '../types'
+import { createCacheBackend } from './cacheStorage'
+import type { CacheBackend, CacheEntry } from './cacheStorage'
 
-interface CacheEntry {
-  result: AnalysisResult
-  timestamp: number
-  fileHash: string
+export interface CachedAnalysis {
+  fileName: string
   fileSize: number
   lastModified: number
+  timestamp: number
+  result: AnalysisResult
 }
 
 interface CacheStats {
@@ -17,10 +21,28 @@ interface CacheStats {
   memoryUsage: number
 }
 
+interface AudioCacheOptions {
+  backend?: CacheBackend
+  maxEntries?: number
+  maxAgeHours?: number
+  versions?: AnalysisVersions
+}
+
+// Files up to this size are digested in full, larger ones from evenly spaced blocks
+const FULL_DIGEST_LIMIT = 16 * 1024 * 1024 // 16MB
+const SAMPLE_BLOCK_SIZE = 64 * 1024 // 64KB
+const SAMPLE_BLOCK_COUNT = 16
+
+const CLEANUP_INTERVAL_MS = 5 * 60 * 1000 // Every 5 minutes
+
 export class AudioCache {
   private cache = new Map<string, CacheEntry>()
+  private digests = new WeakMap<File, Promise<string>>()
+  private backend: CacheBackend
+  private versions: AnalysisVersions
   private maxEntries: number
   private maxAge: number // in milliseconds
+  private ready: Promise<void>
   private stats: CacheStats = {
     hits: 0,
     misses: 0,
@@ -28,179 +50,130 @@ export class AudioCache {
     memoryUsage: 0
   }
 
-  constructor(maxEntries = 50, maxAgeHours = 24) {
+  // Entries persist across reloads, so they are kept longer than a session
+  constructor({
+    backend = createCacheBackend(),
+    maxEntries = 500,
+    maxAgeHours = 30 * 24,
+    versions = ANALYSIS_VERSIONS
+  }: AudioCacheOptions = {}) {
+    this.backend = backend
+    this.versions = versions
     this.maxEntries = maxEntries
     this.maxAge = maxAgeHours * 60 * 60 * 1000
+    this.ready = this.load()
   }
 
   /**
-   * Generate a cache key from file properties
+   * Wait until persisted entries have been loaded
    */
-  private generateCacheKey(file: File): string {
-    return `${file.name}_${file.size}_${file.lastModified}`
-  }
-
-  /**
-   * Generate a simple hash from file content (first and last chunks)
-   */
-  private async generateFileHash(file: File): Promise<string> {
-    const chunkSize = 8192 // 8KB chunks
-    const chunks: ArrayBuffer[] = []
-
-    // Read first chunk
-    if (file.size > 0) {
-      const firstChunk = file.slice(0, Math.min(chunkSize, file.size))
-      chunks.push(await firstChunk.arrayBuffer())
-    }
-
-    // Read last chunk if file is large enough
-    if (file.size > chunkSize) {
-      const lastChunk = file.slice(Math.max(0, file.size - chunkSize))
-      chunks.push(await lastChunk.arrayBuffer())
-    }
-
-    // Create simple hash from chunks
-    let hash = 0
-    for (const chunk of chunks) {
-      const view = new Uint8Array(chunk)
-      for (let i = 0; i < view.length; i++) {
-        hash = ((hash << 5) - hash + view[i]) & 0xffffffff
-      }
-    }
-
-    return hash.toString(36)
+  whenReady(): Promise<void> {
+    return this.ready
   }
 
   /**
-   * Check if a cached result exists for the file
+   * Check if a cached result exists for the file, or for a region of it
    */
-  async has(file: File): Promise<boolean> {
-    const key = this.generateCacheKey(file)
-    const entry = this.cache.get(key)
-
-    if (!entry) {
-      return false
-    }
-
-    // Check if entry is expired
-    if (Date.now() - entry.timestamp > this.maxAge) {
-      this.cache.delete(key)
-      this.updateStats()
-      return false
-    }
-
-    // Verify file hasn't changed by comparing hash
-    try {
-      const currentHash = await this.generateFileHash(file)
-      if (currentHash !== entry.fileHash) {
-        this.cache.delete(key)
-        this.updateStats()
-        return false
-      }
-    } catch (error) {
-      // If we can't generate hash, assume file changed
-      this.cache.delete(key)
-      this.updateStats()
-      return false
-    }
-
-    return true
+  async has(file: File, region?: AnalysisRegion): Promise<boolean> {
+    return (await this.lookup(file, region)) !== null
   }
 
   /**
-   * Get cached analysis result
+   * Get cached analysis result, for the whole file unless a region is given
    */
-  async get(file: File): Promise<AnalysisResult | null> {
-    const key = this.generateCacheKey(file)
-    const entry = this.cache.get(key)
+  async get(file: File, region?: AnalysisRegion): Promise<AnalysisResult | null> {
+    const entry = await this.lookup(file, region)
 
     if (!entry) {
       this.stats.misses++
       return null
     }
 
-    // Check if entry is expired
-    if (Date.now() - entry.timestamp > this.maxAge) {
-      this.cache.delete(key)
-      this.updateStats()
-      this.stats.misses++
-      return null
-    }
-
-    // Verify file hasn't changed
-    try {
-      const currentHash = await this.generateFileHash(file)
-      if (currentHash !== entry.fileHash) {
-        this.cache.delete(key)
-        this.updateStats()
-        this.stats.misses++
-        return null
-      }
-    } catch (error) {
-      this.cache.delete(key)
-      this.updateStats()
-      this.stats.misses++
-      return null
-    }
-
     this.stats.hits++
     return entry.result
   }
 
   /**
-   * Store analysis result in cache
+   * Store analysis result in cache, apart from the whole file's when it is for a region
    */
-  async set(file: File, result: AnalysisResult): Promise<void> {
-    const key = this.generateCacheKey(file)
+  async set(file: File, result: AnalysisResult, region?: AnalysisRegion): Promise<void> {
+    await this.ready
 
     try {
-      const fileHash = await this.generateFileHash(file)
-      
+      const key = await this.getKey(file, region)
+
       const entry: CacheEntry = {
+        key,
         result,
+        versions: { ...this.versions },
         timestamp: Date.now(),
-        fileHash,
+        fileName: file.name,
         fileSize: file.size,
         lastModified: file.lastModified
       }
 
       // Remove oldest entries if cache is full
-      if (this.cache.size >= this.maxEntries) {
+      if (!this.cache.has(key) && this.cache.size >= this.maxEntries) {
         this.evictOldest()
       }
 
       this.cache.set(key, entry)
       this.updateStats()
+      await this.backend.put(entry)
     } catch (error) {
       console.warn('Failed to cache analysis result:', error)
     }
   }
 
+  /**
+   * List all cached results that have not expired, oldest first
+   */
+  getEntries(): CachedAnalysis[] {
+    return Array.from(this.cache.values())
+      .filter(entry => this.isValid(entry))
+      .sort((a, b) => a.timestamp - b.timestamp)
+      .map(({ fileName, fileSize, lastModified, timestamp, result }) => ({
+        fileName,
+        fileSize,
+        lastModified,
+        timestamp,
+        result
+      }))
+  }
+
   /**
    * Clear all cached entries
    */
-  clear(): void {
+  async clear(): Promise<void> {
     this.cache.clear()
     this.updateStats()
     this.stats.hits = 0
     this.stats.misses = 0
+
+    try {
+      await this.backend.clear()
+    } catch (error) {
+      console.warn('Failed to clear persisted analysis cache:', error)
+    }
   }
 
   /**
    * Remove expired entries
    */
   cleanup(): void {
-    const now = Date.now()
-    const keysToDelete: string[] = []
-
     for (const [key, entry] of this.cache.entries()) {
-      if (now - entry.timestamp > this.maxAge) {
-        keysToDelete.push(key)
+      if (!this.isValid(entry)) {
+        this.remove(key)
       }
     }
+  }
 
-    keysToDelete.forEach(key => this.cache.delete(key))
-    this.updateStats()
+  /**
+   * Remove expired entries periodically, until the returned function is called
+   */
+  startCleanup(intervalMs: number = CLEANUP_INTERVAL_MS): () => void {
+    const interval = setInterval(() => this.cleanup(), intervalMs)
+    return () => clearInterval(interval)
   }
 
   /**
@@ -218,12 +191,99 @@ export class AudioCache {
     return total > 0 ? this.stats.hits / total : 0
   }
 
+  /**
+   * Load persisted entries, dropping expired ones and results from older detector versions
+   */
+  private async load(): Promise<void> {
+    try {
+      const entries = await this.backend.getAll()
+
+      for (const entry of entries) {
+        if (!this.isValid(entry)) {
+          await this.backend.delete(entry.key)
+        } else if (!this.cache.has(entry.key)) {
+          this.cache.set(entry.key, entry)
+        }
+      }
+
+      while (this.cache.size > this.maxEntries) {
+        this.evictOldest()
+      }
+      this.updateStats()
+    } catch (error) {
+      console.warn('Failed to load persisted analysis cache:', error)
+    }
+  }
+
+  /**
+   * Find a valid entry for the file, removing it if it has expired or is outdated
+   */
+  private async lookup(file: File, region?: AnalysisRegion): Promise<CacheEntry | null> {
+    await this.ready
+
+    let key: string
+    try {
+      key = await this.getKey(file, region)
+    } catch {
+      // If we can't read the file, treat it as uncached
+      return null
+    }
+
+    const entry = this.cache.get(key)
+    if (!entry) {
+      return null
+    }
+
+    if (!this.isValid(entry)) {
+      this.remove(key)
+      return null
+    }
+
+    return entry
+  }
+
+  /**
+   * Regions of a file are stored under its digest followed by the region's bounds
+   */
+  private async getKey(file: File, region?: AnalysisRegion): Promise<string> {
+    const digest = await this.getDigest(file)
+    return region ? `${digest}@${region.start}-${region.end}` : digest
+  }
+
+  /**
+   * Digest each File object once, since get and set usually follow each other
+   */
+  private getDigest(file: File): Promise<string> {
+    let digest = this.digests.get(file)
+    if (!digest) {
+      digest = computeFileDigest(file)
+      digest.catch(() => this.digests.delete(file))
+      this.digests.set(file, digest)
+    }
+    return digest
+  }
+
+  private isValid(entry: CacheEntry): boolean {
+    const isFresh = Date.now() - entry.timestamp <= this.maxAge
+    const isCurrent = (Object.keys(this.versions) as Array<keyof AnalysisVersions>)
+      .every(algorithm => entry.versions?.[algorithm] === this.versions[algorithm])
+    return isFresh && isCurrent
+  }
+
+  private remove(key: string): void {
+    this.cache.delete(key)
+    this.updateStats()
+    this.backend.delete(key).catch(error => {
+      console.warn('Failed to remove persisted cache entry:', error)
+    })
+  }
+
   /**
    * Evict oldest entries when cache is full
    */
   private evictOldest(): void {
     let oldestKey: string | null = null
-    let oldestTimestamp = Date.now()
+    let oldestTimestamp = Infinity
 
     for (const [key, entry] of this.cache.entries()) {
       if (entry.timestamp < oldestTimestamp) {
@@ -233,7 +293,7 @@ export class AudioCache {
     }
 
     if (oldestKey) {
-      this.cache.delete(oldestKey)
+      this.remove(oldestKey)
     }
   }
 
@@ -242,7 +302,7 @@ export class AudioCache {
    */
   private updateStats(): void {
     this.stats.totalEntries = this.cache.size
-    
+
     // Estimate memory usage (rough calculation)
     let memoryUsage = 0
     for (const entry of this.cache.values()) {
@@ -253,10 +313,38 @@ export class AudioCache {
   }
 }
 
-// Global cache instance
-export const audioCache = new AudioCache()
+/**
+ * Compute a SHA-256 digest of the file content, sampling blocks of large files
+ */
+async function computeFileDigest(file: File): Promise<string> {
+  let data: Uint8Array
+
+  if (file.size <= FULL_DIGEST_LIMIT) {
+    data = new Uint8Array(await file.arrayBuffer())
+  } else {
+    // The first and last blocks are always included, and the size guards against truncation
+    data = new Uint8Array(8 + SAMPLE_BLOCK_SIZE * SAMPLE_BLOCK_COUNT)
+    new DataView(data.buffer).setFloat64(0, file.size)
+
+    for (let i = 0; i < SAMPLE_BLOCK_COUNT; i++) {
+      const start = Math.round((file.size - SAMPLE_BLOCK_SIZE) * i / (SAMPLE_BLOCK_COUNT - 1))
+      const block = await file.slice(start, start + SAMPLE_BLOCK_SIZE).arrayBuffer()
+      data.set(new Uint8Array(block), 8 + SAMPLE_BLOCK_SIZE * i)
+    }
+  }
+
+  const digest = await crypto.subtle.digest('SHA-256', data)
+  return Array.from(new Uint8Array(digest), byte => byte.toString(16).padStart(2, '0')).join('')
+}
 
-// Cleanup expired entries periodically
-setInterval(() => {
-  audioCache.cleanup()
-}, 5 * 60 * 1000) // Every 5 minutes
\ No newline at end of file
+let sharedCache: AudioCache | null = null
+
+/**
+ * The app-wide cache, created on first use so that importing the analysis engine opens no storage
+ */
+export function getAudioCache(): AudioCache {
+  if (!sharedCache) {
+    sharedCache = new AudioCache()
+  }
+  return sharedCache
+}
@@ -0,0 +1,517 @@
+// Built-in decoders for PCM WAV and FLAC that do not depend on decodeAudioData,
+// so audio can be decoded in workers, in tests and outside the browser
+
+import { fromWorkerAudioData } from '../workers/audioData'
+
+const WAVE_FORMAT_PCM = 0x0001
+const WAVE_FORMAT_IEEE_FLOAT = 0x0003
+const WAVE_FORMAT_EXTENSIBLE = 0xfffe
+
+const FLAC_SAMPLE_SIZES = [0, 8, 12, 0, 16, 20, 24, 32]
+
+interface StreamInfo {
+  sampleRate: number
+  channels: number
+  bitsPerSample: number
+  totalSamples: number
+}
+
+/**
+ * Check whether a format can be decoded without the Web Audio API
+ */
+export function hasBuiltInDecoder(format: string): boolean {
+  return format === 'wav' || format === 'flac'
+}
+
+/**
+ * Decode a WAV or FLAC file into the AudioBuffer shape the detectors consume
+ */
+export function decodeAudio(data: ArrayBuffer, format: string): AudioBuffer {
+  const bytes = new Uint8Array(data)
+
+  switch (format) {
+    case 'wav':
+      return decodeWAV(bytes)
+    case 'flac':
+      return decodeFLAC(bytes)
+    default:
+      throw new Error(`No built-in decoder for ${format.toUpperCase()} files`)
+  }
+}
+
+/**
+ * Decode 8, 16, 24 or 32-bit integer and 32 or 64-bit float WAV, including WAVE_FORMAT_EXTENSIBLE
+ */
+export function decodeWAV(bytes: Uint8Array): AudioBuffer {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength)
+  if (bytes.length < 12 || readASCII(bytes, 0) !== 'RIFF' || readASCII(bytes, 8) !== 'WAVE') {
+    throw new Error('Not a valid WAV file')
+  }
+
+  let format: { formatTag: number; channels: number; sampleRate: number; blockAlign: number; bitsPerSample: number } | null = null
+  let offset = 12
+
+  while (offset + 8 <= bytes.length) {
+    const id = readASCII(bytes, offset)
+    const size = view.getUint32(offset + 4, true)
+    const body = offset + 8
+
+    if (id === 'fmt ') {
+      let formatTag = view.getUint16(body, true)
+      // Extensible files carry the real format code at the start of the SubFormat GUID
+      if (formatTag === WAVE_FORMAT_EXTENSIBLE && size >= 26) {
+        formatTag = view.getUint16(body + 24, true)
+      }
+      format = {
+        formatTag,
+        channels: view.getUint16(body + 2, true),
+        sampleRate: view.getUint32(body + 4, true),
+        blockAlign: view.getUint16(body + 12, true),
+        bitsPerSample: view.getUint16(body + 14, true)
+      }
+    } else if (id === 'data') {
+      if (!format) break
+
+      // Streamed recordings may leave the data size unset
+      const end = size === 0 || size === 0xffffffff ? bytes.length : Math.min(bytes.length, body + size)
+      return fromWorkerAudioData(readWAVSamples(view, body, end, format))
+    }
+
+    offset = body + size + (size % 2)
+  }
+
+  throw new Error(format ? 'WAV file has no audio data' : 'WAV file has no format chunk')
+}
+
+function readWAVSamples(
+  view: DataView,
+  start: number,
+  end: number,
+  format: { formatTag: number; channels: number; sampleRate: number; blockAlign: number; bitsPerSample: number }
+) {
+  const { formatTag, channels, sampleRate, blockAlign } = format
+  const bytesPerSample = blockAlign / channels
+
+  if (channels === 0 || !Number.isInteger(bytesPerSample)) {
+    throw new Error('WAV file has an invalid block alignment')
+  }
+
+  const readSample = getWAVSampleReader(view, formatTag, bytesPerSample)
+  const length = Math.floor((end - start) / blockAlign)
+  const channelData = Array.from({ length: channels }, () => new Float32Array(length))
+
+  for (let frame = 0; frame < length; frame++) {
+    const frameOffset = start + frame * blockAlign
+    for (let channel = 0; channel < channels; channel++) {
+      channelData[channel][frame] = readSample(frameOffset + channel * bytesPerSample)
+    }
+  }
+
+  return { sampleRate, length, numberOfChannels: channels, channelData }
+}
+
+/**
+ * Samples are left-justified in their container, so the container size sets the scale
+ */
+function getWAVSampleReader(view: DataView, formatTag: number, bytesPerSample: number): (offset: number) => number {
+  if (formatTag === WAVE_FORMAT_PCM) {
+    switch (bytesPerSample) {
+      case 1: return offset => (view.getUint8(offset) - 128) / 128
+      case 2: return offset => view.getInt16(offset, true) / 32768
+      case 3: return offset => ((view.getInt8(offset + 2) << 16) | view.getUint16(offset, true)) / 8388608
+      case 4: return offset => view.getInt32(offset, true) / 2147483648
+    }
+  }
+
+  if (formatTag === WAVE_FORMAT_IEEE_FLOAT) {
+    switch (bytesPerSample) {
+      case 4: return offset => view.getFloat32(offset, true)
+      case 8: return offset => view.getFloat64(offset, true)
+    }
+  }
+
+  throw new Error(`Unsupported WAV encoding: format ${formatTag} with ${bytesPerSample * 8}-bit samples`)
+}
+
+/**
+ * Decode a FLAC stream, including fixed and LPC subframes and stereo decorrelation
+ */
+export function decodeFLAC(bytes: Uint8Array): AudioBuffer {
+  let offset = skipID3(bytes)
+  if (readASCII(bytes, offset) !== 'fLaC') {
+    throw new Error('Not a valid FLAC file')
+  }
+  offset += 4
+
+  let streamInfo: StreamInfo | null = null
+  let isLast = false
+  while (!isLast && offset + 4 <= bytes.length) {
+    isLast = (bytes[offset] & 0x80) !== 0
+    const type = bytes[offset] & 0x7f
+    const length = (bytes[offset + 1] << 16) | (bytes[offset + 2] << 8) | bytes[offset + 3]
+    if (type === 0) {
+      streamInfo = parseStreamInfo(bytes.subarray(offset + 4, offset + 4 + length))
+    }
+    offset += 4 + length
+  }
+
+  if (!streamInfo) {
+    throw new Error('FLAC file has no STREAMINFO block')
+  }
+
+  const { sampleRate, channels, bitsPerSample, totalSamples } = streamInfo
+  const output = new SampleOutput(channels, totalSamples)
+  const reader = new BitReader(bytes, offset)
+
+  while (reader.bytePosition + 2 <= bytes.length && (totalSamples === 0 || output.length < totalSamples)) {
+    // Anything between frames, like a trailing ID3v1 tag, is not audio
+    if (bytes[reader.bytePosition] !== 0xff || (bytes[reader.bytePosition + 1] & 0xfe) !== 0xf8) break
+
+    try {
+      output.append(decodeFLACFrame(reader, streamInfo))
+    } catch (error) {
+      // Keep what was decoded from a truncated file
+      if (output.length > 0) break
+      throw error
+    }
+  }
+
+  if (output.length === 0) {
+    throw new Error('FLAC file has no audio frames')
+  }
+
+  const scale = 1 / 2 ** (bitsPerSample - 1)
+  const channelData = output.channels.map(samples => {
+    const floats = new Float32Array(output.length)
+    for (let i = 0; i < output.length; i++) {
+      floats[i] = samples[i] * scale
+    }
+    return floats
+  })
+
+  return fromWorkerAudioData({ sampleRate, length: output.length, numberOfChannels: channels, channelData })
+}
+
+function parseStreamInfo(block: Uint8Array): StreamInfo {
+  if (block.length < 18) {
+    throw new Error('FLAC STREAMINFO block is too short')
+  }
+
+  return {
+    sampleRate: (block[10] << 12) | (block[11] << 4) | (block[12] >> 4),
+    channels: ((block[12] >> 1) & 0x07) + 1,
+    bitsPerSample: (((block[12] & 0x01) << 4) | (block[13] >> 4)) + 1,
+    totalSamples: (block[13] & 0x0f) * 2 ** 32 + new DataView(block.buffer, block.byteOffset).getUint32(14)
+  }
+}
+
+function decodeFLACFrame(reader: BitReader, streamInfo: StreamInfo): Int32Array[] {
+  if (reader.readBits(15) !== 0x7ffc) {
+    throw new Error('Lost FLAC frame sync')
+  }
+  reader.readBits(1) // Blocking strategy
+
+  const blockSizeCode = reader.readBits(4)
+  const sampleRateCode = reader.readBits(4)
+  const channelAssignment = reader.readBits(4)
+  const sampleSizeCode = reader.readBits(3)
+  reader.readBits(1)
+
+  // Frame or sample number, UTF-8 style coded with one continuation byte per extra leading one
+  const first = reader.readBits(8)
+  if (first & 0x80) {
+    for (let mask = 0x40; first & mask; mask >>= 1) {
+      reader.readBits(8)
+    }
+  }
+
+  let blockSize: number
+  if (blockSizeCode === 1) blockSize = 192
+  else if (blockSizeCode >= 2 && blockSizeCode <= 5) blockSize = 576 << (blockSizeCode - 2)
+  else if (blockSizeCode === 6) blockSize = reader.readBits(8) + 1
+  else if (blockSizeCode === 7) blockSize = reader.readBits(16) + 1
+  else if (blockSizeCode >= 8) blockSize = 256 << (blockSizeCode - 8)
+  else throw new Error('Invalid FLAC block size')
+
+  // The STREAMINFO sample rate applies to the whole stream, so only skip the coded one
+  if (sampleRateCode === 12) reader.readBits(8)
+  else if (sampleRateCode === 13 || sampleRateCode === 14) reader.readBits(16)
+
+  const bitsPerSample = sampleSizeCode === 0 ? streamInfo.bitsPerSample : FLAC_SAMPLE_SIZES[sampleSizeCode]
+  if (!bitsPerSample) {
+    throw new Error('Invalid FLAC sample size')
+  }
+
+  reader.readBits(8) // Header CRC-8
+
+  const channels = channelAssignment < 8 ? channelAssignment + 1 : 2
+  if (channelAssignment > 10 || channels !== streamInfo.channels) {
+    throw new Error('Invalid FLAC channel assignment')
+  }
+
+  // The side channel needs one extra bit
+  const subframes: Int32Array[] = []
+  for (let channel = 0; channel < channels; channel++) {
+    const isSide = (channelAssignment === 8 && channel === 1) ||
+      (channelAssignment === 9 && channel === 0) ||
+      (channelAssignment === 10 && channel === 1)
+    subframes.push(decodeSubframe(reader, blockSize, bitsPerSample + (isSide ? 1 : 0)))
+  }
+
+  reader.alignToByte()
+  reader.readBits(16) // Frame CRC-16
+
+  decorrelate(subframes, channelAssignment)
+  return subframes
+}
+
+function decodeSubframe(reader: BitReader, blockSize: number, bitsPerSample: number): Int32Array {
+  reader.readBits(1) // Zero padding
+  const type = reader.readBits(6)
+  const wastedBits = reader.readBits(1) ? reader.readUnary() + 1 : 0
+  const sampleBits = bitsPerSample - wastedBits
+  const samples = new Int32Array(blockSize)
+
+  if (type === 0) {
+    samples.fill(reader.readSigned(sampleBits))
+  } else if (type === 1) {
+    for (let i = 0; i < blockSize; i++) {
+      samples[i] = reader.readSigned(sampleBits)
+    }
+  } else if (type >= 8 && type <= 12) {
+    decodeFixedSubframe(reader, samples, type - 8, sampleBits)
+  } else if (type >= 32) {
+    decodeLPCSubframe(reader, samples, (type & 0x1f) + 1, sampleBits)
+  } else {
+    throw new Error(`Invalid FLAC subframe type ${type}`)
+  }
+
+  if (wastedBits > 0) {
+    for (let i = 0; i < blockSize; i++) {
+      samples[i] <<= wastedBits
+    }
+  }
+
+  return samples
+}
+
+function decodeFixedSubframe(reader: BitReader, samples: Int32Array, order: number, sampleBits: number): void {
+  for (let i = 0; i < order; i++) {
+    samples[i] = reader.readSigned(sampleBits)
+  }
+  readResidual(reader, samples, order)
+
+  for (let i = order; i < samples.length; i++) {
+    switch (order) {
+      case 1: samples[i] += samples[i - 1]; break
+      case 2: samples[i] += 2 * samples[i - 1] - samples[i - 2]; break
+      case 3: samples[i] += 3 * samples[i - 1] - 3 * samples[i - 2] + samples[i - 3]; break
+      case 4: samples[i] += 4 * samples[i - 1] - 6 * samples[i - 2] + 4 * samples[i - 3] - samples[i - 4]; break
+    }
+  }
+}
+
+function decodeLPCSubframe(reader: BitReader, samples: Int32Array, order: number, sampleBits: number): void {
+  for (let i = 0; i < order; i++) {
+    samples[i] = reader.readSigned(sampleBits)
+  }
+
+  const precision = reader.readBits(4) + 1
+  if (precision === 16) {
+    throw new Error('Invalid FLAC LPC precision')
+  }
+  const shift = reader.readSigned(5)
+  const coefficients = Array.from({ length: order }, () => reader.readSigned(precision))
+  readResidual(reader, samples, order)
+
+  // Sums can pass 32 bits for 24-bit audio, so keep them as doubles
+  const divisor = 2 ** Math.max(0, shift)
+  for (let i = order; i < samples.length; i++) {
+    let sum = 0
+    for (let j = 0; j < order; j++) {
+      sum += coefficients[j] * samples[i - 1 - j]
+    }
+    samples[i] += Math.floor(sum / divisor)
+  }
+}
+
+/**
+ * Read Rice-coded residuals into samples after the warm-up samples
+ */
+function readResidual(reader: BitReader, samples: Int32Array, predictorOrder: number): void {
+  const method = reader.readBits(2)
+  if (method > 1) {
+    throw new Error('Invalid FLAC residual coding method')
+  }
+  const parameterBits = method === 0 ? 4 : 5
+  const escapeCode = (1 << parameterBits) - 1
+  const partitionOrder = reader.readBits(4)
+  const partitions = 1 << partitionOrder
+  const partitionSize = samples.length >> partitionOrder
+
+  if (partitionSize < predictorOrder || partitionSize * partitions !== samples.length) {
+    throw new Error('Invalid FLAC residual partitioning')
+  }
+
+  let index = predictorOrder
+  for (let partition = 0; partition < partitions; partition++) {
+    const end = (partition + 1) * partitionSize
+    const parameter = reader.readBits(parameterBits)
+
+    if (parameter === escapeCode) {
+      const bits = reader.readBits(5)
+      for (; index < end; index++) {
+        samples[index] = reader.readSigned(bits)
+      }
+    } else {
+      for (; index < end; index++) {
+        samples[index] = reader.readRice(parameter)
+      }
+    }
+  }
+}
+
+function decorrelate(subframes: Int32Array[], channelAssignment: number): void {
+  const [first, second] = subframes
+
+  switch (channelAssignment) {
+    case 8: // Left and side
+      for (let i = 0; i < first.length; i++) second[i] = first[i] - second[i]
+      break
+    case 9: // Side and right
+      for (let i = 0; i < first.length; i++) first[i] += second[i]
+      break
+    case 10: // Mid and side
+      for (let i = 0; i < first.length; i++) {
+        const side = second[i]
+        const mid = (first[i] << 1) | (side & 1)
+        first[i] = (mid + side) >> 1
+        second[i] = (mid - side) >> 1
+      }
+      break
+  }
+}
+
+/**
+ * Collects decoded frames, growing the channel buffers when the stream does not give its length
+ */
+class SampleOutput {
+  channels: Int32Array[]
+  length = 0
+
+  constructor(channelCount: number, totalSamples: number) {
+    const capacity = totalSamples > 0 ? totalSamples : 65536
+    this.channels = Array.from({ length: channelCount }, () => new Int32Array(capacity))
+  }
+
+  append(frame: Int32Array[]): void {
+    const frameLength = frame[0].length
+    if (this.length + frameLength > this.channels[0].length) {
+      const capacity = Math.max(this.length + frameLength, this.channels[0].length * 2)
+      this.channels = this.channels.map(samples => {
+        const grown = new Int32Array(capacity)
+        grown.set(samples.subarray(0, this.length))
+        return grown
+      })
+    }
+
+    frame.forEach((samples, channel) => this.channels[channel].set(samples, this.length))
+    this.length += frameLength
+  }
+}
+
+/**
+ * Reads big-endian bit fields
+ */
+class BitReader {
+  private data: Uint8Array
+  private byte: number
+  private bit = 0
+
+  constructor(data: Uint8Array, offset: number) {
+    this.data = data
+    this.byte = offset
+  }
+
+  get bytePosition(): number {
+    return this.byte
+  }
+
+  readBits(count: number): number {
+    let value = 0
+    while (count > 0) {
+      if (this.byte >= this.data.length) {
+        throw new Error('FLAC stream ended unexpectedly')
+      }
+      const available = 8 - this.bit
+      const take = Math.min(available, count)
+      const bits = (this.data[this.byte] >> (available - take)) & ((1 << take) - 1)
+      // Multiply rather than shift so 32-bit fields stay positive
+      value = value * (1 << take) + bits
+      count -= take
+      this.bit += take
+      if (this.bit === 8) {
+        this.bit = 0
+        this.byte++
+      }
+    }
+    return value
+  }
+
+  readSigned(count: number): number {
+    if (count === 0) return 0
+    const value = this.readBits(count)
+    return value >= 2 ** (count - 1) ? value - 2 ** count : value
+  }
+
+  /**
+   * Count zero bits up to and including the next one bit
+   */
+  readUnary(): number {
+    let count = 0
+    for (;;) {
+      if (this.byte >= this.data.length) {
+        throw new Error('FLAC stream ended unexpectedly')
+      }
+      const remaining = (this.data[this.byte] << this.bit) & 0xff
+      if (remaining === 0) {
+        count += 8 - this.bit
+        this.bit = 0
+        this.byte++
+        continue
+      }
+
+      const zeros = Math.clz32(remaining) - 24
+      count += zeros
+      this.bit += zeros + 1
+      if (this.bit === 8) {
+        this.bit = 0
+        this.byte++
+      }
+      return count
+    }
+  }
+
+  readRice(parameter: number): number {
+    const value = this.readUnary() * 2 ** parameter + this.readBits(parameter)
+    // Zigzag coded: 0, -1, 1, -2, 2, ...
+    return value % 2 === 0 ? value / 2 : -(value + 1) / 2
+  }
+
+  alignToByte(): void {
+    if (this.bit > 0) {
+      this.bit = 0
+      this.byte++
+    }
+  }
+}
+
+function skipID3(bytes: Uint8Array): number {
+  if (bytes.length < 10 || readASCII(bytes, 0, 3) !== 'ID3') return 0
+  const size = ((bytes[6] & 0x7f) << 21) | ((bytes[7] & 0x7f) << 14) | ((bytes[8] & 0x7f) << 7) | (bytes[9] & 0x7f)
+  return 10 + size + ((bytes[5] & 0x10) ? 10 : 0)
+}
+
+function readASCII(bytes: Uint8Array, offset: number, length: number = 4): string {
+  return String.fromCharCode(...bytes.subarray(offset, offset + length))
+}
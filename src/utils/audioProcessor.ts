@@ -1,19 +1,33 @@
 // AudioProcessor class to coordinate key and BPM detection
 
-import type { AnalysisResult, KeyResult, BPMResult, ConfidenceScores } from '../types'
+import type { AnalysisRegion, AnalysisResult, KeyResult, KeySegment, BPMResult, ConfidenceScores, GenreProfileId, TempoConstraints } from '../types'
 import { KeyDetector } from './keyDetection'
 import { BPMDetector } from './bpmDetection'
-import { audioCache } from './audioCache'
+import { getAudioCache } from './audioCache'
 import { memoryManager } from './memoryManager'
-
-export interface AudioProcessorOptions {
+import { detectBPMInWorker, detectKeyInWorker, detectKeySegmentsInWorker, workersAvailable } from './workerPool'
+import { FileChunker } from './fileChunking'
+import { AudioWindowSplitter, decodeAudioWindow, getWindowByteSize, readAudioLayout } from './audioWindows'
+import { WindowedAnalysis } from './windowedAnalysis'
+import { fromWorkerAudioData } from '../workers/audioData'
+import { DEFAULT_GENRE_PROFILE, matchesGenreProfile } from './genreProfiles'
+import { getTempoConstraints, matchesTempoConstraints } from './tempoConstraints'
+import { getAnalysisRegion, sliceAudioBuffer } from './analysisRegion'
+import { keepTempoOverride } from './tapTempo'
+
+export interface AudioProcessorOptions extends TempoConstraints {
   timeoutMs?: number
   onProgress?: (progress: number) => void
   onPartialResult?: (partialResult: Partial<AnalysisResult>) => void
   file?: File // For caching purposes
   enableCaching?: boolean
+  genreProfile?: GenreProfileId // Tempo range, octave-error correction and key priors (default: hip-hop)
+  region?: AnalysisRegion // Analyze only this stretch of the buffer, cached apart from the whole file
 }
 
+// Windows shorter than this, usually the tail of a file, are too short for a reliable tempo
+const MIN_BPM_WINDOW_SECONDS = 10
+
 export class AudioProcessor {
   private keyDetector: KeyDetector
   private bpmDetector: BPMDetector
@@ -31,14 +45,19 @@ export class AudioProcessor {
     audioBuffer: AudioBuffer,
     options: AudioProcessorOptions = {}
   ): Promise<AnalysisResult> {
-    const { timeoutMs = 30000, onProgress, file, enableCaching = true } = options
+    const { timeoutMs = 30000, onProgress, file, enableCaching = true, genreProfile = DEFAULT_GENRE_PROFILE } = options
+    const tempoConstraints = getTempoConstraints(options)
+    const region = options.region && getAnalysisRegion(options.region, audioBuffer.duration)
+    const analysisBuffer = region ? sliceAudioBuffer(audioBuffer, region) : audioBuffer
     const startTime = performance.now()
 
     // Check cache first if file is provided and caching is enabled
+    let cachedResult: AnalysisResult | null = null
     if (enableCaching && file) {
       try {
-        const cachedResult = await audioCache.get(file)
-        if (cachedResult) {
+        cachedResult = await getAudioCache().get(file, region)
+        // Results analyzed under another genre profile or other tempo hints would carry their corrections
+        if (cachedResult && matchesGenreProfile(cachedResult, genreProfile) && matchesTempoConstraints(cachedResult, tempoConstraints)) {
           onProgress?.(100)
           return cachedResult
         }
@@ -48,7 +67,7 @@ export class AudioProcessor {
     }
 
     // Check memory before processing
-    const estimatedMemory = memoryManager.estimateAudioBufferMemory(audioBuffer)
+    const estimatedMemory = memoryManager.estimateAudioBufferMemory(analysisBuffer)
     if (!memoryManager.hasEnoughMemoryForProcessing(estimatedMemory)) {
       // Try to free up memory
       memoryManager.forceGarbageCollection()
@@ -62,38 +81,52 @@ export class AudioProcessor {
     }
 
     // Create abort controller for cancellation
-    this.abortController = new AbortController()
+    const abortController = new AbortController()
+    this.abortController = abortController
+
+    let timeoutId: ReturnType<typeof setTimeout> | undefined
 
     try {
       // Set up timeout
       const timeoutPromise = new Promise<never>((_, reject) => {
-        const timeoutId = setTimeout(() => {
+        timeoutId = setTimeout(() => {
           reject(new Error('Audio processing timed out after 30 seconds'))
+          // Stop any workers still busy with this analysis
+          abortController.abort()
         }, timeoutMs)
 
         // Clear timeout if aborted
-        this.abortController?.signal.addEventListener('abort', () => {
+        abortController.signal.addEventListener('abort', () => {
           clearTimeout(timeoutId)
           reject(new Error('Audio processing was cancelled'))
         })
       })
 
       // Process audio with progress tracking
-      const analysisPromise = this.performAnalysis(audioBuffer, onProgress, options.onPartialResult)
+      const analysisPromise = this.performAnalysis(analysisBuffer, genreProfile, tempoConstraints, onProgress, options.onPartialResult)
 
-      // Race between analysis and timeout
-      const result = await Promise.race([analysisPromise, timeoutPromise])
+      // Race between analysis and timeout, disarming the timeout however the race ends
+      let result: Awaited<typeof analysisPromise>
+      try {
+        result = await Promise.race([analysisPromise, timeoutPromise])
+      } finally {
+        clearTimeout(timeoutId)
+      }
 
       const processingTime = performance.now() - startTime
-      const finalResult = {
+      // A tempo set by hand outlasts a change of genre profile or tempo hints
+      const finalResult = keepTempoOverride({
         ...result,
-        processingTime
-      }
+        processingTime,
+        genreProfile,
+        ...(Object.keys(tempoConstraints).length > 0 && { tempoConstraints }),
+        ...(region && { region })
+      }, cachedResult)
 
       // Cache the result if file is provided and caching is enabled
       if (enableCaching && file) {
         try {
-          await audioCache.set(file, finalResult)
+          await getAudioCache().set(file, finalResult, region)
         } catch (error) {
           console.warn('Failed to cache result:', error)
         }
@@ -113,6 +146,97 @@ export class AudioProcessor {
     }
   }
 
+  /**
+   * Analyze a file too large to decode at once, one window at a time, so memory use is bounded
+   * by the window size rather than the file size. Long files take well over the usual timeout,
+   * so only cancellation stops them.
+   */
+  async processLargeFile(file: File, options: AudioProcessorOptions = {}): Promise<AnalysisResult> {
+    const { onProgress, onPartialResult, enableCaching = true, genreProfile = DEFAULT_GENRE_PROFILE } = options
+    const tempoConstraints = getTempoConstraints(options)
+    const startTime = performance.now()
+
+    let cachedResult: AnalysisResult | null = null
+    if (enableCaching) {
+      try {
+        cachedResult = await getAudioCache().get(file)
+        if (cachedResult && matchesGenreProfile(cachedResult, genreProfile) && matchesTempoConstraints(cachedResult, tempoConstraints)) {
+          onProgress?.(100)
+          return cachedResult
+        }
+      } catch (error) {
+        console.warn('Cache lookup failed:', error)
+      }
+    }
+
+    const abortController = new AbortController()
+    this.abortController = abortController
+
+    try {
+      const layout = await readAudioLayout(file)
+      const splitter = new AudioWindowSplitter(layout)
+      const analysis = new WindowedAnalysis(genreProfile, tempoConstraints)
+      const chunker = new FileChunker(file, getWindowByteSize(layout))
+      const { totalChunks, chunkSize } = chunker.getChunkInfo()
+
+      await chunker.processInChunks(async (chunk, index) => {
+        if (abortController.signal.aborted) {
+          throw new Error('Audio processing was cancelled')
+        }
+
+        const window = splitter.push(chunk, index * chunkSize, index === totalChunks - 1)
+        if (!window) return
+
+        const normalizedBuffer = this.normalizeAudio(await decodeAudioWindow(window))
+        const startProgress = (index / totalChunks) * 95
+        const endProgress = ((index + 1) / totalChunks) * 95
+
+        let bpm: BPMResult | undefined
+        if (normalizedBuffer.duration >= MIN_BPM_WINDOW_SECONDS) {
+          try {
+            bpm = await this.detectBPMWithProgress(normalizedBuffer, genreProfile, tempoConstraints, onProgress, startProgress, endProgress)
+          } catch (error) {
+            if (abortController.signal.aborted) throw error
+            // One unclear window should not fail a whole mix
+            console.warn(`BPM detection failed for window ${index}:`, error)
+          }
+        }
+
+        analysis.addWindow(normalizedBuffer.getChannelData(0), normalizedBuffer.sampleRate, bpm)
+        onProgress?.(endProgress)
+
+        const partialBPM = analysis.getBPM()
+        onPartialResult?.({ key: analysis.getKey(), ...(partialBPM && { bpm: partialBPM }) })
+      })
+
+      const result = keepTempoOverride({
+        ...analysis.getResult(),
+        processingTime: performance.now() - startTime,
+        genreProfile,
+        ...(Object.keys(tempoConstraints).length > 0 && { tempoConstraints })
+      }, cachedResult)
+      onProgress?.(100)
+
+      if (enableCaching) {
+        try {
+          await getAudioCache().set(file, result)
+        } catch (error) {
+          console.warn('Failed to cache result:', error)
+        }
+      }
+
+      return result
+    } catch (error) {
+      // FileChunker wraps errors with the chunk index, so restore the plain cancellation message
+      if (abortController.signal.aborted) {
+        throw new Error('Audio processing was cancelled')
+      }
+      throw error
+    } finally {
+      this.cleanup()
+    }
+  }
+
   /**
    * Cancel ongoing audio processing
    */
@@ -151,6 +275,11 @@ export class AudioProcessor {
     // Then downsample to 16kHz using the same algorithm as the web demo
     const downsampledSignal = this.downsampleArray(monoSignal, audioBuffer.sampleRate, 16000)
 
+    // Outside the browser there is no AudioBuffer constructor, so wrap the signal instead
+    if (typeof AudioBuffer === 'undefined') {
+      return fromWorkerAudioData({ sampleRate: 16000, length: downsampledSignal.length, numberOfChannels: 1, channelData: [downsampledSignal] })
+    }
+
     // Create a new AudioBuffer with the processed audio
     const processedBuffer = new AudioBuffer({
       numberOfChannels: 1, // Mono
@@ -226,6 +355,8 @@ export class AudioProcessor {
    */
   private async performAnalysis(
     audioBuffer: AudioBuffer,
+    genreProfile: GenreProfileId,
+    tempoConstraints: TempoConstraints,
     onProgress?: (progress: number) => void,
     onPartialResult?: (partialResult: Partial<AnalysisResult>) => void
   ): Promise<Omit<AnalysisResult, 'processingTime'>> {
@@ -246,14 +377,14 @@ export class AudioProcessor {
     let keyResult: KeyResult | undefined
 
     // Start both detections in parallel but handle results as they complete
-    const keyPromise = this.detectKeyWithProgress(normalizedBuffer, onProgress, 20, 60).then(result => {
+    const keyPromise = this.detectKeyWithProgress(normalizedBuffer, genreProfile, onProgress, 20, 60).then(result => {
       keyResult = result
       // Show partial result with just the key
       onPartialResult?.({ key: result })
       return result
     })
 
-    const bpmPromise = this.detectBPMWithProgress(normalizedBuffer, onProgress, 60, 90).then(result => {
+    const bpmPromise = this.detectBPMWithProgress(normalizedBuffer, genreProfile, tempoConstraints, onProgress, 60, 90).then(result => {
       // Show partial result with just the BPM (or both if key is already done)
       onPartialResult?.({ 
         key: keyResult,
@@ -275,6 +406,13 @@ export class AudioProcessor {
       throw new Error('Audio processing was cancelled')
     }
 
+    // Key changes over time, falling back to the global key for short tracks
+    const keySegments = await this.detectKeySegmentsWithProgress(normalizedBuffer, finalKeyResult, genreProfile, onProgress, 90, 95)
+
+    if (this.abortController?.signal.aborted) {
+      throw new Error('Audio processing was cancelled')
+    }
+
     onProgress?.(95)
 
     // Calculate overall confidence
@@ -289,7 +427,8 @@ export class AudioProcessor {
     return {
       key: finalKeyResult,
       bpm: finalBpmResult,
-      confidence
+      confidence,
+      keySegments
     }
   }
 
@@ -298,6 +437,7 @@ export class AudioProcessor {
    */
   private async detectKeyWithProgress(
     audioBuffer: AudioBuffer,
+    genreProfile: GenreProfileId,
     onProgress?: (progress: number) => void,
     startProgress: number = 0,
     endProgress: number = 50
@@ -308,7 +448,10 @@ export class AudioProcessor {
     }
 
     try {
-      return await this.keyDetector.detectKey(audioBuffer, { onProgress: progressCallback })
+      return await this.runDetection(
+        signal => detectKeyInWorker(audioBuffer, { onProgress: progressCallback, signal, genreProfile }),
+        () => this.keyDetector.detectKey(audioBuffer, { onProgress: progressCallback, genreProfile })
+      )
     } catch (error) {
       if (error instanceof Error && error.message.includes('cancelled')) {
         throw error
@@ -317,11 +460,43 @@ export class AudioProcessor {
     }
   }
 
+  /**
+   * Detect key segments with progress reporting
+   */
+  private async detectKeySegmentsWithProgress(
+    audioBuffer: AudioBuffer,
+    globalKey: KeyResult,
+    genreProfile: GenreProfileId,
+    onProgress?: (progress: number) => void,
+    startProgress: number = 90,
+    endProgress: number = 95
+  ): Promise<KeySegment[]> {
+    const progressCallback = (progress: number) => {
+      const scaledProgress = startProgress + (progress / 100) * (endProgress - startProgress)
+      onProgress?.(scaledProgress)
+    }
+    const wholeTrack: KeySegment[] = [{ ...globalKey, start: 0, end: Math.round(audioBuffer.duration * 10) / 10 }]
+
+    try {
+      const segments = await this.runDetection(
+        signal => detectKeySegmentsInWorker(audioBuffer, { onProgress: progressCallback, signal, genreProfile }),
+        () => this.keyDetector.detectKeySegments(audioBuffer, { onProgress: progressCallback, genreProfile })
+      )
+      return segments.length > 0 ? segments : wholeTrack
+    } catch (error) {
+      // The global key is still valid, so a failed timeline should not fail the analysis
+      console.warn('Key segment detection failed:', error)
+      return wholeTrack
+    }
+  }
+
   /**
    * Detect BPM with progress reporting
    */
   private async detectBPMWithProgress(
     audioBuffer: AudioBuffer,
+    genreProfile: GenreProfileId,
+    tempoConstraints: TempoConstraints,
     onProgress?: (progress: number) => void,
     startProgress: number = 50,
     endProgress: number = 90
@@ -332,7 +507,10 @@ export class AudioProcessor {
     }
 
     try {
-      return await this.bpmDetector.detectBPM(audioBuffer, { onProgress: progressCallback })
+      return await this.runDetection(
+        signal => detectBPMInWorker(audioBuffer, { onProgress: progressCallback, signal, genreProfile, ...tempoConstraints }),
+        () => this.bpmDetector.detectBPM(audioBuffer, { onProgress: progressCallback, genreProfile, ...tempoConstraints })
+      )
     } catch (error) {
       if (error instanceof Error && error.message.includes('cancelled')) {
         throw error
@@ -341,6 +519,29 @@ export class AudioProcessor {
     }
   }
 
+  /**
+   * Run a detection in the worker pool, or on the main thread when workers are unavailable or fail
+   */
+  private async runDetection<T>(
+    inWorker: (signal?: AbortSignal) => Promise<T>,
+    onMainThread: () => Promise<T>
+  ): Promise<T> {
+    const signal = this.abortController?.signal
+    if (!workersAvailable()) {
+      return onMainThread()
+    }
+
+    try {
+      return await inWorker(signal)
+    } catch (error) {
+      if (signal?.aborted) {
+        throw error
+      }
+      console.warn('Analysis worker failed, falling back to the main thread:', error)
+      return onMainThread()
+    }
+  }
+
   /**
    * Clean up resources
    */
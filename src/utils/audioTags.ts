@@ -0,0 +1,929 @@
+// Embedded tags in ID3v2 (MP3 and WAV), FLAC Vorbis comments and MP4 atoms
+// Reads existing metadata and writes key and BPM, leaving the audio data untouched
+
+import type { AnalysisResult, AudioFile, EmbeddedArtwork, EmbeddedTags, SupportedFormat } from '../types'
+import { MAX_FILE_SIZE, SUPPORTED_FORMATS } from '../types'
+import { formatKeyCode, getPreferredNotation } from './keyNotation'
+import type { KeyNotation } from './keyNotation'
+
+export interface TagValues {
+  key?: string // Compact key code, e.g. "Am" or "8A"
+  bpm?: number
+}
+
+export interface TaggedFile {
+  blob: Blob
+  filename: string
+}
+
+type TextField = 'title' | 'artist' | 'bpm' | 'key'
+
+const MIME_TYPES: Record<SupportedFormat, string> = {
+  mp3: 'audio/mpeg',
+  wav: 'audio/wav',
+  flac: 'audio/flac',
+  m4a: 'audio/mp4'
+}
+
+const ID3_HEADER_SIZE = 10
+// Files analyzed in windows are too large to read whole; their tags sit at the start, except in WAV files
+const LARGE_FILE_TAG_BYTES = 16 * 1024 * 1024
+const ID3_FRONT_COVER = 3
+const ID3_TEXT_FIELDS: Record<string, TextField> = {
+  TIT2: 'title', TT2: 'title',
+  TPE1: 'artist', TP1: 'artist',
+  TBPM: 'bpm', TBP: 'bpm',
+  TKEY: 'key', TKE: 'key'
+}
+
+const FLAC_STREAMINFO = 0
+const FLAC_VORBIS_COMMENT = 4
+const FLAC_PICTURE = 6
+const FLAC_VENDOR = 'Audio Analyzer'
+const VORBIS_TEXT_FIELDS: Record<string, TextField> = {
+  TITLE: 'title',
+  ARTIST: 'artist',
+  BPM: 'bpm',
+  INITIALKEY: 'key',
+  KEY: 'key'
+}
+
+const MP4_TYPE_UTF8 = 1
+const MP4_TYPE_PNG = 14
+const MP4_TYPE_INTEGER = 21
+const MP4_KEY_ITEM = 'initialkey'
+const MP4_TEXT_ITEMS: Record<string, TextField> = {
+  '©nam': 'title',
+  '©ART': 'artist'
+}
+
+// Boxes on the path from moov to the chunk offset tables
+const MP4_SAMPLE_TABLE_PATH = new Set(['trak', 'mdia', 'minf', 'stbl'])
+
+const textEncoder = new TextEncoder()
+const textDecoder = new TextDecoder()
+
+/**
+ * Get the tag values for an analysis result, formatting the key in the chosen notation
+ */
+export function getTagValues(result: AnalysisResult, notation: KeyNotation = getPreferredNotation()): TagValues {
+  return {
+    key: formatKeyCode(result.key, notation),
+    bpm: result.bpm.bpm > 0 ? result.bpm.bpm : undefined
+  }
+}
+
+/**
+ * Check whether tags can be read and written for a file format
+ */
+export function supportsTags(format: string): format is SupportedFormat {
+  return SUPPORTED_FORMATS.includes(format as SupportedFormat)
+}
+
+/**
+ * Read title, artist, BPM, key and artwork from the raw bytes of a file in the given format
+ */
+export function readTags(data: Uint8Array, format: SupportedFormat): EmbeddedTags {
+  switch (format) {
+    case 'mp3': return readID3Tags(data)
+    case 'flac': return readFLACTags(data)
+    case 'm4a': return readMP4Tags(data)
+    case 'wav': return readWAVTags(data)
+  }
+}
+
+/**
+ * Read the tags embedded in an uploaded file, or undefined if it has none or they cannot be parsed
+ */
+export async function readEmbeddedTags(audioFile: AudioFile): Promise<EmbeddedTags | undefined> {
+  if (!supportsTags(audioFile.format)) return undefined
+
+  try {
+    let tags: EmbeddedTags
+    if (audioFile.file.size <= MAX_FILE_SIZE) {
+      tags = readTags(new Uint8Array(await audioFile.file.arrayBuffer()), audioFile.format)
+    } else if (audioFile.format === 'wav') {
+      tags = await readLargeWAVTags(audioFile.file)
+    } else {
+      tags = readTags(new Uint8Array(await audioFile.file.slice(0, LARGE_FILE_TAG_BYTES).arrayBuffer()), audioFile.format)
+    }
+    return Object.keys(tags).length > 0 ? tags : undefined
+  } catch (error) {
+    // Missing tags should never block analysis
+    console.warn('Could not read embedded tags:', error)
+    return undefined
+  }
+}
+
+/**
+ * Write key and BPM tags into the raw bytes of a file in the given format
+ */
+export function writeTags(data: Uint8Array, format: SupportedFormat, tags: TagValues): Uint8Array {
+  switch (format) {
+    case 'mp3': return writeID3Tags(data, tags)
+    case 'flac': return writeFLACTags(data, tags)
+    case 'm4a': return writeMP4Tags(data, tags)
+    case 'wav': return writeWAVTags(data, tags)
+  }
+}
+
+/**
+ * Produce a tagged copy of an uploaded file with the detected key and BPM
+ */
+export async function createTaggedFile(
+  audioFile: AudioFile,
+  result: AnalysisResult,
+  notation?: KeyNotation
+): Promise<TaggedFile> {
+  if (!supportsTags(audioFile.format)) {
+    throw new Error(`Tag writing is not supported for .${audioFile.format} files`)
+  }
+
+  const data = new Uint8Array(await audioFile.file.arrayBuffer())
+  const tagged = writeTags(data, audioFile.format, getTagValues(result, notation))
+
+  return {
+    blob: new Blob([tagged], { type: audioFile.file.type || MIME_TYPES[audioFile.format] }),
+    filename: audioFile.name
+  }
+}
+
+/**
+ * Read text frames and the front cover from an ID3v2 tag at the start of the file
+ */
+export function readID3Tags(data: Uint8Array): EmbeddedTags {
+  const tagSize = getID3TagSize(data)
+  return tagSize > 0 ? readID3Frames(data.subarray(0, tagSize)) : {}
+}
+
+/**
+ * Write TKEY and TBPM frames, keeping every other frame of an existing ID3v2 tag
+ */
+export function writeID3Tags(data: Uint8Array, tags: TagValues): Uint8Array {
+  const tagSize = getID3TagSize(data)
+  const tag = buildID3Tag(tagSize > 0 ? data.subarray(0, tagSize) : null, tags)
+  return concatBytes([tag, data.subarray(tagSize)])
+}
+
+/**
+ * Read Vorbis comments and the front cover picture block
+ */
+export function readFLACTags(data: Uint8Array): EmbeddedTags {
+  const { blocks } = readFLACBlocks(data)
+  const fields: Partial<Record<TextField, string>> = {}
+  let artwork: EmbeddedArtwork | undefined
+  let artworkType = -1
+
+  for (const block of blocks) {
+    if (block.type === FLAC_VORBIS_COMMENT) {
+      for (const comment of parseVorbisComment(block.body).comments) {
+        const text = textDecoder.decode(comment)
+        const separator = text.indexOf('=')
+        const name = text.slice(0, separator).toUpperCase()
+        const field = VORBIS_TEXT_FIELDS[name]
+        if (separator <= 0 || !field) continue
+
+        // INITIALKEY wins over the less common KEY field
+        if (!fields[field] || name === 'INITIALKEY') {
+          fields[field] = text.slice(separator + 1)
+        }
+      }
+    } else if (block.type === FLAC_PICTURE) {
+      const picture = parseFLACPicture(block.body)
+      if (picture && artworkType !== ID3_FRONT_COVER) {
+        artwork = picture.artwork
+        artworkType = picture.pictureType
+      }
+    }
+  }
+
+  return toEmbeddedTags(fields, artwork)
+}
+
+/**
+ * Write INITIALKEY and BPM Vorbis comments, keeping all other metadata blocks
+ */
+export function writeFLACTags(data: Uint8Array, tags: TagValues): Uint8Array {
+  const { prefixSize, blocks, audioStart } = readFLACBlocks(data)
+
+  const commentIndex = blocks.findIndex(block => block.type === FLAC_VORBIS_COMMENT)
+  const comment = {
+    type: FLAC_VORBIS_COMMENT,
+    body: buildVorbisComment(commentIndex >= 0 ? blocks[commentIndex].body : null, tags)
+  }
+  if (commentIndex >= 0) {
+    blocks[commentIndex] = comment
+  } else {
+    blocks.splice(1, 0, comment) // STREAMINFO must stay first
+  }
+
+  const metadata = blocks.map((block, index) => {
+    if (block.body.length > 0xffffff) {
+      throw new Error('FLAC metadata block is too large')
+    }
+    const header = new Uint8Array(4)
+    header[0] = block.type | (index === blocks.length - 1 ? 0x80 : 0)
+    header[1] = (block.body.length >> 16) & 0xff
+    header[2] = (block.body.length >> 8) & 0xff
+    header[3] = block.body.length & 0xff
+    return concatBytes([header, block.body])
+  })
+
+  return concatBytes([data.subarray(0, prefixSize + 4), ...metadata, data.subarray(audioStart)])
+}
+
+/**
+ * Read iTunes-style metadata items from moov/udta/meta/ilst
+ */
+export function readMP4Tags(data: Uint8Array): EmbeddedTags {
+  const moov = findMP4Moov(data)
+  const udta = findMP4Child(data, moov, 'udta')
+  const meta = udta && findMP4Child(data, udta, 'meta')
+  const ilst = meta && findMP4Child(data, meta, 'ilst', getMetaVersionSize(data, meta))
+  if (!ilst) return {}
+
+  const fields: Partial<Record<TextField, string>> = {}
+  let artwork: EmbeddedArtwork | undefined
+
+  for (const item of readMP4Boxes(data, ilst.start + ilst.headerSize, ilst.end)) {
+    const value = findMP4Child(data, item, 'data')
+    if (!value) continue
+
+    const dataType = readUint32BE(data, value.start + value.headerSize) & 0xffffff
+    const content = data.subarray(value.start + value.headerSize + 8, value.end)
+
+    if (MP4_TEXT_ITEMS[item.type]) {
+      fields[MP4_TEXT_ITEMS[item.type]] = textDecoder.decode(content)
+    } else if (item.type === 'tmpo' && content.length > 0) {
+      fields.bpm = String(content.reduce((total, byte) => total * 256 + byte, 0))
+    } else if (item.type === '----' && getFreeformName(data, item)?.toLowerCase() === MP4_KEY_ITEM) {
+      fields.key = textDecoder.decode(content)
+    } else if (item.type === 'covr' && !artwork && content.length > 0) {
+      artwork = {
+        mimeType: dataType === MP4_TYPE_PNG ? 'image/png' : 'image/jpeg',
+        data: content.slice()
+      }
+    }
+  }
+
+  return toEmbeddedTags(fields, artwork)
+}
+
+/**
+ * Write the tmpo atom and an iTunes "initialkey" atom, shifting chunk offsets if the audio moves
+ */
+export function writeMP4Tags(data: Uint8Array, tags: TagValues): Uint8Array {
+  const moov = findMP4Moov(data)
+
+  const newMoov = rebuildMP4Box(data, moov, 'udta', udta => {
+    if (!udta) return makeBox('udta', makeMetaBox(buildIlst(data, undefined, tags)))
+
+    return rebuildMP4Box(data, udta, 'meta', meta => {
+      if (!meta) return makeMetaBox(buildIlst(data, undefined, tags))
+      return rebuildMP4Box(data, meta, 'ilst', ilst => buildIlst(data, ilst, tags), getMetaVersionSize(data, meta))
+    })
+  })
+
+  // Audio stored after moov moves by however much moov grew
+  shiftChunkOffsets(newMoov, moov.end, newMoov.length - (moov.end - moov.start))
+
+  return concatBytes([data.subarray(0, moov.start), newMoov, data.subarray(moov.end)])
+}
+
+/**
+ * Read the ID3v2 tag stored in an "id3 " chunk
+ */
+export function readWAVTags(data: Uint8Array): EmbeddedTags {
+  const tagChunk = readWAVChunks(data).find(chunk => chunk.id.toLowerCase() === 'id3 ')
+  return tagChunk ? readID3Tags(data.subarray(tagChunk.start + 8, tagChunk.end)) : {}
+}
+
+/**
+ * Read the "id3 " chunk of a WAV file too large to load, reading only the chunk headers on the way to it
+ */
+async function readLargeWAVTags(file: Blob): Promise<EmbeddedTags> {
+  const readBytes = async (start: number, end: number) => new Uint8Array(await file.slice(start, end).arrayBuffer())
+
+  const header = await readBytes(0, 12)
+  if (readAscii(header, 0, 4) !== 'RIFF' || readAscii(header, 8, 4) !== 'WAVE') {
+    throw new Error('Not a valid WAV file')
+  }
+
+  // The tag chunk usually follows the sample data
+  let offset = 12
+  while (offset + 8 <= file.size) {
+    const chunkHeader = await readBytes(offset, offset + 8)
+    const size = readUint32LE(chunkHeader, 4)
+    if (readAscii(chunkHeader, 0, 4).toLowerCase() === 'id3 ') {
+      return readID3Tags(await readBytes(offset + 8, Math.min(offset + 8 + size, file.size)))
+    }
+    offset += 8 + size + (size % 2)
+  }
+
+  return {}
+}
+
+/**
+ * Write an "id3 " chunk, the convention DJ software reads for WAV files
+ */
+export function writeWAVTags(data: Uint8Array, tags: TagValues): Uint8Array {
+  const chunks: Uint8Array[] = []
+  let existingTag: Uint8Array | null = null
+
+  for (const chunk of readWAVChunks(data)) {
+    if (chunk.id.toLowerCase() === 'id3 ' && existingTag === null) {
+      existingTag = data.subarray(chunk.start + 8, chunk.end)
+    } else {
+      // A chunk cut short keeps its declared size unless rewritten, which would hide the tag chunk inside it
+      const length = chunk.end - chunk.start - 8
+      chunks.push(length === chunk.size
+        ? data.subarray(chunk.start, chunk.end)
+        : concatBytes([data.subarray(chunk.start, chunk.start + 4), uint32LE(length), data.subarray(chunk.start + 8, chunk.end)]))
+      if (length % 2 === 1) chunks.push(new Uint8Array(1))
+    }
+  }
+
+  const tag = buildID3Tag(existingTag, tags)
+  const tagChunk = concatBytes([
+    asciiBytes('id3 '),
+    uint32LE(tag.length),
+    tag,
+    new Uint8Array(tag.length % 2)
+  ])
+
+  const body = concatBytes([asciiBytes('WAVE'), ...chunks, tagChunk])
+  return concatBytes([asciiBytes('RIFF'), uint32LE(body.length), body])
+}
+
+/**
+ * Drop empty values and parse the BPM into a number
+ */
+function toEmbeddedTags(fields: Partial<Record<TextField, string>>, artwork?: EmbeddedArtwork): EmbeddedTags {
+  const tags: EmbeddedTags = {}
+  const title = fields.title?.trim()
+  const artist = fields.artist?.trim()
+  const key = fields.key?.trim()
+  const bpm = parseFloat(fields.bpm ?? '')
+
+  if (title) tags.title = title
+  if (artist) tags.artist = artist
+  if (bpm > 0) tags.bpm = bpm
+  if (key) tags.key = key
+  if (artwork) tags.artwork = artwork
+  return tags
+}
+
+/**
+ * Get the size of an ID3v2 tag at the start of the data, or 0 if there is none
+ */
+function getID3TagSize(data: Uint8Array): number {
+  if (data.length < ID3_HEADER_SIZE || readAscii(data, 0, 3) !== 'ID3' || data[3] === 0xff) {
+    return 0
+  }
+
+  const hasFooter = (data[5] & 0x10) !== 0
+  const size = ID3_HEADER_SIZE + readSynchsafe(data, 6) + (hasFooter ? ID3_HEADER_SIZE : 0)
+  if (size > data.length) {
+    throw new Error('ID3 tag is truncated')
+  }
+  return size
+}
+
+interface ID3Frame {
+  id: string
+  raw: Uint8Array         // Header and content exactly as stored
+  content: Uint8Array | null // Decoded content, null when compressed or encrypted
+}
+
+/**
+ * Split an ID3v2 tag into frames
+ */
+function parseID3Tag(tag: Uint8Array): { version: number; frames: ID3Frame[] } {
+  const version = tag[3]
+  if (version < 2 || version > 4) {
+    throw new Error(`ID3v2.${version} tags are not supported`)
+  }
+
+  const flags = tag[5]
+  let body = tag.subarray(ID3_HEADER_SIZE, ID3_HEADER_SIZE + readSynchsafe(tag, 6))
+  // v2.4 marks unsynchronised frames individually, so only older versions need decoding up front
+  if (version < 4 && (flags & 0x80) !== 0) {
+    body = removeUnsynchronisation(body)
+  }
+
+  let offset = 0
+  if (version > 2 && (flags & 0x40) !== 0) {
+    offset = version === 3 ? readUint32BE(body, 0) + 4 : readSynchsafe(body, 0)
+  }
+
+  // v2.2 frames have 3-character IDs, 3-byte sizes and no flags
+  const idLength = version === 2 ? 3 : 4
+  const headerSize = version === 2 ? 6 : 10
+  const frames: ID3Frame[] = []
+
+  while (offset + headerSize <= body.length) {
+    const id = readAscii(body, offset, idLength)
+    if (!/^[A-Z0-9]+$/.test(id)) break // Padding
+
+    const size = version === 2
+      ? (body[offset + 3] << 16) | (body[offset + 4] << 8) | body[offset + 5]
+      : version === 4 ? readSynchsafe(body, offset + 4) : readUint32BE(body, offset + 4)
+    const end = offset + headerSize + size
+    if (end > body.length) break
+
+    let content: Uint8Array | null = body.subarray(offset + headerSize, end)
+    if (version === 3) {
+      const formatFlags = body[offset + 9]
+      if ((formatFlags & 0xc0) !== 0) content = null
+      else if ((formatFlags & 0x20) !== 0) content = content.subarray(1) // Group ID
+    } else if (version === 4) {
+      const formatFlags = body[offset + 9]
+      if ((formatFlags & 0x0c) !== 0) {
+        content = null
+      } else {
+        if ((formatFlags & 0x40) !== 0) content = content.subarray(1) // Group ID
+        if ((formatFlags & 0x01) !== 0) content = content.subarray(4) // Data length indicator
+        if ((formatFlags & 0x02) !== 0) content = removeUnsynchronisation(content)
+      }
+    }
+
+    frames.push({ id, raw: body.subarray(offset, end), content })
+    offset = end
+  }
+
+  return { version, frames }
+}
+
+/**
+ * Read text fields and the front cover from an ID3v2 tag
+ */
+function readID3Frames(tag: Uint8Array): EmbeddedTags {
+  const { version, frames } = parseID3Tag(tag)
+  const fields: Partial<Record<TextField, string>> = {}
+  let artwork: EmbeddedArtwork | undefined
+  let artworkType = -1
+
+  for (const { id, content } of frames) {
+    if (!content || content.length === 0) continue
+
+    const field = ID3_TEXT_FIELDS[id]
+    if (field && !fields[field]) {
+      // Multiple values are separated by nulls; the first is enough here
+      fields[field] = decodeID3Text(content.subarray(1), content[0]).split('\0')[0]
+    } else if ((id === 'APIC' || id === 'PIC') && artworkType !== ID3_FRONT_COVER) {
+      const picture = parseID3Picture(content, version)
+      if (picture) {
+        artwork = picture.artwork
+        artworkType = picture.pictureType
+      }
+    }
+  }
+
+  return toEmbeddedTags(fields, artwork)
+}
+
+/**
+ * Parse an APIC (or v2.2 PIC) frame
+ */
+function parseID3Picture(content: Uint8Array, version: number): { artwork: EmbeddedArtwork; pictureType: number } | null {
+  const encoding = content[0]
+  let mimeType: string
+  let offset: number
+
+  if (version === 2) {
+    const format = readAscii(content, 1, 3).toLowerCase()
+    mimeType = `image/${format === 'jpg' ? 'jpeg' : format}`
+    offset = 4
+  } else {
+    const mimeEnd = content.indexOf(0, 1)
+    if (mimeEnd < 0) return null
+    mimeType = readAscii(content, 1, mimeEnd - 1).toLowerCase() || 'image/jpeg'
+    offset = mimeEnd + 1
+  }
+
+  const pictureType = content[offset]
+  const descriptionEnd = findID3Terminator(content, offset + 1, encoding)
+  if (descriptionEnd < 0) return null
+
+  const data = content.slice(descriptionEnd)
+  return data.length > 0 ? { artwork: { mimeType, data }, pictureType } : null
+}
+
+/**
+ * Find the end of a null-terminated string, returning the offset just past the terminator
+ */
+function findID3Terminator(content: Uint8Array, start: number, encoding: number): number {
+  const isWide = encoding === 1 || encoding === 2
+  for (let i = start; i + (isWide ? 1 : 0) < content.length; i += isWide ? 2 : 1) {
+    if (content[i] === 0 && (!isWide || content[i + 1] === 0)) {
+      return i + (isWide ? 2 : 1)
+    }
+  }
+  return -1
+}
+
+function decodeID3Text(bytes: Uint8Array, encoding: number): string {
+  switch (encoding) {
+    case 1: {
+      const isBigEndian = bytes[0] === 0xfe && bytes[1] === 0xff
+      return new TextDecoder(isBigEndian ? 'utf-16be' : 'utf-16le').decode(bytes)
+    }
+    case 2: return new TextDecoder('utf-16be').decode(bytes)
+    case 3: return textDecoder.decode(bytes)
+    default: return String.fromCharCode(...bytes) // ISO-8859-1
+  }
+}
+
+/**
+ * Build an ID3v2 tag with the new frames, carrying over other frames from an existing tag
+ */
+function buildID3Tag(existing: Uint8Array | null, tags: TagValues): Uint8Array {
+  let version = 3
+  const frames: Uint8Array[] = []
+
+  if (existing && existing.length >= ID3_HEADER_SIZE) {
+    const parsed = parseID3Tag(existing)
+    // v2.2 frame IDs cannot be carried into a newer tag without a full conversion
+    if (parsed.version === 2) {
+      throw new Error('ID3v2.2 tags are not supported')
+    }
+
+    version = parsed.version
+    for (const frame of parsed.frames) {
+      if (!isReplacedID3Frame(frame.id, tags)) {
+        frames.push(frame.raw)
+      }
+    }
+  }
+
+  if (tags.key) frames.push(makeID3TextFrame('TKEY', tags.key, version))
+  if (tags.bpm !== undefined) frames.push(makeID3TextFrame('TBPM', String(Math.round(tags.bpm)), version))
+
+  const body = concatBytes(frames)
+  const header = new Uint8Array(ID3_HEADER_SIZE)
+  header.set(asciiBytes('ID3'))
+  header[3] = version
+  header.set(synchsafeBytes(body.length), 6)
+
+  return concatBytes([header, body])
+}
+
+function isReplacedID3Frame(id: string, tags: TagValues): boolean {
+  return (id === 'TKEY' && !!tags.key) || (id === 'TBPM' && tags.bpm !== undefined)
+}
+
+/**
+ * Build an ID3 text frame using ISO-8859-1, which covers key and BPM values
+ */
+function makeID3TextFrame(id: string, text: string, version: number): Uint8Array {
+  const payload = new Uint8Array(text.length + 1) // Leading 0 selects ISO-8859-1
+  for (let i = 0; i < text.length; i++) {
+    payload[i + 1] = text.charCodeAt(i) & 0xff
+  }
+
+  const header = new Uint8Array(ID3_HEADER_SIZE)
+  header.set(asciiBytes(id))
+  header.set(version === 4 ? synchsafeBytes(payload.length) : uint32BE(payload.length), 4)
+
+  return concatBytes([header, payload])
+}
+
+function removeUnsynchronisation(data: Uint8Array): Uint8Array {
+  const output: number[] = []
+  for (let i = 0; i < data.length; i++) {
+    output.push(data[i])
+    if (data[i] === 0xff && data[i + 1] === 0x00) i++
+  }
+  return new Uint8Array(output)
+}
+
+/**
+ * Split a FLAC file into its metadata blocks, skipping any ID3v2 tag in front of the stream marker
+ */
+function readFLACBlocks(data: Uint8Array): {
+  prefixSize: number
+  blocks: Array<{ type: number; body: Uint8Array }>
+  audioStart: number
+} {
+  const prefixSize = getID3TagSize(data)
+  if (readAscii(data, prefixSize, 4) !== 'fLaC') {
+    throw new Error('Not a valid FLAC file')
+  }
+
+  const blocks: Array<{ type: number; body: Uint8Array }> = []
+  let offset = prefixSize + 4
+  let isLast = false
+
+  while (!isLast) {
+    if (offset + 4 > data.length) {
+      throw new Error('FLAC metadata is truncated')
+    }
+    const header = data[offset]
+    const length = (data[offset + 1] << 16) | (data[offset + 2] << 8) | data[offset + 3]
+    if (offset + 4 + length > data.length) {
+      throw new Error('FLAC metadata is truncated')
+    }
+
+    isLast = (header & 0x80) !== 0
+    blocks.push({ type: header & 0x7f, body: data.subarray(offset + 4, offset + 4 + length) })
+    offset += 4 + length
+  }
+
+  if (blocks[0]?.type !== FLAC_STREAMINFO) {
+    throw new Error('Not a valid FLAC file')
+  }
+
+  return { prefixSize, blocks, audioStart: offset }
+}
+
+/**
+ * Parse a FLAC PICTURE block
+ */
+function parseFLACPicture(body: Uint8Array): { artwork: EmbeddedArtwork; pictureType: number } | null {
+  const pictureType = readUint32BE(body, 0)
+  const mimeLength = readUint32BE(body, 4)
+  const mimeType = readAscii(body, 8, mimeLength).toLowerCase() || 'image/jpeg'
+  const descriptionLength = readUint32BE(body, 8 + mimeLength)
+  // Width, height, color depth and palette size follow the description
+  const dataOffset = 12 + mimeLength + descriptionLength + 16
+  const dataLength = readUint32BE(body, dataOffset)
+
+  const data = body.slice(dataOffset + 4, dataOffset + 4 + dataLength)
+  return data.length > 0 ? { artwork: { mimeType, data }, pictureType } : null
+}
+
+function parseVorbisComment(body: Uint8Array): { vendor: Uint8Array; comments: Uint8Array[] } {
+  const vendorLength = readUint32LE(body, 0)
+  const vendor = body.subarray(4, 4 + vendorLength)
+  const count = readUint32LE(body, 4 + vendorLength)
+  const comments: Uint8Array[] = []
+
+  let offset = 8 + vendorLength
+  for (let i = 0; i < count && offset + 4 <= body.length; i++) {
+    const length = readUint32LE(body, offset)
+    comments.push(body.subarray(offset + 4, offset + 4 + length))
+    offset += 4 + length
+  }
+
+  return { vendor, comments }
+}
+
+/**
+ * Build a Vorbis comment block, replacing INITIALKEY and BPM and keeping every other comment
+ */
+function buildVorbisComment(existing: Uint8Array | null, tags: TagValues): Uint8Array {
+  const parsed = existing ? parseVorbisComment(existing) : { vendor: textEncoder.encode(FLAC_VENDOR), comments: [] }
+
+  const comments = parsed.comments.filter(comment => {
+    const field = textDecoder.decode(comment).split('=')[0].toUpperCase()
+    return !((field === 'INITIALKEY' && !!tags.key) || (field === 'BPM' && tags.bpm !== undefined))
+  })
+
+  if (tags.key) comments.push(textEncoder.encode(`INITIALKEY=${tags.key}`))
+  if (tags.bpm !== undefined) comments.push(textEncoder.encode(`BPM=${Math.round(tags.bpm)}`))
+
+  return concatBytes([
+    uint32LE(parsed.vendor.length),
+    parsed.vendor,
+    uint32LE(comments.length),
+    ...comments.flatMap(comment => [uint32LE(comment.length), comment])
+  ])
+}
+
+/**
+ * Split a RIFF/WAVE file into chunks, clamping sizes that run past the end of the file
+ */
+function readWAVChunks(data: Uint8Array): Array<{ id: string; start: number; end: number; size: number }> {
+  if (readAscii(data, 0, 4) !== 'RIFF' || readAscii(data, 8, 4) !== 'WAVE') {
+    throw new Error('Not a valid WAV file')
+  }
+
+  const chunks: Array<{ id: string; start: number; end: number; size: number }> = []
+  let offset = 12
+
+  while (offset + 8 <= data.length) {
+    const size = readUint32LE(data, offset + 4)
+    // Streamed WAVs can claim more data than the file holds
+    const end = Math.min(offset + 8 + size, data.length)
+    chunks.push({ id: readAscii(data, offset, 4), start: offset, end, size })
+    offset = end + (size % 2)
+  }
+
+  return chunks
+}
+
+interface MP4Box {
+  type: string
+  start: number
+  end: number
+  headerSize: number
+}
+
+function readMP4Boxes(data: Uint8Array, start: number, end: number): MP4Box[] {
+  const boxes: MP4Box[] = []
+  let offset = start
+
+  while (offset + 8 <= end) {
+    let size = readUint32BE(data, offset)
+    const type = readAscii(data, offset + 4, 4)
+    let headerSize = 8
+
+    if (size === 1) {
+      size = readUint32BE(data, offset + 8) * 2 ** 32 + readUint32BE(data, offset + 12)
+      headerSize = 16
+    } else if (size === 0) {
+      size = end - offset // Box runs to the end of its parent
+    }
+
+    if (size < headerSize || offset + size > end) {
+      throw new Error(`Invalid MP4 box "${type}"`)
+    }
+
+    boxes.push({ type, start: offset, end: offset + size, headerSize })
+    offset += size
+  }
+
+  return boxes
+}
+
+function findMP4Moov(data: Uint8Array): MP4Box {
+  const topLevel = readMP4Boxes(data, 0, data.length)
+  if (topLevel[0]?.type !== 'ftyp') {
+    throw new Error('Not a valid MP4/M4A file')
+  }
+
+  const moov = topLevel.find(box => box.type === 'moov')
+  if (!moov) {
+    throw new Error('MP4 file has no moov box')
+  }
+  return moov
+}
+
+function findMP4Child(data: Uint8Array, box: MP4Box, type: string, versionSize = 0): MP4Box | undefined {
+  return readMP4Boxes(data, box.start + box.headerSize + versionSize, box.end).find(child => child.type === type)
+}
+
+/**
+ * meta is a full box in MP4 but a plain container in QuickTime files
+ */
+function getMetaVersionSize(data: Uint8Array, meta: MP4Box): number {
+  return readAscii(data, meta.start + meta.headerSize + 4, 4) === 'hdlr' ? 0 : 4
+}
+
+/**
+ * Rebuild a container box with one child replaced, or appended when missing
+ */
+function rebuildMP4Box(
+  data: Uint8Array,
+  box: MP4Box,
+  childType: string,
+  update: (child?: MP4Box) => Uint8Array,
+  versionSize = 0
+): Uint8Array {
+  const contentStart = box.start + box.headerSize
+  const children = readMP4Boxes(data, contentStart + versionSize, box.end)
+  const child = children.find(c => c.type === childType)
+
+  const parts = [data.subarray(contentStart, contentStart + versionSize)]
+  for (const c of children) {
+    parts.push(c === child ? update(c) : data.subarray(c.start, c.end))
+  }
+  if (!child) parts.push(update())
+
+  return makeBox(box.type, ...parts)
+}
+
+/**
+ * Build an ilst box with new tmpo and key items, keeping every other item
+ */
+function buildIlst(data: Uint8Array, ilst: MP4Box | undefined, tags: TagValues): Uint8Array {
+  const items: Uint8Array[] = []
+
+  if (ilst) {
+    for (const item of readMP4Boxes(data, ilst.start + ilst.headerSize, ilst.end)) {
+      const isReplaced =
+        (item.type === 'tmpo' && tags.bpm !== undefined) ||
+        (item.type === '----' && !!tags.key && getFreeformName(data, item)?.toLowerCase() === MP4_KEY_ITEM)
+      if (!isReplaced) items.push(data.subarray(item.start, item.end))
+    }
+  }
+
+  if (tags.bpm !== undefined) {
+    const bpm = Math.min(Math.round(tags.bpm), 0xffff)
+    items.push(makeBox('tmpo', makeDataBox(MP4_TYPE_INTEGER, new Uint8Array([bpm >> 8, bpm & 0xff]))))
+  }
+  if (tags.key) {
+    items.push(makeBox(
+      '----',
+      makeBox('mean', uint32BE(0), textEncoder.encode('com.apple.iTunes')),
+      makeBox('name', uint32BE(0), textEncoder.encode(MP4_KEY_ITEM)),
+      makeDataBox(MP4_TYPE_UTF8, textEncoder.encode(tags.key))
+    ))
+  }
+
+  return makeBox('ilst', ...items)
+}
+
+function getFreeformName(data: Uint8Array, item: MP4Box): string | undefined {
+  const name = findMP4Child(data, item, 'name')
+  return name ? textDecoder.decode(data.subarray(name.start + name.headerSize + 4, name.end)) : undefined
+}
+
+function makeMetaBox(ilst: Uint8Array): Uint8Array {
+  const hdlr = makeBox(
+    'hdlr',
+    uint32BE(0), // Version and flags
+    uint32BE(0), // Pre-defined
+    asciiBytes('mdirappl'),
+    new Uint8Array(9) // Reserved, then an empty name
+  )
+  return makeBox('meta', uint32BE(0), hdlr, ilst)
+}
+
+function makeDataBox(dataType: number, value: Uint8Array): Uint8Array {
+  return makeBox('data', uint32BE(dataType), uint32BE(0), value)
+}
+
+function makeBox(type: string, ...children: Uint8Array[]): Uint8Array {
+  const content = concatBytes(children)
+  return concatBytes([uint32BE(content.length + 8), asciiBytes(type), content])
+}
+
+/**
+ * Add a delta to every stco/co64 chunk offset that points at or past the threshold
+ */
+function shiftChunkOffsets(moov: Uint8Array, threshold: number, delta: number): void {
+  if (delta === 0) return
+
+  const visit = (start: number, end: number) => {
+    for (const box of readMP4Boxes(moov, start, end)) {
+      if (MP4_SAMPLE_TABLE_PATH.has(box.type)) {
+        visit(box.start + box.headerSize, box.end)
+        continue
+      }
+      if (box.type !== 'stco' && box.type !== 'co64') continue
+
+      const count = readUint32BE(moov, box.start + box.headerSize + 4)
+      let offset = box.start + box.headerSize + 8
+      for (let i = 0; i < count; i++) {
+        if (box.type === 'stco') {
+          const value = readUint32BE(moov, offset)
+          if (value >= threshold) moov.set(uint32BE(value + delta), offset)
+          offset += 4
+        } else {
+          const value = readUint32BE(moov, offset) * 2 ** 32 + readUint32BE(moov, offset + 4)
+          if (value >= threshold) {
+            const shifted = value + delta
+            moov.set(uint32BE(Math.floor(shifted / 2 ** 32)), offset)
+            moov.set(uint32BE(shifted % 2 ** 32), offset + 4)
+          }
+          offset += 8
+        }
+      }
+    }
+  }
+
+  visit(8, moov.length)
+}
+
+function readAscii(data: Uint8Array, offset: number, length: number): string {
+  return String.fromCharCode(...data.subarray(offset, offset + length))
+}
+
+function asciiBytes(text: string): Uint8Array {
+  return Uint8Array.from(text, char => char.charCodeAt(0))
+}
+
+function readUint32BE(data: Uint8Array, offset: number): number {
+  return ((data[offset] << 24) | (data[offset + 1] << 16) | (data[offset + 2] << 8) | data[offset + 3]) >>> 0
+}
+
+function readUint32LE(data: Uint8Array, offset: number): number {
+  return ((data[offset + 3] << 24) | (data[offset + 2] << 16) | (data[offset + 1] << 8) | data[offset]) >>> 0
+}
+
+function readSynchsafe(data: Uint8Array, offset: number): number {
+  return ((data[offset] & 0x7f) << 21) | ((data[offset + 1] & 0x7f) << 14) | ((data[offset + 2] & 0x7f) << 7) | (data[offset + 3] & 0x7f)
+}
+
+function uint32BE(value: number): Uint8Array {
+  return new Uint8Array([(value >>> 24) & 0xff, (value >>> 16) & 0xff, (value >>> 8) & 0xff, value & 0xff])
+}
+
+function uint32LE(value: number): Uint8Array {
+  return new Uint8Array([value & 0xff, (value >>> 8) & 0xff, (value >>> 16) & 0xff, (value >>> 24) & 0xff])
+}
+
+function synchsafeBytes(value: number): Uint8Array {
+  return new Uint8Array([(value >> 21) & 0x7f, (value >> 14) & 0x7f, (value >> 7) & 0x7f, value & 0x7f])
+}
+
+function concatBytes(parts: Uint8Array[]): Uint8Array {
+  const output = new Uint8Array(parts.reduce((total, part) => total + part.length, 0))
+  let offset = 0
+  for (const part of parts) {
+    output.set(part, offset)
+    offset += part.length
+  }
+  return output
+}
@@ -0,0 +1,443 @@
+// Split large MP3, WAV and FLAC files into windows that decode on their own,
+// so long files can be analyzed without holding all of their audio in memory
+
+import { MAX_FILE_SIZE, STREAMABLE_FORMATS } from '../types'
+import { decodeAudio } from './audioDecoder'
+
+export type StreamableFormat = typeof STREAMABLE_FORMATS[number]
+
+export interface AudioLayout {
+  format: StreamableFormat
+  audioStart: number     // Offset of the first audio frame or sample
+  audioEnd: number       // Offset just past the last audio byte
+  bytesPerSecond: number // Average, used to size windows
+  duration: number       // Estimated from the header, in seconds
+  header: Uint8Array     // Format header placed before each window
+  blockAlign: number     // Bytes per sample frame for WAV, 1 otherwise
+}
+
+// Seconds of audio per analysis window; decoded windows stay a few megabytes at the analysis rate
+export const ANALYSIS_WINDOW_SECONDS = 60
+// Windows are decoded straight to the rate AudioProcessor analyzes at
+export const WINDOW_SAMPLE_RATE = 16000
+
+const MIN_WINDOW_BYTES = 256 * 1024 // 256KB
+const MAX_WINDOW_BYTES = 32 * 1024 * 1024 // 32MB
+// Bytes without a frame boundary are passed on as they are rather than carried forever
+const MAX_CARRY_BYTES = 1024 * 1024 // 1MB
+
+const MPEG1_BITRATES = [0, 32, 40, 48, 56, 64, 80, 96, 112, 128, 160, 192, 224, 256, 320]
+const MPEG2_BITRATES = [0, 8, 16, 24, 32, 40, 48, 56, 64, 80, 96, 112, 128, 144, 160]
+const MPEG1_SAMPLE_RATES = [44100, 48000, 32000]
+
+interface MP3FrameHeader {
+  length: number
+  sampleRate: number
+  samples: number
+  bitrate: number
+  isMPEG1: boolean
+  isMono: boolean
+}
+
+/**
+ * Check whether a file is too large to decode at once and has to be analyzed in windows
+ */
+export function shouldAnalyzeInWindows(file: File): boolean {
+  const format = file.name.split('.').pop()?.toLowerCase() || ''
+  return file.size > MAX_FILE_SIZE && isStreamableFormat(format)
+}
+
+export function isStreamableFormat(format: string): format is StreamableFormat {
+  return (STREAMABLE_FORMATS as readonly string[]).includes(format)
+}
+
+/**
+ * Read the header of an MP3, WAV or FLAC file to find where its audio is and how to frame windows
+ */
+export async function readAudioLayout(file: File): Promise<AudioLayout> {
+  const format = file.name.split('.').pop()?.toLowerCase() || ''
+
+  switch (format) {
+    case 'mp3':
+      return readMP3Layout(file)
+    case 'wav':
+      return readWAVLayout(file)
+    case 'flac':
+      return readFLACLayout(file)
+    default:
+      throw new Error(`Windowed analysis is not supported for ${format.toUpperCase()} files`)
+  }
+}
+
+/**
+ * Pick a chunk size that holds about ANALYSIS_WINDOW_SECONDS of audio
+ */
+export function getWindowByteSize(layout: AudioLayout, seconds: number = ANALYSIS_WINDOW_SECONDS): number {
+  const size = Math.round(layout.bytesPerSecond * seconds)
+  return Math.max(MIN_WINDOW_BYTES, Math.min(MAX_WINDOW_BYTES, size))
+}
+
+/**
+ * Turns consecutive file chunks into windows that end on a frame boundary,
+ * carrying the partial frame at the end of each chunk over to the next window
+ */
+export class AudioWindowSplitter {
+  private layout: AudioLayout
+  private carry = new Uint8Array(0)
+
+  constructor(layout: AudioLayout) {
+    this.layout = layout
+  }
+
+  /**
+   * Add the chunk starting at chunkStart and return the next decodable window, if one is complete
+   */
+  push(chunk: ArrayBuffer, chunkStart: number, isLast: boolean): Uint8Array | null {
+    const { audioStart, audioEnd } = this.layout
+    const start = Math.max(0, audioStart - chunkStart)
+    const end = Math.min(chunk.byteLength, audioEnd - chunkStart)
+    const audio = end > start ? new Uint8Array(chunk, start, end - start) : new Uint8Array(0)
+
+    const data = new Uint8Array(this.carry.length + audio.length)
+    data.set(this.carry)
+    data.set(audio, this.carry.length)
+
+    let cut = isLast ? data.length : this.findCut(data)
+    if (cut === 0 && data.length > MAX_CARRY_BYTES) {
+      cut = data.length
+    }
+
+    this.carry = data.slice(cut)
+    return cut > 0 ? this.wrap(data.subarray(0, cut)) : null
+  }
+
+  /**
+   * Find the end of the last complete frame
+   */
+  private findCut(data: Uint8Array): number {
+    switch (this.layout.format) {
+      case 'wav':
+        return data.length - (data.length % this.layout.blockAlign)
+      case 'mp3':
+        return findMP3Cut(data)
+      case 'flac':
+        return findFLACCut(data)
+    }
+  }
+
+  /**
+   * Put the format header in front of the window so it decodes on its own
+   */
+  private wrap(audio: Uint8Array): Uint8Array {
+    const { format, header } = this.layout
+
+    if (format === 'wav') {
+      const window = new Uint8Array(12 + header.length + 8 + audio.length)
+      const view = new DataView(window.buffer)
+      window.set(ascii('RIFF'), 0)
+      view.setUint32(4, window.length - 8, true)
+      window.set(ascii('WAVE'), 8)
+      window.set(header, 12)
+      window.set(ascii('data'), 12 + header.length)
+      view.setUint32(16 + header.length, audio.length, true)
+      window.set(audio, 20 + header.length)
+      return window
+    }
+
+    const window = new Uint8Array(header.length + audio.length)
+    window.set(header)
+    window.set(audio, header.length)
+    return window
+  }
+}
+
+/**
+ * Decode one window straight to the analysis sample rate, or at its own rate with the built-in
+ * decoder where there is no OfflineAudioContext
+ */
+export async function decodeAudioWindow(window: Uint8Array, sampleRate: number = WINDOW_SAMPLE_RATE): Promise<AudioBuffer> {
+  if (typeof OfflineAudioContext === 'undefined') {
+    const magic = readASCII(window, 0, 4)
+    if (magic === 'RIFF' || magic === 'fLaC') {
+      const data = window.buffer.slice(window.byteOffset, window.byteOffset + window.byteLength) as ArrayBuffer
+      return decodeAudio(data, magic === 'RIFF' ? 'wav' : 'flac')
+    }
+    throw new Error('Windowed decoding requires OfflineAudioContext support')
+  }
+
+  const context = new OfflineAudioContext(1, 1, sampleRate)
+  // decodeAudioData detaches the buffer, so hand it a copy of exactly this window
+  const data = window.buffer.slice(window.byteOffset, window.byteOffset + window.byteLength) as ArrayBuffer
+  return context.decodeAudioData(data)
+}
+
+async function readMP3Layout(file: File): Promise<AudioLayout> {
+  let audioStart = 0
+  let audioEnd = file.size
+
+  // Skip a leading ID3v2 tag, which can be megabytes of artwork
+  const id3 = await readBytes(file, 0, 10)
+  if (id3.length === 10 && id3[0] === 0x49 && id3[1] === 0x44 && id3[2] === 0x33) {
+    const size = ((id3[6] & 0x7f) << 21) | ((id3[7] & 0x7f) << 14) | ((id3[8] & 0x7f) << 7) | (id3[9] & 0x7f)
+    const hasFooter = (id3[5] & 0x10) !== 0
+    audioStart = 10 + size + (hasFooter ? 10 : 0)
+  }
+
+  // And a trailing ID3v1 tag
+  if (file.size - audioStart >= 128) {
+    const tail = await readBytes(file, file.size - 128, file.size - 125)
+    if (tail[0] === 0x54 && tail[1] === 0x41 && tail[2] === 0x47) {
+      audioEnd = file.size - 128
+    }
+  }
+
+  const head = await readBytes(file, audioStart, Math.min(audioEnd, audioStart + 64 * 1024))
+  let offset = 0
+  let frame: MP3FrameHeader | null = null
+  for (; offset + 4 <= head.length; offset++) {
+    frame = parseMP3FrameHeader(head, offset)
+    if (frame) break
+  }
+  if (!frame) {
+    throw new Error('No MPEG audio frames found in MP3 file')
+  }
+  audioStart += offset
+
+  // A Xing or Info header in the first frame gives the exact frame count of VBR files
+  let duration = (audioEnd - audioStart) * 8 / frame.bitrate
+  const sideInfoSize = frame.isMPEG1 ? (frame.isMono ? 17 : 32) : (frame.isMono ? 9 : 17)
+  const xing = offset + 4 + sideInfoSize
+  if (xing + 12 <= head.length) {
+    const tag = String.fromCharCode(...head.subarray(xing, xing + 4))
+    const view = new DataView(head.buffer, head.byteOffset, head.byteLength)
+    if ((tag === 'Xing' || tag === 'Info') && (view.getUint32(xing + 4) & 1)) {
+      duration = view.getUint32(xing + 8) * frame.samples / frame.sampleRate
+    }
+  }
+
+  return {
+    format: 'mp3',
+    audioStart,
+    audioEnd,
+    bytesPerSecond: duration > 0 ? (audioEnd - audioStart) / duration : frame.bitrate / 8,
+    duration,
+    header: new Uint8Array(0),
+    blockAlign: 1
+  }
+}
+
+async function readWAVLayout(file: File): Promise<AudioLayout> {
+  const riff = await readBytes(file, 0, 12)
+  if (riff.length < 12 || readASCII(riff, 0, 4) !== 'RIFF' || readASCII(riff, 8, 4) !== 'WAVE') {
+    throw new Error('Not a valid WAV file')
+  }
+
+  let header: Uint8Array | null = null
+  let offset = 12
+
+  while (offset + 8 <= file.size) {
+    const chunk = await readBytes(file, offset, offset + 8)
+    const id = readASCII(chunk, 0, 4)
+    const size = new DataView(chunk.buffer).getUint32(4, true)
+
+    if (id === 'fmt ') {
+      header = await readBytes(file, offset, offset + 8 + size)
+    } else if (id === 'data') {
+      if (!header) break
+
+      const fmt = new DataView(header.buffer, 8)
+      const byteRate = fmt.getUint32(8, true)
+      const blockAlign = fmt.getUint16(12, true)
+      const audioStart = offset + 8
+      // Streamed recordings may leave the data size unset
+      const audioEnd = size === 0 || size === 0xffffffff ? file.size : Math.min(file.size, audioStart + size)
+
+      return {
+        format: 'wav',
+        audioStart,
+        audioEnd,
+        bytesPerSecond: byteRate,
+        duration: (audioEnd - audioStart) / byteRate,
+        header,
+        blockAlign: Math.max(1, blockAlign)
+      }
+    }
+
+    offset += 8 + size + (size % 2)
+  }
+
+  throw new Error('WAV file has no audio data')
+}
+
+async function readFLACLayout(file: File): Promise<AudioLayout> {
+  const magic = await readBytes(file, 0, 4)
+  if (readASCII(magic, 0, 4) !== 'fLaC') {
+    throw new Error('Not a valid FLAC file')
+  }
+
+  let streamInfo: Uint8Array | null = null
+  let offset = 4
+  let isLast = false
+
+  while (!isLast && offset + 4 <= file.size) {
+    const block = await readBytes(file, offset, offset + 4)
+    isLast = (block[0] & 0x80) !== 0
+    const length = (block[1] << 16) | (block[2] << 8) | block[3]
+
+    if ((block[0] & 0x7f) === 0) {
+      streamInfo = await readBytes(file, offset + 4, offset + 4 + length)
+    }
+    offset += 4 + length
+  }
+
+  if (!streamInfo || streamInfo.length < 34) {
+    throw new Error('FLAC file has no STREAMINFO block')
+  }
+
+  const sampleRate = (streamInfo[10] << 12) | (streamInfo[11] << 4) | (streamInfo[12] >> 4)
+  const channels = ((streamInfo[12] >> 1) & 0x07) + 1
+  const bitsPerSample = (((streamInfo[12] & 0x01) << 4) | (streamInfo[13] >> 4)) + 1
+  const totalSamples = (streamInfo[13] & 0x0f) * 2 ** 32 + new DataView(streamInfo.buffer).getUint32(14)
+  const audioBytes = file.size - offset
+
+  // Each window holds only part of the stream, so clear the total sample count and MD5
+  const header = new Uint8Array(4 + 4 + 34)
+  header.set(ascii('fLaC'))
+  header.set([0x80, 0, 0, 34], 4)
+  header.set(streamInfo.subarray(0, 34), 8)
+  header[8 + 13] &= 0xf0
+  header.fill(0, 8 + 14, 8 + 34)
+
+  const duration = totalSamples > 0 && sampleRate > 0 ? totalSamples / sampleRate : 0
+
+  return {
+    format: 'flac',
+    audioStart: offset,
+    audioEnd: file.size,
+    // Without a sample count, assume the usual compression to about half size
+    bytesPerSecond: duration > 0 ? audioBytes / duration : sampleRate * channels * bitsPerSample / 16,
+    duration,
+    header,
+    blockAlign: 1
+  }
+}
+
+/**
+ * Hop from frame to frame and return the end of the last one that is complete
+ */
+function findMP3Cut(data: Uint8Array): number {
+  let offset = 0
+  let cut = 0
+
+  while (offset + 4 <= data.length) {
+    const frame = parseMP3FrameHeader(data, offset)
+    if (!frame) {
+      offset++
+      continue
+    }
+    if (offset + frame.length > data.length) break
+    offset += frame.length
+    cut = offset
+  }
+
+  return cut
+}
+
+/**
+ * Return the start of the last FLAC frame, which may be cut off
+ */
+function findFLACCut(data: Uint8Array): number {
+  for (let offset = data.length - 2; offset > 0; offset--) {
+    if (data[offset] === 0xff && (data[offset + 1] & 0xfe) === 0xf8 && isFLACFrameHeader(data, offset)) {
+      return offset
+    }
+  }
+  return 0
+}
+
+function parseMP3FrameHeader(data: Uint8Array, offset: number): MP3FrameHeader | null {
+  if (data[offset] !== 0xff || (data[offset + 1] & 0xe0) !== 0xe0) return null
+
+  const version = (data[offset + 1] >> 3) & 0x03 // 0: MPEG 2.5, 1: reserved, 2: MPEG 2, 3: MPEG 1
+  const layer = (data[offset + 1] >> 1) & 0x03   // 1: Layer III
+  const bitrateIndex = data[offset + 2] >> 4
+  const sampleRateIndex = (data[offset + 2] >> 2) & 0x03
+  const padding = (data[offset + 2] >> 1) & 0x01
+
+  if (version === 1 || layer !== 1 || bitrateIndex === 0 || bitrateIndex === 15 || sampleRateIndex === 3) {
+    return null
+  }
+
+  const isMPEG1 = version === 3
+  const bitrate = (isMPEG1 ? MPEG1_BITRATES : MPEG2_BITRATES)[bitrateIndex] * 1000
+  const sampleRate = MPEG1_SAMPLE_RATES[sampleRateIndex] / (isMPEG1 ? 1 : version === 2 ? 2 : 4)
+  const samples = isMPEG1 ? 1152 : 576
+
+  return {
+    length: Math.floor((samples / 8) * bitrate / sampleRate) + padding,
+    sampleRate,
+    samples,
+    bitrate,
+    isMPEG1,
+    isMono: data[offset + 3] >> 6 === 3
+  }
+}
+
+/**
+ * Validate a FLAC frame header, including its CRC-8, to tell real frames from sync-like audio bytes
+ */
+function isFLACFrameHeader(data: Uint8Array, offset: number): boolean {
+  if (offset + 5 > data.length) return false
+
+  const blockSizeCode = data[offset + 2] >> 4
+  const sampleRateCode = data[offset + 2] & 0x0f
+  const channelCode = data[offset + 3] >> 4
+  const sampleSizeCode = (data[offset + 3] >> 1) & 0x07
+  if (blockSizeCode === 0 || sampleRateCode === 15 || channelCode > 10 || sampleSizeCode === 3 || (data[offset + 3] & 0x01)) {
+    return false
+  }
+
+  // Frame or sample number, UTF-8 style coded in 1 to 7 bytes
+  const first = data[offset + 4]
+  let numberLength = 1
+  if (first >= 0x80) {
+    if ((first & 0xc0) === 0x80 || first === 0xff) return false
+    while (first & (0x80 >> numberLength)) numberLength++
+  }
+
+  let position = offset + 4 + numberLength
+  if (blockSizeCode === 6) position += 1
+  if (blockSizeCode === 7) position += 2
+  if (sampleRateCode === 12) position += 1
+  if (sampleRateCode === 13 || sampleRateCode === 14) position += 2
+  if (position >= data.length) return false
+
+  for (let i = offset + 5; i < offset + 4 + numberLength; i++) {
+    if ((data[i] & 0xc0) !== 0x80) return false
+  }
+
+  return crc8(data, offset, position) === data[position]
+}
+
+function crc8(data: Uint8Array, start: number, end: number): number {
+  let crc = 0
+  for (let i = start; i < end; i++) {
+    crc ^= data[i]
+    for (let bit = 0; bit < 8; bit++) {
+      crc = crc & 0x80 ? ((crc << 1) ^ 0x07) & 0xff : (crc << 1) & 0xff
+    }
+  }
+  return crc
+}
+
+async function readBytes(file: File, start: number, end: number): Promise<Uint8Array> {
+  return new Uint8Array(await file.slice(start, end).arrayBuffer())
+}
+
+function readASCII(data: Uint8Array, offset: number, length: number): string {
+  return String.fromCharCode(...data.subarray(offset, offset + length))
+}
+
+function ascii(text: string): Uint8Array {
+  return Uint8Array.from(text, char => char.charCodeAt(0))
+}
@@ -0,0 +1,247 @@
+// Batch analysis queue for processing many audio files with limited concurrency
+
+import type { AnalysisResult } from '../types'
+
+export type BatchItemStatus = 'pending' | 'loading' | 'analyzing' | 'complete' | 'error' | 'cancelled'
+
+export interface BatchItem {
+  id: string
+  file: File
+  status: BatchItemStatus
+  progress: number // 0-100
+  result: AnalysisResult | null
+  error: string | null
+  fromCache: boolean
+}
+
+export interface BatchJobContext {
+  signal: AbortSignal
+  onProgress: (progress: number) => void
+  onStatusChange: (status: 'loading' | 'analyzing') => void
+}
+
+export interface BatchJobOutcome {
+  result: AnalysisResult
+  fromCache?: boolean
+}
+
+export type BatchJob = (file: File, context: BatchJobContext) => Promise<BatchJobOutcome>
+
+export interface BatchQueueOptions {
+  concurrency?: number
+}
+
+export class BatchQueue {
+  private items: BatchItem[] = []
+  private controllers = new Map<string, AbortController>()
+  private running = 0 // Jobs not yet settled, including cancelled ones still winding down
+  private listeners: Array<(items: BatchItem[]) => void> = []
+  private job: BatchJob
+  private concurrency: number
+  private nextId = 0
+
+  constructor(job: BatchJob, options: BatchQueueOptions = {}) {
+    this.job = job
+    this.concurrency = Math.max(1, options.concurrency ?? 2)
+  }
+
+  /**
+   * Add files to the queue and start processing them
+   */
+  add(files: File[]): BatchItem[] {
+    const added = files.map(file => ({
+      id: `batch_${this.nextId++}_${file.name}`,
+      file,
+      status: 'pending' as const,
+      progress: 0,
+      result: null,
+      error: null,
+      fromCache: false
+    }))
+
+    this.items = [...this.items, ...added]
+    this.notify()
+    this.schedule()
+
+    return added
+  }
+
+  /**
+   * Cancel a single item (pending or running)
+   */
+  cancel(id: string): void {
+    const item = this.items.find(i => i.id === id)
+    if (!item || (!this.isActive(item.status) && item.status !== 'pending')) {
+      return
+    }
+
+    this.controllers.get(id)?.abort()
+    this.controllers.delete(id)
+    this.update(id, { status: 'cancelled', error: null })
+    this.schedule()
+  }
+
+  /**
+   * Cancel every pending and running item
+   */
+  cancelAll(): void {
+    this.items
+      .filter(item => item.status === 'pending' || this.isActive(item.status))
+      .forEach(item => this.cancel(item.id))
+  }
+
+  /**
+   * Put a failed or cancelled item back in the queue
+   */
+  retry(id: string): void {
+    const item = this.items.find(i => i.id === id)
+    if (!item || (item.status !== 'error' && item.status !== 'cancelled')) {
+      return
+    }
+
+    this.update(id, { status: 'pending', progress: 0, error: null, result: null, fromCache: false })
+    this.schedule()
+  }
+
+  /**
+   * Remove finished items and cancel everything else
+   */
+  clear(): void {
+    this.cancelAll()
+    this.items = []
+    this.notify()
+  }
+
+  /**
+   * Get a snapshot of all items in queue order
+   */
+  getItems(): BatchItem[] {
+    return this.items.map(item => ({ ...item }))
+  }
+
+  /**
+   * Get aggregate queue statistics
+   */
+  getSummary(): { total: number; completed: number; failed: number; active: number; pending: number } {
+    return {
+      total: this.items.length,
+      completed: this.items.filter(i => i.status === 'complete').length,
+      failed: this.items.filter(i => i.status === 'error').length,
+      active: this.items.filter(i => this.isActive(i.status)).length,
+      pending: this.items.filter(i => i.status === 'pending').length
+    }
+  }
+
+  /**
+   * Add queue change listener
+   */
+  addListener(listener: (items: BatchItem[]) => void): void {
+    this.listeners.push(listener)
+  }
+
+  /**
+   * Remove queue change listener
+   */
+  removeListener(listener: (items: BatchItem[]) => void): void {
+    const index = this.listeners.indexOf(listener)
+    if (index > -1) {
+      this.listeners.splice(index, 1)
+    }
+  }
+
+  /**
+   * Start pending items while there are free slots. A cancelled job keeps its slot
+   * until it settles, since decoding cannot be interrupted
+   */
+  private schedule(): void {
+    for (const item of this.items) {
+      if (this.running >= this.concurrency) break
+      if (item.status !== 'pending') continue
+
+      void this.run(item.id)
+    }
+  }
+
+  /**
+   * Run the job for a single item and record its outcome
+   */
+  private async run(id: string): Promise<void> {
+    const item = this.items.find(i => i.id === id)
+    if (!item) return
+
+    const controller = new AbortController()
+    this.controllers.set(id, controller)
+    this.running++
+    this.update(id, { status: 'loading', progress: 0 })
+
+    const isCurrent = () => this.controllers.get(id) === controller && !controller.signal.aborted
+
+    try {
+      const outcome = await this.job(item.file, {
+        signal: controller.signal,
+        onProgress: (progress) => {
+          if (isCurrent()) {
+            this.update(id, { progress: Math.max(0, Math.min(100, progress)) })
+          }
+        },
+        onStatusChange: (status) => {
+          if (isCurrent()) {
+            this.update(id, { status })
+          }
+        }
+      })
+
+      if (isCurrent()) {
+        this.update(id, {
+          status: 'complete',
+          progress: 100,
+          result: outcome.result,
+          fromCache: outcome.fromCache ?? false
+        })
+      }
+    } catch (error) {
+      if (isCurrent()) {
+        this.update(id, {
+          status: 'error',
+          error: error instanceof Error ? error.message : 'Analysis failed'
+        })
+      }
+    } finally {
+      if (this.controllers.get(id) === controller) {
+        this.controllers.delete(id)
+      }
+      this.running--
+      this.schedule()
+    }
+  }
+
+  private isActive(status: BatchItemStatus): boolean {
+    return status === 'loading' || status === 'analyzing'
+  }
+
+  private update(id: string, changes: Partial<BatchItem>): void {
+    this.items = this.items.map(item => item.id === id ? { ...item, ...changes } : item)
+    this.notify()
+  }
+
+  private notify(): void {
+    const snapshot = this.getItems()
+    this.listeners.forEach(listener => {
+      try {
+        listener(snapshot)
+      } catch (error) {
+        console.warn('Batch queue listener error:', error)
+      }
+    })
+  }
+}
+
+/**
+ * Keep only files with a supported audio extension (used for folder selections)
+ */
+export function filterAudioFiles(files: File[], formats: readonly string[]): File[] {
+  return files.filter(file => {
+    const extension = file.name.split('.').pop()?.toLowerCase()
+    return !!extension && formats.includes(extension)
+  })
+}
@@ -0,0 +1,119 @@
+// Beat grid helpers: turn beat ticks or a tempo + phase into per-beat timestamps
+
+import type { BeatGrid } from '../types'
+
+const BEATS_PER_BAR = 4
+
+/**
+ * Build a beat grid from detected beat ticks (in seconds)
+ */
+export function buildBeatGrid(ticks: ArrayLike<number>, signal?: Float32Array, sampleRate?: number): BeatGrid {
+  const beats = Array.from(ticks).filter(t => Number.isFinite(t) && t >= 0).sort((a, b) => a - b)
+
+  if (beats.length === 0) {
+    return { beats: [], downbeat: 0, offset: 0 }
+  }
+
+  const downbeat = signal && sampleRate
+    ? estimateDownbeat(beats, signal, sampleRate)
+    : beats[0]
+
+  return {
+    beats,
+    downbeat,
+    offset: beats[0]
+  }
+}
+
+/**
+ * Generate an evenly spaced beat grid from a tempo and the phase of the first beat
+ */
+export function generateBeatGrid(bpm: number, offset: number, duration: number): number[] {
+  if (bpm <= 0 || duration <= 0) return []
+
+  const interval = 60 / bpm
+  // Move the offset back to the earliest beat inside the track
+  const start = offset - Math.floor(offset / interval) * interval
+  const beats: number[] = []
+
+  for (let time = start; time < duration; time += interval) {
+    beats.push(Math.round(time * 1000) / 1000)
+  }
+
+  return beats
+}
+
+/**
+ * Find the beat phase (seconds) that best lines up with a set of onset times
+ */
+export function estimateGridOffset(onsetTimes: number[], bpm: number, strengths?: number[]): number {
+  if (onsetTimes.length === 0 || bpm <= 0) return 0
+
+  const interval = 60 / bpm
+  const steps = 50
+  let bestPhase = 0
+  let bestScore = -Infinity
+
+  // Score each candidate phase by how close the onsets fall to the grid
+  for (let step = 0; step < steps; step++) {
+    const phase = (step / steps) * interval
+    let score = 0
+
+    for (let i = 0; i < onsetTimes.length; i++) {
+      const position = ((onsetTimes[i] - phase) % interval + interval) % interval
+      const distance = Math.min(position, interval - position) / interval
+      const weight = strengths?.[i] ?? 1
+      score += weight * Math.cos(distance * 2 * Math.PI)
+    }
+
+    if (score > bestScore) {
+      bestScore = score
+      bestPhase = phase
+    }
+  }
+
+  return Math.round(bestPhase * 1000) / 1000
+}
+
+/**
+ * Estimate the first downbeat by comparing low-end energy on each beat position of the bar
+ */
+export function estimateDownbeat(beats: number[], signal: Float32Array, sampleRate: number): number {
+  if (beats.length < BEATS_PER_BAR) {
+    return beats[0] ?? 0
+  }
+
+  const windowSize = Math.max(1, Math.floor(sampleRate * 0.05)) // 50ms after each beat
+  const energyByPosition = new Array(BEATS_PER_BAR).fill(0)
+
+  beats.forEach((beat, index) => {
+    const start = Math.floor(beat * sampleRate)
+    const end = Math.min(signal.length, start + windowSize)
+    let energy = 0
+    // Simple one-pole low-pass so kicks dominate over hi-hats
+    let smoothed = 0
+    for (let i = start; i < end; i++) {
+      smoothed += 0.05 * (signal[i] - smoothed)
+      energy += smoothed * smoothed
+    }
+    energyByPosition[index % BEATS_PER_BAR] += energy
+  })
+
+  let bestPosition = 0
+  for (let position = 1; position < BEATS_PER_BAR; position++) {
+    if (energyByPosition[position] > energyByPosition[bestPosition]) {
+      bestPosition = position
+    }
+  }
+
+  return beats[bestPosition]
+}
+
+/**
+ * Check whether a beat is a downbeat for the given grid
+ */
+export function isDownbeat(grid: BeatGrid, beatIndex: number): boolean {
+  const downbeatIndex = grid.beats.indexOf(grid.downbeat)
+  if (downbeatIndex < 0) return false
+  return ((beatIndex - downbeatIndex) % BEATS_PER_BAR + BEATS_PER_BAR) % BEATS_PER_BAR === 0
+}
@@ -1,14 +1,26 @@
 // BPM detection module using essentia.js tempo estimation algorithms
 
-import type { BPMResult } from '../types'
+import type { BPMResult, BeatGrid, GenreProfileId, TempoConstraints } from '../types'
 import { BPM_RANGE } from '../types'
 import { essentiaManager } from './essentiaManager'
 import { detectBPMFallback } from './fallbackBpmDetection'
-
-export interface BPMDetectionOptions {
+import { buildBeatGrid } from './beatGrid'
+import { buildTempoMap } from './tempoMap'
+import { correctTempo, getGenreProfile, isInTempoRange, snapTempo } from './genreProfiles'
+import type { GenreProfile, TempoRange } from './genreProfiles'
+import { constrainProfile, getTempoConstraints, preferTargetTempo, resolveTempoRange } from './tempoConstraints'
+import { withPreciseTempo } from './preciseTempo'
+import type { BeatTrackerResult, Essentia } from 'essentia.js'
+
+export interface BPMDetectionOptions extends TempoConstraints {
   onProgress?: (progress: number) => void
+  genreProfile?: GenreProfileId // Tempo range and octave-error correction to apply (default: hip-hop)
 }
 
+// Tempo bounds BeatTrackerMultiFeature accepts for its minTempo and maxTempo parameters
+const BEAT_TRACKER_MIN_TEMPO = { min: 40, max: 180 }
+const BEAT_TRACKER_MAX_TEMPO = { min: 60, max: 250 }
+
 /**
  * BPM Detection class using essentia.js algorithms
  */
@@ -25,6 +37,10 @@ export class BPMDetector {
    */
   async detectBPM(audioBuffer: AudioBuffer, options: BPMDetectionOptions = {}): Promise<BPMResult> {
     const { onProgress } = options
+    const constraints = getTempoConstraints(options)
+    const limits = { min: this.minBPM, max: this.maxBPM }
+    const range = resolveTempoRange(constraints, limits)
+    const profile = constrainProfile(getGenreProfile(options.genreProfile), constraints, limits)
     try {
       // Get essentia instance from manager
       const essentia = await essentiaManager.getEssentia()
@@ -54,28 +70,51 @@ export class BPMDetector {
       onProgress?.(30)
 
       // Analyze BPM using multiple methods for better accuracy
-      const bpmResults = await this.analyzeBPMWithMultipleMethods(essentia, monoSignal, audioBuffer.duration, onProgress)
+      const bpmResults = await this.analyzeBPMWithMultipleMethods(essentia, monoSignal, audioBuffer.sampleRate, profile, range, onProgress)
       
       // Select the best result based on confidence and consistency
-      const bestResult = this.selectBestBPMResult(bpmResults)
+      const bestResult = this.selectBestBPMResult(bpmResults, profile, range)
+      bestResult.bpm = Math.round(this.fitToConstraints(bestResult.bpm, profile, range, constraints.targetBPM))
+
+      // Tracked beat ticks let us see whether the tempo drifts or changes
+      if (bestResult.beatGrid) {
+        bestResult.tempoMap = buildTempoMap(bestResult.beatGrid.beats)
+      }
       onProgress?.(100)
 
-      return bestResult
+      // Regression over the tracked beats gives the tempo to a fraction of a BPM
+      return withPreciseTempo(bestResult)
     } catch (error) {
       console.error('BPM detection failed:', error)
       // Use custom fallback algorithm that doesn't require essentia.js
       console.log('Using fallback BPM detection algorithm')
-      return detectBPMFallback(audioBuffer, onProgress)
+      const fallbackResult = await detectBPMFallback(audioBuffer, onProgress, {
+        minBPM: range.min,
+        maxBPM: range.max,
+        targetBPM: constraints.targetBPM
+      })
+      return withPreciseTempo({
+        ...fallbackResult,
+        bpm: Math.round(this.fitToConstraints(fallbackResult.bpm, profile, range, constraints.targetBPM)),
+        preciseBpm: undefined
+      })
     }
   }
 
   /**
    * Parse essentia.js beat tracking result into our BPMResult format
    */
-  private parseEssentiaBeatResult(beatResult: any, essentia: any, _isSimple: boolean = false): BPMResult {
+  private parseEssentiaBeatResult(
+    beatResult: BeatTrackerResult,
+    essentia: Essentia,
+    profile: GenreProfile,
+    range: TempoRange,
+    signal?: Float32Array,
+    sampleRate?: number
+  ): BPMResult {
     // BeatTrackerMultiFeature returns: { ticks: Float32Array, confidence: number }
     // BeatTrackerDegara returns: { ticks: Float32Array }
-    const ticks = essentia.vectorToArray(beatResult.ticks || beatResult)
+    const ticks = essentia.vectorToArray(beatResult.ticks)
     const confidence = beatResult.confidence || 0.5
 
     // If we have very few beats or very low confidence, return fallback
@@ -127,93 +166,90 @@ export class BPMDetector {
 
     let bpm2 = mostCommonInterval > 0 ? 60 / mostCommonInterval : 120
 
-    // Choose the BPM that's more likely to be correct for hip-hop
+    // Choose the BPM that's more likely to be correct for the genre
     let finalBPM = bpm1
 
-    // If the mode-based BPM is significantly different and in a better hip-hop range, use it
-    const bpm1Adjusted = this.validateAndAdjustBPM(bpm1)
-    const bpm2Adjusted = this.validateAndAdjustBPM(bpm2)
+    // If the mode-based BPM is significantly different and closer to the genre's range, use it
+    const bpm1Adjusted = this.validateAndAdjustBPM(bpm1, profile, range)
+    const bpm2Adjusted = this.validateAndAdjustBPM(bpm2, profile, range)
 
-    // Prefer the BPM that's closer to common hip-hop ranges after adjustment
-    const hipHopRange = [80, 180]
-    const bpm1Distance = Math.min(Math.abs(bpm1Adjusted - hipHopRange[0]), Math.abs(bpm1Adjusted - hipHopRange[1]))
-    const bpm2Distance = Math.min(Math.abs(bpm2Adjusted - hipHopRange[0]), Math.abs(bpm2Adjusted - hipHopRange[1]))
+    const genreRange = profile.tempoRange
+    if (genreRange) {
+      const bpm1Distance = Math.min(Math.abs(bpm1Adjusted - genreRange.min), Math.abs(bpm1Adjusted - genreRange.max))
+      const bpm2Distance = Math.min(Math.abs(bpm2Adjusted - genreRange.min), Math.abs(bpm2Adjusted - genreRange.max))
 
-    if (bpm2Distance < bpm1Distance && Math.abs(bpm1Adjusted - bpm2Adjusted) > 10) {
-      finalBPM = bpm2
+      if (bpm2Distance < bpm1Distance && Math.abs(bpm1Adjusted - bpm2Adjusted) > 10) {
+        finalBPM = bpm2
+      }
     }
 
-    // Validate BPM range and apply hip-hop specific adjustments
-    finalBPM = this.validateAndAdjustBPM(finalBPM)
+    // Validate BPM range and apply the genre's octave-error correction
+    finalBPM = this.validateAndAdjustBPM(finalBPM, profile, range)
 
     // Adjust confidence based on consistency of intervals
     const intervalVariance = this.calculateIntervalVariance(intervals)
     let adjustedConfidence = Math.max(0, Math.min(1, confidence * (1 - intervalVariance)))
 
-    // Boost confidence if we're in a common hip-hop BPM range
-    if (finalBPM >= 80 && finalBPM <= 180) {
+    // Boost confidence if we're in the genre's usual range
+    if (isInTempoRange(finalBPM, genreRange)) {
       adjustedConfidence = Math.min(1, adjustedConfidence * 1.2)
     }
 
     return {
       bpm: Math.round(finalBPM),
       confidence: adjustedConfidence,
-      detectedBeats: ticks.length
+      detectedBeats: ticks.length,
+      beatGrid: buildBeatGrid(ticks, signal, sampleRate)
     }
   }
 
   /**
-   * Validate and adjust BPM for hip-hop music characteristics
+   * Track individual beats with BeatTrackerMultiFeature, once per detection
    */
-  private validateAndAdjustBPM(bpm: number): number {
-    let adjustedBPM = bpm
-
-    // Hip-hop specific BPM adjustments - handle common detection errors
-    // Many hip-hop tracks are detected at half, double, or 1.5x tempo
-    if (adjustedBPM < 50) {
-      adjustedBPM *= 2 // Double if too slow
-    } else if (adjustedBPM > 220) {
-      adjustedBPM /= 2 // Halve if too fast
-    } else if (adjustedBPM < 70) {
-      // Check if doubling gets us to a more reasonable hip-hop range
-      const doubled = adjustedBPM * 2
-      if (doubled >= 120 && doubled <= 180) {
-        adjustedBPM = doubled
-      }
-    } else if (adjustedBPM > 180) {
-      // Check if halving gets us to a more reasonable hip-hop range
-      const halved = adjustedBPM / 2
-      if (halved >= 70 && halved <= 140) {
-        adjustedBPM = halved
-      }
+  private trackBeats(essentia: Essentia, monoSignal: Float32Array, range: TempoRange): BeatTrackerResult | undefined {
+    try {
+      return essentia.BeatTrackerMultiFeature(essentia.arrayToVector(monoSignal), ...this.getBeatTrackerTempos(range))
+    } catch (error) {
+      console.log('Beat tracking failed:', error)
+      return undefined
     }
+  }
 
-    // Handle 1.5x tempo detection (common with triplet-heavy hip-hop)
-    if (adjustedBPM > 200 && adjustedBPM < 280) {
-      const adjusted = adjustedBPM / 1.5
-      if (adjusted >= 80 && adjusted <= 180) {
-        adjustedBPM = adjusted
-      }
-    }
+  /**
+   * Build a beat grid from tracked beats
+   */
+  private getBeatGrid(essentia: Essentia, beats: BeatTrackerResult | undefined, monoSignal: Float32Array, sampleRate: number): BeatGrid | undefined {
+    const ticks = beats ? essentia.vectorToArray(beats.ticks) : []
+    return ticks.length >= 2 ? buildBeatGrid(ticks, monoSignal, sampleRate) : undefined
+  }
 
-    // Clamp to valid range after adjustments
-    if (adjustedBPM < this.minBPM) adjustedBPM = this.minBPM
-    if (adjustedBPM > this.maxBPM) adjustedBPM = this.maxBPM
+  /**
+   * Correct octave errors for the genre profile and snap to its common tempos
+   */
+  private validateAndAdjustBPM(bpm: number, profile: GenreProfile, range: TempoRange): number {
+    return Math.round(snapTempo(this.foldIntoRange(bpm, profile, range), profile))
+  }
 
-    // Snap to common hip-hop tempos with tolerance (expanded list)
-    const commonHipHopBPMs = [
-      65, 70, 75, 80, 85, 87, 90, 93, 95, 100, 105, 110, 115, 120,
-      125, 130, 135, 140, 145, 150, 155, 160, 165, 170, 175, 180
-    ]
-    const tolerance = 2
+  /**
+   * Fold octave errors into the genre's tempo range, keeping the tempo within the detection range
+   */
+  private foldIntoRange(bpm: number, profile: GenreProfile, range: TempoRange): number {
+    return Math.min(range.max, Math.max(range.min, correctTempo(bpm, profile)))
+  }
 
-    for (const commonBPM of commonHipHopBPMs) {
-      if (Math.abs(adjustedBPM - commonBPM) <= tolerance) {
-        return commonBPM
-      }
-    }
+  /**
+   * Fold a final tempo into range, then move it to the octave closest to the target tempo
+   */
+  private fitToConstraints(bpm: number, profile: GenreProfile, range: TempoRange, targetBPM?: number): number {
+    return preferTargetTempo(this.foldIntoRange(bpm, profile, range), profile.tempoRange ?? range, targetBPM)
+  }
 
-    return Math.round(adjustedBPM)
+  /**
+   * BeatTrackerMultiFeature's maxTempo and minTempo arguments for a detection range
+   */
+  private getBeatTrackerTempos(range: TempoRange): [number, number] {
+    const clamp = (value: number, bounds: TempoRange) => Math.min(bounds.max, Math.max(bounds.min, value))
+    return [clamp(range.max, BEAT_TRACKER_MAX_TEMPO), clamp(range.min, BEAT_TRACKER_MIN_TEMPO)]
   }
 
   /**
@@ -234,9 +270,19 @@ export class BPMDetector {
   /**
    * Analyze BPM using the exact same method as essentia.js web demo
    */
-  private async analyzeBPMWithMultipleMethods(essentia: any, monoSignal: Float32Array, _duration: number, onProgress?: (progress: number) => void): Promise<any[]> {
+  private async analyzeBPMWithMultipleMethods(
+    essentia: any,
+    monoSignal: Float32Array,
+    sampleRate: number,
+    profile: GenreProfile,
+    range: TempoRange,
+    onProgress?: (progress: number) => void
+  ): Promise<any[]> {
     const results: any[] = []
-    
+
+    // Both the beat grid and the fallback tempo come from this one pass
+    const beats = this.trackBeats(essentia, monoSignal, range)
+
     try {
       // Use exact same PercivalBpmEstimator as the web demo
       // essentia.PercivalBpmEstimator(vectorSignal, 1024, 2048, 128, 128, 210, 50, 16000).bpm
@@ -254,36 +300,31 @@ export class BPMDetector {
       
       // PercivalBpmEstimator returns an object with a bpm property
       const bpmValue = bpmResult.bpm || 120
+
+      // PercivalBpmEstimator only gives a tempo, so the grid comes from the tracked beats
+      const beatGrid = this.getBeatGrid(essentia, beats, monoSignal, sampleRate)
       
       results.push({
         method: 'PercivalBpmEstimator_WebDemo',
         result: {
           bpm: Math.round(bpmValue),
           confidence: 0.8, // PercivalBpmEstimator doesn't provide confidence, use default
-          detectedBeats: 0  // Not available from this algorithm
+          detectedBeats: beatGrid?.beats.length ?? 0,
+          beatGrid
         },
         weight: 1.0
       })
       onProgress?.(70)
     } catch (error) {
-      console.log('Web demo PercivalBpmEstimator failed, trying BeatTrackerMultiFeature:', error)
+      console.log('Web demo PercivalBpmEstimator failed, using the tracked beats:', error)
       
-      // Fallback to BeatTrackerMultiFeature if PercivalBpmEstimator fails
-      try {
-        const fallbackResult = essentia.BeatTrackerMultiFeature(
-          essentia.arrayToVector(monoSignal),
-          this.maxBPM,
-          this.minBPM
-        )
-        
-        const fallbackBPM = this.parseEssentiaBeatResult(fallbackResult, essentia)
+      // Fall back to the tempo of the tracked beats if PercivalBpmEstimator fails
+      if (beats) {
         results.push({
           method: 'BeatTrackerMultiFeature_Fallback',
-          result: fallbackBPM,
+          result: this.parseEssentiaBeatResult(beats, essentia, profile, range, monoSignal, sampleRate),
           weight: 0.8
         })
-      } catch (fallbackError) {
-        console.log('BeatTrackerMultiFeature fallback also failed:', fallbackError)
       }
     }
 
@@ -294,7 +335,7 @@ export class BPMDetector {
   /**
    * Select the best BPM result from multiple analyses
    */
-  private selectBestBPMResult(results: any[]): BPMResult {
+  private selectBestBPMResult(results: any[], profile: GenreProfile, range: TempoRange): BPMResult {
     if (results.length === 0) {
       return {
         bpm: 120,
@@ -322,9 +363,10 @@ export class BPMDetector {
         const totalBeats = results.reduce((sum, r) => sum + r.result.detectedBeats, 0)
         
         return {
-          bpm: Math.round(this.validateAndAdjustBPM(weightedBPM)),
+          bpm: Math.round(this.validateAndAdjustBPM(weightedBPM, profile, range)),
           confidence: Math.min(1, weightedConfidence * 1.2), // Boost confidence for consistency
-          detectedBeats: totalBeats
+          detectedBeats: totalBeats,
+          beatGrid: results.find(r => r.result.beatGrid)?.result.beatGrid
         }
       } else {
         // Results disagree - use the one with highest confidence but reduce confidence
@@ -335,7 +377,8 @@ export class BPMDetector {
         return {
           bpm: bestResult.result.bpm,
           confidence: bestResult.result.confidence * 0.8, // Reduce confidence due to inconsistency
-          detectedBeats: bestResult.result.detectedBeats
+          detectedBeats: bestResult.result.detectedBeats,
+          beatGrid: bestResult.result.beatGrid
         }
       }
     }
@@ -349,7 +392,7 @@ export class BPMDetector {
   // - applyDynamicRangeCompression
 
   /**
-   * Set custom BPM range for detection
+   * Set the default BPM range for detection; minBPM and maxBPM options override it per call
    */
   public setBPMRange(minBPM: number, maxBPM: number): void {
     this.minBPM = Math.max(30, minBPM)
@@ -0,0 +1,119 @@
+// Storage backends for the analysis cache: IndexedDB in the browser, in-memory elsewhere
+
+import type { AnalysisResult, AnalysisVersions } from '../types'
+
+export interface CacheEntry {
+  key: string // Content digest of the file
+  result: AnalysisResult
+  versions: AnalysisVersions
+  timestamp: number
+  fileName: string
+  fileSize: number
+  lastModified: number
+}
+
+export interface CacheBackend {
+  getAll(): Promise<CacheEntry[]>
+  put(entry: CacheEntry): Promise<void>
+  delete(key: string): Promise<void>
+  clear(): Promise<void>
+}
+
+const CACHE_DB_NAME = 'audio-analyzer-cache'
+const CACHE_DB_VERSION = 1
+const CACHE_STORE_NAME = 'analyses'
+
+/**
+ * Keeps entries in a Map; used in tests and when IndexedDB is unavailable
+ */
+export class MemoryCacheBackend implements CacheBackend {
+  private entries = new Map<string, CacheEntry>()
+
+  async getAll(): Promise<CacheEntry[]> {
+    return Array.from(this.entries.values())
+  }
+
+  async put(entry: CacheEntry): Promise<void> {
+    this.entries.set(entry.key, entry)
+  }
+
+  async delete(key: string): Promise<void> {
+    this.entries.delete(key)
+  }
+
+  async clear(): Promise<void> {
+    this.entries.clear()
+  }
+}
+
+/**
+ * Persists entries in an IndexedDB object store so they survive reloads
+ */
+export class IndexedDBCacheBackend implements CacheBackend {
+  private dbName: string
+  private dbPromise: Promise<IDBDatabase> | null = null
+
+  constructor(dbName = CACHE_DB_NAME) {
+    this.dbName = dbName
+  }
+
+  async getAll(): Promise<CacheEntry[]> {
+    return this.run('readonly', store => store.getAll() as IDBRequest<CacheEntry[]>)
+  }
+
+  async put(entry: CacheEntry): Promise<void> {
+    await this.run('readwrite', store => store.put(entry))
+  }
+
+  async delete(key: string): Promise<void> {
+    await this.run('readwrite', store => store.delete(key))
+  }
+
+  async clear(): Promise<void> {
+    await this.run('readwrite', store => store.clear())
+  }
+
+  /**
+   * Open the database once, creating the object store on first use
+   */
+  private open(): Promise<IDBDatabase> {
+    if (!this.dbPromise) {
+      this.dbPromise = new Promise((resolve, reject) => {
+        const request = indexedDB.open(this.dbName, CACHE_DB_VERSION)
+        request.onupgradeneeded = () => {
+          if (!request.result.objectStoreNames.contains(CACHE_STORE_NAME)) {
+            request.result.createObjectStore(CACHE_STORE_NAME, { keyPath: 'key' })
+          }
+        }
+        request.onsuccess = () => resolve(request.result)
+        request.onerror = () => reject(request.error)
+      })
+      // Allow a later call to retry if opening failed
+      this.dbPromise.catch(() => {
+        this.dbPromise = null
+      })
+    }
+    return this.dbPromise
+  }
+
+  /**
+   * Run a single request in its own transaction and resolve once it commits
+   */
+  private async run<T>(mode: IDBTransactionMode, operation: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> {
+    const db = await this.open()
+    return new Promise((resolve, reject) => {
+      const transaction = db.transaction(CACHE_STORE_NAME, mode)
+      const request = operation(transaction.objectStore(CACHE_STORE_NAME))
+      transaction.oncomplete = () => resolve(request.result)
+      transaction.onerror = () => reject(transaction.error)
+      transaction.onabort = () => reject(transaction.error)
+    })
+  }
+}
+
+/**
+ * Pick IndexedDB when the environment has it, otherwise fall back to memory
+ */
+export function createCacheBackend(): CacheBackend {
+  return typeof indexedDB !== 'undefined' ? new IndexedDBCacheBackend() : new MemoryCacheBackend()
+}
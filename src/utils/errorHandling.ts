@@ -32,7 +32,7 @@ export function categorizeError(error: Error | string): ErrorInfo {
     return {
       type: 'file_validation',
       message: errorMessage,
-      suggestion: 'Try compressing your audio file or use a shorter clip. Maximum file size is 50MB.',
+      suggestion: 'Try compressing your audio file or use a shorter clip. Maximum file size is 50MB for M4A and 2GB for MP3, WAV and FLAC.',
       canRetry: false,
       severity: 'error'
     }
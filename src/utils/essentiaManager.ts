@@ -60,6 +60,17 @@ class EssentiaManager {
           return
         }
 
+        // Under Node the module itself is the WASM backend, already initialized when required
+        if (wasmAny.EssentiaJS && EssentiaWASM.calledRun) {
+          console.log('Using EssentiaWASM module directly with Essentia constructor')
+          clearTimeout(timeout)
+          const EssentiaWithBackend = Essentia as unknown as new (wasm: unknown, isDebug?: boolean) => Essentia
+          this.essentia = new EssentiaWithBackend(wasmAny, false)
+          this.isInitialized = true
+          resolve()
+          return
+        }
+
         // Fallback: Wait for runtime initialization if not ready
         if (!EssentiaWASM.calledRun) {
           console.log('Waiting for WASM runtime initialization...')
@@ -0,0 +1,228 @@
+// Export analysis results as JSON, CSV or a Rekordbox XML collection
+
+import type { AnalysisResult } from '../types'
+import { getAudioCache } from './audioCache'
+import { formatKey, formatKeyCode, getKeyNotations, getPreferredNotation, KEY_NOTATION_LABELS } from './keyNotation'
+import type { KeyNotation } from './keyNotation'
+
+export type ExportFormat = 'json' | 'csv' | 'rekordbox'
+
+export interface ExportRecord {
+  fileName: string
+  fileSize?: number
+  duration?: number // Seconds, when known
+  result: AnalysisResult
+}
+
+export interface ExportOptions {
+  notation?: KeyNotation
+}
+
+export interface ExportFile {
+  content: string
+  mimeType: string
+  filename: string
+}
+
+export const EXPORT_FORMAT_LABELS: Record<ExportFormat, string> = {
+  json: 'JSON',
+  csv: 'CSV',
+  rekordbox: 'Rekordbox XML'
+}
+
+/**
+ * Export results as JSON, keeping each AnalysisResult intact
+ */
+export function exportToJSON(records: ExportRecord[], options: ExportOptions = {}): string {
+  const notation = options.notation ?? getPreferredNotation()
+
+  return JSON.stringify({
+    exportedAt: new Date().toISOString(),
+    keyNotation: notation,
+    files: records.map(record => ({
+      fileName: record.fileName,
+      fileSize: record.fileSize,
+      duration: getDuration(record),
+      key: formatKey(record.result.key, notation),
+      result: record.result
+    }))
+  }, null, 2)
+}
+
+/**
+ * Export results as CSV with one row per file
+ */
+export function exportToCSV(records: ExportRecord[], options: ExportOptions = {}): string {
+  const notation = options.notation ?? getPreferredNotation()
+
+  const header = [
+    'File Name',
+    `Key (${KEY_NOTATION_LABELS[notation]})`,
+    'Key Name',
+    'Camelot',
+    'Open Key',
+    'Key Confidence',
+    'BPM',
+    'BPM Confidence',
+    'Overall Confidence',
+    'Key Changes',
+    'Steady Tempo',
+    'Duration (s)',
+    'Processing Time (ms)'
+  ]
+
+  const rows = records.map(record => {
+    const { fileName, result } = record
+    const notations = getKeyNotations(result.key)
+    const keyChanges = result.keySegments ? Math.max(0, result.keySegments.length - 1) : ''
+    const steadyTempo = result.bpm.tempoMap ? (result.bpm.tempoMap.isSteady ? 'yes' : 'no') : ''
+    const duration = getDuration(record)
+
+    return [
+      fileName,
+      formatKey(result.key, notation),
+      result.key.keyName,
+      notations?.camelot ?? '',
+      notations?.openKey ?? '',
+      result.key.confidence.toFixed(2),
+      result.bpm.bpm,
+      result.bpm.confidence.toFixed(2),
+      result.confidence.overall.toFixed(2),
+      keyChanges,
+      steadyTempo,
+      duration !== undefined ? duration.toFixed(1) : '',
+      Math.round(result.processingTime)
+    ]
+  })
+
+  return [header, ...rows].map(row => row.map(escapeCSV).join(',')).join('\r\n') + '\r\n'
+}
+
+/**
+ * Export results as a Rekordbox XML collection with Tonality and AverageBpm
+ */
+export function exportToRekordboxXML(records: ExportRecord[], options: ExportOptions = {}): string {
+  const notation = options.notation ?? getPreferredNotation()
+
+  const tracks = records.map((record, index) => {
+    const { result } = record
+    const duration = getDuration(record)
+
+    const attributes: Record<string, string> = {
+      TrackID: String(index + 1),
+      Name: stripExtension(record.fileName),
+      Kind: getKind(record.fileName),
+      Location: `file://localhost/${encodeURIComponent(record.fileName)}`,
+      AverageBpm: (result.bpm.preciseBpm ?? result.bpm.bpm).toFixed(2),
+      Tonality: formatKeyCode(result.key, notation)
+    }
+    if (record.fileSize !== undefined) attributes.Size = String(record.fileSize)
+    if (duration !== undefined) attributes.TotalTime = String(Math.round(duration))
+
+    const attributeText = Object.entries(attributes)
+      .map(([name, value]) => `${name}="${escapeXML(value)}"`)
+      .join(' ')
+
+    // Anchor the beat grid on the first downbeat when one was detected
+    const beatGrid = result.bpm.beatGrid
+    if (beatGrid && beatGrid.beats.length > 0) {
+      return `    <TRACK ${attributeText}>\n` +
+        `      <TEMPO Inizio="${beatGrid.downbeat.toFixed(3)}" Bpm="${(result.bpm.preciseBpm ?? result.bpm.bpm).toFixed(2)}" Metro="4/4" Battito="1"/>\n` +
+        '    </TRACK>'
+    }
+    return `    <TRACK ${attributeText}/>`
+  })
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<DJ_PLAYLISTS Version="1.0.0">',
+    '  <PRODUCT Name="Audio Analyzer" Version="1.0.0" Company=""/>',
+    `  <COLLECTION Entries="${records.length}">`,
+    ...tracks,
+    '  </COLLECTION>',
+    '</DJ_PLAYLISTS>',
+    ''
+  ].join('\n')
+}
+
+/**
+ * Build a downloadable export in the given format
+ */
+export function createExport(records: ExportRecord[], format: ExportFormat, options: ExportOptions = {}): ExportFile {
+  const baseName = records.length === 1 ? stripExtension(records[0].fileName) : 'audio-analysis'
+
+  switch (format) {
+    case 'csv':
+      return { content: exportToCSV(records, options), mimeType: 'text/csv', filename: `${baseName}.csv` }
+    case 'rekordbox':
+      return { content: exportToRekordboxXML(records, options), mimeType: 'application/xml', filename: `${baseName}-rekordbox.xml` }
+    default:
+      return { content: exportToJSON(records, options), mimeType: 'application/json', filename: `${baseName}.json` }
+  }
+}
+
+/**
+ * Collect the cached whole-file result of every analyzed file for a bulk export.
+ * Region results are cached alongside them, but describe only part of a file
+ */
+export function getCachedExportRecords(): ExportRecord[] {
+  return getAudioCache().getEntries().filter(entry => !entry.result.region).map(entry => ({
+    fileName: entry.fileName,
+    fileSize: entry.fileSize,
+    result: entry.result
+  }))
+}
+
+/**
+ * Trigger a browser download for an export
+ */
+export function downloadExport(exportFile: ExportFile): void {
+  downloadBlob(new Blob([exportFile.content], { type: exportFile.mimeType }), exportFile.filename)
+}
+
+/**
+ * Trigger a browser download for any blob
+ */
+export function downloadBlob(blob: Blob, filename: string): void {
+  const url = URL.createObjectURL(blob)
+  const link = document.createElement('a')
+  link.href = url
+  link.download = filename
+  document.body.appendChild(link)
+  link.click()
+  document.body.removeChild(link)
+  URL.revokeObjectURL(url)
+}
+
+/**
+ * Use the known duration, or the end of the key timeline when the file is gone
+ */
+function getDuration(record: ExportRecord): number | undefined {
+  if (record.duration !== undefined) return record.duration
+  const segments = record.result.keySegments
+  return segments && segments.length > 0 ? segments[segments.length - 1].end : undefined
+}
+
+function escapeCSV(value: string | number): string {
+  const text = String(value)
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text
+}
+
+function escapeXML(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;')
+}
+
+function stripExtension(fileName: string): string {
+  const dotIndex = fileName.lastIndexOf('.')
+  return dotIndex > 0 ? fileName.slice(0, dotIndex) : fileName
+}
+
+function getKind(fileName: string): string {
+  const extension = fileName.split('.').pop()?.toUpperCase()
+  return extension && extension !== fileName.toUpperCase() ? `${extension} File` : 'Audio File'
+}
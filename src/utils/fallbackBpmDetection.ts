@@ -1,6 +1,9 @@
 // Fallback BPM detection using custom algorithms when essentia.js fails
-import type { BPMResult } from '../types'
-import { BPM_RANGE } from '../types'
+import type { BPMResult, TempoConstraints } from '../types'
+import { estimateGridOffset, generateBeatGrid, estimateDownbeat } from './beatGrid'
+import type { TempoRange } from './genreProfiles'
+import { getTargetPrior, getTempoConstraints, resolveTempoRange } from './tempoConstraints'
+import { refineTempo } from './preciseTempo'
 
 export interface OnsetData {
   times: number[]
@@ -13,7 +16,13 @@ export interface TempoCandidate {
   score: number
 }
 
-export async function detectBPMFallback(audioBuffer: AudioBuffer, onProgress?: (progress: number) => void): Promise<BPMResult> {
+export async function detectBPMFallback(
+  audioBuffer: AudioBuffer,
+  onProgress?: (progress: number) => void,
+  constraints: TempoConstraints = {}
+): Promise<BPMResult> {
+  const { targetBPM } = getTempoConstraints(constraints)
+  const range = resolveTempoRange(constraints)
   try {
     onProgress?.(10)
     
@@ -22,7 +31,7 @@ export async function detectBPMFallback(audioBuffer: AudioBuffer, onProgress?: (
     onProgress?.(30)
     
     // Extract onset times using spectral flux (with limits to prevent hanging)
-    const onsetData = extractOnsets(monoBuffer)
+    const onsetData = extractOnsets(monoBuffer.getChannelData(0), monoBuffer.sampleRate)
     onProgress?.(60)
     
     if (onsetData.times.length < 4) {
@@ -35,20 +44,35 @@ export async function detectBPMFallback(audioBuffer: AudioBuffer, onProgress?: (
     }
     
     // Calculate tempo using autocorrelation
-    const tempoCandidates = calculateTempoCandidates(onsetData)
+    const tempoCandidates = calculateTempoCandidates(onsetData, range)
     onProgress?.(80)
     
     // Select best tempo candidate
-    const bestTempo = selectBestTempo(tempoCandidates)
+    const bestTempo = selectBestTempo(tempoCandidates, targetBPM)
     
     // Validate and filter BPM result
-    const validatedBPM = validateBPM(bestTempo)
+    const validatedBPM = validateBPM(bestTempo, range)
+
+    // Regression over the onsets on the beat refines the tempo past whole BPM, so the grid does not drift
+    const preciseBpm = refineTempo(onsetData.times, validatedBPM.bpm)
+    const tempo = preciseBpm ?? validatedBPM.bpm
+
+    // Align an evenly spaced grid to the onsets to get per-beat timestamps
+    const offset = estimateGridOffset(onsetData.times, tempo, onsetData.strengths)
+    const beats = generateBeatGrid(tempo, offset, audioBuffer.duration)
+    const downbeat = estimateDownbeat(beats, monoBuffer.getChannelData(0), monoBuffer.sampleRate)
     onProgress?.(100)
     
     return {
-      bpm: Math.round(validatedBPM.bpm),
+      bpm: Math.round(tempo),
+      ...(preciseBpm && { preciseBpm }),
       confidence: validatedBPM.confidence,
-      detectedBeats: onsetData.times.length
+      detectedBeats: onsetData.times.length,
+      beatGrid: {
+        beats,
+        downbeat,
+        offset: beats[0] ?? offset
+      }
     }
   } catch (error) {
     console.error('Fallback BPM detection failed:', error)
@@ -60,6 +84,25 @@ export async function detectBPMFallback(audioBuffer: AudioBuffer, onProgress?: (
   }
 }
 
+/**
+ * Estimate the tempo of mono samples from their onsets, for audio that is not a whole track such as live input.
+ * Returns null when there are too few onsets to tell.
+ */
+export function detectTempoFromSamples(
+  audioData: Float32Array,
+  sampleRate: number,
+  constraints: TempoConstraints = {}
+): TempoCandidate | null {
+  const { targetBPM } = getTempoConstraints(constraints)
+  const range = resolveTempoRange(constraints)
+
+  const onsetData = extractOnsets(audioData, sampleRate)
+  if (onsetData.times.length < 4) return null
+
+  const bestTempo = selectBestTempo(calculateTempoCandidates(onsetData, range), targetBPM)
+  return validateBPM(bestTempo, range)
+}
+
 /**
  * Convert stereo audio to mono
  */
@@ -90,11 +133,9 @@ function convertToMono(audioBuffer: AudioBuffer): AudioBuffer {
 /**
  * Extract onset times using spectral flux method
  */
-function extractOnsets(audioBuffer: AudioBuffer): OnsetData {
-  const audioData = audioBuffer.getChannelData(0)
+function extractOnsets(audioData: Float32Array, sampleRate: number): OnsetData {
   const onsetTimes: number[] = []
   const onsetStrengths: number[] = []
-  const sampleRate = audioBuffer.sampleRate
   
   // Calculate spectral flux for onset detection
   const windowSize = 2048
@@ -158,6 +199,7 @@ function calculateMagnitudeSpectrum(frame: Float32Array): number[] {
   const spectrum: number[] = []
   const frameSize = frame.length
   const numBins = Math.floor(frameSize / 2)
+  const { cos, sin } = getTwiddles(frameSize)
   
   // Use a more accurate frequency domain analysis
   for (let k = 0; k < numBins; k++) {
@@ -167,9 +209,10 @@ function calculateMagnitudeSpectrum(frame: Float32Array): number[] {
     // Simple DFT calculation for key frequency bins
     const step = Math.max(1, Math.floor(frameSize / 512)) // Subsample for performance
     for (let n = 0; n < frameSize; n += step) {
-      const angle = -2 * Math.PI * k * n / frameSize
-      real += frame[n] * Math.cos(angle)
-      imag += frame[n] * Math.sin(angle)
+      // The angle -2πkn/N repeats every N steps of kn, so it is looked up rather than computed
+      const index = (k * n) % frameSize
+      real += frame[n] * cos[index]
+      imag += frame[n] * sin[index]
     }
     
     // Calculate magnitude
@@ -180,6 +223,25 @@ function calculateMagnitudeSpectrum(frame: Float32Array): number[] {
   return spectrum
 }
 
+const twiddleTables = new Map<number, { cos: Float64Array; sin: Float64Array }>()
+
+/**
+ * Cosine and sine of -2πi/N for each i below the frame size N, computed once per frame size
+ */
+function getTwiddles(frameSize: number): { cos: Float64Array; sin: Float64Array } {
+  let table = twiddleTables.get(frameSize)
+  if (!table) {
+    table = { cos: new Float64Array(frameSize), sin: new Float64Array(frameSize) }
+    for (let i = 0; i < frameSize; i++) {
+      const angle = -2 * Math.PI * i / frameSize
+      table.cos[i] = Math.cos(angle)
+      table.sin[i] = Math.sin(angle)
+    }
+    twiddleTables.set(frameSize, table)
+  }
+  return table
+}
+
 /**
  * Apply peak picking to onset detection results
  */
@@ -216,7 +278,7 @@ function peakPicking(onsetData: OnsetData): OnsetData {
 /**
  * Calculate tempo candidates using autocorrelation
  */
-function calculateTempoCandidates(onsetData: OnsetData): TempoCandidate[] {
+function calculateTempoCandidates(onsetData: OnsetData, range: TempoRange): TempoCandidate[] {
   const candidates: TempoCandidate[] = []
   
   if (onsetData.times.length < 4) {
@@ -259,7 +321,7 @@ function calculateTempoCandidates(onsetData: OnsetData): TempoCandidate[] {
     const bpm = 60 / periodInSeconds
     
     // Check if BPM is in valid range
-    if (bpm >= BPM_RANGE.min && bpm <= BPM_RANGE.max) {
+    if (bpm >= range.min && bpm <= range.max) {
       // Check if this is a local maximum
       const isLocalMax = (lag === 0 || correlation > autocorrelation[lag - 1]) &&
                         (lag === autocorrelation.length - 1 || correlation > autocorrelation[lag + 1])
@@ -275,7 +337,7 @@ function calculateTempoCandidates(onsetData: OnsetData): TempoCandidate[] {
   }
   
   // Also try direct interval-to-BPM conversion
-  const directCandidates = calculateDirectTempoCandidates(intervals)
+  const directCandidates = calculateDirectTempoCandidates(intervals, range)
   candidates.push(...directCandidates)
   
   // Sort by confidence score
@@ -285,7 +347,7 @@ function calculateTempoCandidates(onsetData: OnsetData): TempoCandidate[] {
 /**
  * Calculate tempo candidates directly from inter-onset intervals
  */
-function calculateDirectTempoCandidates(intervals: number[]): TempoCandidate[] {
+function calculateDirectTempoCandidates(intervals: number[], range: TempoRange): TempoCandidate[] {
   const candidates: TempoCandidate[] = []
   const bpmCounts = new Map<number, number>()
   
@@ -304,7 +366,7 @@ function calculateDirectTempoCandidates(intervals: number[]): TempoCandidate[] {
       ]
       
       for (const variant of bpmVariants) {
-        if (variant >= BPM_RANGE.min && variant <= BPM_RANGE.max) {
+        if (variant >= range.min && variant <= range.max) {
           bpmCounts.set(variant, (bpmCounts.get(variant) || 0) + 1)
         }
       }
@@ -330,7 +392,7 @@ function calculateDirectTempoCandidates(intervals: number[]): TempoCandidate[] {
 /**
  * Select the best tempo candidate from the list
  */
-function selectBestTempo(candidates: TempoCandidate[]): TempoCandidate {
+function selectBestTempo(candidates: TempoCandidate[], targetBPM?: number): TempoCandidate {
   if (candidates.length === 0) {
     return { bpm: 120, confidence: 0.1, score: 0 }
   }
@@ -362,6 +424,11 @@ function selectBestTempo(candidates: TempoCandidate[]): TempoCandidate {
         candidate.score *= range.weight
       }
     }
+
+    // Favor candidates near the tempo the caller expects
+    const prior = getTargetPrior(candidate.bpm, targetBPM)
+    candidate.confidence *= prior
+    candidate.score *= prior
   }
   
   // Re-sort after applying weights
@@ -373,15 +440,15 @@ function selectBestTempo(candidates: TempoCandidate[]): TempoCandidate {
 /**
  * Validate and filter BPM results within reasonable ranges
  */
-function validateBPM(candidate: TempoCandidate): TempoCandidate {
+function validateBPM(candidate: TempoCandidate, range: TempoRange): TempoCandidate {
   let { bpm, confidence } = candidate
   
   // Clamp BPM to valid range
-  if (bpm < BPM_RANGE.min) {
-    bpm = BPM_RANGE.min
+  if (bpm < range.min) {
+    bpm = range.min
     confidence *= 0.5 // Reduce confidence for clamped values
-  } else if (bpm > BPM_RANGE.max) {
-    bpm = BPM_RANGE.max
+  } else if (bpm > range.max) {
+    bpm = range.max
     confidence *= 0.5
   }
   
@@ -390,7 +457,7 @@ function validateBPM(candidate: TempoCandidate): TempoCandidate {
   const tolerance = 3
   
   for (const commonTempo of commonTempos) {
-    if (Math.abs(bpm - commonTempo) <= tolerance) {
+    if (Math.abs(bpm - commonTempo) <= tolerance && commonTempo >= range.min && commonTempo <= range.max) {
       // Snap to common tempo and boost confidence slightly
       bpm = commonTempo
       confidence = Math.min(confidence * 1.1, 1.0)
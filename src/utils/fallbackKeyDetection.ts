@@ -1,5 +1,9 @@
 // Fallback key detection using custom algorithms when essentia.js fails
-import type { KeyResult } from '../types'
+import type { KeyCandidate, KeyProfileId, KeyResult, KeySegment } from '../types'
+import { getAnalysisWindows, mergeKeyWindows } from './keySegments'
+import type { AnalysisWindow, KeySegmentOptions } from './keySegments'
+import { KEY_PROFILES } from './keyProfiles'
+import { isSameKey } from './keyNotation'
 
 // Enhanced key profiles with better minor key detection
 const MAJOR_PROFILE = [6.35, 2.23, 3.48, 2.33, 4.38, 4.09, 2.52, 5.19, 2.39, 3.66, 2.29, 2.88]
@@ -16,39 +20,46 @@ const NOTE_NAMES = ['C', 'C#', 'D', 'D#', 'E', 'F', 'F#', 'G', 'G#', 'A', 'A#',
 const MAJOR_KEYS = NOTE_NAMES.map(note => `${note} Major`)
 const MINOR_KEYS = NOTE_NAMES.map(note => `${note} Minor`)
 
+// Pitch estimates per window when detecting key changes
+const WINDOW_PITCH_POINTS = 150
+
+// Runner-up keys kept with a result
+const MAX_ALTERNATIVES = 5
+// Pitch estimates when ranking runner-ups for another detector's key, a window's worth rather than a whole-track pass
+const ALTERNATIVE_PITCH_POINTS = WINDOW_PITCH_POINTS
+
 export interface ChromaVector {
   values: number[]
   confidence: number
 }
 
-export interface KeyProfile {
+export interface KeyProfileMatch {
   key: string
   mode: 'major' | 'minor'
   correlation: number
 }
 
-export async function detectKeyFallback(audioBuffer: AudioBuffer, onProgress?: (progress: number) => void): Promise<KeyResult> {
+export async function detectKeyFallback(
+  audioBuffer: AudioBuffer,
+  onProgress?: (progress: number) => void,
+  keyProfile?: KeyProfileId
+): Promise<KeyResult> {
   try {
     onProgress?.(10)
     
     // Extract chroma features from the audio (with limits to prevent hanging)
-    const chromaVector = extractChromaFeatures(audioBuffer)
+    const chromaVector = extractChromaFeatures(convertToMono(audioBuffer), audioBuffer.sampleRate)
     onProgress?.(60)
     
     // Calculate key profiles using Krumhansl-Schmuckler algorithm
-    const keyProfile = calculateKeyProfile(chromaVector)
+    const keyProfiles = calculateKeyProfiles(chromaVector, keyProfile)
     onProgress?.(90)
     
     // Format the result
-    const keySignature = getKeySignature(keyProfile.key, keyProfile.mode)
+    const result = toKeyResult(keyProfiles)
     onProgress?.(100)
     
-    return {
-      keyName: keyProfile.key,
-      keySignature,
-      confidence: Math.max(0, Math.min(1, keyProfile.correlation)),
-      mode: keyProfile.mode
-    }
+    return result
   } catch (error) {
     console.error('Fallback key detection failed:', error)
     return {
@@ -61,17 +72,129 @@ export async function detectKeyFallback(audioBuffer: AudioBuffer, onProgress?: (
 }
 
 /**
- * Extract chroma features from audio buffer using simplified frequency analysis
+ * Estimate the key over sliding windows and merge windows that agree into segments
  */
-function extractChromaFeatures(audioBuffer: AudioBuffer): ChromaVector {
-  // Convert to mono if stereo
+export async function detectKeySegmentsFallback(
+  audioBuffer: AudioBuffer,
+  options: KeySegmentOptions & { onProgress?: (progress: number) => void, keyProfile?: KeyProfileId } = {}
+): Promise<KeySegment[]> {
+  const { onProgress, keyProfile, ...windowOptions } = options
+  const windows = getAnalysisWindows(audioBuffer.duration, windowOptions)
+  if (windows.length === 0) return []
+
   const audioData = convertToMono(audioBuffer)
-  const chromaValues = new Array(12).fill(0)
   const sampleRate = audioBuffer.sampleRate
+  const windowKeys: Array<AnalysisWindow & { key: KeyResult }> = []
+
+  windows.forEach((window, index) => {
+    const slice = audioData.subarray(Math.floor(window.start * sampleRate), Math.floor(window.end * sampleRate))
+    const chromaVector = extractWindowChroma(slice, sampleRate)
+    // Skip silent or unpitched windows so they take the key of their neighbors
+    if (chromaVector.confidence > 0) {
+      windowKeys.push({ ...window, key: detectKeyFromChroma(chromaVector, keyProfile) })
+    }
+    onProgress?.(((index + 1) / windows.length) * 100)
+  })
+
+  return mergeKeyWindows(windowKeys, audioBuffer.duration)
+}
+
+/**
+ * Extract the chroma of one analysis window, sampling fewer pitch points than a whole-track pass
+ */
+export function extractWindowChroma(audioData: Float32Array, sampleRate: number): ChromaVector {
+  return extractChromaFeatures(audioData, sampleRate, WINDOW_PITCH_POINTS)
+}
+
+/**
+ * Match a chroma vector against the major and minor key profiles
+ */
+export function detectKeyFromChroma(chromaVector: ChromaVector, keyProfile?: KeyProfileId): KeyResult {
+  return toKeyResult(calculateKeyProfiles(chromaVector, keyProfile))
+}
+
+/**
+ * Rank runner-ups to another detector's key, for detectors that report only their best key.
+ * Candidates are scored on that key's confidence scale: by how many notes their profiles share
+ * with the key, and by how well a sampled chroma pass supports them relative to the key's own entry.
+ */
+export function getKeyAlternatives(
+  audioData: Float32Array,
+  sampleRate: number,
+  key: Pick<KeyResult, 'keyName' | 'confidence'>,
+  keyProfile?: KeyProfileId
+): KeyCandidate[] {
+  const chromaVector = extractChromaFeatures(audioData, sampleRate, ALTERNATIVE_PITCH_POINTS)
+  if (chromaVector.confidence === 0) return []
+
+  const matches = calculateKeyProfiles(chromaVector, keyProfile)
+  const anchor = matches.find(match => isSameKey(match.key, key.keyName))
+  if (!anchor) return []
+
+  const templates = getKeyTemplates(keyProfile)
+  const anchorTemplate = templates[anchor.key]
+  const floor = matches[matches.length - 1].correlation
+  const spread = anchor.correlation - floor
+
+  return matches
+    .filter(match => match !== anchor)
+    .map(match => {
+      const kinship = calculateCorrelation(templates[match.key], anchorTemplate)
+      // Keys the chroma pass ranks above the detected key get no more support than the key itself
+      const support = spread > 0 ? Math.min(1, (match.correlation - floor) / spread) : 1
+      return { ...toKeyCandidate(match), score: key.confidence * Math.max(0, kinship) * support }
+    })
+    .filter(candidate => candidate.score > 0)
+    .sort((a, b) => b.score - a.score)
+    .slice(0, MAX_ALTERNATIVES)
+}
+
+/**
+ * Convert ranked key profile matches into a KeyResult for the best one, keeping the runner-ups
+ */
+function toKeyResult(keyProfiles: KeyProfileMatch[]): KeyResult {
+  const best = keyProfiles[0]
+
+  // Fallback to C Major if no good correlation found
+  if (!best || best.correlation < 0.1) {
+    console.log('Fallback key detection: No strong correlation found, using C Major')
+    return {
+      keyName: 'C Major',
+      keySignature: 'C',
+      confidence: 0.1,
+      mode: 'major'
+    }
+  }
+
+  console.log(`Fallback key detection result: ${best.key} (confidence: ${(best.correlation * 100).toFixed(1)}%)`)
+
+  return {
+    keyName: best.key,
+    keySignature: getKeySignature(best.key, best.mode),
+    confidence: Math.max(0, Math.min(1, best.correlation)),
+    mode: best.mode,
+    alternatives: keyProfiles.slice(1, MAX_ALTERNATIVES + 1).map(toKeyCandidate)
+  }
+}
+
+function toKeyCandidate(keyProfile: KeyProfileMatch): KeyCandidate {
+  return {
+    keyName: keyProfile.key,
+    keySignature: getKeySignature(keyProfile.key, keyProfile.mode),
+    mode: keyProfile.mode,
+    score: Math.max(0, Math.min(1, keyProfile.correlation))
+  }
+}
+
+/**
+ * Extract chroma features from mono audio using simplified frequency analysis
+ */
+function extractChromaFeatures(audioData: Float32Array, sampleRate: number, maxPoints: number = 2000): ChromaVector {
+  const chromaValues = new Array(12).fill(0)
   
   // Use a more comprehensive analysis for better accuracy (with limits)
   const analysisLength = Math.min(audioData.length, sampleRate * 30) // Max 30 seconds to prevent hanging
-  const stepSize = Math.max(1, Math.floor(analysisLength / 2000)) // Reduce sample points to prevent hanging
+  const stepSize = Math.max(1, Math.floor(analysisLength / maxPoints)) // Reduce sample points to prevent hanging
   
   let totalEnergy = 0
   let sampleCount = 0
@@ -125,58 +248,36 @@ function extractChromaFeatures(audioBuffer: AudioBuffer): ChromaVector {
 }
 
 /**
- * Calculate key profile using improved Krumhansl-Schmuckler algorithm
+ * Correlate the chroma with all 24 keys of a profile, best match first.
+ * Without a chosen profile, the built-in improved Krumhansl-Schmuckler profile with its minor boosts is used.
  */
-function calculateKeyProfile(chromaVector: ChromaVector): KeyProfile {
-  const results: Array<{key: string, mode: 'major' | 'minor', correlation: number}> = []
+function calculateKeyProfiles(chromaVector: ChromaVector, keyProfile?: KeyProfileId): KeyProfileMatch[] {
+  const templates = getKeyTemplates(keyProfile)
+  // Slight preference boost for minor keys with the built-in profile, to improve minor detection
+  const minorBoost = keyProfile && KEY_PROFILES[keyProfile] ? 1 : 1.05
 
-  // Test all major keys
-  for (let i = 0; i < 12; i++) {
-    const rotatedProfile = rotateArray(MAJOR_PROFILE, i)
-    const correlation = calculateCorrelation(chromaVector.values, rotatedProfile)
-    results.push({
-      key: MAJOR_KEYS[i],
-      mode: 'major',
-      correlation
-    })
-  }
+  const results: KeyProfileMatch[] = [
+    ...MAJOR_KEYS.map(key => ({ key, mode: 'major' as const, correlation: calculateCorrelation(chromaVector.values, templates[key]) })),
+    ...MINOR_KEYS.map(key => ({ key, mode: 'minor' as const, correlation: calculateCorrelation(chromaVector.values, templates[key]) * minorBoost }))
+  ]
 
-  // Test all minor keys with slight preference boost for minor detection
+  return results.sort((a, b) => b.correlation - a.correlation)
+}
+
+/**
+ * The profile of each of the 24 keys, rotated to its tonic and keyed by key name
+ */
+function getKeyTemplates(keyProfile?: KeyProfileId): Record<string, number[]> {
+  const profile = keyProfile && KEY_PROFILES[keyProfile]
+  const majorProfile = profile ? profile.major : MAJOR_PROFILE
+  const minorProfile = profile ? profile.minor : MINOR_PROFILE
+
+  const templates: Record<string, number[]> = {}
   for (let i = 0; i < 12; i++) {
-    const rotatedProfile = rotateArray(MINOR_PROFILE, i)
-    let correlation = calculateCorrelation(chromaVector.values, rotatedProfile)
-    
-    // Slight boost for minor keys to improve detection
-    correlation *= 1.05
-    
-    results.push({
-      key: MINOR_KEYS[i],
-      mode: 'minor',
-      correlation
-    })
-  }
-  
-  // Find the best result
-  results.sort((a, b) => b.correlation - a.correlation)
-  const best = results[0]
-  
-  // Fallback to C Major if no good correlation found
-  if (!best || best.correlation < 0.1) {
-    console.log('Fallback key detection: No strong correlation found, using C Major')
-    return {
-      key: 'C Major',
-      mode: 'major',
-      correlation: 0.1
-    }
-  }
-  
-  console.log(`Fallback key detection result: ${best.key} (confidence: ${(best.correlation * 100).toFixed(1)}%)`)
-  
-  return {
-    key: best.key,
-    mode: best.mode,
-    correlation: best.correlation
+    templates[MAJOR_KEYS[i]] = rotateArray(majorProfile, i)
+    templates[MINOR_KEYS[i]] = rotateArray(minorProfile, i)
   }
+  return templates
 }
 
 /**
@@ -319,14 +420,14 @@ function calculateCorrelation(x: number[], y: number[]): number {
 }
 
 /**
- * Rotate array by specified number of positions
+ * Rotate a profile that starts on C so it starts on the pitch class given by positions
  */
 function rotateArray(arr: number[], positions: number): number[] {
   const n = arr.length
   const rotated = new Array(n)
   
   for (let i = 0; i < n; i++) {
-    rotated[i] = arr[(i + positions) % n]
+    rotated[i] = arr[(i - positions + n) % n]
   }
   
   return rotated
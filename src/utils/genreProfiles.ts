@@ -0,0 +1,229 @@
+// Genre profiles: the tempo range, octave-error correction and key priors each style of music calls for
+
+import type { AnalysisResult, GenreProfileId, KeyResult } from '../types'
+import { parseKey } from './keyNotation'
+
+export interface TempoRange {
+  min: number
+  max: number
+}
+
+export interface TempoStyle extends TempoRange {
+  name: string // Sub-genre played in this range, e.g. "classic boom-bap and lo-fi hip-hop"
+}
+
+export interface KeyPrior {
+  tonics: string[]
+  mode?: 'major' | 'minor' // Boost only keys in this mode; both when omitted
+  boost: number // Confidence multiplier for matching keys
+}
+
+export interface GenreProfile {
+  id: GenreProfileId
+  label: string
+  tempoRange: TempoRange | null // Detected tempos outside this are folded in by doubling or halving
+  tripletCorrection: boolean // Fold tempos detected at 1.5x the beat back into the range
+  commonTempos: number[] // Tempos to snap to when a detection lands within SNAP_TOLERANCE_BPM
+  halfTimeRange?: TempoRange // Suggest half the detected tempo when it lands here
+  doubleTimeRange?: TempoRange // Suggest double the detected tempo when it lands here
+  styles: TempoStyle[]
+  keyPrior: KeyPrior | null
+  context: string // Shown with the tempo suggestions
+}
+
+export const SNAP_TOLERANCE_BPM = 2
+
+export const GENRE_PROFILES: Record<GenreProfileId, GenreProfile> = {
+  hipHop: {
+    id: 'hipHop',
+    label: 'Hip-hop',
+    tempoRange: { min: 80, max: 180 },
+    tripletCorrection: true,
+    // Tempos below the range are only kept when a tempo range from the user lets them through
+    commonTempos: [
+      65, 70, 75, 80, 85, 87, 90, 93, 95, 100, 105, 110, 115, 120,
+      125, 130, 135, 140, 145, 150, 155, 160, 165, 170, 175, 180
+    ],
+    halfTimeRange: { min: 70, max: 100 },
+    doubleTimeRange: { min: 120, max: 180 },
+    styles: [
+      { min: 70, max: 90, name: 'classic boom-bap and lo-fi hip-hop' },
+      { min: 120, max: 140, name: 'modern trap and contemporary hip-hop' },
+      { min: 140, max: 180, name: 'drill, UK drill, or uptempo hip-hop' }
+    ],
+    keyPrior: { tonics: ['C', 'G', 'D', 'A', 'E', 'B', 'F#', 'Db', 'Ab', 'Eb', 'Bb', 'F'], boost: 1.2 },
+    context: 'Hip-hop tracks often have complex rhythmic patterns that can confuse BPM detection algorithms.'
+  },
+  houseTechno: {
+    id: 'houseTechno',
+    label: 'House/Techno',
+    tempoRange: { min: 115, max: 150 },
+    tripletCorrection: false,
+    commonTempos: [118, 120, 122, 124, 125, 126, 128, 130, 132, 135, 138, 140, 145],
+    doubleTimeRange: { min: 115, max: 150 },
+    styles: [
+      { min: 115, max: 124, name: 'deep house' },
+      { min: 124, max: 130, name: 'house and tech house' },
+      { min: 130, max: 150, name: 'techno' }
+    ],
+    keyPrior: { tonics: ['A', 'F', 'G', 'C', 'D', 'E'], mode: 'minor', boost: 1.1 },
+    context: 'Four-on-the-floor kicks make house and techno tempos easy to find, but breakdowns without drums can be read at half speed.'
+  },
+  drumAndBass: {
+    id: 'drumAndBass',
+    label: 'Drum & Bass',
+    tempoRange: { min: 160, max: 185 },
+    tripletCorrection: false,
+    commonTempos: [160, 165, 170, 172, 174, 175, 176, 178, 180],
+    doubleTimeRange: { min: 160, max: 185 },
+    styles: [
+      { min: 160, max: 170, name: 'liquid and classic drum & bass' },
+      { min: 170, max: 185, name: 'neurofunk and jump-up drum & bass' }
+    ],
+    keyPrior: { tonics: ['F', 'G', 'A', 'D', 'E', 'C'], mode: 'minor', boost: 1.1 },
+    context: 'Drum & bass is often detected at half its tempo, following the bassline and the half-time feel of the snare.'
+  },
+  trap: {
+    id: 'trap',
+    label: 'Trap',
+    tempoRange: { min: 120, max: 170 },
+    tripletCorrection: true,
+    commonTempos: [125, 130, 135, 140, 145, 150, 155, 160],
+    halfTimeRange: { min: 65, max: 85 },
+    doubleTimeRange: { min: 120, max: 170 },
+    styles: [
+      { min: 65, max: 85, name: 'half-time trap' },
+      { min: 125, max: 145, name: 'trap' },
+      { min: 140, max: 170, name: 'drill and rage' }
+    ],
+    keyPrior: { tonics: ['C', 'C#', 'D', 'F', 'F#', 'G', 'A', 'Bb'], mode: 'minor', boost: 1.1 },
+    context: 'Trap is counted at double time, but its half-time drums and rolling hi-hats can pull detection either way.'
+  },
+  pop: {
+    id: 'pop',
+    label: 'Pop',
+    tempoRange: { min: 85, max: 135 },
+    tripletCorrection: false,
+    commonTempos: [90, 95, 100, 105, 110, 115, 120, 125, 128, 130],
+    halfTimeRange: { min: 85, max: 120 },
+    doubleTimeRange: { min: 100, max: 135 },
+    styles: [
+      { min: 85, max: 110, name: 'ballads and mid-tempo pop' },
+      { min: 110, max: 135, name: 'dance-pop' }
+    ],
+    keyPrior: { tonics: ['C', 'G', 'D', 'A', 'F', 'E', 'Bb'], mode: 'major', boost: 1.1 },
+    context: 'Pop songs usually sit between 90 and 130 BPM, so faster or slower detections are often octave errors.'
+  },
+  none: {
+    id: 'none',
+    label: 'None',
+    tempoRange: null,
+    tripletCorrection: false,
+    commonTempos: [],
+    styles: [],
+    keyPrior: null,
+    context: 'No genre profile is applied, so tempos are reported as detected.'
+  }
+}
+
+// Profile the detectors were tuned for before profiles existed
+export const DEFAULT_GENRE_PROFILE: GenreProfileId = 'hipHop'
+
+export const GENRE_PROFILE_STORAGE_KEY = 'audio-analyzer-genre-profile'
+
+/**
+ * Look up a profile, falling back to the default for unknown ids
+ */
+export function getGenreProfile(id: GenreProfileId = DEFAULT_GENRE_PROFILE): GenreProfile {
+  return GENRE_PROFILES[id] ?? GENRE_PROFILES[DEFAULT_GENRE_PROFILE]
+}
+
+export function isGenreProfileId(value: unknown): value is GenreProfileId {
+  return typeof value === 'string' && Object.prototype.hasOwnProperty.call(GENRE_PROFILES, value)
+}
+
+/**
+ * Fold octave and triplet errors into the profile's tempo range
+ */
+export function correctTempo(bpm: number, profile: GenreProfile): number {
+  const range = profile.tempoRange
+  if (!range || bpm <= 0) return bpm
+
+  let corrected = bpm
+  while (corrected < range.min && corrected * 2 <= range.max) corrected *= 2
+  while (corrected > range.max && corrected / 2 >= range.min) corrected /= 2
+
+  // Swung and triplet-heavy beats are sometimes tracked on the triplet subdivision
+  if (profile.tripletCorrection && corrected > range.max) {
+    const adjusted = corrected / 1.5
+    if (adjusted >= range.min && adjusted <= range.max) corrected = adjusted
+  }
+
+  return corrected
+}
+
+/**
+ * Snap to the nearest common tempo within SNAP_TOLERANCE_BPM
+ */
+export function snapTempo(bpm: number, profile: GenreProfile): number {
+  let snapped = bpm
+  let closest = Infinity
+  for (const common of profile.commonTempos) {
+    const distance = Math.abs(bpm - common)
+    if (distance <= SNAP_TOLERANCE_BPM && distance < closest) {
+      snapped = common
+      closest = distance
+    }
+  }
+  return snapped
+}
+
+export function isInTempoRange(bpm: number, range: TempoRange | null | undefined): boolean {
+  return !!range && bpm >= range.min && bpm <= range.max
+}
+
+/**
+ * Confidence multiplier for a detected key under the profile's key prior
+ */
+export function getKeyPriorBoost(key: Pick<KeyResult, 'keySignature' | 'mode'>, profile: GenreProfile): number {
+  const prior = profile.keyPrior
+  const parsed = parseKey(key.keySignature)
+  if (!prior || !parsed || (prior.mode && prior.mode !== key.mode)) return 1
+
+  const matches = prior.tonics.some(tonic => parseKey(tonic)?.pitchClass === parsed.pitchClass)
+  return matches ? prior.boost : 1
+}
+
+/**
+ * Whether a result was analyzed under the given profile; results from before profiles used the default
+ */
+export function matchesGenreProfile(result: Pick<AnalysisResult, 'genreProfile'>, id: GenreProfileId): boolean {
+  return (result.genreProfile ?? DEFAULT_GENRE_PROFILE) === id
+}
+
+/**
+ * Read the user's genre profile from localStorage
+ */
+export const getPreferredGenreProfile = (): GenreProfileId => {
+  try {
+    const stored = localStorage.getItem(GENRE_PROFILE_STORAGE_KEY)
+    if (isGenreProfileId(stored)) {
+      return stored
+    }
+  } catch {
+    // localStorage might not be available
+    console.warn('localStorage not available for genre profile preference')
+  }
+  return DEFAULT_GENRE_PROFILE
+}
+
+/**
+ * Persist the user's genre profile to localStorage
+ */
+export const setPreferredGenreProfile = (id: GenreProfileId): void => {
+  try {
+    localStorage.setItem(GENRE_PROFILE_STORAGE_KEY, id)
+  } catch {
+    console.warn('Could not persist genre profile to localStorage')
+  }
+}
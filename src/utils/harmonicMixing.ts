@@ -0,0 +1,114 @@
+// Harmonic mixing suggestions for the detected key
+// Lists keys that mix well on the Camelot wheel, similar to tempo suggestions for BPM
+
+import type { KeyResult } from '../types'
+import { parseKey, toNotations } from './keyNotation'
+import type { ParsedKey } from './keyNotation'
+
+export type HarmonicMove = 'relative' | 'camelotUp' | 'camelotDown' | 'energyBoost' | 'semitoneLift'
+
+export interface HarmonicSuggestion extends Pick<KeyResult, 'keyName' | 'keySignature' | 'mode'> {
+  move: HarmonicMove
+  label: string
+  description: string
+  camelot: string
+  openKey: string
+}
+
+export interface HarmonicSuggestions {
+  camelot: string
+  openKey: string
+  suggestions: HarmonicSuggestion[]
+}
+
+/**
+ * Generate keys that are harmonically compatible with the detected key
+ */
+export function generateHarmonicSuggestions(key: Pick<KeyResult, 'keyName'>): HarmonicSuggestions | null {
+  const parsed = parseKey(key.keyName)
+  if (!parsed) return null
+
+  const notations = toNotations(parsed)
+  const relativeMode = parsed.mode === 'major' ? 'minor' : 'major'
+
+  const moves: Array<{ move: HarmonicMove; label: string; description: string; target: ParsedKey }> = [
+    {
+      move: 'relative',
+      label: `Relative ${relativeMode}`,
+      description: 'Same notes with a different mood, a smooth switch at the same Camelot number',
+      target: {
+        pitchClass: (parsed.pitchClass + (parsed.mode === 'major' ? 9 : 3)) % 12,
+        mode: relativeMode
+      }
+    },
+    {
+      move: 'camelotUp',
+      label: 'Camelot +1',
+      description: 'One step clockwise (a fifth up), lifts the energy slightly',
+      target: { pitchClass: (parsed.pitchClass + 7) % 12, mode: parsed.mode }
+    },
+    {
+      move: 'camelotDown',
+      label: 'Camelot -1',
+      description: 'One step counter-clockwise (a fifth down), relaxes the energy slightly',
+      target: { pitchClass: (parsed.pitchClass + 5) % 12, mode: parsed.mode }
+    },
+    {
+      move: 'energyBoost',
+      label: '+2 semitones',
+      description: 'Energy boost: whole-step key change, two steps round the wheel',
+      target: { pitchClass: (parsed.pitchClass + 2) % 12, mode: parsed.mode }
+    },
+    {
+      move: 'semitoneLift',
+      label: 'Camelot +7',
+      description: 'Energy boost: half-step key change, a classic final-chorus lift',
+      target: { pitchClass: (parsed.pitchClass + 1) % 12, mode: parsed.mode }
+    }
+  ]
+
+  return {
+    camelot: notations.camelot,
+    openKey: notations.openKey,
+    suggestions: moves.map(({ move, label, description, target }) => {
+      const targetNotations = toNotations(target)
+      return {
+        keyName: targetNotations.standard,
+        keySignature: targetNotations.short,
+        mode: target.mode,
+        move,
+        label,
+        description,
+        camelot: targetNotations.camelot,
+        openKey: targetNotations.openKey
+      }
+    })
+  }
+}
+
+export type KeyRelation = 'relative' | 'parallel' | 'fifthUp' | 'fifthDown'
+
+export const KEY_RELATION_LABELS: Record<KeyRelation, string> = {
+  relative: 'Relative key',
+  parallel: 'Parallel key',
+  fifthUp: 'Fifth up',
+  fifthDown: 'Fifth down'
+}
+
+/**
+ * How another key relates to a key, for the close relations that key detection most often confuses
+ */
+export function getKeyRelation(key: Pick<KeyResult, 'keyName'>, other: Pick<KeyResult, 'keyName'>): KeyRelation | null {
+  const from = parseKey(key.keyName)
+  const to = parseKey(other.keyName)
+  if (!from || !to) return null
+
+  const interval = (to.pitchClass - from.pitchClass + 12) % 12
+  if (from.mode !== to.mode) {
+    if (interval === (from.mode === 'major' ? 9 : 3)) return 'relative'
+    return interval === 0 ? 'parallel' : null
+  }
+  if (interval === 7) return 'fifthUp'
+  if (interval === 5) return 'fifthDown'
+  return null
+}
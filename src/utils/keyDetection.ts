@@ -1,9 +1,30 @@
-import type { KeyResult } from '../types'
+import type { GenreProfileId, KeyProfileId, KeyResult, KeySegment } from '../types'
 import { essentiaManager } from './essentiaManager'
-import { detectKeyFallback } from './fallbackKeyDetection'
+import { detectKeyFallback, detectKeySegmentsFallback, getKeyAlternatives } from './fallbackKeyDetection'
+import { getAnalysisWindows, mergeKeyWindows } from './keySegments'
+import type { AnalysisWindow, KeySegmentOptions } from './keySegments'
+import { getGenreProfile, getKeyPriorBoost } from './genreProfiles'
+import type { GenreProfile } from './genreProfiles'
+import { KEY_PROFILE_IDS, compareKeyProfileResults } from './keyProfiles'
+import type { KeyProfileComparison, KeyProfileResult } from './keyProfiles'
+
+// Profile the essentia.js web demo matches against, used when none is chosen
+const DEFAULT_ESSENTIA_KEY_PROFILE: KeyProfileId = 'bgate'
 
 export interface KeyDetectionOptions {
   onProgress?: (progress: number) => void
+  genreProfile?: GenreProfileId // Keys to favor (default: hip-hop)
+  keyProfile?: KeyProfileId // Pitch-class profile to match against (default: each detector's own)
+}
+
+export interface KeySegmentDetectionOptions extends KeySegmentOptions {
+  onProgress?: (progress: number) => void
+  genreProfile?: GenreProfileId
+  keyProfile?: KeyProfileId
+}
+
+export interface KeyProfileComparisonOptions extends Omit<KeyDetectionOptions, 'keyProfile'> {
+  keyProfiles?: KeyProfileId[] // Profiles to compare (default: all)
 }
 
 export class KeyDetector {
@@ -15,7 +36,8 @@ export class KeyDetector {
    * Main method to detect the musical key of an audio buffer using essentia.js
    */
   async detectKey(audioBuffer: AudioBuffer, options: KeyDetectionOptions = {}): Promise<KeyResult> {
-    const { onProgress } = options
+    const { onProgress, keyProfile } = options
+    const profile = getGenreProfile(options.genreProfile)
     try {
       // Get essentia instance from manager
       const essentia = await essentiaManager.getEssentia()
@@ -32,10 +54,12 @@ export class KeyDetector {
       onProgress?.(30)
 
       // Analyze key using multiple methods for better accuracy
-      const keyResults = await this.analyzeKeyWithMultipleMethods(essentia, monoSignal, onProgress)
+      const keyResults = await this.analyzeKeyWithMultipleMethods(essentia, monoSignal, keyProfile, onProgress)
       
       // Select the best result based on confidence and consistency
-      const bestResult = this.selectBestKeyResult(keyResults)
+      const bestResult = this.selectBestKeyResult(keyResults, profile)
+      // KeyExtractor reports only its best key, so the runner-ups are ranked by key profile correlation
+      bestResult.alternatives = getKeyAlternatives(monoSignal, audioBuffer.sampleRate, bestResult, keyProfile)
       onProgress?.(100)
 
       return bestResult
@@ -43,14 +67,69 @@ export class KeyDetector {
       console.error('Key detection failed:', error)
       // Use fallback custom algorithm
       console.log('Using fallback key detection algorithm')
-      return detectKeyFallback(audioBuffer, onProgress)
+      return detectKeyFallback(audioBuffer, onProgress, keyProfile)
+    }
+  }
+
+  /**
+   * Detect the key once per profile and report how far the profiles agree
+   */
+  async compareKeyProfiles(audioBuffer: AudioBuffer, options: KeyProfileComparisonOptions = {}): Promise<KeyProfileComparison> {
+    const { onProgress, keyProfiles = KEY_PROFILE_IDS, ...detectionOptions } = options
+    const results: KeyProfileResult[] = []
+
+    for (let i = 0; i < keyProfiles.length; i++) {
+      const key = await this.detectKey(audioBuffer, {
+        ...detectionOptions,
+        keyProfile: keyProfiles[i],
+        onProgress: progress => onProgress?.(((i + progress / 100) / keyProfiles.length) * 100)
+      })
+      results.push({ keyProfile: keyProfiles[i], key })
+    }
+
+    return compareKeyProfileResults(results)
+  }
+
+  /**
+   * Detect key changes by estimating the key over sliding windows of the track
+   */
+  async detectKeySegments(audioBuffer: AudioBuffer, options: KeySegmentDetectionOptions = {}): Promise<KeySegment[]> {
+    const { onProgress, genreProfile, keyProfile, ...windowOptions } = options
+    const profile = getGenreProfile(genreProfile)
+    const windows = getAnalysisWindows(audioBuffer.duration, windowOptions)
+    if (windows.length === 0) {
+      onProgress?.(100)
+      return []
+    }
+
+    try {
+      const essentia = await essentiaManager.getEssentia()
+      const monoSignal: Float32Array = essentia.audioBufferToMonoSignal(audioBuffer)
+      const sampleRate = audioBuffer.sampleRate
+      const windowKeys: Array<AnalysisWindow & { key: KeyResult }> = []
+
+      for (let i = 0; i < windows.length; i++) {
+        const window = windows[i]
+        const slice = monoSignal.subarray(Math.floor(window.start * sampleRate), Math.floor(window.end * sampleRate))
+        const keyResults = await this.analyzeKeyWithMultipleMethods(essentia, slice, keyProfile)
+        if (keyResults.length > 0) {
+          windowKeys.push({ ...window, key: this.selectBestKeyResult(keyResults, profile) })
+        }
+        onProgress?.(((i + 1) / windows.length) * 100)
+      }
+
+      return mergeKeyWindows(windowKeys, audioBuffer.duration)
+    } catch (error) {
+      console.error('Key segment detection failed:', error)
+      console.log('Using fallback key segment detection')
+      return detectKeySegmentsFallback(audioBuffer, { ...windowOptions, onProgress, keyProfile })
     }
   }
 
   /**
    * Parse essentia.js Key/KeyExtractor result into our KeyResult format
    */
-  private parseEssentiaKeyResult(keyResult: any, confidence?: number): KeyResult {
+  private parseEssentiaKeyResult(keyResult: any, profile: GenreProfile, confidence?: number): KeyResult {
     // Key algorithm returns: { key: string, scale: string, strength: number }
     // KeyExtractor returns: { key: string, scale: string, strength: number }
     const key = keyResult.key || 'C'
@@ -62,14 +141,9 @@ export class KeyDetector {
     const keyName = `${key} ${mode === 'major' ? 'Major' : 'Minor'}`
     const keySignature = mode === 'minor' ? `${key}m` : key
 
-    // Convert strength to confidence (0-1 range) and boost it slightly for better UX
-    let finalConfidence = Math.max(0, Math.min(1, strength))
-    
-    // Apply confidence boost for common keys in hip-hop
-    const commonHipHopKeys = ['C', 'G', 'D', 'A', 'E', 'B', 'F#', 'Db', 'Ab', 'Eb', 'Bb', 'F']
-    if (commonHipHopKeys.includes(key)) {
-      finalConfidence = Math.min(1, finalConfidence * 1.2)
-    }
+    // Convert strength to confidence (0-1 range), boosted for keys common in the genre
+    const boost = getKeyPriorBoost({ keySignature, mode }, profile)
+    const finalConfidence = Math.min(1, Math.max(0, Math.min(1, strength)) * boost)
 
     return {
       keyName,
@@ -84,7 +158,12 @@ export class KeyDetector {
   /**
    * Analyze key using the exact same method as essentia.js web demo
    */
-  private async analyzeKeyWithMultipleMethods(essentia: any, monoSignal: Float32Array, onProgress?: (progress: number) => void): Promise<any[]> {
+  private async analyzeKeyWithMultipleMethods(
+    essentia: any,
+    monoSignal: Float32Array,
+    keyProfile: KeyProfileId = DEFAULT_ESSENTIA_KEY_PROFILE,
+    onProgress?: (progress: number) => void
+  ): Promise<any[]> {
     const results: any[] = []
     
     try {
@@ -101,7 +180,7 @@ export class KeyDetector {
         60,      // minFrequency
         25,      // maxFrequency
         0.2,     // spectralPeaksThreshold
-        'bgate', // windowType
+        keyProfile, // profileType
         16000,   // sampleRate
         0.0001,  // magnitudeThreshold
         440,     // tuningFrequency
@@ -141,7 +220,7 @@ export class KeyDetector {
   /**
    * Select the best key result from multiple analyses
    */
-  private selectBestKeyResult(results: any[]): KeyResult {
+  private selectBestKeyResult(results: any[], profile: GenreProfile): KeyResult {
     if (results.length === 0) {
       return {
         keyName: 'C Major',
@@ -165,18 +244,18 @@ export class KeyDetector {
         const weightedConfidence = results.reduce((sum, r) => sum + (r.confidence * r.weight), 0) / 
                                   results.reduce((sum, r) => sum + r.weight, 0)
         
-        return this.parseEssentiaKeyResult(results[0].result, Math.min(1, weightedConfidence * 1.2))
+        return this.parseEssentiaKeyResult(results[0].result, profile, Math.min(1, weightedConfidence * 1.2))
       } else {
         // Results disagree - use the one with highest confidence
         const bestResult = results.reduce((best, current) => 
           current.confidence > best.confidence ? current : best
         )
-        return this.parseEssentiaKeyResult(bestResult.result, bestResult.confidence * 0.8) // Reduce confidence due to inconsistency
+        return this.parseEssentiaKeyResult(bestResult.result, profile, bestResult.confidence * 0.8) // Reduce confidence due to inconsistency
       }
     }
 
     // Single result
-    return this.parseEssentiaKeyResult(results[0].result, results[0].confidence)
+    return this.parseEssentiaKeyResult(results[0].result, profile, results[0].confidence)
   }
 
   // TODO: Re-implement filter methods without stack overflow
@@ -0,0 +1,192 @@
+// Key notation conversion: standard names, Camelot wheel codes and Open Key codes
+
+import type { KeyResult } from '../types'
+
+export type KeyNotation = 'standard' | 'camelot' | 'openKey'
+
+export interface ParsedKey {
+  pitchClass: number // 0 = C ... 11 = B
+  mode: 'major' | 'minor'
+}
+
+export interface KeyNotations {
+  standard: string    // e.g. "Db Major"
+  short: string       // e.g. "Db", "C#m"
+  camelot: string     // e.g. "3B"
+  openKey: string     // e.g. "8d"
+  enharmonic?: string // Other common spelling, e.g. "C# Major"
+}
+
+export const KEY_NOTATION_LABELS: Record<KeyNotation, string> = {
+  standard: 'Standard',
+  camelot: 'Camelot',
+  openKey: 'Open Key'
+}
+
+export const NOTATION_STORAGE_KEY = 'audio-analyzer-key-notation'
+
+const NATURAL_PITCH_CLASSES: Record<string, number> = { C: 0, D: 2, E: 4, F: 5, G: 7, A: 9, B: 11 }
+
+// Conventional spellings: flats for major keys on black notes, sharps for most minor keys
+const MAJOR_NAMES = ['C', 'Db', 'D', 'Eb', 'E', 'F', 'F#', 'G', 'Ab', 'A', 'Bb', 'B']
+const MINOR_NAMES = ['C', 'C#', 'D', 'Eb', 'E', 'F', 'F#', 'G', 'G#', 'A', 'Bb', 'B']
+const SHARP_NAMES = ['C', 'C#', 'D', 'D#', 'E', 'F', 'F#', 'G', 'G#', 'A', 'A#', 'B']
+const FLAT_NAMES = ['C', 'Db', 'D', 'Eb', 'E', 'F', 'Gb', 'G', 'Ab', 'A', 'Bb', 'B']
+
+/**
+ * Parse a key name or signature such as "C# Major", "Db", "Am" or "Bb minor"
+ */
+export function parseKey(input: string): ParsedKey | null {
+  const match = input.trim().match(/^([A-Ga-g])([#♯b♭]?)\s*(.*)$/)
+  if (!match) return null
+
+  const [, letter, accidental, rest] = match
+  let pitchClass = NATURAL_PITCH_CLASSES[letter.toUpperCase()]
+  if (accidental === '#' || accidental === '♯') pitchClass += 1
+  if (accidental === 'b' || accidental === '♭') pitchClass -= 1
+
+  const suffix = rest.trim().toLowerCase()
+  let mode: 'major' | 'minor'
+  if (suffix === '' || suffix === 'major' || suffix === 'maj') {
+    mode = 'major'
+  } else if (suffix === 'm' || suffix === 'min' || suffix === 'minor') {
+    mode = 'minor'
+  } else {
+    return null
+  }
+
+  return { pitchClass: (pitchClass + 12) % 12, mode }
+}
+
+/**
+ * Parse a Camelot code such as "8A" or "12B"
+ */
+export function parseCamelot(code: string): ParsedKey | null {
+  const match = code.trim().match(/^(1[0-2]|[1-9])\s*([ABab])$/)
+  if (!match) return null
+
+  const number = parseInt(match[1], 10)
+  const mode = match[2].toUpperCase() === 'B' ? 'major' : 'minor'
+  // 8B is C major; each step clockwise is a fifth up
+  const majorPitchClass = ((number - 8) * 7 % 12 + 12) % 12
+
+  return {
+    pitchClass: mode === 'major' ? majorPitchClass : (majorPitchClass + 9) % 12,
+    mode
+  }
+}
+
+/**
+ * Parse an Open Key code such as "1d" or "1m"
+ */
+export function parseOpenKey(code: string): ParsedKey | null {
+  const match = code.trim().match(/^(1[0-2]|[1-9])\s*([dmDM])$/)
+  if (!match) return null
+
+  // Open Key 1 lines up with Camelot 8
+  const camelotNumber = (parseInt(match[1], 10) + 6) % 12 + 1
+  return parseCamelot(`${camelotNumber}${match[2].toLowerCase() === 'd' ? 'B' : 'A'}`)
+}
+
+/**
+ * Parse a key written in any supported notation, e.g. "A Minor", "Am", "8A" or "1m"
+ */
+export function parseKeyCode(input: string): ParsedKey | null {
+  return parseKey(input) ?? parseCamelot(input) ?? parseOpenKey(input)
+}
+
+/**
+ * Get the Camelot wheel number (1-12) shared by a key and its relative
+ */
+function getWheelNumber(key: ParsedKey): number {
+  const majorPitchClass = key.mode === 'major' ? key.pitchClass : (key.pitchClass + 3) % 12
+  return (majorPitchClass * 7 + 7) % 12 + 1
+}
+
+/**
+ * Convert a parsed key into every supported notation
+ */
+export function toNotations(key: ParsedKey): KeyNotations {
+  const camelotNumber = getWheelNumber(key)
+  const openKeyNumber = (camelotNumber + 4) % 12 + 1
+  const names = key.mode === 'major' ? MAJOR_NAMES : MINOR_NAMES
+  const note = names[key.pitchClass]
+  const modeLabel = key.mode === 'major' ? 'Major' : 'Minor'
+
+  // Black-key tonics have a second common spelling
+  const alternateNote = note.includes('#') ? FLAT_NAMES[key.pitchClass] : note.includes('b') ? SHARP_NAMES[key.pitchClass] : null
+
+  return {
+    standard: `${note} ${modeLabel}`,
+    short: key.mode === 'minor' ? `${note}m` : note,
+    camelot: `${camelotNumber}${key.mode === 'major' ? 'B' : 'A'}`,
+    openKey: `${openKeyNumber}${key.mode === 'major' ? 'd' : 'm'}`,
+    enharmonic: alternateNote ? `${alternateNote} ${modeLabel}` : undefined
+  }
+}
+
+/**
+ * Get all notations for a detected key, or null if the key name cannot be parsed
+ */
+export function getKeyNotations(key: Pick<KeyResult, 'keyName'>): KeyNotations | null {
+  const parsed = parseKey(key.keyName)
+  return parsed ? toNotations(parsed) : null
+}
+
+/**
+ * Format a detected key in the chosen notation, falling back to the detector's own name
+ */
+export function formatKey(key: Pick<KeyResult, 'keyName'>, notation: KeyNotation): string {
+  const notations = getKeyNotations(key)
+  if (!notations) return key.keyName
+
+  switch (notation) {
+    case 'camelot': return notations.camelot
+    case 'openKey': return notations.openKey
+    default: return notations.standard
+  }
+}
+
+/**
+ * Format a key compactly for tags and DJ software: "Am" for standard notation, otherwise the wheel code
+ */
+export function formatKeyCode(key: Pick<KeyResult, 'keyName' | 'keySignature'>, notation: KeyNotation): string {
+  if (notation !== 'standard') return formatKey(key, notation)
+  return getKeyNotations(key)?.short ?? key.keySignature
+}
+
+/**
+ * Check whether two key names refer to the same key, ignoring enharmonic spelling
+ */
+export function isSameKey(a: string, b: string): boolean {
+  const parsedA = parseKey(a)
+  const parsedB = parseKey(b)
+  return !!parsedA && !!parsedB && parsedA.pitchClass === parsedB.pitchClass && parsedA.mode === parsedB.mode
+}
+
+/**
+ * Read the user's preferred key notation from localStorage
+ */
+export const getPreferredNotation = (): KeyNotation => {
+  try {
+    const stored = localStorage.getItem(NOTATION_STORAGE_KEY)
+    if (stored === 'standard' || stored === 'camelot' || stored === 'openKey') {
+      return stored
+    }
+  } catch {
+    // localStorage might not be available
+    console.warn('localStorage not available for key notation preference')
+  }
+  return 'standard'
+}
+
+/**
+ * Persist the user's preferred key notation to localStorage
+ */
+export const setPreferredNotation = (notation: KeyNotation): void => {
+  try {
+    localStorage.setItem(NOTATION_STORAGE_KEY, notation)
+  } catch {
+    console.warn('Could not persist key notation to localStorage')
+  }
+}
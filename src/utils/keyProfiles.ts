@@ -0,0 +1,98 @@
+// Key profiles: the major and minor pitch-class weights a chroma is correlated with, and how far profiles agree on a track
+
+import type { KeyProfileId, KeyResult } from '../types'
+
+export interface KeyProfile {
+  id: KeyProfileId
+  label: string
+  major: number[] // Weights from the tonic up, one per semitone
+  minor: number[]
+  description: string
+}
+
+// Published weights as essentia.js ships them, so both detection paths match against the same profile
+export const KEY_PROFILES: Record<KeyProfileId, KeyProfile> = {
+  krumhansl: {
+    id: 'krumhansl',
+    label: 'Krumhansl-Schmuckler',
+    major: [6.35, 2.23, 3.48, 2.33, 4.38, 4.09, 2.52, 5.19, 2.39, 3.66, 2.29, 2.88],
+    minor: [6.33, 2.68, 3.52, 5.38, 2.60, 3.53, 2.54, 4.75, 3.98, 2.69, 3.34, 3.17],
+    description: 'Probe-tone ratings from listening tests, suited to classical and pop harmony.'
+  },
+  temperley: {
+    id: 'temperley',
+    label: 'Temperley',
+    major: [5.0, 2.0, 3.5, 2.0, 4.5, 4.0, 2.0, 4.5, 2.0, 3.5, 1.5, 4.0],
+    minor: [5.0, 2.0, 3.5, 4.5, 2.0, 4.0, 2.0, 4.5, 3.5, 2.0, 1.5, 4.0],
+    description: 'Krumhansl revised to weigh the leading tone and the harmonic minor more evenly.'
+  },
+  edma: {
+    id: 'edma',
+    label: 'EDMA',
+    major: [0.16519551, 0.04749026, 0.08293076, 0.06687112, 0.09994645, 0.09274123, 0.05294487, 0.13159476, 0.05218986, 0.07443653, 0.06940723, 0.06424915],
+    minor: [0.17235348, 0.04, 0.0761009, 0.12100516, 0.05341091, 0.08314264, 0.04609969, 0.14285024, 0.06934185, 0.04, 0.0745387, 0.06698164],
+    description: 'Learned from electronic dance music, where modal and minor loops are common.'
+  },
+  shaath: {
+    id: 'shaath',
+    label: 'Shaath',
+    major: [6.6, 2.0, 3.5, 2.3, 4.6, 4.0, 2.5, 5.2, 2.4, 3.7, 2.3, 3.4],
+    minor: [6.5, 2.7, 3.5, 5.4, 2.6, 3.5, 2.5, 5.2, 4.0, 2.7, 4.3, 3.2],
+    description: 'Krumhansl tuned on popular and electronic music, used by KeyFinder.'
+  },
+  bgate: {
+    id: 'bgate',
+    label: 'Bgate',
+    major: [1.0, 0.0, 0.42, 0.0, 0.53, 0.37, 0.0, 0.77, 0.0, 0.38, 0.21, 0.30],
+    minor: [1.0, 0.0, 0.36, 0.39, 0.0, 0.38, 0.0, 0.74, 0.27, 0.0, 0.42, 0.23],
+    description: 'Derived from Beatport electronic music, with no weight on notes outside the key.'
+  }
+}
+
+export const KEY_PROFILE_IDS = Object.keys(KEY_PROFILES) as KeyProfileId[]
+
+export interface KeyProfileResult {
+  keyProfile: KeyProfileId
+  key: KeyResult
+}
+
+export interface KeyProfileComparison {
+  results: KeyProfileResult[]
+  consensus: KeyResult | null // Key chosen by the most profiles, null when there are no results
+  agreement: number // Share of profiles that chose the consensus key, 0-1
+}
+
+/**
+ * Summarize the keys different profiles found for the same audio.
+ * Ties between keys go to the one with the higher total confidence.
+ */
+export function compareKeyProfileResults(results: KeyProfileResult[]): KeyProfileComparison {
+  const votes = new Map<string, KeyResult[]>()
+  for (const { key } of results) {
+    votes.set(key.keyName, [...(votes.get(key.keyName) ?? []), key])
+  }
+
+  const totalConfidence = (keys: KeyResult[]) => keys.reduce((sum, key) => sum + key.confidence, 0)
+  let winner: KeyResult[] = []
+  for (const keys of votes.values()) {
+    if (keys.length > winner.length || (keys.length === winner.length && totalConfidence(keys) > totalConfidence(winner))) {
+      winner = keys
+    }
+  }
+
+  if (winner.length === 0) {
+    return { results, consensus: null, agreement: 0 }
+  }
+
+  const best = winner.reduce((a, b) => (b.confidence > a.confidence ? b : a))
+  return {
+    results,
+    consensus: {
+      keyName: best.keyName,
+      keySignature: best.keySignature,
+      mode: best.mode,
+      confidence: totalConfidence(winner) / winner.length
+    },
+    agreement: winner.length / results.length
+  }
+}
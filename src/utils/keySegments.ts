@@ -0,0 +1,125 @@
+// Key change detection helpers: sliding analysis windows and merging them into key segments
+
+import type { KeyResult, KeySegment } from '../types'
+
+export interface KeySegmentOptions {
+  windowSeconds?: number // Length of each key estimation window
+  hopSeconds?: number    // Step between window starts
+}
+
+export interface AnalysisWindow {
+  start: number
+  end: number
+}
+
+export const DEFAULT_KEY_WINDOW_SECONDS = 20
+export const DEFAULT_KEY_HOP_SECONDS = 10
+
+/**
+ * Split a track into overlapping analysis windows
+ */
+export function getAnalysisWindows(duration: number, options: KeySegmentOptions = {}): AnalysisWindow[] {
+  const { windowSeconds = DEFAULT_KEY_WINDOW_SECONDS, hopSeconds = DEFAULT_KEY_HOP_SECONDS } = options
+
+  // A single window cannot show a key change
+  if (duration <= 0 || hopSeconds <= 0 || duration < windowSeconds + hopSeconds) {
+    return []
+  }
+
+  const windows: AnalysisWindow[] = []
+  for (let start = 0; start + windowSeconds <= duration; start += hopSeconds) {
+    windows.push({ start, end: start + windowSeconds })
+  }
+
+  // Make sure the tail of the track is covered
+  const last = windows[windows.length - 1]
+  if (last.end < duration) {
+    windows.push({ start: Math.max(0, duration - windowSeconds), end: duration })
+  }
+
+  return windows
+}
+
+/**
+ * Merge per-window key estimates into non-overlapping segments
+ */
+export function mergeKeyWindows(
+  windows: Array<AnalysisWindow & { key: KeyResult }>,
+  duration: number
+): KeySegment[] {
+  if (windows.length === 0) return []
+
+  // Each window owns the span around its center, so overlapping windows do not double count
+  const spans: KeySegment[] = windows.map((window, index) => {
+    const center = (window.start + window.end) / 2
+    const previousCenter = index > 0 ? (windows[index - 1].start + windows[index - 1].end) / 2 : 0
+    const nextCenter = index < windows.length - 1 ? (windows[index + 1].start + windows[index + 1].end) / 2 : duration
+
+    // Segments carry the key of each stretch, not its runner-ups
+    return {
+      ...pickKey(window.key),
+      confidence: window.key.confidence,
+      start: index === 0 ? 0 : (previousCenter + center) / 2,
+      end: index === windows.length - 1 ? duration : (center + nextCenter) / 2
+    }
+  })
+
+  // A lone window that disagrees with matching neighbors is treated as noise
+  const smoothed = spans.map((span, index) => {
+    const previous = spans[index - 1]
+    const next = spans[index + 1]
+    if (previous && next && previous.keyName === next.keyName && span.keyName !== previous.keyName) {
+      return { ...span, ...pickKey(previous), confidence: Math.min(previous.confidence, next.confidence) }
+    }
+    return span
+  })
+
+  return joinSegments(smoothed).map(segment => ({
+    ...segment,
+    start: Math.round(segment.start * 10) / 10,
+    end: Math.round(segment.end * 10) / 10
+  }))
+}
+
+/**
+ * Join neighboring spans in the same key, weighting confidence by length
+ */
+function joinSegments(spans: KeySegment[]): KeySegment[] {
+  const segments: KeySegment[] = []
+
+  for (const span of spans) {
+    const last = segments[segments.length - 1]
+
+    if (last && last.keyName === span.keyName) {
+      const lastLength = last.end - last.start
+      const spanLength = span.end - span.start
+      const totalLength = lastLength + spanLength
+      last.confidence = totalLength > 0
+        ? (last.confidence * lastLength + span.confidence * spanLength) / totalLength
+        : last.confidence
+      last.end = span.end
+    } else {
+      segments.push({ ...span })
+    }
+  }
+
+  return segments
+}
+
+function pickKey(key: KeyResult): Pick<KeyResult, 'keyName' | 'keySignature' | 'mode'> {
+  return { keyName: key.keyName, keySignature: key.keySignature, mode: key.mode }
+}
+
+/**
+ * Check whether a key timeline contains at least one key change
+ */
+export function hasKeyChange(segments: KeySegment[] | undefined): boolean {
+  return !!segments && segments.length > 1
+}
+
+/**
+ * Get the key segment playing at a given time
+ */
+export function getKeyAt(segments: KeySegment[], time: number): KeySegment | undefined {
+  return segments.find(segment => time >= segment.start && time <= segment.end)
+}
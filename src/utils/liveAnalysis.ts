@@ -0,0 +1,181 @@
+// Live analysis: the tempo and key of audio as it arrives, from a rolling buffer of the last few seconds
+
+import type { KeyProfileId, KeyResult, TempoConstraints } from '../types'
+import { detectTempoFromSamples } from './fallbackBpmDetection'
+import { detectKeyFromChroma, extractWindowChroma } from './fallbackKeyDetection'
+import type { ChromaVector } from './fallbackKeyDetection'
+
+export interface LiveAnalyzerOptions extends TempoConstraints {
+  sampleRate: number // Rate of the pushed samples
+  bufferSeconds?: number // Length of the rolling buffer each reading is taken from (default: 8)
+  keyProfile?: KeyProfileId
+}
+
+// The buffered audio at one moment, as handed to a worker for reading
+export interface LiveSnapshot {
+  samples: Float32Array
+  sampleRate: number
+  tempoConstraints: TempoConstraints
+}
+
+// What one pass over a snapshot finds, before it is weighed against earlier readings
+export interface LiveWindow {
+  tempo: { bpm: number; confidence: number } | null
+  chroma: ChromaVector
+  bufferedSeconds: number
+}
+
+export interface LiveReading {
+  bpm: number | null // Null until the buffer holds enough onsets
+  bpmConfidence: number // Detector confidence scaled by how steady recent readings have been, 0-1
+  key: KeyResult | null
+  keyConfidence: number
+  bufferedSeconds: number
+}
+
+// Samples are kept at about this rate, which keeps onsets and the musical pitch range at a fraction of the cost
+const ANALYSIS_SAMPLE_RATE = 11025
+// The tempo needs a few beats before the first reading
+const MIN_TEMPO_SECONDS = 3
+// Confidence builds up as this many readings in a row agree
+const HISTORY_SIZE = 6
+// Tempo readings this close count as agreeing
+const BPM_TOLERANCE = 2
+// Weight of the newest chroma in the running average, so the key builds up over longer than the buffer
+const CHROMA_SMOOTHING = 0.3
+
+export class LiveAnalyzer {
+  private readonly sampleRate: number
+  private readonly decimation: number
+  private readonly buffer: Float32Array
+  private readonly constraints: TempoConstraints
+  private readonly keyProfile?: KeyProfileId
+  private length = 0
+  private blockSum = 0 // Input samples averaged into the next buffered sample
+  private blockCount = 0
+  private tempo: { bpm: number; confidence: number } | null = null
+  private chroma: number[] | null = null
+  private key: KeyResult | null = null
+  private bpmHistory: number[] = []
+  private keyHistory: string[] = []
+
+  constructor({ sampleRate, bufferSeconds = 8, keyProfile, ...constraints }: LiveAnalyzerOptions) {
+    this.decimation = Math.max(1, Math.floor(sampleRate / ANALYSIS_SAMPLE_RATE))
+    this.sampleRate = sampleRate / this.decimation
+    this.buffer = new Float32Array(Math.round(bufferSeconds * this.sampleRate))
+    this.constraints = constraints
+    this.keyProfile = keyProfile
+  }
+
+  /**
+   * Add the next samples of the stream, dropping the oldest once the buffer is full
+   */
+  push(samples: Float32Array): void {
+    const downsampled: number[] = []
+    for (let i = 0; i < samples.length; i++) {
+      this.blockSum += samples[i]
+      if (++this.blockCount === this.decimation) {
+        downsampled.push(this.blockSum / this.decimation)
+        this.blockSum = 0
+        this.blockCount = 0
+      }
+    }
+
+    const incoming = downsampled.slice(-this.buffer.length)
+    const overflow = this.length + incoming.length - this.buffer.length
+    if (overflow > 0) {
+      this.buffer.copyWithin(0, overflow, this.length)
+      this.length -= overflow
+    }
+    this.buffer.set(incoming, this.length)
+    this.length += incoming.length
+  }
+
+  /**
+   * Copy the buffered audio, for reading it away from the main thread
+   */
+  snapshot(): LiveSnapshot {
+    return {
+      samples: this.buffer.slice(0, this.length),
+      sampleRate: this.sampleRate,
+      tempoConstraints: this.constraints
+    }
+  }
+
+  /**
+   * Take a reading from the buffered audio on this thread
+   */
+  analyze(): LiveReading {
+    return this.update(readLiveWindow(this.snapshot()))
+  }
+
+  /**
+   * Weigh a pass over a snapshot against earlier readings. Readings keep the last tempo and key through stretches without them.
+   */
+  update({ tempo: windowTempo, chroma, bufferedSeconds }: LiveWindow): LiveReading {
+    if (windowTempo) {
+      this.tempo = { bpm: Math.round(windowTempo.bpm), confidence: Math.min(1, windowTempo.confidence) }
+      remember(this.bpmHistory, this.tempo.bpm)
+    }
+
+    if (chroma.confidence > 0) {
+      const previous = this.chroma
+      this.chroma = previous
+        ? previous.map((value, i) => value * (1 - CHROMA_SMOOTHING) + chroma.values[i] * CHROMA_SMOOTHING)
+        : chroma.values
+      this.key = detectKeyFromChroma({ values: this.chroma, confidence: chroma.confidence }, this.keyProfile)
+      remember(this.keyHistory, this.key.keyName)
+    }
+
+    const tempo = this.tempo
+    const key = this.key
+    return {
+      bpm: tempo?.bpm ?? null,
+      bpmConfidence: tempo ? tempo.confidence * agreement(this.bpmHistory, bpm => Math.abs(bpm - tempo.bpm) <= BPM_TOLERANCE) : 0,
+      key,
+      keyConfidence: key ? key.confidence * agreement(this.keyHistory, keyName => keyName === key.keyName) : 0,
+      bufferedSeconds
+    }
+  }
+
+  /**
+   * Forget the buffered audio and readings, for a new input
+   */
+  reset(): void {
+    this.length = 0
+    this.blockSum = 0
+    this.blockCount = 0
+    this.tempo = null
+    this.chroma = null
+    this.key = null
+    this.bpmHistory = []
+    this.keyHistory = []
+  }
+}
+
+/**
+ * Find the tempo and chroma of a snapshot. This is the costly part of a reading, about 0.7s for
+ * 8 seconds of audio, and touches no analyzer state, so it can run in a worker.
+ */
+export function readLiveWindow({ samples, sampleRate, tempoConstraints }: LiveSnapshot): LiveWindow {
+  const bufferedSeconds = samples.length / sampleRate
+  const tempo = bufferedSeconds >= MIN_TEMPO_SECONDS ? detectTempoFromSamples(samples, sampleRate, tempoConstraints) : null
+
+  return {
+    tempo: tempo && { bpm: tempo.bpm, confidence: tempo.confidence },
+    chroma: extractWindowChroma(samples, sampleRate),
+    bufferedSeconds
+  }
+}
+
+function remember<T>(history: T[], value: T): void {
+  history.push(value)
+  if (history.length > HISTORY_SIZE) history.shift()
+}
+
+/**
+ * Share of a full history that agrees with the current reading, so confidence grows as readings settle
+ */
+function agreement<T>(history: T[], agrees: (value: T) => boolean): number {
+  return history.filter(agrees).length / HISTORY_SIZE
+}
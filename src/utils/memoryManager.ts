@@ -33,7 +33,8 @@ export class MemoryManager {
    * Start memory monitoring
    */
   startMonitoring(): void {
-    if (this.memoryCheckInterval) {
+    // Outside the browser, such as in the CLI, there is no heap to watch and the interval would keep the process alive
+    if (this.memoryCheckInterval || typeof window === 'undefined') {
       return
     }
 
@@ -229,6 +230,8 @@ export class MemoryManager {
 export const memoryManager = new MemoryManager()
 
 // Cleanup on page unload
-window.addEventListener('beforeunload', () => {
-  memoryManager.stopMonitoring()
-})
\ No newline at end of file
+if (typeof window !== 'undefined') {
+  window.addEventListener('beforeunload', () => {
+    memoryManager.stopMonitoring()
+  })
+}
\ No newline at end of file
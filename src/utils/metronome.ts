@@ -0,0 +1,74 @@
+// Metronome clicks on the detected beats, scheduled on an AudioContext alongside playback
+
+import type { BPMResult, BeatGrid } from '../types'
+import { generateBeatGrid, isDownbeat } from './beatGrid'
+
+export interface MetronomeClick {
+  time: number    // Seconds into the track
+  accent: boolean // Beat 1 of a bar
+}
+
+// Click pitches and length; the accent is a fifth higher so the bar is easy to follow
+const CLICK_FREQUENCY = 1000
+const ACCENT_FREQUENCY = 1500
+const CLICK_DURATION = 0.03
+
+/**
+ * Clicks on the detected beat ticks, or an even grid at the tempo when there are no ticks to follow
+ */
+export function getMetronomeClicks(bpm: BPMResult, duration: number): MetronomeClick[] {
+  const grid = bpm.beatGrid
+
+  // A manual tempo does not follow the detected ticks, so only their bar phase is kept
+  if (!grid || grid.beats.length === 0 || bpm.detected) {
+    const phase = grid?.downbeat ?? 0
+    const beats = generateBeatGrid(bpm.preciseBpm ?? bpm.bpm, phase, duration)
+    if (beats.length === 0) return []
+
+    const downbeat = beats.reduce((best, beat) => Math.abs(beat - phase) < Math.abs(best - phase) ? beat : best)
+    return toClicks({ beats, downbeat, offset: beats[0] })
+  }
+
+  return toClicks(grid)
+}
+
+/**
+ * Clicks from start (inclusive) to end (exclusive), from a list sorted by time
+ */
+export function getClicksInWindow(clicks: MetronomeClick[], start: number, end: number): MetronomeClick[] {
+  let low = 0
+  let high = clicks.length
+  while (low < high) {
+    const mid = (low + high) >> 1
+    if (clicks[mid].time < start) low = mid + 1
+    else high = mid
+  }
+
+  const window: MetronomeClick[] = []
+  for (let i = low; i < clicks.length && clicks[i].time < end; i++) {
+    window.push(clicks[i])
+  }
+  return window
+}
+
+/**
+ * Play a short click at a context time, returning the node so it can be stopped early
+ */
+export function scheduleClick(context: BaseAudioContext, when: number, accent: boolean, volume = 0.5): OscillatorNode {
+  const oscillator = context.createOscillator()
+  const gain = context.createGain()
+
+  oscillator.frequency.value = accent ? ACCENT_FREQUENCY : CLICK_FREQUENCY
+  gain.gain.setValueAtTime(volume, when)
+  gain.gain.exponentialRampToValueAtTime(0.001, when + CLICK_DURATION)
+
+  oscillator.connect(gain)
+  gain.connect(context.destination)
+  oscillator.start(when)
+  oscillator.stop(when + CLICK_DURATION)
+  return oscillator
+}
+
+function toClicks(grid: BeatGrid): MetronomeClick[] {
+  return grid.beats.map((time, index) => ({ time, accent: isDownbeat(grid, index) }))
+}
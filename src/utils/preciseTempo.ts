@@ -0,0 +1,142 @@
+// Fractional tempo: refine a BPM by regression over beat times, and show it to a chosen number of decimals
+
+import type { BPMResult } from '../types'
+
+export type BPMDecimals = 0 | 1 | 2
+
+export const BPM_DECIMAL_OPTIONS: readonly BPMDecimals[] = [0, 1, 2]
+
+// Decimal places named by the step they show the tempo to
+export const BPM_DECIMAL_LABELS: Record<BPMDecimals, string> = {
+  0: 'Whole',
+  1: '0.1',
+  2: '0.01'
+}
+
+export const BPM_DECIMALS_STORAGE_KEY = 'audio-analyzer-bpm-decimals'
+
+// Fewer beats than this leave the slope too loosely fitted to beat the integer estimate
+const MIN_REGRESSION_BEATS = 8
+// A time counts as on the beat when it lands within this fraction of a beat of a whole number of beats
+const ON_BEAT_TOLERANCE = 0.15
+// Past this many beats without a match, the estimate may have drifted, so a new run of beats starts
+const MAX_GAP_BEATS = 8
+// Refined tempos further than this from the estimate mean the times follow some other pulse
+const MAX_DEVIATION = 0.05
+
+/**
+ * Refine a tempo estimate by least-squares regression of beat times against beat numbers.
+ * Times that fall between beats, such as off-beat onsets, are skipped, and times at a multiple
+ * of the estimate's beat (ticks at half or double the reported tempo) are numbered accordingly.
+ */
+export function refineTempo(times: ArrayLike<number>, bpm: number): number | undefined {
+  if (!(bpm > 0) || times.length < MIN_REGRESSION_BEATS) return undefined
+
+  // The second pass numbers the beats with the first pass's tempo, which misreads fewer gaps
+  let estimate = bpm
+  for (let pass = 0; pass < 2; pass++) {
+    const refined = fitBeatPeriod(numberBeats(times, 60 / estimate))
+    if (!refined) return undefined
+    estimate = 60 / refined
+  }
+
+  if (Math.abs(estimate - bpm) / bpm > MAX_DEVIATION) return undefined
+  return Math.round(estimate * 100) / 100
+}
+
+/**
+ * Add the regression tempo to a result whose beats support one, rounding bpm to match it
+ */
+export function withPreciseTempo(result: BPMResult, times: ArrayLike<number> | undefined = result.beatGrid?.beats): BPMResult {
+  const preciseBpm = times && refineTempo(times, result.bpm)
+  return preciseBpm ? { ...result, bpm: Math.round(preciseBpm), preciseBpm } : result
+}
+
+/**
+ * BPM to the given number of decimals, using the precise tempo where there is one
+ */
+export function formatBPM(bpm: Pick<BPMResult, 'bpm' | 'preciseBpm'>, decimals: BPMDecimals): string {
+  if (decimals === 0) return String(bpm.bpm)
+  return (bpm.preciseBpm ?? bpm.bpm).toFixed(decimals)
+}
+
+/**
+ * Read the user's BPM decimal places from localStorage
+ */
+export const getPreferredBPMDecimals = (): BPMDecimals => {
+  try {
+    const stored = Number(localStorage.getItem(BPM_DECIMALS_STORAGE_KEY) ?? NaN)
+    if (BPM_DECIMAL_OPTIONS.includes(stored as BPMDecimals)) {
+      return stored as BPMDecimals
+    }
+  } catch {
+    // localStorage might not be available
+    console.warn('localStorage not available for BPM decimals preference')
+  }
+  return 0
+}
+
+/**
+ * Persist the user's BPM decimal places to localStorage
+ */
+export const setPreferredBPMDecimals = (decimals: BPMDecimals): void => {
+  try {
+    localStorage.setItem(BPM_DECIMALS_STORAGE_KEY, String(decimals))
+  } catch {
+    console.warn('Could not persist BPM decimals to localStorage')
+  }
+}
+
+/**
+ * Split times into runs of [beat number, time] pairs, each run numbered from its first beat
+ */
+function numberBeats(times: ArrayLike<number>, period: number): Array<Array<[number, number]>> {
+  const runs: Array<Array<[number, number]>> = []
+  let run: Array<[number, number]> = []
+
+  for (let i = 0; i < times.length; i++) {
+    const time = times[i]
+    if (!Number.isFinite(time)) continue
+
+    const last = run[run.length - 1]
+    if (!last) {
+      run.push([0, time])
+      continue
+    }
+
+    const beats = (time - last[1]) / period
+    const wholeBeats = Math.round(beats)
+    if (wholeBeats >= 1 && Math.abs(beats - wholeBeats) <= ON_BEAT_TOLERANCE) {
+      run.push([last[0] + wholeBeats, time])
+    } else if (beats > MAX_GAP_BEATS) {
+      runs.push(run)
+      run = [[0, time]]
+    }
+  }
+  runs.push(run)
+
+  return runs.filter(points => points.length >= 2)
+}
+
+/**
+ * Seconds per beat from the slope shared by all runs, each run keeping its own phase
+ */
+function fitBeatPeriod(runs: Array<Array<[number, number]>>): number | undefined {
+  let covariance = 0
+  let variance = 0
+  let beatCount = 0
+
+  for (const points of runs) {
+    const meanBeat = points.reduce((sum, [beat]) => sum + beat, 0) / points.length
+    const meanTime = points.reduce((sum, [, time]) => sum + time, 0) / points.length
+    for (const [beat, time] of points) {
+      covariance += (beat - meanBeat) * (time - meanTime)
+      variance += (beat - meanBeat) ** 2
+    }
+    beatCount += points.length
+  }
+
+  if (beatCount < MIN_REGRESSION_BEATS || variance === 0) return undefined
+  const period = covariance / variance
+  return period > 0 ? period : undefined
+}
@@ -0,0 +1,83 @@
+// Reference drone: a sustained tonic note or triad of a key, to check the detected key by ear
+
+import type { KeyResult } from '../types'
+import { parseKey, toNotations } from './keyNotation'
+import type { ParsedKey } from './keyNotation'
+
+export type DroneVoicing = 'root' | 'triad'
+
+// Tonics from C3 up to B3 sit under most tracks without masking the melody
+const BASE_MIDI_NOTE = 48
+const ATTACK_SECONDS = 0.2
+const RELEASE_SECONDS = 0.1
+
+export interface DroneVoice {
+  setVolume: (volume: number) => void
+  stop: () => void
+}
+
+/**
+ * The key to drone for a mode: the detected key, or its relative when the other mode is chosen,
+ * since relative major and minor share their notes and are the pair detection most often confuses
+ */
+export function getDroneKey(key: Pick<KeyResult, 'keyName'>, mode: KeyResult['mode']): ParsedKey | null {
+  const parsed = parseKey(key.keyName)
+  if (!parsed || parsed.mode === mode) return parsed
+
+  return {
+    pitchClass: (parsed.pitchClass + (parsed.mode === 'major' ? 9 : 3)) % 12,
+    mode
+  }
+}
+
+/**
+ * Name of the drone key, e.g. "A Minor"
+ */
+export function getDroneKeyName(key: ParsedKey): string {
+  return toNotations(key).standard
+}
+
+/**
+ * Frequencies of the tonic, or of the tonic triad in root position
+ */
+export function getDroneFrequencies(key: ParsedKey, voicing: DroneVoicing): number[] {
+  const third = key.mode === 'major' ? 4 : 3
+  const intervals = voicing === 'triad' ? [0, third, 7] : [0]
+
+  return intervals.map(interval => {
+    const midiNote = BASE_MIDI_NOTE + key.pitchClass + interval
+    return 440 * Math.pow(2, (midiNote - 69) / 12)
+  })
+}
+
+/**
+ * Start a sustained drone on the context, fading in so it does not click
+ */
+export function startDrone(context: BaseAudioContext, frequencies: number[], volume: number): DroneVoice {
+  const output = context.createGain()
+  // Each note gets a share of the volume so a triad is no louder than a single note
+  const levelFor = (value: number) => Math.max(0, Math.min(1, value)) / Math.max(1, frequencies.length)
+
+  output.gain.setValueAtTime(0, context.currentTime)
+  output.gain.linearRampToValueAtTime(levelFor(volume), context.currentTime + ATTACK_SECONDS)
+  output.connect(context.destination)
+
+  const oscillators = frequencies.map(frequency => {
+    const oscillator = context.createOscillator()
+    oscillator.type = 'triangle'
+    oscillator.frequency.value = frequency
+    oscillator.connect(output)
+    oscillator.start()
+    return oscillator
+  })
+
+  return {
+    setVolume: (value: number) => {
+      output.gain.setTargetAtTime(levelFor(value), context.currentTime, 0.05)
+    },
+    stop: () => {
+      output.gain.setTargetAtTime(0, context.currentTime, RELEASE_SECONDS / 3)
+      oscillators.forEach(oscillator => oscillator.stop(context.currentTime + RELEASE_SECONDS))
+    }
+  }
+}
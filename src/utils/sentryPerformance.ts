@@ -97,7 +97,7 @@ export const trackAnalysisError = (
  * Track user interactions
  */
 export const trackUserInteraction = (
-  action: 'file_select' | 'analysis_start' | 'reset' | 'retry' | 'sentry_test',
+  action: 'file_select' | 'batch_select' | 'analysis_start' | 'reset' | 'retry' | 'tempo_override' | 'sentry_test',
   metadata?: Record<string, any>
 ) => {
   Sentry.addBreadcrumb({
@@ -0,0 +1,90 @@
+// Compare BPM and key tags embedded in a file with the detected values
+
+import type { AnalysisResult, EmbeddedTags } from '../types'
+import { formatKey, parseKey, parseKeyCode } from './keyNotation'
+import type { KeyNotation } from './keyNotation'
+
+export type TagComparisonStatus = 'match' | 'close' | 'mismatch'
+
+export interface TagComparison {
+  field: 'bpm' | 'key'
+  embedded: string // As written in the file
+  detected: string
+  status: TagComparisonStatus
+  note?: string // Why a value is close or off, e.g. "Half tempo"
+}
+
+// Tags are usually rounded to whole BPM
+const BPM_MATCH_TOLERANCE = 1
+const HALF_DOUBLE_TOLERANCE = 2
+
+/**
+ * Compare embedded BPM and key tags with the detected values, skipping anything not yet known
+ */
+export function compareTags(
+  tags: EmbeddedTags,
+  result: Partial<Pick<AnalysisResult, 'key' | 'bpm'>>,
+  notation: KeyNotation = 'standard'
+): TagComparison[] {
+  const comparisons: TagComparison[] = []
+
+  if (tags.bpm !== undefined && result.bpm) {
+    comparisons.push({
+      field: 'bpm',
+      embedded: String(tags.bpm),
+      detected: String(result.bpm.bpm),
+      ...compareBPM(tags.bpm, result.bpm.bpm)
+    })
+  }
+
+  if (tags.key && result.key) {
+    comparisons.push({
+      field: 'key',
+      embedded: tags.key,
+      detected: formatKey(result.key, notation),
+      ...compareKey(tags.key, result.key.keyName)
+    })
+  }
+
+  return comparisons
+}
+
+function compareBPM(embedded: number, detected: number): Pick<TagComparison, 'status' | 'note'> {
+  if (Math.abs(embedded - detected) <= BPM_MATCH_TOLERANCE) {
+    return { status: 'match' }
+  }
+
+  // Half and double tempo are the most common tagging disagreement
+  if (Math.abs(embedded * 2 - detected) <= HALF_DOUBLE_TOLERANCE) {
+    return { status: 'close', note: 'Half tempo' }
+  }
+  if (Math.abs(embedded - detected * 2) <= HALF_DOUBLE_TOLERANCE) {
+    return { status: 'close', note: 'Double tempo' }
+  }
+
+  const difference = Math.round(Math.abs(embedded - detected) * 10) / 10
+  return { status: 'mismatch', note: `Off by ${difference} BPM` }
+}
+
+function compareKey(embedded: string, detectedName: string): Pick<TagComparison, 'status' | 'note'> {
+  const tagged = parseKeyCode(embedded)
+  const detected = parseKey(detectedName)
+
+  if (!tagged || !detected) {
+    return { status: 'mismatch', note: 'Unrecognized key' }
+  }
+
+  if (tagged.mode === detected.mode) {
+    const interval = (tagged.pitchClass - detected.pitchClass + 12) % 12
+    if (interval === 0) return { status: 'match' }
+    // Keys a fifth apart share all but one note and are easily confused
+    if (interval === 5 || interval === 7) return { status: 'close', note: 'A fifth apart' }
+  } else {
+    const relativePitchClass = (detected.pitchClass + (detected.mode === 'major' ? 9 : 3)) % 12
+    if (tagged.pitchClass === relativePitchClass) {
+      return { status: 'close', note: `Relative ${tagged.mode}` }
+    }
+  }
+
+  return { status: 'mismatch' }
+}
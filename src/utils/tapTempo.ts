@@ -0,0 +1,85 @@
+// Tap tempo: BPM from the intervals between taps, and manual tempo overrides of a result
+
+import type { AnalysisResult } from '../types'
+
+export interface TapTempoReading {
+  bpm: number  // Running average of the kept intervals, one decimal place
+  taps: number // Taps since the last reset
+}
+
+interface TapTempoOptions {
+  resetAfterMs?: number
+  maxTaps?: number
+}
+
+// Intervals this far from the median are missed or doubled taps
+const OUTLIER_TOLERANCE = 0.3
+
+export class TapTempo {
+  private times: number[] = []
+  private taps = 0
+  private resetAfterMs: number
+  private maxTaps: number
+
+  // A pause of two seconds is slower than 30 BPM, so it means the user has started over
+  constructor({ resetAfterMs = 2000, maxTaps = 16 }: TapTempoOptions = {}) {
+    this.resetAfterMs = resetAfterMs
+    this.maxTaps = maxTaps
+  }
+
+  /**
+   * Record a tap at the given time in milliseconds, returning the tempo once there are two taps
+   */
+  tap(time: number): TapTempoReading | null {
+    const last = this.times[this.times.length - 1]
+    if (last !== undefined && (time - last > this.resetAfterMs || time <= last)) {
+      this.reset()
+    }
+
+    // The average follows the most recent taps, so it settles on a tempo the user corrects towards
+    this.times = [...this.times, time].slice(-this.maxTaps)
+    this.taps++
+
+    const intervals = this.times.slice(1).map((tapTime, i) => tapTime - this.times[i])
+    if (intervals.length === 0) return null
+
+    const median = [...intervals].sort((a, b) => a - b)[Math.floor(intervals.length / 2)]
+    const kept = intervals.filter(interval => Math.abs(interval - median) <= median * OUTLIER_TOLERANCE)
+    const average = kept.reduce((sum, interval) => sum + interval, 0) / kept.length
+
+    return { bpm: Math.round(600000 / average) / 10, taps: this.taps }
+  }
+
+  /**
+   * Forget all taps
+   */
+  reset(): void {
+    this.times = []
+    this.taps = 0
+  }
+}
+
+/**
+ * Set a manual tempo on a result, or restore the detected tempo when bpm is null.
+ * The beat grid and tempo map stay on the detected beats, since a typed tempo says nothing about where they fall
+ */
+export function applyTempoOverride(result: AnalysisResult, bpm: number | null): AnalysisResult {
+  const { detected, ...current } = result.bpm
+  const original = detected ?? { bpm: current.bpm, preciseBpm: current.preciseBpm }
+
+  if (bpm === null) {
+    return { ...result, bpm: { ...current, ...original } }
+  }
+
+  return {
+    ...result,
+    bpm: { ...current, bpm: Math.round(bpm), preciseBpm: undefined, detected: original }
+  }
+}
+
+/**
+ * Carry the manual tempo of an earlier result over to a new analysis of the same audio
+ */
+export function keepTempoOverride(result: AnalysisResult, previous: AnalysisResult | null): AnalysisResult {
+  return previous?.bpm.detected ? applyTempoOverride(result, previous.bpm.bpm) : result
+}
@@ -0,0 +1,89 @@
+// Per-analysis tempo hints: a BPM range to detect within and a target tempo to prefer
+
+import type { AnalysisResult, TempoConstraints } from '../types'
+import { BPM_RANGE } from '../types'
+import { isInTempoRange } from './genreProfiles'
+import type { GenreProfile, TempoRange } from './genreProfiles'
+
+// Widest range a user can ask for, matching BPMDetector.setBPMRange
+export const TEMPO_LIMITS: TempoRange = { min: 30, max: 300 }
+
+// Width of the target prior in octaves
+const TARGET_PRIOR_OCTAVES = 0.5
+
+/**
+ * Pick the constraints that are set, checking they describe a usable range
+ */
+export function getTempoConstraints(options: TempoConstraints): TempoConstraints {
+  const { minBPM, maxBPM, targetBPM } = options
+  const constraints: TempoConstraints = {
+    ...(minBPM !== undefined && { minBPM }),
+    ...(maxBPM !== undefined && { maxBPM }),
+    ...(targetBPM !== undefined && { targetBPM })
+  }
+
+  for (const [name, value] of Object.entries(constraints)) {
+    if (!Number.isFinite(value) || value < TEMPO_LIMITS.min || value > TEMPO_LIMITS.max) {
+      throw new Error(`${name} must be between ${TEMPO_LIMITS.min} and ${TEMPO_LIMITS.max} BPM`)
+    }
+  }
+  if (minBPM !== undefined && maxBPM !== undefined && minBPM >= maxBPM) {
+    throw new Error('minBPM must be lower than maxBPM')
+  }
+
+  return constraints
+}
+
+export function hasTempoRange(constraints: TempoConstraints): boolean {
+  return constraints.minBPM !== undefined || constraints.maxBPM !== undefined
+}
+
+/**
+ * The range to detect within: the user's bounds where set, the default limits otherwise
+ */
+export function resolveTempoRange(constraints: TempoConstraints, limits: TempoRange = BPM_RANGE): TempoRange {
+  const min = constraints.minBPM ?? Math.min(limits.min, constraints.maxBPM ?? Infinity)
+  const max = constraints.maxBPM ?? Math.max(limits.max, constraints.minBPM ?? -Infinity)
+  return { min, max }
+}
+
+/**
+ * A user's range replaces the genre's, since it is what they know about this track
+ */
+export function constrainProfile(profile: GenreProfile, constraints: TempoConstraints, limits?: TempoRange): GenreProfile {
+  return hasTempoRange(constraints) ? { ...profile, tempoRange: resolveTempoRange(constraints, limits) } : profile
+}
+
+/**
+ * Pick the octave of a tempo within the range that is closest to the target
+ */
+export function preferTargetTempo(bpm: number, range: TempoRange, targetBPM?: number): number {
+  if (!targetBPM || bpm <= 0) return bpm
+
+  const octaves = [bpm / 4, bpm / 2, bpm, bpm * 2, bpm * 4].filter(candidate => isInTempoRange(candidate, range))
+  return octaves.reduce((best, candidate) =>
+    octaveDistance(candidate, targetBPM) < octaveDistance(best, targetBPM) ? candidate : best, octaves[0] ?? bpm)
+}
+
+/**
+ * Weight for a tempo candidate under the target prior: 2 at the target, falling towards 1 an octave away
+ */
+export function getTargetPrior(bpm: number, targetBPM?: number): number {
+  if (!targetBPM || bpm <= 0) return 1
+  const distance = octaveDistance(bpm, targetBPM) / TARGET_PRIOR_OCTAVES
+  return 1 + Math.exp(-0.5 * distance * distance)
+}
+
+/**
+ * Whether a result was detected with the same tempo hints
+ */
+export function matchesTempoConstraints(result: Pick<AnalysisResult, 'tempoConstraints'>, constraints: TempoConstraints): boolean {
+  const stored = result.tempoConstraints ?? {}
+  return stored.minBPM === constraints.minBPM &&
+    stored.maxBPM === constraints.maxBPM &&
+    stored.targetBPM === constraints.targetBPM
+}
+
+function octaveDistance(bpm: number, targetBPM: number): number {
+  return Math.abs(Math.log2(bpm / targetBPM))
+}
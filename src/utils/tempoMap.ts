@@ -0,0 +1,132 @@
+// Segmented tempo analysis: split a track into time ranges with their own BPM
+
+import type { TempoMap, TempoSegment } from '../types'
+
+export interface TempoMapOptions {
+  windowBeats?: number // Number of beat intervals per analysis window
+  tolerance?: number   // Max BPM difference for neighboring windows to be merged
+}
+
+interface TempoWindow {
+  start: number
+  end: number
+  bpm: number
+  confidence: number
+  beats: number
+}
+
+/**
+ * Build a tempo map from beat timestamps (seconds)
+ */
+export function buildTempoMap(beats: number[], options: TempoMapOptions = {}): TempoMap | undefined {
+  const { windowBeats = 16, tolerance = 2 } = options
+
+  if (beats.length < 4) {
+    return undefined
+  }
+
+  const windows = splitIntoWindows(beats, windowBeats)
+  const segments = mergeWindows(windows, tolerance)
+
+  const bpms = segments.map(s => s.bpm)
+  const variation = Math.max(...bpms) - Math.min(...bpms)
+
+  return {
+    segments,
+    isSteady: segments.length <= 1 || variation <= tolerance,
+    variation: Math.round(variation * 10) / 10
+  }
+}
+
+/**
+ * Measure tempo for consecutive groups of beats using interval statistics
+ */
+function splitIntoWindows(beats: number[], windowBeats: number): TempoWindow[] {
+  const windows: TempoWindow[] = []
+  const minIntervals = Math.max(3, Math.floor(windowBeats / 2))
+
+  for (let startIndex = 0; startIndex < beats.length - 1; startIndex += windowBeats) {
+    let endIndex = Math.min(beats.length - 1, startIndex + windowBeats)
+
+    // Fold a short tail into this window instead of measuring it on its own
+    if (beats.length - 1 - endIndex < minIntervals) {
+      endIndex = beats.length - 1
+    }
+
+    const intervals: number[] = []
+    for (let i = startIndex + 1; i <= endIndex; i++) {
+      intervals.push(beats[i] - beats[i - 1])
+    }
+
+    windows.push({
+      start: beats[startIndex],
+      end: beats[endIndex],
+      bpm: 60 / median(intervals),
+      confidence: intervalConsistency(intervals),
+      beats: intervals.length
+    })
+
+    if (endIndex === beats.length - 1) break
+  }
+
+  return windows
+}
+
+/**
+ * Merge neighboring windows that agree on tempo into segments
+ */
+function mergeWindows(windows: TempoWindow[], tolerance: number): TempoSegment[] {
+  const merged: TempoWindow[] = []
+
+  for (const window of windows) {
+    const last = merged[merged.length - 1]
+
+    if (last && Math.abs(window.bpm - last.bpm) <= tolerance) {
+      const totalBeats = last.beats + window.beats
+      last.bpm = (last.bpm * last.beats + window.bpm * window.beats) / totalBeats
+      last.confidence = (last.confidence * last.beats + window.confidence * window.beats) / totalBeats
+      last.end = window.end
+      last.beats = totalBeats
+    } else {
+      merged.push({ ...window })
+    }
+  }
+
+  return merged.map(toSegment)
+}
+
+function toSegment(window: TempoWindow): TempoSegment {
+  return {
+    start: Math.round(window.start * 1000) / 1000,
+    end: Math.round(window.end * 1000) / 1000,
+    bpm: Math.round(window.bpm * 10) / 10,
+    confidence: Math.max(0, Math.min(1, window.confidence))
+  }
+}
+
+function median(values: number[]): number {
+  const sorted = [...values].sort((a, b) => a - b)
+  const middle = Math.floor(sorted.length / 2)
+  return sorted.length % 2 === 0 ? (sorted[middle - 1] + sorted[middle]) / 2 : sorted[middle]
+}
+
+/**
+ * Convert the coefficient of variation of intervals into a 0-1 confidence
+ */
+function intervalConsistency(intervals: number[]): number {
+  const mean = intervals.reduce((sum, interval) => sum + interval, 0) / intervals.length
+  if (mean <= 0) return 0
+
+  const variance = intervals.reduce((sum, interval) => sum + Math.pow(interval - mean, 2), 0) / intervals.length
+  const coefficientOfVariation = Math.sqrt(variance) / mean
+
+  // 10% jitter between beats already means the window tempo is unreliable
+  return Math.max(0, 1 - coefficientOfVariation * 10)
+}
+
+/**
+ * Get the segment playing at a given time
+ */
+export function getTempoAt(tempoMap: TempoMap, time: number): TempoSegment | undefined {
+  return tempoMap.segments.find(segment => time >= segment.start && time <= segment.end)
+}
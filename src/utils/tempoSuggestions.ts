@@ -1,5 +1,8 @@
 // Smart tempo suggestions for BPM display
-// Provides contextual suggestions for half-time/double-time detection
+// Provides contextual suggestions for half-time/double-time detection, tuned by genre profile
+
+import type { GenreProfileId } from '../types'
+import { DEFAULT_GENRE_PROFILE, getGenreProfile, isInTempoRange } from './genreProfiles'
 
 export interface TempoSuggestion {
   bpm: number
@@ -19,12 +22,16 @@ export interface TempoSuggestions {
 /**
  * Generate smart tempo suggestions based on detected BPM
  */
-export function generateTempoSuggestions(detectedBPM: number, confidence: number): TempoSuggestions {
+export function generateTempoSuggestions(
+  detectedBPM: number,
+  confidence: number,
+  genreProfile: GenreProfileId = DEFAULT_GENRE_PROFILE
+): TempoSuggestions {
   const suggestions: TempoSuggestion[] = []
   const tips: string[] = []
+  const profile = getGenreProfile(genreProfile)
   
-  // Hip-hop specific context
-  const genreContext = "Hip-hop tracks often have complex rhythmic patterns that can confuse BPM detection algorithms."
+  const genreContext = profile.context
   
   // Calculate potential alternative tempos
   const halfTime = Math.round(detectedBPM / 2)
@@ -40,39 +47,34 @@ export function generateTempoSuggestions(detectedBPM: number, confidence: number
     reason: `Algorithm confidence: ${Math.round(confidence * 100)}%`
   })
   
-  // Analyze BPM range and add contextual suggestions
-  if (detectedBPM >= 140 && detectedBPM <= 200) {
-    // Likely double-time detection for hip-hop
-    if (halfTime >= 70 && halfTime <= 100) {
-      suggestions.push({
-        bpm: halfTime,
-        label: 'Half-time',
-        description: 'Common hip-hop tempo (detected at double-time)',
-        confidence: 'high',
-        reason: 'Hip-hop tracks often get detected at double their actual tempo'
-      })
-      
-      tips.push("Hip-hop beats are often detected at double-time due to prominent hi-hats and snare patterns.")
-    }
+  // Likely double-time detection when half the tempo is typical for the genre
+  if (isInTempoRange(halfTime, profile.halfTimeRange)) {
+    suggestions.push({
+      bpm: halfTime,
+      label: 'Half-time',
+      description: `Common ${profile.label.toLowerCase()} tempo (detected at double-time)`,
+      confidence: 'high',
+      reason: `${profile.label} tracks often get detected at double their actual tempo`
+    })
+
+    tips.push(`${profile.label} beats are often detected at double-time due to prominent hi-hats and snare patterns.`)
   }
-  
-  if (detectedBPM >= 60 && detectedBPM <= 90) {
-    // Likely half-time detection
-    if (doubleTime >= 120 && doubleTime <= 180) {
-      suggestions.push({
-        bpm: doubleTime,
-        label: 'Double-time',
-        description: 'Faster tempo interpretation',
-        confidence: 'medium',
-        reason: 'Algorithm may have detected the slower underlying pulse'
-      })
-      
-      tips.push("Some hip-hop tracks have a slower underlying pulse that can be interpreted as half-time.")
-    }
+
+  // Likely half-time detection when double the tempo is typical for the genre
+  if (isInTempoRange(doubleTime, profile.doubleTimeRange)) {
+    suggestions.push({
+      bpm: doubleTime,
+      label: 'Double-time',
+      description: 'Faster tempo interpretation',
+      confidence: 'medium',
+      reason: 'Algorithm may have detected the slower underlying pulse'
+    })
+
+    tips.push(`Some ${profile.label.toLowerCase()} tracks have a slower underlying pulse that can be interpreted as half-time.`)
   }
   
-  // Check for triplet-based tempos (common in certain hip-hop styles)
-  if (detectedBPM >= 150 && detectedBPM <= 240) {
+  // Check for triplet-based tempos (common in swung and triplet-heavy styles)
+  if (profile.tripletCorrection && detectedBPM >= 150 && detectedBPM <= 240) {
     if (twoThirdsTime >= 80 && twoThirdsTime <= 160) {
       suggestions.push({
         bpm: twoThirdsTime,
@@ -94,12 +96,8 @@ export function generateTempoSuggestions(detectedBPM: number, confidence: number
   }
   
   // Add genre-specific tips comparing original and alternative tempos
-  const getGenreForBPM = (bpm: number): string | null => {
-    if (bpm >= 70 && bpm <= 90) return 'classic boom-bap and lo-fi hip-hop'
-    if (bpm >= 120 && bpm <= 140) return 'modern trap and contemporary hip-hop'
-    if (bpm >= 140 && bpm <= 180) return 'drill, UK drill, or uptempo hip-hop'
-    return null
-  }
+  const getGenreForBPM = (bpm: number): string | null =>
+    profile.styles.find(style => isInTempoRange(bpm, style))?.name ?? null
   
   const originalGenre = getGenreForBPM(detectedBPM)
   const halfTimeGenre = getGenreForBPM(halfTime)
@@ -147,22 +145,47 @@ export function generateTempoSuggestions(detectedBPM: number, confidence: number
   }
 }
 
+/**
+ * Find the suggestion closest to a tapped tempo, if one is within the tolerance (a fraction of the tempo)
+ */
+export function findMatchingSuggestion(
+  suggestions: TempoSuggestion[],
+  tappedBPM: number,
+  tolerance = 0.04
+): TempoSuggestion | null {
+  let match: TempoSuggestion | null = null
+
+  for (const suggestion of suggestions) {
+    const distance = Math.abs(suggestion.bpm - tappedBPM) / suggestion.bpm
+    if (distance <= tolerance && (!match || distance < Math.abs(match.bpm - tappedBPM) / match.bpm)) {
+      match = suggestion
+    }
+  }
+
+  return match
+}
+
 /**
  * Get a simple suggestion message for display
  */
-export function getSimpleSuggestionMessage(detectedBPM: number, confidence: number): string | null {
+export function getSimpleSuggestionMessage(
+  detectedBPM: number,
+  confidence: number,
+  genreProfile: GenreProfileId = DEFAULT_GENRE_PROFILE
+): string | null {
   if (confidence > 0.8) {
     return null // High confidence, no suggestion needed
   }
   
+  const profile = getGenreProfile(genreProfile)
   const halfTime = Math.round(detectedBPM / 2)
   const doubleTime = Math.round(detectedBPM * 2)
   
-  if (detectedBPM >= 140 && detectedBPM <= 200 && halfTime >= 70 && halfTime <= 100) {
-    return `Consider ${halfTime} BPM (half-time) - common for hip-hop tracks`
+  if (isInTempoRange(halfTime, profile.halfTimeRange)) {
+    return `Consider ${halfTime} BPM (half-time) - common for ${profile.label.toLowerCase()} tracks`
   }
   
-  if (detectedBPM >= 60 && detectedBPM <= 90 && doubleTime >= 120 && doubleTime <= 180) {
+  if (isInTempoRange(doubleTime, profile.doubleTimeRange)) {
     return `Consider ${doubleTime} BPM (double-time) - may be the intended tempo`
   }
   
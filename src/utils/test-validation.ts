@@ -33,10 +33,10 @@ export function createValidAudioFile(
  * Creates a mock audio file that exceeds size limit
  */
 export function createOversizedAudioFile(
-  name: string = 'large.mp3',
+  name: string = 'large.m4a',
   size: number = 60 * 1024 * 1024 // 60MB
 ): File {
-  return createMockFile(name, size, 'audio/mpeg')
+  return createMockFile(name, size, 'audio/mp4')
 }
 
 /**
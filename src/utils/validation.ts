@@ -11,6 +11,8 @@ import type {
 import {
     SUPPORTED_FORMATS,
     MAX_FILE_SIZE,
+    MAX_STREAMING_FILE_SIZE,
+    STREAMABLE_FORMATS,
     BPM_RANGE,
     CONFIDENCE_RANGE
 } from '../types'
@@ -19,20 +21,25 @@ import {
  * Validates if a file is a supported audio format
  */
 export function validateAudioFile(file: File): ValidationResult {
-    // Check file size
-    if (file.size > MAX_FILE_SIZE) {
+    // Check file format
+    const fileExtension = file.name.split('.').pop()?.toLowerCase()
+    if (!fileExtension || !SUPPORTED_FORMATS.includes(fileExtension as SupportedFormat)) {
         return {
             isValid: false,
-            error: `File size (${(file.size / 1024 / 1024).toFixed(1)}MB) exceeds maximum limit of ${MAX_FILE_SIZE / 1024 / 1024}MB`
+            error: `Unsupported file format. Supported formats: ${SUPPORTED_FORMATS.join(', ').toUpperCase()}`
         }
     }
 
-    // Check file format
-    const fileExtension = file.name.split('.').pop()?.toLowerCase()
-    if (!fileExtension || !SUPPORTED_FORMATS.includes(fileExtension as SupportedFormat)) {
+    // Check file size; larger files in streamable formats are analyzed in windows
+    const isStreamable = (STREAMABLE_FORMATS as readonly string[]).includes(fileExtension)
+    const maxSize = isStreamable ? MAX_STREAMING_FILE_SIZE : MAX_FILE_SIZE
+    if (file.size > maxSize) {
+        const limitNote = isStreamable
+            ? ''
+            : ` for ${fileExtension.toUpperCase()} files. Larger files can be analyzed as ${STREAMABLE_FORMATS.join(', ').toUpperCase()}`
         return {
             isValid: false,
-            error: `Unsupported file format. Supported formats: ${SUPPORTED_FORMATS.join(', ').toUpperCase()}`
+            error: `File size (${(file.size / 1024 / 1024).toFixed(1)}MB) exceeds maximum limit of ${maxSize / 1024 / 1024}MB${limitNote}`
         }
     }
 
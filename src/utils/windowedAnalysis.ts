@@ -0,0 +1,204 @@
+// Combine key chroma and beat ticks from consecutive windows of a long file into one analysis result
+
+import type { AnalysisResult, BPMResult, GenreProfileId, KeyResult, KeySegment, TempoConstraints } from '../types'
+import { BPM_RANGE } from '../types'
+import { detectKeyFromChroma, extractWindowChroma } from './fallbackKeyDetection'
+import { DEFAULT_KEY_WINDOW_SECONDS, mergeKeyWindows } from './keySegments'
+import type { AnalysisWindow } from './keySegments'
+import { buildBeatGrid } from './beatGrid'
+import { buildTempoMap } from './tempoMap'
+import { correctTempo, getGenreProfile } from './genreProfiles'
+import type { GenreProfile } from './genreProfiles'
+import { constrainProfile, preferTargetTempo, resolveTempoRange } from './tempoConstraints'
+import { withPreciseTempo } from './preciseTempo'
+
+// Ticks closer than half the shortest beat interval are one beat found on both sides of a window boundary
+const DUPLICATE_BEAT_SECONDS = 60 / BPM_RANGE.max / 2
+
+interface WindowTempo {
+  bpm: number
+  confidence: number
+  duration: number
+}
+
+/**
+ * Accumulates per-window results so that only the current window's audio has to be in memory
+ */
+export class WindowedAnalysis {
+  private duration = 0
+  private chroma: number[] = new Array(12).fill(0)
+  private chromaWeight = 0
+  private keyWindows: Array<AnalysisWindow & { key: KeyResult }> = []
+  private beats: number[] = []
+  private tempos: WindowTempo[] = []
+  private profile: GenreProfile
+  private constraints: TempoConstraints
+
+  constructor(genreProfile?: GenreProfileId, constraints: TempoConstraints = {}) {
+    this.profile = constrainProfile(getGenreProfile(genreProfile), constraints)
+    this.constraints = constraints
+  }
+
+  /**
+   * Add the next window of mono audio, with the BPM detected in it if there was one
+   */
+  addWindow(signal: Float32Array, sampleRate: number, bpm?: BPMResult): void {
+    const start = this.duration
+    const windowDuration = signal.length / sampleRate
+
+    this.addChroma(signal, sampleRate, start)
+    if (bpm) {
+      this.addBeats(bpm, start, windowDuration)
+    }
+
+    this.duration += windowDuration
+  }
+
+  /**
+   * Total duration of the windows added so far, in seconds
+   */
+  getDuration(): number {
+    return this.duration
+  }
+
+  /**
+   * Key of the chroma summed over all windows, weighted by how pitched each window was
+   */
+  getKey(): KeyResult {
+    if (this.chromaWeight === 0) {
+      return { keyName: 'C Major', keySignature: 'C', confidence: 0, mode: 'major' }
+    }
+
+    return detectKeyFromChroma({
+      values: this.chroma.map(value => value / this.chromaWeight),
+      confidence: Math.min(1, this.chromaWeight / this.duration)
+    })
+  }
+
+  /**
+   * Tempo from the intervals between all beat ticks, or from the window tempos when no ticks were found,
+   * corrected for the genre profile and tempo constraints
+   */
+  getBPM(): BPMResult | undefined {
+    if (this.tempos.length === 0) {
+      return undefined
+    }
+
+    const totalDuration = this.tempos.reduce((sum, tempo) => sum + tempo.duration, 0)
+    const confidence = totalDuration > 0
+      ? this.tempos.reduce((sum, tempo) => sum + tempo.confidence * tempo.duration, 0) / totalDuration
+      : 0
+
+    if (this.beats.length < 2) {
+      return {
+        bpm: Math.round(this.correctTempo(weightedMedian(this.tempos.map(tempo => [tempo.bpm, tempo.duration])))),
+        confidence,
+        detectedBeats: this.beats.length
+      }
+    }
+
+    const intervals = this.beats.slice(1).map((beat, index) => beat - this.beats[index])
+
+    return withPreciseTempo({
+      bpm: Math.round(this.correctTempo(60 / weightedMedian(intervals.map(interval => [interval, 1])))),
+      confidence,
+      detectedBeats: this.beats.length,
+      beatGrid: buildBeatGrid(this.beats),
+      tempoMap: buildTempoMap(this.beats)
+    })
+  }
+
+  /**
+   * Key over time, with one analysis window per DEFAULT_KEY_WINDOW_SECONDS
+   */
+  getKeySegments(): KeySegment[] {
+    const segments = mergeKeyWindows(this.keyWindows, this.duration)
+    return segments.length > 0
+      ? segments
+      : [{ ...this.getKey(), start: 0, end: Math.round(this.duration * 10) / 10 }]
+  }
+
+  /**
+   * Combine everything added so far into an analysis result
+   */
+  getResult(): Omit<AnalysisResult, 'processingTime'> {
+    const key = this.getKey()
+    const bpm = this.getBPM()
+
+    if (!bpm) {
+      throw new Error('BPM detection failed: no tempo was found in any window')
+    }
+
+    return {
+      key,
+      bpm,
+      confidence: {
+        key: key.confidence,
+        bpm: bpm.confidence,
+        overall: (key.confidence + bpm.confidence) / 2
+      },
+      keySegments: this.getKeySegments()
+    }
+  }
+
+  /**
+   * Fold octave errors into range and move to the octave closest to the target tempo
+   */
+  private correctTempo(bpm: number): number {
+    const range = this.profile.tempoRange ?? resolveTempoRange(this.constraints)
+    return preferTargetTempo(correctTempo(bpm, this.profile), range, this.constraints.targetBPM)
+  }
+
+  private addChroma(signal: Float32Array, sampleRate: number, start: number): void {
+    const windowDuration = signal.length / sampleRate
+    const count = Math.max(1, Math.round(windowDuration / DEFAULT_KEY_WINDOW_SECONDS))
+    const pieceLength = Math.ceil(signal.length / count)
+
+    for (let offset = 0; offset < signal.length; offset += pieceLength) {
+      const piece = signal.subarray(offset, offset + pieceLength)
+      const pieceDuration = piece.length / sampleRate
+      const chromaVector = extractWindowChroma(piece, sampleRate)
+
+      // Silent or unpitched pieces take the key of their neighbors
+      if (chromaVector.confidence > 0) {
+        const weight = chromaVector.confidence * pieceDuration
+        chromaVector.values.forEach((value, pitchClass) => {
+          this.chroma[pitchClass] += value * weight
+        })
+        this.chromaWeight += weight
+
+        const pieceStart = start + offset / sampleRate
+        this.keyWindows.push({ start: pieceStart, end: pieceStart + pieceDuration, key: detectKeyFromChroma(chromaVector) })
+      }
+    }
+  }
+
+  private addBeats(bpm: BPMResult, start: number, windowDuration: number): void {
+    this.tempos.push({ bpm: bpm.bpm, confidence: bpm.confidence, duration: windowDuration })
+
+    for (const tick of bpm.beatGrid?.beats ?? []) {
+      if (tick < 0 || tick > windowDuration) continue
+
+      const time = start + tick
+      const previous = this.beats[this.beats.length - 1]
+      if (previous === undefined || time - previous >= DUPLICATE_BEAT_SECONDS) {
+        this.beats.push(time)
+      }
+    }
+  }
+}
+
+/**
+ * Median of [value, weight] pairs
+ */
+function weightedMedian(pairs: Array<[number, number]>): number {
+  const sorted = [...pairs].sort((a, b) => a[0] - b[0])
+  const half = sorted.reduce((sum, [, weight]) => sum + weight, 0) / 2
+
+  let cumulative = 0
+  for (const [value, weight] of sorted) {
+    cumulative += weight
+    if (cumulative >= half) return value
+  }
+  return sorted[sorted.length - 1][0]
+}
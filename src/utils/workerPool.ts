@@ -0,0 +1,276 @@
+// Worker pool for running key and BPM detection off the main thread
+
+import type { BPMResult, GenreProfileId, KeyResult, KeySegment, TempoConstraints } from '../types'
+import { toWorkerAudioData } from '../workers/audioData'
+import { getTempoConstraints } from './tempoConstraints'
+import type { BPMWorkerMessage, BPMWorkerResponse } from '../workers/bpmWorker'
+import type { KeyWorkerMessage, KeyWorkerResponse } from '../workers/keyWorker'
+import type { LiveWorkerMessage, LiveWorkerResponse } from '../workers/liveWorker'
+import type { LiveSnapshot, LiveWindow } from './liveAnalysis'
+
+interface WorkerRequest {
+  type: string
+  id?: number
+}
+
+interface WorkerReply {
+  type: string
+  id?: number
+  progress?: number
+  error?: string
+}
+
+interface WorkerPoolOptions {
+  progressType: string // Reply type carrying progress updates
+  errorType: string    // Reply type carrying a detection error
+  size?: number
+}
+
+export interface WorkerJobOptions {
+  transfer?: Transferable[]
+  onProgress?: (progress: number) => void
+  signal?: AbortSignal
+}
+
+export interface AnalysisJobOptions extends Omit<WorkerJobOptions, 'transfer'> {
+  genreProfile?: GenreProfileId
+}
+
+export type BPMJobOptions = AnalysisJobOptions & TempoConstraints
+
+// Each idle worker keeps its own essentia.js instance, so keep pools small
+const MAX_POOL_SIZE = 2
+
+const cancelledError = () => new Error('Audio processing was cancelled')
+
+/**
+ * Runs one job per worker at a time, queueing the rest until a worker is free
+ */
+export class WorkerPool<TRequest extends WorkerRequest, TReply extends WorkerReply> {
+  private createWorker: () => Worker
+  private progressType: string
+  private errorType: string
+  private size: number
+  private idle: Worker[] = []
+  private waiting: Array<() => void> = []
+  private workerCount = 0
+  private nextId = 1
+
+  constructor(createWorker: () => Worker, options: WorkerPoolOptions) {
+    this.createWorker = createWorker
+    this.progressType = options.progressType
+    this.errorType = options.errorType
+    this.size = Math.max(1, options.size ?? getDefaultPoolSize())
+  }
+
+  /**
+   * Send a request to a free worker and resolve with its final reply
+   */
+  async run(request: TRequest, options: WorkerJobOptions = {}): Promise<TReply> {
+    const { transfer = [], onProgress, signal } = options
+    const worker = await this.acquire(signal)
+    const id = this.nextId++
+
+    return new Promise<TReply>((resolve, reject) => {
+      const finish = (reusable: boolean) => {
+        worker.removeEventListener('message', handleMessage)
+        worker.removeEventListener('error', handleError)
+        signal?.removeEventListener('abort', handleAbort)
+        if (reusable) {
+          this.release(worker)
+        } else {
+          this.discard(worker)
+        }
+      }
+
+      const handleMessage = (event: MessageEvent<TReply>) => {
+        const reply = event.data
+        if (reply.id !== id) return
+
+        if (reply.type === this.progressType) {
+          onProgress?.(reply.progress ?? 0)
+          return
+        }
+
+        finish(true)
+        if (reply.type === this.errorType) {
+          reject(new Error(reply.error || 'Analysis worker failed'))
+        } else {
+          resolve(reply)
+        }
+      }
+
+      const handleError = (event: ErrorEvent) => {
+        event.preventDefault()
+        finish(false)
+        reject(new Error(`Analysis worker failed: ${event.message || 'Unknown error'}`))
+      }
+
+      // Detection cannot be interrupted from inside the worker, so stop the worker itself
+      const handleAbort = () => {
+        finish(false)
+        reject(cancelledError())
+      }
+
+      worker.addEventListener('message', handleMessage)
+      worker.addEventListener('error', handleError)
+      signal?.addEventListener('abort', handleAbort)
+
+      try {
+        worker.postMessage({ ...request, id }, transfer)
+      } catch (error) {
+        finish(false)
+        reject(error)
+      }
+    })
+  }
+
+  /**
+   * Terminate idle workers; busy ones are terminated when their job is cancelled
+   */
+  destroy(): void {
+    for (const worker of this.idle) {
+      worker.terminate()
+    }
+    this.workerCount -= this.idle.length
+    this.idle = []
+  }
+
+  /**
+   * Take an idle worker, start a new one if the pool has room, or wait for one to be released
+   */
+  private async acquire(signal?: AbortSignal): Promise<Worker> {
+    if (signal?.aborted) {
+      throw cancelledError()
+    }
+
+    const idleWorker = this.idle.pop()
+    if (idleWorker) {
+      return idleWorker
+    }
+
+    if (this.workerCount < this.size) {
+      const worker = this.createWorker()
+      this.workerCount++
+      return worker
+    }
+
+    return new Promise<Worker>((resolve, reject) => {
+      const retry = () => {
+        signal?.removeEventListener('abort', handleAbort)
+        this.acquire(signal).then(resolve, reject)
+      }
+      const handleAbort = () => {
+        this.waiting = this.waiting.filter(waiter => waiter !== retry)
+        reject(cancelledError())
+      }
+
+      this.waiting.push(retry)
+      signal?.addEventListener('abort', handleAbort)
+    })
+  }
+
+  private release(worker: Worker): void {
+    this.idle.push(worker)
+    this.waiting.shift()?.()
+  }
+
+  private discard(worker: Worker): void {
+    worker.terminate()
+    this.workerCount--
+    // A waiting job can start a fresh worker in its place
+    this.waiting.shift()?.()
+  }
+}
+
+/**
+ * Leave a core for the main thread
+ */
+function getDefaultPoolSize(): number {
+  const cores = typeof navigator !== 'undefined' ? navigator.hardwareConcurrency || 2 : 2
+  return Math.min(MAX_POOL_SIZE, Math.max(1, cores - 1))
+}
+
+/**
+ * Check whether this environment can run analysis workers
+ */
+export function workersAvailable(): boolean {
+  return typeof Worker !== 'undefined'
+}
+
+const keyWorkerPool = new WorkerPool<KeyWorkerMessage, KeyWorkerResponse>(
+  () => new Worker(new URL('../workers/keyWorker.ts', import.meta.url), { type: 'module' }),
+  { progressType: 'KEY_PROGRESS', errorType: 'KEY_ERROR' }
+)
+
+const bpmWorkerPool = new WorkerPool<BPMWorkerMessage, BPMWorkerResponse>(
+  () => new Worker(new URL('../workers/bpmWorker.ts', import.meta.url), { type: 'module' }),
+  { progressType: 'BPM_PROGRESS', errorType: 'BPM_ERROR' }
+)
+
+// Live readings follow one another, so a single worker keeps up
+const liveWorkerPool = new WorkerPool<LiveWorkerMessage, LiveWorkerResponse>(
+  () => new Worker(new URL('../workers/liveWorker.ts', import.meta.url), { type: 'module' }),
+  { progressType: 'LIVE_PROGRESS', errorType: 'LIVE_ERROR', size: 1 }
+)
+
+/**
+ * Detect the key of an audio buffer in a worker
+ */
+export async function detectKeyInWorker(audioBuffer: AudioBuffer, options: AnalysisJobOptions = {}): Promise<KeyResult> {
+  const { genreProfile, ...jobOptions } = options
+  const { audioData, transfer } = toWorkerAudioData(audioBuffer)
+  const reply = await keyWorkerPool.run({ type: 'DETECT_KEY', audioData, genreProfile }, { ...jobOptions, transfer })
+
+  if (!reply.result) {
+    throw new Error('Key worker returned no result')
+  }
+  return reply.result
+}
+
+/**
+ * Detect key changes over time in a worker
+ */
+export async function detectKeySegmentsInWorker(audioBuffer: AudioBuffer, options: AnalysisJobOptions = {}): Promise<KeySegment[]> {
+  const { genreProfile, ...jobOptions } = options
+  const { audioData, transfer } = toWorkerAudioData(audioBuffer)
+  const reply = await keyWorkerPool.run({ type: 'DETECT_KEY_SEGMENTS', audioData, genreProfile }, { ...jobOptions, transfer })
+
+  if (!reply.segments) {
+    throw new Error('Key worker returned no segments')
+  }
+  return reply.segments
+}
+
+/**
+ * Detect the BPM of an audio buffer in a worker
+ */
+export async function detectBPMInWorker(audioBuffer: AudioBuffer, options: BPMJobOptions = {}): Promise<BPMResult> {
+  const { genreProfile, minBPM, maxBPM, targetBPM, ...jobOptions } = options
+  const tempoConstraints = getTempoConstraints({ minBPM, maxBPM, targetBPM })
+  const { audioData, transfer } = toWorkerAudioData(audioBuffer)
+  const reply = await bpmWorkerPool.run(
+    { type: 'DETECT_BPM', audioBufferData: audioData, genreProfile, tempoConstraints },
+    { ...jobOptions, transfer }
+  )
+
+  if (!reply.result) {
+    throw new Error('BPM worker returned no result')
+  }
+  return reply.result
+}
+
+/**
+ * Read the tempo and chroma of a live input snapshot in a worker
+ */
+export async function readLiveWindowInWorker(snapshot: LiveSnapshot, options: Pick<WorkerJobOptions, 'signal'> = {}): Promise<LiveWindow> {
+  const reply = await liveWorkerPool.run(
+    { type: 'READ_LIVE_WINDOW', snapshot },
+    { ...options, transfer: [snapshot.samples.buffer] }
+  )
+
+  if (!reply.result) {
+    throw new Error('Live worker returned no result')
+  }
+  return reply.result
+}
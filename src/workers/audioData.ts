@@ -0,0 +1,43 @@
+// Audio data passed between the main thread and the analysis workers
+
+export interface WorkerAudioData {
+  sampleRate: number
+  length: number
+  numberOfChannels: number
+  channelData: Float32Array[]
+}
+
+/**
+ * Copy the channels of an AudioBuffer into buffers that can be transferred to a worker
+ */
+export function toWorkerAudioData(audioBuffer: AudioBuffer): { audioData: WorkerAudioData; transfer: ArrayBuffer[] } {
+  const channelData: Float32Array[] = []
+  for (let channel = 0; channel < audioBuffer.numberOfChannels; channel++) {
+    // Copy so that transferring does not detach the caller's buffer
+    channelData.push(new Float32Array(audioBuffer.getChannelData(channel)))
+  }
+
+  return {
+    audioData: {
+      sampleRate: audioBuffer.sampleRate,
+      length: audioBuffer.length,
+      numberOfChannels: audioBuffer.numberOfChannels,
+      channelData
+    },
+    transfer: channelData.map(data => data.buffer as ArrayBuffer)
+  }
+}
+
+/**
+ * Wrap transferred channel data in the parts of the AudioBuffer interface the detectors use,
+ * since the AudioBuffer constructor is not available inside workers
+ */
+export function fromWorkerAudioData(audioData: WorkerAudioData): AudioBuffer {
+  return {
+    sampleRate: audioData.sampleRate,
+    length: audioData.length,
+    numberOfChannels: audioData.numberOfChannels,
+    duration: audioData.length / audioData.sampleRate,
+    getChannelData: (channel: number) => audioData.channelData[channel]
+  } as AudioBuffer
+}
@@ -1,21 +1,23 @@
 // Web Worker for BPM detection to prevent UI blocking
 
 import { BPMDetector } from '../utils/bpmDetection'
-import type { BPMResult } from '../types'
+import type { BPMResult, GenreProfileId, TempoConstraints } from '../types'
+import { fromWorkerAudioData } from './audioData'
+import type { WorkerAudioData } from './audioData'
 
 export interface BPMWorkerMessage {
   type: 'DETECT_BPM'
-  audioBufferData: {
-    sampleRate: number
-    length: number
-    numberOfChannels: number
-    channelData: Float32Array[]
-  }
+  id?: number // Echoed in every response so callers can match them up
+  audioBufferData: WorkerAudioData
+  genreProfile?: GenreProfileId
+  tempoConstraints?: TempoConstraints
 }
 
 export interface BPMWorkerResponse {
-  type: 'BPM_RESULT' | 'BPM_ERROR'
+  type: 'BPM_RESULT' | 'BPM_ERROR' | 'BPM_PROGRESS'
+  id?: number
   result?: BPMResult
+  progress?: number // 0-100, sent with BPM_PROGRESS
   error?: string
 }
 
@@ -24,44 +26,43 @@ let bpmDetector: BPMDetector | null = null
 
 // Worker message handler
 self.onmessage = async (event: MessageEvent<BPMWorkerMessage>) => {
-  const { type, audioBufferData } = event.data
+  const { type, id, audioBufferData, genreProfile, tempoConstraints } = event.data
 
   if (type === 'DETECT_BPM') {
     try {
       // Reconstruct AudioBuffer from transferred data
-      const audioBuffer = new AudioBuffer({
-        sampleRate: audioBufferData.sampleRate,
-        length: audioBufferData.length,
-        numberOfChannels: audioBufferData.numberOfChannels
-      })
-
-      // Copy channel data back to AudioBuffer
-      for (let channel = 0; channel < audioBufferData.numberOfChannels; channel++) {
-        const channelData = audioBuffer.getChannelData(channel)
-        channelData.set(audioBufferData.channelData[channel])
-      }
+      const audioBuffer = fromWorkerAudioData(audioBufferData)
 
       // Create or reuse BPM detector
       if (!bpmDetector) {
         bpmDetector = new BPMDetector()
       }
-      
-      const result = await bpmDetector.detectBPM(audioBuffer)
+
+      const result = await bpmDetector.detectBPM(audioBuffer, {
+        genreProfile,
+        ...tempoConstraints,
+        onProgress: progress => {
+          const response: BPMWorkerResponse = { type: 'BPM_PROGRESS', id, progress }
+          self.postMessage(response)
+        }
+      })
 
       // Send result back to main thread
       const response: BPMWorkerResponse = {
         type: 'BPM_RESULT',
+        id,
         result
       }
-      
+
       self.postMessage(response)
     } catch (error) {
       // Send error back to main thread
       const response: BPMWorkerResponse = {
         type: 'BPM_ERROR',
+        id,
         error: error instanceof Error ? error.message : 'Unknown BPM detection error'
       }
-      
+
       self.postMessage(response)
     }
   }
@@ -1,20 +1,22 @@
 import { KeyDetector } from '../utils/keyDetection'
-import type { KeyResult } from '../types'
+import type { GenreProfileId, KeyResult, KeySegment } from '../types'
+import { fromWorkerAudioData } from './audioData'
+import type { WorkerAudioData } from './audioData'
 
 // Worker message types
-interface KeyWorkerMessage {
-  type: 'DETECT_KEY'
-  audioData: {
-    channelData: Float32Array[]
-    sampleRate: number
-    length: number
-    numberOfChannels: number
-  }
+export interface KeyWorkerMessage {
+  type: 'DETECT_KEY' | 'DETECT_KEY_SEGMENTS'
+  id?: number // Echoed in every response so callers can match them up
+  audioData: WorkerAudioData
+  genreProfile?: GenreProfileId
 }
 
-interface KeyWorkerResponse {
-  type: 'KEY_RESULT' | 'KEY_ERROR'
+export interface KeyWorkerResponse {
+  type: 'KEY_RESULT' | 'KEY_SEGMENTS_RESULT' | 'KEY_ERROR' | 'KEY_PROGRESS'
+  id?: number
   result?: KeyResult
+  segments?: KeySegment[]
+  progress?: number // 0-100, sent with KEY_PROGRESS
   error?: string
 }
 
@@ -23,39 +25,37 @@ let keyDetector: KeyDetector | null = null
 
 // Handle messages from main thread
 self.onmessage = async (event: MessageEvent<KeyWorkerMessage>) => {
-  const { type, audioData } = event.data
+  const { type, id, audioData, genreProfile } = event.data
 
-  if (type === 'DETECT_KEY') {
+  if (type === 'DETECT_KEY' || type === 'DETECT_KEY_SEGMENTS') {
     try {
       // Reconstruct AudioBuffer-like object from transferred data
-      const audioBuffer = {
-        sampleRate: audioData.sampleRate,
-        length: audioData.length,
-        numberOfChannels: audioData.numberOfChannels,
-        getChannelData: (channel: number) => audioData.channelData[channel]
-      } as AudioBuffer
+      const audioBuffer = fromWorkerAudioData(audioData)
 
       // Create or reuse key detector
       if (!keyDetector) {
         keyDetector = new KeyDetector(audioData.sampleRate)
       }
-      
-      const result = await keyDetector.detectKey(audioBuffer)
 
-      // Send result back to main thread
-      const response: KeyWorkerResponse = {
-        type: 'KEY_RESULT',
-        result
+      const onProgress = (progress: number) => {
+        const response: KeyWorkerResponse = { type: 'KEY_PROGRESS', id, progress }
+        self.postMessage(response)
       }
-      
+
+      // Send result back to main thread
+      const response: KeyWorkerResponse = type === 'DETECT_KEY'
+        ? { type: 'KEY_RESULT', id, result: await keyDetector.detectKey(audioBuffer, { onProgress, genreProfile }) }
+        : { type: 'KEY_SEGMENTS_RESULT', id, segments: await keyDetector.detectKeySegments(audioBuffer, { onProgress, genreProfile }) }
+
       self.postMessage(response)
     } catch (error) {
       // Send error back to main thread
       const response: KeyWorkerResponse = {
         type: 'KEY_ERROR',
+        id,
         error: error instanceof Error ? error.message : 'Unknown error occurred'
       }
-      
+
       self.postMessage(response)
     }
   }
@@ -0,0 +1,39 @@
+// Web Worker that reads the tempo and chroma of live input, so listening does not stall the UI
+
+import { readLiveWindow } from '../utils/liveAnalysis'
+import type { LiveSnapshot, LiveWindow } from '../utils/liveAnalysis'
+
+export interface LiveWorkerMessage {
+  type: 'READ_LIVE_WINDOW'
+  id?: number // Echoed in every response so callers can match them up
+  snapshot: LiveSnapshot
+}
+
+export interface LiveWorkerResponse {
+  type: 'LIVE_RESULT' | 'LIVE_ERROR' | 'LIVE_PROGRESS'
+  id?: number
+  result?: LiveWindow
+  error?: string
+}
+
+// Worker message handler
+self.onmessage = (event: MessageEvent<LiveWorkerMessage>) => {
+  const { type, id, snapshot } = event.data
+
+  if (type === 'READ_LIVE_WINDOW') {
+    try {
+      const response: LiveWorkerResponse = { type: 'LIVE_RESULT', id, result: readLiveWindow(snapshot) }
+      self.postMessage(response)
+    } catch (error) {
+      const response: LiveWorkerResponse = {
+        type: 'LIVE_ERROR',
+        id,
+        error: error instanceof Error ? error.message : 'Unknown live analysis error'
+      }
+      self.postMessage(response)
+    }
+  }
+}
+
+// Export empty object to make this a module
+export {}
@@ -20,6 +20,9 @@ export default defineConfig({
         ]
       : []),
   ],
+  worker: {
+    format: 'es', // Analysis workers are module workers
+  },
   build: {
     sourcemap: true, // Enable source maps for Sentry
   },
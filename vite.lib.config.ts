@@ -0,0 +1,22 @@
+import { defineConfig } from 'vite'
+
+// Library build of the analysis engine (src/lib), without the React app or its plugins
+export default defineConfig({
+  publicDir: false,
+  worker: {
+    format: 'es', // Analysis workers are module workers
+  },
+  build: {
+    outDir: 'dist/lib',
+    sourcemap: true,
+    lib: {
+      entry: 'src/lib/index.ts',
+      formats: ['es'],
+      fileName: 'index',
+    },
+    rollupOptions: {
+      // Left to the consuming app to install and bundle
+      external: ['essentia.js'],
+    },
+  },
+})